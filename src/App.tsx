@@ -32,9 +32,21 @@ const TransactionList = React.lazy(() =>
 const ReportsPage = React.lazy(() =>
   import("./components/reports/ReportsPage").then(module => ({ default: module.ReportsPage }))
 );
+const RecurringTransactionsPage = React.lazy(() =>
+  import("./components/recurring/RecurringTransactionsPage").then(module => ({ default: module.RecurringTransactionsPage }))
+);
+const BudgetsPage = React.lazy(() =>
+  import("./components/budgets/BudgetsPage").then(module => ({ default: module.BudgetsPage }))
+);
 const SavingsGoalsPage = React.lazy(() =>
   import("./components/savings/SavingsGoalsPage").then(module => ({ default: module.SavingsGoalsPage }))
 );
+const NetWorthPage = React.lazy(() =>
+  import("./components/netWorth/NetWorthPage").then(module => ({ default: module.NetWorthPage }))
+);
+const DebtsPage = React.lazy(() =>
+  import("./components/debts/DebtsPage").then(module => ({ default: module.DebtsPage }))
+);
 const InsightsPage = React.lazy(() =>
   import("./components/insights/InsightsPage").then(module => ({ default: module.InsightsPage }))
 );
@@ -150,6 +162,16 @@ const AppRoutes = () => {
           </ProtectedRoute>
         } 
       />
+      <Route
+        path="/recurring"
+        element={
+          <ProtectedRoute>
+            <Suspense fallback={<LoadingSpinner size="lg" />}>
+              <RecurringTransactionsPage />
+            </Suspense>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/reports"
         element={
@@ -160,6 +182,16 @@ const AppRoutes = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/budgets"
+        element={
+          <ProtectedRoute>
+            <Suspense fallback={<LoadingSpinner size="lg" />}>
+              <BudgetsPage />
+            </Suspense>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/goals"
         element={
@@ -170,6 +202,26 @@ const AppRoutes = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/net-worth"
+        element={
+          <ProtectedRoute>
+            <Suspense fallback={<LoadingSpinner size="lg" />}>
+              <NetWorthPage />
+            </Suspense>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/debts"
+        element={
+          <ProtectedRoute>
+            <Suspense fallback={<LoadingSpinner size="lg" />}>
+              <DebtsPage />
+            </Suspense>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/insights"
         element={
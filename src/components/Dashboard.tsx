@@ -8,13 +8,15 @@ import {
   TrendingDown,
   Receipt,
   ArrowUpRight,
-  Plus
+  Plus,
+  Landmark
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { StatsCard } from './StatsCard';
 import { RecentTransactions } from './RecentTransactions';
 import { CategoryChart } from './CategoryChart';
 import { InsightsDashboard } from './insights/InsightsDashboard';
+import { AccountBalances } from './accounts/AccountBalances';
 import { TransactionForm } from './transactions/TransactionForm';
 import { MobileTransactionForm } from './transactions/MobileTransactionForm';
 import { useDashboardStats } from '@/hooks/useDashboardStats';
@@ -74,7 +76,7 @@ export const Dashboard = () => {
 
         {/* Clean Financial Overview Cards */}
         <div className="mb-10 lg:mb-14">
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 lg:gap-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-3 sm:gap-4 lg:gap-6">
             <StatsCard
               title="Total Balance"
               value={formatCurrency(stats.totalBalance)}
@@ -110,9 +112,23 @@ export const Dashboard = () => {
               trend="up"
               className="bg-white border border-gray-200 shadow-sm hover:shadow-md transition-shadow"
             />
+
+            <StatsCard
+              title="Net Worth"
+              value={formatCurrency(stats.netWorth)}
+              change={stats.netWorthChange}
+              icon={Landmark}
+              trend={stats.netWorthChange < 0 ? 'down' : 'up'}
+              className="bg-white border border-gray-200 shadow-sm hover:shadow-md transition-shadow"
+            />
           </div>
         </div>
 
+        {/* Per-account Balances */}
+        <div className="mb-10 lg:mb-14">
+          <AccountBalances balances={stats.accountBalances} />
+        </div>
+
         {/* Clean Insights Dashboard */}
         <div className="mb-10 lg:mb-14">
           <InsightsDashboard />
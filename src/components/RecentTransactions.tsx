@@ -3,8 +3,9 @@ import React from 'react';
 import { Transaction } from '@/types';
 import { useCategories } from '@/hooks/useCategories';
 import { useCurrencyFormatter } from '@/hooks/useCurrency';
-import { ArrowUpRight, ArrowDownRight } from 'lucide-react';
+import { ArrowUpRight, ArrowDownRight, ArrowLeftRight } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { isSplitTransaction } from '@/utils/transactionSplits';
 
 interface RecentTransactionsProps {
   transactions: Transaction[];
@@ -43,8 +44,11 @@ export const RecentTransactions: React.FC<RecentTransactionsProps> = ({ transact
   return (
     <div className="space-y-2 sm:space-y-3">
       {transactions.map((transaction) => {
-        const category = getCategoryInfo(transaction.category_id);
         const isIncome = transaction.type === 'income';
+        const isTransfer = transaction.type === 'transfer';
+        const category = isTransfer
+          ? { name: 'Transfer', color: '#3b82f6' }
+          : getCategoryInfo(transaction.category_id);
         
         return (
           <div
@@ -56,7 +60,9 @@ export const RecentTransactions: React.FC<RecentTransactionsProps> = ({ transact
                 className="w-8 h-8 sm:w-10 sm:h-10 rounded-full flex items-center justify-center text-white text-sm font-medium flex-shrink-0"
                 style={{ backgroundColor: category.color }}
               >
-                {isIncome ? (
+                {isTransfer ? (
+                  <ArrowLeftRight className="w-3 h-3 sm:w-4 sm:h-4" />
+                ) : isIncome ? (
                   <ArrowUpRight className="w-3 h-3 sm:w-4 sm:h-4" />
                 ) : (
                   <ArrowDownRight className="w-3 h-3 sm:w-4 sm:h-4" />
@@ -67,7 +73,9 @@ export const RecentTransactions: React.FC<RecentTransactionsProps> = ({ transact
                   {transaction.description}
                 </p>
                 <p className="text-xs text-gray-500 truncate">
-                  <span className="hidden sm:inline">{category.name} • </span>
+                  <span className="hidden sm:inline">
+                    {isSplitTransaction(transaction) ? `Split across ${transaction.splits!.length} categories` : category.name} •{' '}
+                  </span>
                   {formatDate(transaction.date)}
                 </p>
               </div>
@@ -75,9 +83,9 @@ export const RecentTransactions: React.FC<RecentTransactionsProps> = ({ transact
             <div className="text-right flex-shrink-0">
               <p className={cn(
                 "font-semibold text-xs sm:text-sm",
-                isIncome ? "text-finance-green-600" : "text-red-600"
+                isTransfer ? "text-blue-600" : isIncome ? "text-finance-green-600" : "text-red-600"
               )}>
-                {isIncome ? '+' : '-'}{formatCurrency(transaction.amount)}
+                {isTransfer ? '' : isIncome ? '+' : '-'}{formatCurrency(transaction.amount)}
               </p>
             </div>
           </div>
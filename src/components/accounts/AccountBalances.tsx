@@ -0,0 +1,122 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Wallet, Banknote, Landmark, Smartphone, CreditCard, HandCoins, Pencil, Archive, Plus, Users } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { AccountForm } from './AccountForm';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useAuth } from '@/hooks/useAuth';
+import { useHousehold } from '@/hooks/useHousehold';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { AccountBalance, AccountType } from '@/types';
+import { ACCOUNT_TYPE_LABELS, isLiabilityAccount } from '@/utils/accountBalances';
+
+const ACCOUNT_TYPE_ICONS: Record<AccountType, LucideIcon> = {
+  cash: Banknote,
+  bank: Landmark,
+  e_wallet: Smartphone,
+  credit_card: CreditCard,
+  loan: HandCoins,
+};
+
+interface AccountBalancesProps {
+  balances: AccountBalance[];
+}
+
+export const AccountBalances = ({ balances }: AccountBalancesProps) => {
+  const { user } = useAuth();
+  const { updateAccount } = useAccounts();
+  const { canEditShared } = useHousehold();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between pb-4 pt-6 px-6">
+        <CardTitle className="text-xl sm:text-2xl font-bold flex items-center gap-3 text-gray-900">
+          <div className="bg-finance-green-100 p-2 rounded-lg">
+            <Wallet className="w-5 h-5 text-finance-green-600" />
+          </div>
+          <span>Accounts</span>
+        </CardTitle>
+        <AccountForm
+          trigger={
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-finance-green-600 border-finance-green-200 hover:bg-finance-green-50"
+            >
+              <Plus className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+              <span className="hidden sm:inline">Add Account</span>
+              <span className="sm:hidden">Add</span>
+            </Button>
+          }
+        />
+      </CardHeader>
+      <CardContent className="px-6 pb-6">
+        {balances.length === 0 ? (
+          <div className="py-8 text-center text-gray-500">
+            <Wallet className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+            <p className="text-sm sm:text-base text-gray-900">No accounts yet</p>
+            <p className="text-xs sm:text-sm text-gray-500 mt-1">Add your wallets, bank accounts and cards to track balances</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {balances.map(({ account, balance }) => {
+              const Icon = ACCOUNT_TYPE_ICONS[account.type];
+              const canEdit = account.user_id === user?.id || canEditShared;
+              return (
+                <div key={account.id} className="flex items-center justify-between p-4 rounded-lg border border-gray-200">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div className="bg-gray-100 p-2 rounded-lg">
+                      <Icon className="w-4 h-4 text-gray-600" />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{account.name}</p>
+                      <div className="flex items-center gap-1">
+                        <span className="text-xs text-gray-500">{ACCOUNT_TYPE_LABELS[account.type]}</span>
+                        {account.household_id && (
+                          <Badge variant="outline" className="text-xs gap-1">
+                            <Users className="w-3 h-3" />
+                            Shared
+                          </Badge>
+                        )}
+                        {account.is_archived && <Badge variant="secondary" className="text-xs">Archived</Badge>}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <p className={`font-semibold mr-1 ${balance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      {formatCurrency(balance)}
+                    </p>
+                    {canEdit && (
+                      <AccountForm
+                        account={account}
+                        isEdit
+                        trigger={
+                          <Button variant="ghost" size="sm" aria-label={`Edit ${account.name}`}>
+                            <Pencil className="w-3 h-3" />
+                          </Button>
+                        }
+                      />
+                    )}
+                    {canEdit && !account.is_archived && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label={`Archive ${account.name}`}
+                        title={isLiabilityAccount(account.type) ? 'Archive once paid off' : 'Archive account'}
+                        onClick={() => updateAccount({ id: account.id, is_archived: true })}
+                      >
+                        <Archive className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Wallet, Plus } from 'lucide-react';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useAuth } from '@/hooks/useAuth';
+import { useHousehold } from '@/hooks/useHousehold';
+import { Account, AccountType } from '@/types';
+import { ACCOUNT_TYPE_LABELS, isLiabilityAccount } from '@/utils/accountBalances';
+
+interface AccountFormProps {
+  trigger?: React.ReactNode;
+  account?: Account;
+  isEdit?: boolean;
+}
+
+/**
+ * AccountForm component for creating and editing wallets, bank accounts, cards and loans
+ */
+export const AccountForm = ({ trigger, account, isEdit = false }: AccountFormProps) => {
+  const [open, setOpen] = useState(false);
+  const [formData, setFormData] = useState({
+    name: account?.name || '',
+    type: account?.type || 'cash' as AccountType,
+    opening_balance: account?.opening_balance?.toString() || '',
+    shared: !!account?.household_id,
+  });
+
+  const { user } = useAuth();
+  const { createAccount, updateAccount, isCreating, isUpdating } = useAccounts();
+  const { household, canEditShared, setAccountSharing } = useHousehold();
+
+  // Only the account's owner can share it or make it private again
+  const canShare = !!household && canEditShared && (!account || account.user_id === user?.id);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const accountData = {
+      name: formData.name,
+      type: formData.type,
+      opening_balance: parseFloat(formData.opening_balance) || 0,
+    };
+
+    if (isEdit && account) {
+      updateAccount({ id: account.id, ...accountData });
+      if (canShare && formData.shared !== !!account.household_id) {
+        setAccountSharing({ accountId: account.id, shared: formData.shared });
+      }
+    } else {
+      createAccount(accountData, {
+        onSuccess: (created) => {
+          if (canShare && formData.shared && created) {
+            setAccountSharing({ accountId: created.id, shared: true });
+          }
+        },
+      });
+    }
+
+    setOpen(false);
+    if (!isEdit) {
+      setFormData({ name: '', type: 'cash', opening_balance: '', shared: false });
+    }
+  };
+
+  const defaultTrigger = (
+    <Button variant="outline" size="sm">
+      <Plus className="w-4 h-4 mr-2" />
+      {isEdit ? 'Edit Account' : 'New Account'}
+    </Button>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger || defaultTrigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            {isEdit ? 'Edit Account' : 'Add New Account'}
+          </DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="account-name">Account Name</Label>
+            <Input
+              id="account-name"
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="BPI Savings"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="account-type">Account Type</Label>
+            <Select
+              value={formData.type}
+              onValueChange={(value) => setFormData({ ...formData, type: value as AccountType })}
+            >
+              <SelectTrigger id="account-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map(type => (
+                  <SelectItem key={type} value={type}>
+                    {ACCOUNT_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="opening-balance">Opening Balance</Label>
+            <Input
+              id="opening-balance"
+              type="number"
+              step="0.01"
+              value={formData.opening_balance}
+              onChange={(e) => setFormData({ ...formData, opening_balance: e.target.value })}
+              placeholder="0.00"
+            />
+            {isLiabilityAccount(formData.type) && (
+              <p className="text-xs text-gray-500">
+                Enter the amount you owe as a negative number.
+              </p>
+            )}
+          </div>
+
+          {canShare && household && (
+            <div className="flex items-start justify-between gap-4 rounded-lg border p-3">
+              <div>
+                <Label htmlFor="account-shared">Share with {household.name}</Label>
+                <p className="text-xs text-gray-500">
+                  Members see this account and all of its transactions. Editors can add to it.
+                </p>
+              </div>
+              <Switch
+                id="account-shared"
+                checked={formData.shared}
+                onCheckedChange={(checked) => setFormData({ ...formData, shared: checked })}
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isCreating || isUpdating}>
+              {isEdit
+                ? (isUpdating ? 'Updating...' : 'Update Account')
+                : (isCreating ? 'Creating...' : 'Create Account')
+              }
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Wallet } from 'lucide-react';
+import { useBudgets } from '@/hooks/useBudgets';
+import { useCategories } from '@/hooks/useCategories';
+import { useHousehold } from '@/hooks/useHousehold';
+import { useToast } from '@/hooks/use-toast';
+import { Budget, BudgetPeriodType } from '@/types';
+import { BUDGET_PERIOD_LABELS } from '@/utils/budgetPeriods';
+
+const NONE = '__none__';
+
+interface BudgetFormProps {
+  trigger?: React.ReactNode;
+  budget?: Budget;
+  isEdit?: boolean;
+}
+
+const firstOfMonth = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1)).toISOString().split('T')[0];
+};
+
+/**
+ * BudgetForm creates and edits a spending budget for one expense category, or for all
+ * expenses when no category is picked
+ */
+export const BudgetForm = ({ trigger, budget, isEdit = false }: BudgetFormProps) => {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const { createBudget, updateBudget, isCreating, isUpdating } = useBudgets();
+  const { categories } = useCategories();
+  const { household, canEditShared } = useHousehold();
+
+  const initialFormData = () => ({
+    category_id: budget?.category_id || NONE,
+    amount: budget?.amount?.toString() || '',
+    period: budget?.period || 'monthly' as BudgetPeriodType,
+    start_date: budget?.start_date || firstOfMonth(),
+    end_date: budget?.end_date || '',
+    rollover: budget?.rollover ?? false,
+    shared: !!budget?.household_id,
+  });
+
+  const [formData, setFormData] = useState(initialFormData);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setFormData(initialFormData());
+    }
+    setOpen(nextOpen);
+  };
+
+  const expenseCategories = categories.filter(category => category.type === 'expense');
+  const scheduleChanged = isEdit && !!budget && (
+    formData.period !== budget.period || formData.start_date !== budget.start_date
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseFloat(formData.amount);
+    const validationErrors: string[] = [];
+
+    if (!formData.amount || isNaN(amount) || amount <= 0) {
+      validationErrors.push("Budget amount must be greater than 0.");
+    }
+    if (!formData.start_date) {
+      validationErrors.push("Start date is required.");
+    }
+    if (formData.end_date && formData.end_date < formData.start_date) {
+      validationErrors.push("End date cannot be before the start date.");
+    }
+
+    if (validationErrors.length > 0) {
+      toast({
+        title: "Validation Error",
+        description: validationErrors.join(" "),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const budgetData = {
+      category_id: formData.category_id === NONE ? null : formData.category_id,
+      amount,
+      period: formData.period,
+      start_date: formData.start_date,
+      end_date: formData.end_date || undefined,
+      rollover: formData.rollover,
+      household_id: formData.shared && household ? household.id : null,
+    };
+
+    if (isEdit && budget) {
+      updateBudget({ id: budget.id, ...budgetData, end_date: formData.end_date });
+    } else {
+      createBudget(budgetData);
+    }
+
+    setOpen(false);
+  };
+
+  const defaultTrigger = (
+    <Button className="flex items-center space-x-2">
+      <Plus className="w-4 h-4" />
+      <span>{isEdit ? 'Edit' : 'New Budget'}</span>
+    </Button>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger || defaultTrigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            {isEdit ? 'Edit Budget' : 'Create Budget'}
+          </DialogTitle>
+          <DialogDescription>
+            Set a spending limit that resets every week, month or year.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="budget-category">Category</Label>
+            <Select
+              value={formData.category_id}
+              onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+            >
+              <SelectTrigger id="budget-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>All expenses</SelectItem>
+                {expenseCategories.map(category => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="budget-amount">Amount</Label>
+              <Input
+                id="budget-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                placeholder="5000"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-period">Period</Label>
+              <Select
+                value={formData.period}
+                onValueChange={(value) => setFormData({ ...formData, period: value as BudgetPeriodType })}
+              >
+                <SelectTrigger id="budget-period">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BUDGET_PERIOD_LABELS) as BudgetPeriodType[]).map(period => (
+                    <SelectItem key={period} value={period}>
+                      {BUDGET_PERIOD_LABELS[period]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="budget-start">Start date</Label>
+              <Input
+                id="budget-start"
+                type="date"
+                value={formData.start_date}
+                onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-end">End date (Optional)</Label>
+              <Input
+                id="budget-end"
+                type="date"
+                value={formData.end_date}
+                min={formData.start_date}
+                onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Each period starts on the same day as the start date, e.g. every 15th for a monthly budget.
+          </p>
+
+          {scheduleChanged && (
+            <p className="text-xs text-orange-600">
+              Changing the period or start date clears this budget's period history.
+            </p>
+          )}
+
+          <div className="flex items-start justify-between gap-4 rounded-lg border p-3">
+            <div>
+              <Label htmlFor="budget-rollover">Roll over</Label>
+              <p className="text-xs text-gray-500">
+                Add what is left at the end of a period to the next one. Overspending is taken off the next period.
+              </p>
+            </div>
+            <Switch
+              id="budget-rollover"
+              checked={formData.rollover}
+              onCheckedChange={(checked) => setFormData({ ...formData, rollover: checked })}
+            />
+          </div>
+
+          {household && canEditShared && (
+            <div className="flex items-start justify-between gap-4 rounded-lg border p-3">
+              <div>
+                <Label htmlFor="budget-shared">Share with {household.name}</Label>
+                <p className="text-xs text-gray-500">
+                  Every member's spending in shared accounts counts toward a shared budget.
+                </p>
+              </div>
+              <Switch
+                id="budget-shared"
+                checked={formData.shared}
+                onCheckedChange={(checked) => setFormData({ ...formData, shared: checked })}
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isCreating || isUpdating}>
+              {isEdit
+                ? (isUpdating ? 'Updating...' : 'Update Budget')
+                : (isCreating ? 'Creating...' : 'Create Budget')
+              }
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,93 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History } from 'lucide-react';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { Budget, BudgetPeriod } from '@/types';
+import { BudgetPeriodInput } from '@/utils/budgetPeriods';
+
+interface BudgetHistoryDialogProps {
+  budget: Budget;
+  budgetName: string;
+  history: (BudgetPeriod | BudgetPeriodInput)[];
+}
+
+const formatDate = (value: string) => {
+  return new Date(`${value}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+/**
+ * BudgetHistoryDialog lists a budget's finished periods, newest first
+ */
+export const BudgetHistoryDialog = ({ budget, budgetName, history }: BudgetHistoryDialogProps) => {
+  const { standard: formatCurrency } = useCurrencyFormatter();
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex-1">
+          <History className="w-4 h-4 mr-2" />
+          History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            {budgetName} history
+          </DialogTitle>
+          <DialogDescription>
+            Spending in each finished period{budget.rollover ? ', with what was carried between periods' : ''}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {history.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">
+            No finished periods yet. Each period is added here once it ends.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[60vh]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Budgeted</TableHead>
+                  {budget.rollover && <TableHead className="text-right">Carried in</TableHead>}
+                  <TableHead className="text-right">Spent</TableHead>
+                  <TableHead className="text-right">{budget.rollover ? 'Carried over' : 'Left'}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map(period => {
+                  const left = budget.rollover
+                    ? Number(period.carried_over)
+                    : Number(period.budgeted) + Number(period.rollover_in) - Number(period.spent);
+                  return (
+                    <TableRow key={period.period_start}>
+                      <TableCell className="whitespace-nowrap">
+                        {formatDate(period.period_start)} – {formatDate(period.period_end)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(Number(period.budgeted))}</TableCell>
+                      {budget.rollover && (
+                        <TableCell className="text-right">{formatCurrency(Number(period.rollover_in))}</TableCell>
+                      )}
+                      <TableCell className="text-right">{formatCurrency(Number(period.spent))}</TableCell>
+                      <TableCell className={`text-right ${left < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatCurrency(left)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
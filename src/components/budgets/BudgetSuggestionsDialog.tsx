@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Sparkles } from 'lucide-react';
+import { useBudgets } from '@/hooks/useBudgets';
+import { useBudgetSuggestions, useBudgetTemplates } from '@/hooks/useBudgetTemplates';
+import { useCategories } from '@/hooks/useCategories';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { BudgetAmountInput } from '@/types';
+import { SUGGESTION_METHOD_LABELS, SUGGESTION_MONTH_OPTIONS, SuggestionMethod } from '@/utils/budgetSuggestions';
+import { todayIsoDate } from '@/utils/recurrence';
+
+/**
+ * BudgetSuggestionsDialog proposes monthly category budgets from past spending and
+ * creates or updates the ones the user accepts
+ */
+export const BudgetSuggestionsDialog = () => {
+  const [open, setOpen] = useState(false);
+  const [months, setMonths] = useState(6);
+  const [method, setMethod] = useState<SuggestionMethod>('median');
+  const [deselected, setDeselected] = useState<Set<string>>(new Set());
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [templateName, setTemplateName] = useState('');
+  const { suggestions, isLoading } = useBudgetSuggestions(months, method);
+  const { applyBudgets, saveTemplate, isApplying, isSaving } = useBudgetTemplates();
+  const { budgets } = useBudgets();
+  const { categories } = useCategories();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDeselected(new Set());
+      setAmounts({});
+      setTemplateName('');
+    }
+    setOpen(nextOpen);
+  };
+
+  // Edited amounts are tied to the statistic they were edited against
+  const resetEdits = () => setAmounts({});
+
+  const getCategoryName = (categoryId: string) => {
+    return categories.find(c => c.id === categoryId)?.name ?? 'Deleted category';
+  };
+
+  const getCurrentBudget = (categoryId: string) => {
+    const date = todayIsoDate();
+    return budgets.find(budget => budget.category_id === categoryId && (!budget.end_date || budget.end_date >= date));
+  };
+
+  const toggle = (categoryId: string, checked: boolean) => {
+    const next = new Set(deselected);
+    if (checked) {
+      next.delete(categoryId);
+    } else {
+      next.add(categoryId);
+    }
+    setDeselected(next);
+  };
+
+  const selectedItems: BudgetAmountInput[] = suggestions
+    .filter(suggestion => !deselected.has(suggestion.category_id))
+    .map(suggestion => ({
+      category_id: suggestion.category_id,
+      amount: amounts[suggestion.category_id] !== undefined
+        ? parseFloat(amounts[suggestion.category_id])
+        : suggestion.amount,
+      period: 'monthly',
+    }));
+  const hasInvalidAmount = selectedItems.some(item => !(item.amount > 0));
+  const selectedTotal = selectedItems.reduce((sum, item) => sum + (item.amount > 0 ? item.amount : 0), 0);
+
+  const handleAccept = () => {
+    if (selectedItems.length === 0 || hasInvalidAmount) return;
+    applyBudgets(selectedItems, { onSuccess: () => setOpen(false) });
+  };
+
+  const handleSaveTemplate = () => {
+    if (!templateName.trim() || selectedItems.length === 0 || hasInvalidAmount) return;
+    saveTemplate(
+      { name: templateName, description: `Suggested from ${months} months of spending`, items: selectedItems },
+      { onSuccess: () => setTemplateName('') }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center space-x-2">
+          <Sparkles className="w-4 h-4" />
+          <span>Suggest budgets</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="w-5 h-5" />
+            Suggest budgets
+          </DialogTitle>
+          <DialogDescription>
+            Monthly budgets based on what you spent in each category. Adjust the amounts, then accept the ones you want.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="suggestion-months">Look back</Label>
+            <Select
+              value={String(months)}
+              onValueChange={(value) => {
+                setMonths(Number(value));
+                resetEdits();
+              }}
+            >
+              <SelectTrigger id="suggestion-months">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUGGESTION_MONTH_OPTIONS.map(option => (
+                  <SelectItem key={option} value={String(option)}>
+                    Last {option} months
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="suggestion-method">Based on</Label>
+            <Select
+              value={method}
+              onValueChange={(value) => {
+                setMethod(value as SuggestionMethod);
+                resetEdits();
+              }}
+            >
+              <SelectTrigger id="suggestion-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SUGGESTION_METHOD_LABELS) as SuggestionMethod[]).map(option => (
+                  <SelectItem key={option} value={option}>
+                    {SUGGESTION_METHOD_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : suggestions.length === 0 ? (
+          <p className="text-center text-gray-600 py-8">
+            No categorized spending in the last {months} full months to suggest budgets from.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Category</TableHead>
+                <TableHead className="text-right">Current</TableHead>
+                <TableHead className="text-right">Suggested</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suggestions.map(suggestion => {
+                const categoryId = suggestion.category_id;
+                const current = getCurrentBudget(categoryId);
+                const checked = !deselected.has(categoryId);
+
+                return (
+                  <TableRow key={categoryId}>
+                    <TableCell>
+                      <Checkbox
+                        checked={checked}
+                        onCheckedChange={(value) => toggle(categoryId, value === true)}
+                        aria-label={`Accept ${getCategoryName(categoryId)}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-medium">{getCategoryName(categoryId)}</p>
+                      <p className="text-xs text-gray-500">
+                        {suggestion.monthlyTotals.map(total => formatCurrency(total)).join(' · ')}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-right text-gray-600">
+                      {current ? `${formatCurrency(Number(current.amount))} ${current.period}` : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={amounts[categoryId] ?? String(suggestion.amount)}
+                        onChange={(e) => setAmounts({ ...amounts, [categoryId]: e.target.value })}
+                        disabled={!checked}
+                        className="w-28 text-right ml-auto"
+                        aria-label={`Budget for ${getCategoryName(categoryId)}`}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {suggestions.length > 0 && (
+          <div className="space-y-4 pt-2 border-t">
+            <p className="text-sm text-gray-600 pt-2">
+              {selectedItems.length} selected, {formatCurrency(selectedTotal)} a month.
+              Categories that already have a budget are updated; the rest get a new monthly budget starting today.
+            </p>
+
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="suggestion-template-name">Save selection as template (Optional)</Label>
+                <Input
+                  id="suggestion-template-name"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  placeholder="Lean month"
+                />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleSaveTemplate}
+                disabled={!templateName.trim() || selectedItems.length === 0 || hasInvalidAmount || isSaving}
+              >
+                {isSaving ? 'Saving...' : 'Save template'}
+              </Button>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={handleAccept}
+                disabled={selectedItems.length === 0 || hasInvalidAmount || isApplying}
+              >
+                {isApplying ? 'Applying...' : `Accept ${selectedItems.length} selected`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
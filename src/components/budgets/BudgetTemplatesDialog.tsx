@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { LayoutTemplate, Trash2 } from 'lucide-react';
+import { useBudgets } from '@/hooks/useBudgets';
+import { useBudgetTemplates } from '@/hooks/useBudgetTemplates';
+import { useCategories } from '@/hooks/useCategories';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { BudgetAmountInput, BudgetTemplate } from '@/types';
+import { BUDGET_PERIOD_LABELS } from '@/utils/budgetPeriods';
+import { todayIsoDate } from '@/utils/recurrence';
+
+/**
+ * BudgetTemplatesDialog saves the current budgets as a named template and applies
+ * saved templates such as "Lean month" or "Holiday month"
+ */
+export const BudgetTemplatesDialog = () => {
+  const [open, setOpen] = useState(false);
+  const [formData, setFormData] = useState({ name: '', description: '' });
+  const [applyingId, setApplyingId] = useState<string | null>(null);
+  const { templates, isLoading, saveTemplate, deleteTemplate, applyBudgets, isSaving, isDeleting, isApplying } = useBudgetTemplates();
+  const { budgets } = useBudgets();
+  const { categories } = useCategories();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setFormData({ name: '', description: '' });
+    }
+    setOpen(nextOpen);
+  };
+
+  const todayDate = todayIsoDate();
+  const currentItems: BudgetAmountInput[] = budgets
+    .filter(budget => !budget.end_date || budget.end_date >= todayDate)
+    .map(budget => ({ category_id: budget.category_id, amount: Number(budget.amount), period: budget.period }));
+
+  const getCategoryName = (categoryId: string | null) => {
+    if (!categoryId) return 'All expenses';
+    return categories.find(c => c.id === categoryId)?.name ?? 'Deleted category';
+  };
+
+  const describeItems = (template: BudgetTemplate) => {
+    return template.items
+      .map(item => {
+        const period = item.period === 'monthly' ? '' : ` ${BUDGET_PERIOD_LABELS[item.period].toLowerCase()}`;
+        return `${getCategoryName(item.category_id)} ${formatCurrency(Number(item.amount))}${period}`;
+      })
+      .join(', ');
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim() || currentItems.length === 0) return;
+
+    saveTemplate(
+      { name: formData.name, description: formData.description, items: currentItems },
+      { onSuccess: () => setFormData({ name: '', description: '' }) }
+    );
+  };
+
+  const handleApply = (template: BudgetTemplate) => {
+    setApplyingId(template.id);
+    applyBudgets(
+      template.items.map(item => ({ category_id: item.category_id, amount: Number(item.amount), period: item.period })),
+      { onSuccess: () => setOpen(false) }
+    );
+  };
+
+  const replacesExisting = templates.some(template => template.name === formData.name.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center space-x-2">
+          <LayoutTemplate className="w-4 h-4" />
+          <span>Templates</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5" />
+            Budget templates
+          </DialogTitle>
+          <DialogDescription>
+            Applying a template sets each of its categories to the template amount. Budgets for other categories are left alone.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="text-center text-gray-600 py-4">
+            No templates yet. Save your current budgets below to reuse them later.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {templates.map(template => (
+              <div key={template.id} className="border rounded-lg p-3 flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium">{template.name}</p>
+                  {template.description && <p className="text-sm text-gray-600">{template.description}</p>}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {template.items.length} budget{template.items.length === 1 ? '' : 's'}: {describeItems(template)}
+                  </p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button
+                    size="sm"
+                    onClick={() => handleApply(template)}
+                    disabled={isApplying || template.items.length === 0}
+                  >
+                    {isApplying && applyingId === template.id ? 'Applying...' : 'Apply'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    onClick={() => deleteTemplate(template.id)}
+                    disabled={isDeleting}
+                    aria-label={`Delete ${template.name} template`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSave} className="space-y-4 pt-4 border-t">
+          <p className="text-sm font-medium">Save current budgets as a template</p>
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="Holiday month"
+              required
+            />
+            {replacesExisting && (
+              <p className="text-xs text-orange-600">This replaces the budgets saved in "{formData.name.trim()}".</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description (Optional)</Label>
+            <Input
+              id="template-description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              placeholder="More for gifts and travel"
+            />
+          </div>
+          <div className="flex justify-between items-center gap-2">
+            <p className="text-xs text-gray-500">
+              {currentItems.length} current budget{currentItems.length === 1 ? '' : 's'}
+            </p>
+            <Button type="submit" disabled={!formData.name.trim() || currentItems.length === 0 || isSaving}>
+              {isSaving ? 'Saving...' : 'Save template'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,289 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Wallet, Plus, Edit, Trash2, Repeat, Users } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useBudgets } from '@/hooks/useBudgets';
+import { useBudgetUtilization } from '@/hooks/useBudgetPeriods';
+import { useBudgetingMode } from '@/hooks/useEnvelopes';
+import { useCategories } from '@/hooks/useCategories';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { BudgetingMode } from '@/types';
+import { BudgetHealth, BUDGET_PERIOD_LABELS } from '@/utils/budgetPeriods';
+import { BudgetForm } from './BudgetForm';
+import { BudgetHistoryDialog } from './BudgetHistoryDialog';
+import { BudgetSuggestionsDialog } from './BudgetSuggestionsDialog';
+import { BudgetTemplatesDialog } from './BudgetTemplatesDialog';
+import { EnvelopeBudget } from './EnvelopeBudget';
+
+const HEALTH_STYLES: Record<BudgetHealth, { bar: string; text: string }> = {
+  good: { bar: '[&>div]:bg-green-500', text: 'text-green-600' },
+  warning: { bar: '[&>div]:bg-orange-500', text: 'text-orange-600' },
+  over: { bar: '[&>div]:bg-red-500', text: 'text-red-600' },
+};
+
+const formatDate = (value: string) => {
+  return new Date(`${value}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+/**
+ * BudgetsPage shows how much of each budget's current period is used and manages budgets,
+ * or the envelopes when the user budgets with envelopes
+ */
+export const BudgetsPage = () => {
+  const { deleteBudget, isDeleting } = useBudgets();
+  const { utilization, historyByBudget, isLoading } = useBudgetUtilization();
+  const { budgetingMode, isLoading: isLoadingMode, setBudgetingMode, isSaving } = useBudgetingMode();
+  const { categories } = useCategories();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+  const [deletingBudgetId, setDeletingBudgetId] = useState<string | null>(null);
+
+  if (isLoading || isLoadingMode) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const getBudgetName = (categoryId: string | null) => {
+    if (!categoryId) return 'All expenses';
+    return categories.find(c => c.id === categoryId)?.name ?? 'Deleted category';
+  };
+
+  const handleDeleteBudget = (budgetId: string) => {
+    setDeletingBudgetId(budgetId);
+    deleteBudget(budgetId);
+  };
+
+  const active = utilization.filter(item => item.state === 'active');
+  const totals = active.reduce(
+    (sum, item) => ({ available: sum.available + item.available, spent: sum.spent + item.spent }),
+    { available: 0, spent: 0 }
+  );
+
+  return (
+    <div className="container mx-auto py-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Budgets</h1>
+          <p className="text-gray-600 mt-1">
+            {budgetingMode === 'envelope'
+              ? 'Give every bit of income a job'
+              : 'See how much of each budget is left this period'}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          <Select
+            value={budgetingMode}
+            onValueChange={(value) => setBudgetingMode(value as BudgetingMode)}
+            disabled={isSaving}
+          >
+            <SelectTrigger className="w-40" aria-label="Budgeting mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="limits">Spending limits</SelectItem>
+              <SelectItem value="envelope">Envelopes</SelectItem>
+            </SelectContent>
+          </Select>
+          <BudgetSuggestionsDialog />
+          <BudgetTemplatesDialog />
+          <BudgetForm />
+        </div>
+      </div>
+
+      {budgetingMode === 'envelope' && <EnvelopeBudget />}
+
+      {/* Totals */}
+      {budgetingMode === 'limits' && active.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-600">Budgeted this period</p>
+              <p className="text-2xl font-bold">{formatCurrency(totals.available)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-600">Spent</p>
+              <p className="text-2xl font-bold">{formatCurrency(totals.spent)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-600">Left</p>
+              <p className={`text-2xl font-bold ${totals.available - totals.spent < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {formatCurrency(totals.available - totals.spent)}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Budgets Grid */}
+      {budgetingMode === 'envelope' ? null : utilization.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {utilization.map(item => {
+            const { budget, window } = item;
+            const name = getBudgetName(budget.category_id);
+            const styles = HEALTH_STYLES[item.health];
+
+            return (
+              <Card key={budget.id} className="shadow-card hover:shadow-card-hover transition-shadow">
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <Wallet className="w-5 h-5 text-primary shrink-0" />
+                      <CardTitle className="text-lg font-semibold truncate">{name}</CardTitle>
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      {budget.household_id && (
+                        <Badge variant="outline" className="flex items-center gap-1" title="Shared with your household">
+                          <Users className="w-3 h-3" />
+                          Shared
+                        </Badge>
+                      )}
+                      {budget.rollover && (
+                        <Badge variant="outline" className="flex items-center gap-1">
+                          <Repeat className="w-3 h-3" />
+                          Rollover
+                        </Badge>
+                      )}
+                      <Badge variant="secondary">{BUDGET_PERIOD_LABELS[budget.period]}</Badge>
+                    </div>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {item.state === 'upcoming' ? 'Starts ' : item.state === 'ended' ? 'Ended ' : ''}
+                    {item.state === 'upcoming'
+                      ? formatDate(window.start)
+                      : `${formatDate(window.start)} – ${formatDate(window.end)}`}
+                  </p>
+                </CardHeader>
+
+                <CardContent className="space-y-4">
+                  {/* Utilization */}
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-sm font-medium text-gray-700">
+                        {formatCurrency(item.spent)} of {formatCurrency(item.available)}
+                      </span>
+                      <span className={`text-sm font-medium ${styles.text}`}>{item.percentage.toFixed(0)}%</span>
+                    </div>
+                    <Progress value={Math.min(item.percentage, 100)} className={`h-2 ${styles.bar}`} />
+                  </div>
+
+                  <div className="space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Budget</span>
+                      <span>{formatCurrency(item.budgeted)}</span>
+                    </div>
+                    {budget.rollover && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Carried in</span>
+                        <span className={item.rolloverIn < 0 ? 'text-red-600' : undefined}>
+                          {item.rolloverIn > 0 ? '+' : ''}{formatCurrency(item.rolloverIn)}
+                        </span>
+                      </div>
+                    )}
+                    <div className="flex justify-between font-medium">
+                      <span className="text-gray-600">{item.remaining < 0 ? 'Over by' : 'Left'}</span>
+                      <span className={styles.text}>{formatCurrency(Math.abs(item.remaining))}</span>
+                    </div>
+                  </div>
+
+                  {/* Actions */}
+                  <div className="pt-2 border-t">
+                    <div className="flex gap-2">
+                      <BudgetHistoryDialog budget={budget} budgetName={name} history={historyByBudget[budget.id] || []} />
+
+                      <BudgetForm
+                        budget={budget}
+                        isEdit={true}
+                        trigger={
+                          <Button variant="outline" size="sm" className="flex-1">
+                            <Edit className="w-4 h-4 mr-2" />
+                            Edit
+                          </Button>
+                        }
+                      />
+
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            disabled={isDeleting && deletingBudgetId === budget.id}
+                            aria-label="Delete budget"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Budget?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to delete the "{name}" budget? Its period history is removed too. Your transactions are not affected.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleDeleteBudget(budget.id)}
+                              className="bg-red-600 hover:bg-red-700"
+                              disabled={isDeleting}
+                            >
+                              {isDeleting && deletingBudgetId === budget.id ? 'Deleting...' : 'Delete Budget'}
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card className="text-center py-12">
+          <CardContent>
+            <Wallet className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No Budgets Yet</h3>
+            <p className="text-gray-600 mb-6">
+              Set a spending limit for a category and see how much is left as you spend.
+            </p>
+            <BudgetForm
+              trigger={
+                <Button>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create Your First Budget
+                </Button>
+              }
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ChevronLeft, ChevronRight, Mail, Target } from 'lucide-react';
+import { useEnvelopes } from '@/hooks/useEnvelopes';
+import { useBudgets } from '@/hooks/useBudgets';
+import { useCategories } from '@/hooks/useCategories';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { EnvelopeBalance, addMonthsToMonth, getMonthStart, planTargetAssignments } from '@/utils/envelopes';
+import { BudgetForm } from './BudgetForm';
+import { MoveMoneyDialog } from './MoveMoneyDialog';
+import { todayIsoDate } from '@/utils/recurrence';
+
+const NONE = '__none__';
+
+interface AssignedInputProps {
+  value: number;
+  disabled?: boolean;
+  onCommit: (amount: number) => void;
+}
+
+// Saves when the field loses focus or Enter is pressed, not on every keystroke
+const AssignedInput = ({ value, disabled, onCommit }: AssignedInputProps) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const amount = draft.trim() === '' ? 0 : parseFloat(draft);
+    if (isNaN(amount) || amount === value) {
+      setDraft(String(value));
+      return;
+    }
+    onCommit(amount);
+  };
+
+  return (
+    <Input
+      type="number"
+      step="0.01"
+      value={draft}
+      disabled={disabled}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+      className="w-28 text-right ml-auto"
+      aria-label="Assigned this month"
+    />
+  );
+};
+
+const formatMonth = (month: string) => {
+  return new Date(`${month}T00:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+};
+
+/**
+ * EnvelopeBudget is the zero-based view of the budgets page: income is assigned to
+ * category envelopes until nothing is left to assign
+ */
+export const EnvelopeBudget = () => {
+  const [month, setMonth] = useState(() => getMonthStart(todayIsoDate()));
+  const { envelopeMonth, isLoading, assign, moveMoney, isAssigning, isMoving } = useEnvelopes(month);
+  const { updateBudget } = useBudgets();
+  const { categories } = useCategories();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const getName = (envelope: EnvelopeBalance) => {
+    return categories.find(c => c.id === envelope.budget.category_id)?.name ?? 'Deleted category';
+  };
+
+  const envelopes = [...envelopeMonth.envelopes].sort((a, b) => getName(a).localeCompare(getName(b)));
+  const targetPlan = planTargetAssignments({ ...envelopeMonth, envelopes });
+  const { toBeAssigned } = envelopeMonth;
+
+  return (
+    <div className="space-y-6">
+      {/* Month and money left to assign */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setMonth(addMonthsToMonth(month, -1))} aria-label="Previous month">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="font-semibold text-lg w-40 text-center">{formatMonth(month)}</span>
+              <Button variant="ghost" size="sm" onClick={() => setMonth(addMonthsToMonth(month, 1))} aria-label="Next month">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className={`rounded-lg px-4 py-2 text-center ${
+              toBeAssigned === 0 ? 'bg-green-50 text-green-800' : toBeAssigned > 0 ? 'bg-orange-50 text-orange-800' : 'bg-red-50 text-red-800'
+            }`}>
+              <p className="text-2xl font-bold">{formatCurrency(toBeAssigned)}</p>
+              <p className="text-sm">
+                {toBeAssigned === 0 ? 'All income assigned' : toBeAssigned > 0 ? 'To be assigned' : 'Assigned more than you have'}
+              </p>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex items-center space-x-2"
+                onClick={() => assign(targetPlan)}
+                disabled={targetPlan.length === 0 || isAssigning}
+              >
+                <Target className="w-4 h-4" />
+                <span>Assign targets</span>
+              </Button>
+              <MoveMoneyDialog envelopes={envelopes} getName={getName} onMove={moveMoney} isMoving={isMoving} />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-4">
+            {formatCurrency(envelopeMonth.income)} income this month, {formatCurrency(envelopeMonth.assigned)} assigned
+            {envelopeMonth.unbudgeted > 0 && <>, {formatCurrency(envelopeMonth.unbudgeted)} spent outside envelopes</>}.
+            Overspending with no cover envelope and spending outside envelopes come out of to be assigned.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Envelopes */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="w-5 h-5" />
+            Envelopes
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {envelopes.length === 0 ? (
+            <div className="text-center py-8 space-y-4">
+              <p className="text-gray-600">
+                Every category budget is an envelope. Its amount is the monthly target.
+              </p>
+              <BudgetForm />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Envelope</TableHead>
+                  <TableHead className="text-right">Target</TableHead>
+                  <TableHead className="text-right">Assigned</TableHead>
+                  <TableHead className="text-right">Activity</TableHead>
+                  <TableHead className="text-right">Available</TableHead>
+                  <TableHead>When overspent, take from</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {envelopes.map(envelope => {
+                  const { budget } = envelope;
+                  const activity = envelope.moved - envelope.spent;
+                  const coverEnvelope = envelopes.find(e => e.budget.id === budget.cover_from_budget_id);
+
+                  return (
+                    <TableRow key={budget.id}>
+                      <TableCell className="font-medium">{getName(envelope)}</TableCell>
+                      <TableCell className="text-right text-gray-600">{formatCurrency(Number(budget.amount))}</TableCell>
+                      <TableCell className="text-right">
+                        <AssignedInput
+                          value={envelope.assigned}
+                          disabled={isAssigning}
+                          onCommit={(amount) => assign([{ budgetId: budget.id, amount }])}
+                        />
+                      </TableCell>
+                      <TableCell className={`text-right ${activity < 0 ? 'text-gray-900' : 'text-green-600'}`}>
+                        {formatCurrency(activity)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <span className={`font-semibold ${envelope.available > 0 ? 'text-green-600' : 'text-gray-500'}`}>
+                          {formatCurrency(envelope.available)}
+                        </span>
+                        {envelope.covered > 0 && coverEnvelope && (
+                          <p className="text-xs text-orange-600">
+                            {formatCurrency(envelope.covered)} covered by {getName(coverEnvelope)}
+                          </p>
+                        )}
+                        {envelope.uncovered > 0 && (
+                          <p className="text-xs text-red-600">
+                            {formatCurrency(envelope.uncovered)} overspent
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={budget.cover_from_budget_id || NONE}
+                          onValueChange={(value) => updateBudget({
+                            id: budget.id,
+                            cover_from_budget_id: value === NONE ? null : value,
+                          })}
+                        >
+                          <SelectTrigger className="w-44">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NONE}>To be assigned</SelectItem>
+                            {envelopes
+                              .filter(other => other.budget.id !== budget.id)
+                              .map(other => (
+                                <SelectItem key={other.budget.id} value={other.budget.id}>
+                                  {getName(other)}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRightLeft } from 'lucide-react';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { EnvelopeBalance } from '@/utils/envelopes';
+
+interface MoveMoneyDialogProps {
+  envelopes: EnvelopeBalance[];
+  getName: (envelope: EnvelopeBalance) => string;
+  onMove: (transfer: { fromBudgetId: string; toBudgetId: string; amount: number; note?: string }) => void;
+  isMoving?: boolean;
+}
+
+/**
+ * MoveMoneyDialog moves available money from one envelope to another
+ */
+export const MoveMoneyDialog = ({ envelopes, getName, onMove, isMoving = false }: MoveMoneyDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const { standard: formatCurrency } = useCurrencyFormatter();
+  const [formData, setFormData] = useState({ from: '', to: '', amount: '', note: '' });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setFormData({ from: '', to: '', amount: '', note: '' });
+    }
+    setOpen(nextOpen);
+  };
+
+  const source = envelopes.find(envelope => envelope.budget.id === formData.from);
+  const amount = parseFloat(formData.amount);
+  const canSubmit = !!formData.from && !!formData.to && formData.from !== formData.to && amount > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    onMove({ fromBudgetId: formData.from, toBudgetId: formData.to, amount, note: formData.note });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center space-x-2" disabled={envelopes.length < 2}>
+          <ArrowRightLeft className="w-4 h-4" />
+          <span>Move money</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowRightLeft className="w-5 h-5" />
+            Move money
+          </DialogTitle>
+          <DialogDescription>
+            Take money out of one envelope and put it in another for this month.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="move-from">From</Label>
+            <Select value={formData.from} onValueChange={(value) => setFormData({ ...formData, from: value })}>
+              <SelectTrigger id="move-from">
+                <SelectValue placeholder="Select envelope" />
+              </SelectTrigger>
+              <SelectContent>
+                {envelopes.map(envelope => (
+                  <SelectItem key={envelope.budget.id} value={envelope.budget.id}>
+                    {getName(envelope)} ({formatCurrency(envelope.available)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="move-to">To</Label>
+            <Select value={formData.to} onValueChange={(value) => setFormData({ ...formData, to: value })}>
+              <SelectTrigger id="move-to">
+                <SelectValue placeholder="Select envelope" />
+              </SelectTrigger>
+              <SelectContent>
+                {envelopes
+                  .filter(envelope => envelope.budget.id !== formData.from)
+                  .map(envelope => (
+                    <SelectItem key={envelope.budget.id} value={envelope.budget.id}>
+                      {getName(envelope)} ({formatCurrency(envelope.available)})
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="move-amount">Amount</Label>
+            <Input
+              id="move-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={formData.amount}
+              onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+              required
+            />
+            {source && amount > source.available && (
+              <p className="text-xs text-orange-600">
+                This is more than the {formatCurrency(source.available)} available in {getName(source)}.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="move-note">Note (Optional)</Label>
+            <Input
+              id="move-note"
+              value={formData.note}
+              onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+              placeholder="Birthday gift came in over budget"
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit || isMoving}>
+              {isMoving ? 'Moving...' : 'Move'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -3,6 +3,8 @@ import { Button } from '@/components/ui/button';
 import { ArrowLeft } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { CategoryManager } from './CategoryManager';
+import { PayeeManager } from './PayeeManager';
+import { TagManager } from './TagManager';
 
 /**
  * CategoriesPage component displays and manages user's transaction categories
@@ -32,6 +34,10 @@ export const CategoriesPage = () => {
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <CategoryManager />
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+          <PayeeManager />
+          <TagManager />
+        </div>
       </div>
     </div>
   );
@@ -41,12 +41,15 @@ import {
   TrendingUp,
   Palette,
   Tag,
-  Info
+  Info,
+  Wand2
 } from 'lucide-react';
 import { useCategories } from '@/hooks/useCategories';
+import { useCategoryRules } from '@/hooks/useCategoryRules';
 import { Category } from '@/types';
 import { categoryColors, categoryIcons } from '@/data/categories';
 import { cn } from '@/lib/utils';
+import { CategoryRulesManager } from './CategoryRulesManager';
 
 interface CategoryFormData {
   name: string;
@@ -78,6 +81,7 @@ export const CategoryManager: React.FC = () => {
     isUpdating,
     isDeleting
   } = useCategories();
+  const { getCategoryRuleStats } = useCategoryRules();
 
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
@@ -133,6 +137,7 @@ export const CategoryManager: React.FC = () => {
 
   const CategoryCard: React.FC<{ category: Category }> = ({ category }) => {
     const usage = categoryUsage[category.id];
+    const ruleStats = getCategoryRuleStats(category.id);
 
     return (
       <Card className="group hover:shadow-md transition-shadow">
@@ -164,6 +169,12 @@ export const CategoryManager: React.FC = () => {
                       {usage.totalUsage} uses
                     </Badge>
                   )}
+                  {ruleStats.ruleCount > 0 && (
+                    <Badge variant="outline" className="text-xs" title={`${ruleStats.ruleCount} rule(s) assign this category`}>
+                      <Wand2 className="w-3 h-3 mr-1" />
+                      {ruleStats.hitCount} rule hits
+                    </Badge>
+                  )}
                 </div>
               </div>
             </div>
@@ -458,6 +469,9 @@ export const CategoryManager: React.FC = () => {
         </TabsContent>
       </Tabs>
 
+      {/* Auto-categorization Rules */}
+      <CategoryRulesManager />
+
       {/* Edit Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent>
@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Wand2 } from 'lucide-react';
+import { useCategoryRules } from '@/hooks/useCategoryRules';
+import { useCategories } from '@/hooks/useCategories';
+import { useSavingsGoals } from '@/hooks/useSavingsGoals';
+import { useTransactions } from '@/hooks/useTransactions';
+import { CategoryRule, CategoryRuleMatchType, TransactionType } from '@/types';
+import { MAX_RULE_PATTERN_LENGTH, matchesRule, validateCategoryRule } from '@/utils/categoryRules';
+
+const NONE = '__none__';
+const ANY = 'any';
+
+interface CategoryRuleFormProps {
+  trigger?: React.ReactNode;
+  rule?: CategoryRule;
+  isEdit?: boolean;
+}
+
+const parseAmount = (value: string) => (value === '' ? null : Number(value));
+
+/**
+ * CategoryRuleForm creates and edits auto-categorization rules, showing how many
+ * loaded transactions the rule would match while it is being written
+ */
+export const CategoryRuleForm = ({ trigger, rule, isEdit = false }: CategoryRuleFormProps) => {
+  const [open, setOpen] = useState(false);
+  const { rules, createRule, updateRule, isCreating, isUpdating } = useCategoryRules();
+  const { categories } = useCategories();
+  const { savingsGoals } = useSavingsGoals();
+  const { transactions } = useTransactions();
+
+  const initialFormData = () => ({
+    name: rule?.name || '',
+    match_type: rule?.match_type || 'contains' as CategoryRuleMatchType,
+    pattern: rule?.pattern || '',
+    transaction_type: rule?.transaction_type || ANY,
+    min_amount: rule?.min_amount?.toString() || '',
+    max_amount: rule?.max_amount?.toString() || '',
+    category_id: rule?.category_id || '',
+    savings_goal_id: rule?.savings_goal_id || '',
+    is_active: rule?.is_active ?? true,
+  });
+
+  const [formData, setFormData] = useState(initialFormData);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setFormData(initialFormData());
+    }
+    setOpen(nextOpen);
+  };
+
+  const transactionType = formData.transaction_type === ANY ? null : formData.transaction_type as TransactionType;
+  const showCategory = transactionType !== 'transfer';
+  const showSavingsGoal = !transactionType || transactionType === 'transfer';
+
+  const ruleData = {
+    name: formData.name,
+    match_type: formData.match_type,
+    pattern: formData.pattern,
+    transaction_type: transactionType,
+    min_amount: parseAmount(formData.min_amount),
+    max_amount: parseAmount(formData.max_amount),
+    category_id: showCategory ? formData.category_id || null : null,
+    savings_goal_id: showSavingsGoal ? formData.savings_goal_id || null : null,
+    is_active: formData.is_active,
+    // New rules run after the existing ones
+    priority: rule?.priority ?? rules.reduce((max, r) => Math.max(max, r.priority + 1), 0),
+  };
+
+  const validationError = validateCategoryRule(ruleData, categories);
+  const matchCount = formData.pattern.trim() && !validationError
+    ? transactions.filter(t => matchesRule({ ...ruleData, id: '', user_id: '', hit_count: 0, is_active: true }, t)).length
+    : 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (isEdit && rule) {
+      updateRule({ id: rule.id, ...ruleData });
+    } else {
+      createRule(ruleData);
+    }
+
+    setOpen(false);
+  };
+
+  const defaultTrigger = (
+    <Button variant="outline" className="flex items-center space-x-2">
+      <Plus className="w-4 h-4" />
+      <span>{isEdit ? 'Edit' : 'Add Rule'}</span>
+    </Button>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger || defaultTrigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="w-5 h-5" />
+            {isEdit ? 'Edit Rule' : 'New Categorization Rule'}
+          </DialogTitle>
+          <DialogDescription>
+            Transactions whose description matches get the category or savings goal below.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Rule name</Label>
+            <Input
+              id="rule-name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="Groceries at SM"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-match-type">Match</Label>
+              <Select
+                value={formData.match_type}
+                onValueChange={(value) => setFormData({ ...formData, match_type: value as CategoryRuleMatchType })}
+              >
+                <SelectTrigger id="rule-match-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="contains">Contains</SelectItem>
+                  <SelectItem value="regex">Regex</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="rule-pattern">Description text</Label>
+              <Input
+                id="rule-pattern"
+                value={formData.pattern}
+                maxLength={MAX_RULE_PATTERN_LENGTH}
+                onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
+                placeholder={formData.match_type === 'regex' ? '^SM (super|hyper)market' : 'SM Supermarket'}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-type">Type</Label>
+              <Select
+                value={formData.transaction_type}
+                onValueChange={(value) => setFormData({ ...formData, transaction_type: value, category_id: '' })}
+              >
+                <SelectTrigger id="rule-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  <SelectItem value="expense">Expense</SelectItem>
+                  <SelectItem value="income">Income</SelectItem>
+                  <SelectItem value="transfer">Transfer</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-min">Min amount</Label>
+              <Input
+                id="rule-min"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.min_amount}
+                onChange={(e) => setFormData({ ...formData, min_amount: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-max">Max amount</Label>
+              <Input
+                id="rule-max"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.max_amount}
+                onChange={(e) => setFormData({ ...formData, max_amount: e.target.value })}
+              />
+            </div>
+          </div>
+
+          {showCategory && (
+            <div className="space-y-2">
+              <Label htmlFor="rule-category">Category</Label>
+              <Select
+                value={formData.category_id || NONE}
+                onValueChange={(value) => setFormData({ ...formData, category_id: value === NONE ? '' : value })}
+              >
+                <SelectTrigger id="rule-category">
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No category</SelectItem>
+                  {categories
+                    .filter(cat => !transactionType || cat.type === transactionType)
+                    .map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {showSavingsGoal && (
+            <div className="space-y-2">
+              <Label htmlFor="rule-goal">Savings goal (transfers only)</Label>
+              <Select
+                value={formData.savings_goal_id || NONE}
+                onValueChange={(value) => setFormData({ ...formData, savings_goal_id: value === NONE ? '' : value })}
+              >
+                <SelectTrigger id="rule-goal">
+                  <SelectValue placeholder="Select a savings goal" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No savings goal</SelectItem>
+                  {savingsGoals.map((goal) => (
+                    <SelectItem key={goal.id} value={goal.id}>
+                      {goal.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="rule-active">Active</Label>
+            <Switch
+              id="rule-active"
+              checked={formData.is_active}
+              onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+            />
+          </div>
+
+          {formData.pattern.trim() && (
+            <p className={`text-sm ${validationError ? 'text-red-600' : 'text-gray-500'}`}>
+              {validationError || `Matches ${matchCount} of your recent transactions.`}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!!validationError || isCreating || isUpdating}>
+              {isEdit ? 'Save Rule' : 'Create Rule'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { ArrowDown, ArrowUp, Edit, Loader2, Play, Trash2, Wand2 } from 'lucide-react';
+import { useCategoryRules } from '@/hooks/useCategoryRules';
+import { useCategories } from '@/hooks/useCategories';
+import { useSavingsGoals } from '@/hooks/useSavingsGoals';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { CategoryRule } from '@/types';
+import { sortRules } from '@/utils/categoryRules';
+import { CategoryRuleForm } from './CategoryRuleForm';
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+/**
+ * CategoryRulesManager lists the user's auto-categorization rules in the order they run,
+ * with how often each one has fired, and applies them to existing transactions on demand
+ */
+export const CategoryRulesManager = () => {
+  const { rules, updateRule, deleteRule, applyRules, isApplying } = useCategoryRules();
+  const { categories } = useCategories();
+  const { savingsGoals } = useSavingsGoals();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+  const [overwrite, setOverwrite] = useState(false);
+
+  const orderedRules = sortRules(rules);
+  const totalHits = rules.reduce((sum, rule) => sum + rule.hit_count, 0);
+
+  // Swap priorities with the neighbouring rule
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const rule = orderedRules[index];
+    const neighbour = orderedRules[index + direction];
+    if (!neighbour) return;
+
+    const rulePriority = neighbour.priority === rule.priority ? rule.priority + direction : neighbour.priority;
+    updateRule({ id: rule.id, priority: rulePriority });
+    updateRule({ id: neighbour.id, priority: rule.priority });
+  };
+
+  const describeConditions = (rule: CategoryRule) => {
+    const parts = [
+      rule.match_type === 'regex' ? `matches /${rule.pattern}/` : `contains "${rule.pattern}"`,
+    ];
+    if (rule.transaction_type) parts.push(`${rule.transaction_type} only`);
+    if (rule.min_amount != null && rule.max_amount != null) {
+      parts.push(`${formatCurrency(rule.min_amount)} – ${formatCurrency(rule.max_amount)}`);
+    } else if (rule.min_amount != null) {
+      parts.push(`at least ${formatCurrency(rule.min_amount)}`);
+    } else if (rule.max_amount != null) {
+      parts.push(`up to ${formatCurrency(rule.max_amount)}`);
+    }
+    return parts.join(', ');
+  };
+
+  const describeTarget = (rule: CategoryRule) => {
+    const category = categories.find(c => c.id === rule.category_id);
+    const goal = savingsGoals.find(g => g.id === rule.savings_goal_id);
+    return [category?.name, goal && `${goal.name} (transfers)`].filter(Boolean).join(' / ');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Wand2 className="w-5 h-5" />
+            Auto-categorization Rules
+          </CardTitle>
+          <p className="text-sm text-gray-500 mt-1">
+            Rules run top to bottom on new transactions and imports; the first match wins.
+            {totalHits > 0 && ` ${totalHits} transaction${totalHits === 1 ? '' : 's'} categorized so far.`}
+          </p>
+        </div>
+        <CategoryRuleForm />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {orderedRules.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No rules yet. Add one to stop assigning the same merchant to the same category by hand.
+          </p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {orderedRules.map((rule, index) => (
+              <div key={rule.id} className="flex items-center gap-3 p-3">
+                <div className="flex flex-col">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    disabled={index === 0}
+                    onClick={() => moveRule(index, -1)}
+                    aria-label="Move rule up"
+                  >
+                    <ArrowUp className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    disabled={index === orderedRules.length - 1}
+                    onClick={() => moveRule(index, 1)}
+                    aria-label="Move rule down"
+                  >
+                    <ArrowDown className="w-3 h-3" />
+                  </Button>
+                </div>
+
+                <div className={`flex-1 min-w-0 ${rule.is_active ? '' : 'opacity-50'}`}>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900 truncate">{rule.name}</span>
+                    <Badge variant="outline" className="text-xs">
+                      {rule.hit_count} hit{rule.hit_count === 1 ? '' : 's'}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-gray-500 truncate">
+                    {describeConditions(rule)} → {describeTarget(rule) || 'nothing'}
+                  </p>
+                  {rule.last_matched_at && (
+                    <p className="text-xs text-gray-400">Last matched {formatDate(rule.last_matched_at)}</p>
+                  )}
+                </div>
+
+                <Switch
+                  checked={rule.is_active}
+                  onCheckedChange={(checked) => updateRule({ id: rule.id, is_active: checked })}
+                  aria-label={rule.is_active ? 'Pause rule' : 'Resume rule'}
+                />
+                <CategoryRuleForm
+                  rule={rule}
+                  isEdit
+                  trigger={
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" aria-label="Edit rule">
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                  }
+                />
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                      aria-label="Delete rule"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete rule</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Delete "{rule.name}"? Transactions it already categorized keep their category.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => deleteRule(rule.id)} className="bg-red-600 hover:bg-red-700">
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {orderedRules.length > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="rules-overwrite"
+                checked={overwrite}
+                onCheckedChange={(checked) => setOverwrite(checked === true)}
+              />
+              <Label htmlFor="rules-overwrite" className="text-sm font-normal">
+                Also replace categories that are already set
+              </Label>
+            </div>
+            <Button variant="outline" onClick={() => applyRules({ overwrite })} disabled={isApplying}>
+              {isApplying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+              Apply to existing transactions
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
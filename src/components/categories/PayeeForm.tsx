@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, Store } from 'lucide-react';
+import { usePayees } from '@/hooks/usePayees';
+import { useTransactions } from '@/hooks/useTransactions';
+import { Payee } from '@/types';
+import { findPayeeForDescription } from '@/utils/payees';
+
+interface PayeeFormProps {
+  trigger?: React.ReactNode;
+  payee?: Payee;
+  isEdit?: boolean;
+  defaultName?: string;
+}
+
+const parseAliases = (input: string) => input.split(',').map(alias => alias.trim()).filter(Boolean);
+
+/**
+ * PayeeForm creates and edits payees and the aliases they go by in bank descriptions,
+ * showing how many loaded transactions the names would pick up
+ */
+export const PayeeForm = ({ trigger, payee, isEdit = false, defaultName = '' }: PayeeFormProps) => {
+  const [open, setOpen] = useState(false);
+  const { createPayee, updatePayee, isCreating, isUpdating } = usePayees();
+  const { transactions } = useTransactions();
+
+  const initialFormData = () => ({
+    name: payee?.name || defaultName,
+    aliases: payee?.aliases.join(', ') || '',
+  });
+
+  const [formData, setFormData] = useState(initialFormData);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setFormData(initialFormData());
+    }
+    setOpen(nextOpen);
+  };
+
+  const draft: Payee = {
+    id: payee?.id || '',
+    user_id: '',
+    name: formData.name.trim(),
+    aliases: parseAliases(formData.aliases),
+  };
+  const matchCount = draft.name
+    ? transactions.filter(t => findPayeeForDescription(t.description, [draft])).length
+    : 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (isEdit && payee) {
+      updatePayee({ id: payee.id, name: draft.name, aliases: draft.aliases });
+    } else {
+      createPayee({ name: draft.name, aliases: draft.aliases });
+    }
+
+    setOpen(false);
+  };
+
+  const defaultTrigger = (
+    <Button variant="outline" className="flex items-center space-x-2">
+      <Plus className="w-4 h-4" />
+      <span>{isEdit ? 'Edit' : 'Add Payee'}</span>
+    </Button>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger || defaultTrigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Store className="w-5 h-5" />
+            {isEdit ? 'Edit Payee' : 'New Payee'}
+          </DialogTitle>
+          <DialogDescription>
+            Transactions whose description contains the name or one of its aliases are linked to this payee.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="payee-name">Name</Label>
+            <Input
+              id="payee-name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="Jollibee"
+              maxLength={100}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payee-aliases">Aliases</Label>
+            <Input
+              id="payee-aliases"
+              value={formData.aliases}
+              onChange={(e) => setFormData({ ...formData, aliases: e.target.value })}
+              placeholder="JFC, JOLLIBEE FOODS"
+            />
+            <p className="text-xs text-gray-500">
+              Separate aliases with commas. Matches {matchCount} of your loaded transaction{matchCount === 1 ? '' : 's'}.
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!draft.name || isCreating || isUpdating}>
+              {isEdit ? 'Save' : 'Add'} Payee
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
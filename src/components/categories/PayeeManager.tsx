@@ -0,0 +1,162 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Edit, Loader2, Play, Plus, Store, Trash2 } from 'lucide-react';
+import { usePayees } from '@/hooks/usePayees';
+import { useTransactions } from '@/hooks/useTransactions';
+import { findPayeeForDescription, normalizePayeeName } from '@/utils/payees';
+import { PayeeForm } from './PayeeForm';
+
+// Merchant names offered as new payees, most frequent first
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * PayeeManager lists the user's payees with how many transactions each is linked to,
+ * suggests new ones from descriptions that match no payee, and links existing
+ * transactions on demand
+ */
+export const PayeeManager = () => {
+  const { payees, deletePayee, assignPayees, isAssigning } = usePayees();
+  const { transactions } = useTransactions();
+
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>();
+    transactions.forEach(t => {
+      if (t.payee_id) counts.set(t.payee_id, (counts.get(t.payee_id) || 0) + 1);
+    });
+    return counts;
+  }, [transactions]);
+
+  const suggestions = useMemo(() => {
+    const counts = new Map<string, number>();
+    transactions
+      .filter(t => !t.payee_id && t.type !== 'transfer' && !findPayeeForDescription(t.description, payees))
+      .forEach(t => {
+        const name = normalizePayeeName(t.description);
+        if (name) counts.set(name, (counts.get(name) || 0) + 1);
+      });
+    return [...counts.entries()]
+      .filter(([, count]) => count > 1)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_SUGGESTIONS);
+  }, [transactions, payees]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Store className="w-5 h-5" />
+            Payees
+          </CardTitle>
+          <p className="text-sm text-gray-500 mt-1">
+            One name per merchant, however it appears on your statements.
+          </p>
+        </div>
+        <PayeeForm />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {payees.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No payees yet. Add the merchants you pay most often to group and filter by them.
+          </p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {payees.map(payee => (
+              <div key={payee.id} className="flex items-center gap-3 p-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900 truncate">{payee.name}</span>
+                    <Badge variant="outline" className="text-xs">
+                      {usage.get(payee.id) || 0} transaction{usage.get(payee.id) === 1 ? '' : 's'}
+                    </Badge>
+                  </div>
+                  {payee.aliases.length > 0 && (
+                    <p className="text-sm text-gray-500 truncate">Also {payee.aliases.join(', ')}</p>
+                  )}
+                </div>
+
+                <PayeeForm
+                  payee={payee}
+                  isEdit
+                  trigger={
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" aria-label="Edit payee">
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                  }
+                />
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                      aria-label="Delete payee"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete payee</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Delete "{payee.name}"? Its transactions are kept but no longer linked to a payee.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => deletePayee(payee.id)} className="bg-red-600 hover:bg-red-700">
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {suggestions.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Suggested from your transactions</p>
+            <div className="flex flex-wrap gap-2">
+              {suggestions.map(([name, count]) => (
+                <PayeeForm
+                  key={name}
+                  defaultName={name}
+                  trigger={
+                    <Button variant="outline" size="sm">
+                      <Plus className="w-3 h-3 mr-1" />
+                      {name} ({count})
+                    </Button>
+                  }
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {payees.length > 0 && (
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={() => assignPayees()} disabled={isAssigning}>
+              {isAssigning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+              Link existing transactions
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
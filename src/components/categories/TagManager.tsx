@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Hash, Plus, Trash2 } from 'lucide-react';
+import { useTags } from '@/hooks/useTags';
+import { useTransactions } from '@/hooks/useTransactions';
+import { categoryColors } from '@/data/categories';
+import { normalizeTagName } from '@/utils/tags';
+
+/**
+ * TagManager creates, recolors and deletes the tags that label transactions across
+ * categories, showing how many transactions carry each one
+ */
+export const TagManager = () => {
+  const { tags, createTag, updateTag, deleteTag, isCreating } = useTags();
+  const { transactions } = useTransactions();
+  const [name, setName] = useState('');
+
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>();
+    transactions.forEach(t => t.tag_ids?.forEach(tagId => counts.set(tagId, (counts.get(tagId) || 0) + 1)));
+    return counts;
+  }, [transactions]);
+
+  const tagName = normalizeTagName(name);
+
+  // Clicking a swatch steps through the category palette
+  const nextColor = (color: string) => {
+    const index = categoryColors.indexOf(color.toLowerCase());
+    return categoryColors[(index + 1) % categoryColors.length];
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tagName) return;
+
+    createTag({ name: tagName, color: categoryColors[tags.length % categoryColors.length] });
+    setName('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hash className="w-5 h-5" />
+          Tags
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          Label transactions across categories, e.g. a trip or a project, and report on them together.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="vacation-2026"
+            aria-label="New tag name"
+          />
+          <Button type="submit" variant="outline" disabled={!tagName || isCreating}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add Tag
+          </Button>
+        </form>
+
+        {tags.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No tags yet. Add one here or while entering a transaction.
+          </p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {tags.map(tag => (
+              <div key={tag.id} className="flex items-center gap-3 p-3">
+                <button
+                  type="button"
+                  onClick={() => updateTag({ id: tag.id, color: nextColor(tag.color) })}
+                  className="h-6 w-6 rounded-full border"
+                  style={{ backgroundColor: tag.color }}
+                  aria-label={`Change color of #${tag.name}`}
+                />
+                <span className="flex-1 font-medium text-gray-900 truncate">#{tag.name}</span>
+                <span className="text-sm text-gray-500">
+                  {usage.get(tag.id) || 0} transaction{usage.get(tag.id) === 1 ? '' : 's'}
+                </span>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                      aria-label="Delete tag"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete tag</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Delete #{tag.name}? It will be removed from every transaction that has it.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => deleteTag(tag.id)} className="bg-red-600 hover:bg-red-700">
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
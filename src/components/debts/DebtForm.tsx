@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useDebts } from '@/hooks/useDebts';
+import { Debt, DebtType } from '@/types';
+import { DEBT_TYPE_LABELS } from '@/utils/debts';
+import { todayIsoDate } from '@/utils/recurrence';
+
+interface DebtFormProps {
+  debt?: Debt;
+  trigger: React.ReactNode;
+}
+
+/**
+ * DebtForm adds a loan or card to pay down, or updates one from a new statement
+ */
+export const DebtForm = ({ debt, trigger }: DebtFormProps) => {
+  const [open, setOpen] = useState(false);
+  const { saveDebt, isSaving } = useDebts();
+
+  const initialFormData = () => ({
+    name: debt?.name || '',
+    debt_type: debt?.debt_type || 'credit_card' as DebtType,
+    balance: debt?.balance?.toString() || '',
+    balance_as_of: debt?.balance_as_of || todayIsoDate(),
+    apr: debt?.apr?.toString() || '',
+    minimum_payment: debt?.minimum_payment?.toString() || '',
+    due_day: (debt?.due_day ?? 1).toString(),
+    is_archived: debt?.is_archived ?? false,
+  });
+
+  const [formData, setFormData] = useState(initialFormData);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setFormData(initialFormData());
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveDebt(
+      {
+        id: debt?.id,
+        name: formData.name,
+        debt_type: formData.debt_type,
+        balance: parseFloat(formData.balance),
+        balance_as_of: formData.balance_as_of,
+        apr: parseFloat(formData.apr) || 0,
+        minimum_payment: parseFloat(formData.minimum_payment) || 0,
+        due_day: parseInt(formData.due_day) || 1,
+        is_archived: formData.is_archived,
+      },
+      { onSuccess: () => setOpen(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{debt ? 'Edit Debt' : 'Add Debt'}</DialogTitle>
+          <DialogDescription>
+            Enter the balance from your latest statement. Payments you link after that date come off it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="debt-name">Name</Label>
+              <Input
+                id="debt-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Visa card"
+                maxLength={100}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="debt-type">Type</Label>
+              <Select
+                value={formData.debt_type}
+                onValueChange={(value) => setFormData({ ...formData, debt_type: value as DebtType })}
+              >
+                <SelectTrigger id="debt-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DEBT_TYPE_LABELS) as DebtType[]).map(type => (
+                    <SelectItem key={type} value={type}>
+                      {DEBT_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="debt-balance">Balance</Label>
+              <Input
+                id="debt-balance"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.balance}
+                onChange={(e) => setFormData({ ...formData, balance: e.target.value })}
+                placeholder="0.00"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="debt-balance-as-of">As of</Label>
+              <Input
+                id="debt-balance-as-of"
+                type="date"
+                value={formData.balance_as_of}
+                max={todayIsoDate()}
+                onChange={(e) => setFormData({ ...formData, balance_as_of: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="debt-apr">APR (%)</Label>
+              <Input
+                id="debt-apr"
+                type="number"
+                step="0.001"
+                min="0"
+                max="100"
+                value={formData.apr}
+                onChange={(e) => setFormData({ ...formData, apr: e.target.value })}
+                placeholder="24"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="debt-minimum">Minimum payment</Label>
+              <Input
+                id="debt-minimum"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.minimum_payment}
+                onChange={(e) => setFormData({ ...formData, minimum_payment: e.target.value })}
+                placeholder="0.00"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="debt-due-day">Due day</Label>
+              <Input
+                id="debt-due-day"
+                type="number"
+                min="1"
+                max="31"
+                value={formData.due_day}
+                onChange={(e) => setFormData({ ...formData, due_day: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          {debt && (
+            <div className="flex items-start justify-between gap-4 rounded-lg border p-3">
+              <div>
+                <Label htmlFor="debt-archived">Archived</Label>
+                <p className="text-xs text-gray-500">
+                  Archived debts are left out of the payoff plan. Their payments stay linked.
+                </p>
+              </div>
+              <Switch
+                id="debt-archived"
+                checked={formData.is_archived}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_archived: checked })}
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : debt ? 'Save Changes' : 'Add Debt'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Link2, Unlink } from 'lucide-react';
+import { useDebts } from '@/hooks/useDebts';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { Debt } from '@/types';
+import { getDebtBalance, getDebtPayments } from '@/utils/debts';
+import { addDaysToIsoDate, todayIsoDate } from '@/utils/recurrence';
+
+interface DebtPaymentsDialogProps {
+  debt: Debt;
+  trigger: React.ReactNode;
+}
+
+// How far back unlinked transactions are offered as payments
+const SUGGESTION_DAYS = 60;
+
+const formatDate = (value: string) => {
+  return new Date(`${value}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+/**
+ * DebtPaymentsDialog lists the transactions paying down a debt and links recent
+ * expenses and transfers to it
+ */
+export const DebtPaymentsDialog = ({ debt, trigger }: DebtPaymentsDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const { transactions, linkPayment } = useDebts();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+
+  const payments = useMemo(() => getDebtPayments(debt.id, transactions), [debt.id, transactions]);
+
+  // Recent money going out that isn't already paying a debt or funding a goal
+  const suggestions = useMemo(() => {
+    const from = addDaysToIsoDate(todayIsoDate(), -SUGGESTION_DAYS);
+    return transactions
+      .filter(t => !t.debt_id && !t.savings_goal_id && t.type !== 'income' && t.date >= from)
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }, [transactions]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link2 className="w-5 h-5" />
+            {debt.name} Payments
+          </DialogTitle>
+          <DialogDescription>
+            {formatCurrency(getDebtBalance(debt, transactions))} left after payments since the{' '}
+            {formatDate(debt.balance_as_of)} statement
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-900">Linked payments</h3>
+          {payments.length === 0 ? (
+            <p className="text-sm text-gray-500">No payments linked yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map(payment => (
+                  <TableRow key={payment.id} className={payment.date <= debt.balance_as_of ? 'text-gray-400' : ''}>
+                    <TableCell>{formatDate(payment.date)}</TableCell>
+                    <TableCell className="truncate max-w-[200px]">{payment.description}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(payment.amount)}</TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => linkPayment({ transactionId: payment.id, debtId: null })}
+                        aria-label="Unlink payment"
+                      >
+                        <Unlink className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <div className="space-y-2 pt-2 border-t">
+          <h3 className="text-sm font-medium text-gray-900 pt-2">Recent transactions</h3>
+          {suggestions.length === 0 ? (
+            <p className="text-sm text-gray-500">No unlinked expenses or transfers in the last {SUGGESTION_DAYS} days.</p>
+          ) : (
+            <Table>
+              <TableBody>
+                {suggestions.map(transaction => (
+                  <TableRow key={transaction.id}>
+                    <TableCell>{formatDate(transaction.date)}</TableCell>
+                    <TableCell className="truncate max-w-[200px]">{transaction.description}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(transaction.amount)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => linkPayment({ transactionId: transaction.id, debtId: debt.id })}
+                      >
+                        Link
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,268 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LineChart } from 'recharts/es6/chart/LineChart';
+import { Line } from 'recharts/es6/cartesian/Line';
+import { XAxis } from 'recharts/es6/cartesian/XAxis';
+import { YAxis } from 'recharts/es6/cartesian/YAxis';
+import { CartesianGrid } from 'recharts/es6/cartesian/CartesianGrid';
+import { Tooltip } from 'recharts/es6/component/Tooltip';
+import { ResponsiveContainer } from 'recharts/es6/component/ResponsiveContainer';
+import { ArrowDown, ArrowUp, Route } from 'lucide-react';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { useDebts } from '@/hooks/useDebts';
+import { DebtStrategy } from '@/types';
+import { DEBT_STRATEGY_DESCRIPTIONS, DEBT_STRATEGY_LABELS } from '@/utils/debts';
+
+const STRATEGIES = Object.keys(DEBT_STRATEGY_LABELS) as DebtStrategy[];
+
+const STRATEGY_COLORS: Record<DebtStrategy, string> = {
+  avalanche: '#3b82f6',
+  snowball: '#10b981',
+  custom: '#f59e0b',
+};
+
+const formatMonth = (value: string) => {
+  return new Date(`${value}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+/**
+ * DebtPayoffPlanner compares avalanche, snowball and custom payoff orders for the same
+ * monthly payment and shows the month-by-month schedule for the chosen one
+ */
+export const DebtPayoffPlanner = () => {
+  const { standard: formatCurrency } = useCurrencyFormatter();
+  const { openDebts, settings, plans, plan, setDebtPlan, setDebtPriorities, isReordering } = useDebts();
+  const [extraInput, setExtraInput] = useState(settings.extraPayment.toString());
+
+  useEffect(() => {
+    setExtraInput(settings.extraPayment.toString());
+  }, [settings.extraPayment]);
+
+  // Remaining balance under each strategy, month by month
+  const chartData = useMemo(() => {
+    const longest = STRATEGIES
+      .map(strategy => plans[strategy].schedule)
+      .reduce((a, b) => (b.length > a.length ? b : a));
+    return longest.map((row, index) => ({
+      month: row.month,
+      ...Object.fromEntries(STRATEGIES.map(strategy => [strategy, plans[strategy].schedule[index]?.totalBalance ?? 0])),
+    }));
+  }, [plans]);
+
+  if (plan.debts.length === 0) return null;
+
+  const monthlyPayment = openDebts.reduce((sum, debt) => sum + Number(debt.minimum_payment), 0) + settings.extraPayment;
+
+  const moveDebt = (index: number, offset: number) => {
+    const ids = plan.debts.map(item => item.debt.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    setDebtPriorities(ids);
+  };
+
+  const saveExtraPayment = () => {
+    const extraPayment = parseFloat(extraInput) || 0;
+    if (extraPayment !== settings.extraPayment) {
+      setDebtPlan({ strategy: settings.strategy, extraPayment });
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Route className="w-5 h-5 text-primary" />
+          Payoff Planner
+        </CardTitle>
+        <CardDescription>{DEBT_STRATEGY_DESCRIPTIONS[settings.strategy]}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="debt-strategy">Strategy</Label>
+            <Select
+              value={settings.strategy}
+              onValueChange={(value) => setDebtPlan({ strategy: value as DebtStrategy, extraPayment: settings.extraPayment })}
+            >
+              <SelectTrigger id="debt-strategy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STRATEGIES.map(strategy => (
+                  <SelectItem key={strategy} value={strategy}>
+                    {DEBT_STRATEGY_LABELS[strategy]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="debt-extra">Extra each month</Label>
+            <Input
+              id="debt-extra"
+              type="number"
+              step="0.01"
+              min="0"
+              value={extraInput}
+              onChange={(e) => setExtraInput(e.target.value)}
+              onBlur={saveExtraPayment}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Paying each month</Label>
+            <p className="text-2xl font-bold text-gray-900">{formatCurrency(monthlyPayment)}</p>
+          </div>
+        </div>
+
+        {/* Strategy comparison */}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Strategy</TableHead>
+              <TableHead>Debt-free</TableHead>
+              <TableHead className="text-right">Total interest</TableHead>
+              <TableHead className="text-right">Total paid</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {STRATEGIES.map(strategy => (
+              <TableRow key={strategy} className={strategy === settings.strategy ? 'bg-primary/5' : ''}>
+                <TableCell className="font-medium">
+                  <div className="flex items-center gap-2">
+                    {DEBT_STRATEGY_LABELS[strategy]}
+                    {strategy === settings.strategy && <Badge variant="secondary">Your plan</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  {plans[strategy].debtFreeMonth ? formatMonth(plans[strategy].debtFreeMonth!) : 'Never at this payment'}
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(plans[strategy].totalInterest)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(plans[strategy].totalPaid)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {!plan.debtFreeMonth && (
+          <p className="text-sm text-orange-600">
+            Your payments don't keep up with the interest being charged. Raise the extra payment to get out of debt.
+          </p>
+        )}
+
+        <ResponsiveContainer width="100%" height={260}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="month" tickFormatter={(value: string) => formatMonth(value)} />
+            <YAxis />
+            <Tooltip
+              labelFormatter={(value: string) => formatMonth(value)}
+              formatter={(value: number) => formatCurrency(value)}
+            />
+            {STRATEGIES.map(strategy => (
+              <Line
+                key={strategy}
+                type="monotone"
+                dataKey={strategy}
+                stroke={STRATEGY_COLORS[strategy]}
+                name={DEBT_STRATEGY_LABELS[strategy]}
+                strokeWidth={strategy === settings.strategy ? 3 : 1.5}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+
+        {/* Payoff order for the chosen strategy */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-900">Payoff order</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Debt</TableHead>
+                <TableHead className="text-right">APR</TableHead>
+                <TableHead className="text-right">Interest</TableHead>
+                <TableHead>Paid off</TableHead>
+                {settings.strategy === 'custom' && <TableHead className="w-20" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plan.debts.map((item, index) => (
+                <TableRow key={item.debt.id}>
+                  <TableCell className="font-medium">
+                    <span className="text-gray-400 mr-2">{index + 1}.</span>
+                    {item.debt.name}
+                  </TableCell>
+                  <TableCell className="text-right text-gray-600">{Number(item.debt.apr)}%</TableCell>
+                  <TableCell className="text-right">{formatCurrency(item.interestPaid)}</TableCell>
+                  <TableCell>{item.payoffMonth ? formatMonth(item.payoffMonth) : 'Never'}</TableCell>
+                  {settings.strategy === 'custom' && (
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={index === 0 || isReordering}
+                          onClick={() => moveDebt(index, -1)}
+                          aria-label={`Move ${item.debt.name} up`}
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={index === plan.debts.length - 1 || isReordering}
+                          onClick={() => moveDebt(index, 1)}
+                          aria-label={`Move ${item.debt.name} down`}
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {/* Amortization schedule */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-900">Month by month</h3>
+          <div className="max-h-80 overflow-y-auto rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month</TableHead>
+                  {plan.debts.map(item => (
+                    <TableHead key={item.debt.id} className="text-right">{item.debt.name}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Interest</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plan.schedule.map(row => (
+                  <TableRow key={row.month}>
+                    <TableCell>{formatMonth(row.month)}</TableCell>
+                    {plan.debts.map(item => (
+                      <TableCell key={item.debt.id} className="text-right">
+                        {row.payments[item.debt.id] > 0 ? formatCurrency(row.payments[item.debt.id]) : '—'}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right text-gray-600">{formatCurrency(row.totalInterest)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(row.totalBalance)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,231 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { CreditCard, Plus, Edit, Trash2, Link2, Calendar, Percent, PartyPopper } from 'lucide-react';
+import { useDebts } from '@/hooks/useDebts';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { DEBT_TYPE_LABELS, getDebtBalance, getNextDueDate } from '@/utils/debts';
+import { DebtForm } from './DebtForm';
+import { DebtPaymentsDialog } from './DebtPaymentsDialog';
+import { DebtPayoffPlanner } from './DebtPayoffPlanner';
+import { todayIsoDate } from '@/utils/recurrence';
+
+const formatDate = (value: string) => {
+  return new Date(`${value}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+const formatMonth = (value: string) => {
+  return new Date(`${value}T00:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+};
+
+/**
+ * DebtsPage lists loans and cards being paid down, with the payoff plan for them
+ */
+export const DebtsPage = () => {
+  const { debts, openDebts, plan, transactions, isLoading, deleteDebt } = useDebts();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const totalOwed = openDebts.reduce((sum, debt) => sum + debt.balance, 0);
+  const totalMinimum = openDebts.reduce((sum, debt) => sum + Number(debt.minimum_payment), 0);
+
+  return (
+    <div className="container mx-auto py-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Debts</h1>
+          <p className="text-gray-600 mt-1">Plan how to pay off your loans and cards</p>
+        </div>
+
+        <DebtForm
+          trigger={
+            <Button className="flex items-center space-x-2">
+              <Plus className="w-4 h-4" />
+              <span>Add Debt</span>
+            </Button>
+          }
+        />
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm font-semibold text-gray-600">Total owed</p>
+            <p className="text-2xl font-bold text-red-600">{formatCurrency(totalOwed)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm font-semibold text-gray-600">Minimum payments</p>
+            <p className="text-2xl font-bold text-gray-900">{formatCurrency(totalMinimum)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm font-semibold text-gray-600">Debt-free</p>
+            <p className="text-2xl font-bold text-green-600">
+              {totalOwed === 0 ? 'Now' : plan.debtFreeMonth ? formatMonth(plan.debtFreeMonth) : 'Not at this payment'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <DebtPayoffPlanner />
+
+      {/* Debts Grid */}
+      {debts.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {debts.map(debt => {
+            const balance = getDebtBalance(debt, transactions);
+            const payoff = plan.debts.find(item => item.debt.id === debt.id);
+
+            return (
+              <Card key={debt.id} className={`shadow-card ${debt.is_archived ? 'opacity-60' : ''}`}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <CreditCard className="w-5 h-5 text-primary shrink-0" />
+                      <CardTitle className="text-lg font-semibold truncate">{debt.name}</CardTitle>
+                    </div>
+                    {debt.is_archived ? (
+                      <Badge variant="secondary">Archived</Badge>
+                    ) : balance === 0 ? (
+                      <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                        <PartyPopper className="w-3 h-3 mr-1" />
+                        Paid off
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline">{DEBT_TYPE_LABELS[debt.debt_type]}</Badge>
+                    )}
+                  </div>
+                </CardHeader>
+
+                <CardContent className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-600">Balance</span>
+                    <div className="text-right">
+                      <div className="font-semibold">{formatCurrency(balance)}</div>
+                      <div className="text-xs text-gray-500">
+                        {formatCurrency(debt.balance)} on {formatDate(debt.balance_as_of)}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <Percent className="w-4 h-4 text-gray-500" />
+                      <span className="text-sm text-gray-600">APR / minimum</span>
+                    </div>
+                    <span className="text-sm font-medium">
+                      {Number(debt.apr)}% · {formatCurrency(debt.minimum_payment)}
+                    </span>
+                  </div>
+
+                  {balance > 0 && !debt.is_archived && (
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <Calendar className="w-4 h-4 text-gray-500" />
+                        <span className="text-sm text-gray-600">Next due</span>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-sm font-medium">{formatDate(getNextDueDate(debt.due_day, todayIsoDate()))}</div>
+                        {payoff && (
+                          <div className="text-xs text-gray-500">
+                            {payoff.payoffMonth ? `Paid off ${formatMonth(payoff.payoffMonth)}` : 'Not paid off at this payment'}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="pt-2 border-t">
+                    <div className="flex gap-2">
+                      <DebtForm
+                        debt={debt}
+                        trigger={
+                          <Button variant="outline" size="sm" className="flex-1">
+                            <Edit className="w-4 h-4 mr-2" />
+                            Edit
+                          </Button>
+                        }
+                      />
+
+                      <DebtPaymentsDialog
+                        debt={debt}
+                        trigger={
+                          <Button variant="outline" size="sm" className="flex-1">
+                            <Link2 className="w-4 h-4 mr-2" />
+                            Payments
+                          </Button>
+                        }
+                      />
+
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex-1 text-red-600 hover:text-red-700 hover:bg-red-50"
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Delete
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {debt.name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Its payments stay in your transactions but are no longer linked to a debt.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteDebt(debt.id)}
+                              className="bg-red-600 hover:bg-red-700"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card className="text-center py-12">
+          <CardContent>
+            <CreditCard className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No debts yet</h3>
+            <p className="text-gray-600">Add a loan or card to see when you'll be debt-free.</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -10,7 +10,9 @@ import {
   Menu,
   Home,
   CreditCard,
+  Repeat,
   BarChart3,
+  Wallet,
   Target,
   Lightbulb,
   Receipt,
@@ -42,7 +44,9 @@ export const MobileNavigation = ({ className }: MobileNavigationProps) => {
   const navigationItems = [
     { path: '/', label: 'Dashboard', icon: Home },
     { path: '/transactions', label: 'Transactions', icon: CreditCard },
+    { path: '/recurring', label: 'Recurring', icon: Repeat },
     { path: '/reports', label: 'Reports', icon: BarChart3 },
+    { path: '/budgets', label: 'Budgets', icon: Wallet },
     { path: '/goals', label: 'Savings Goals', icon: Target },
     { path: '/insights', label: 'Insights', icon: Lightbulb },
     { path: '/receipts', label: 'Receipts', icon: Receipt },
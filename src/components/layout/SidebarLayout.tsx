@@ -12,8 +12,12 @@ import {
 import {
   Home,
   List,
+  Repeat,
   BarChart3,
+  Wallet,
   Target,
+  Landmark,
+  CreditCard,
   Lightbulb,
   FolderOpen,
   Receipt,
@@ -24,6 +28,9 @@ import {
   Settings
 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import { useRecurringTransactionGenerator } from '@/hooks/useRecurringTransactions';
+import { useGoalInterestPoster } from '@/hooks/useSavingsGoals';
+import { useBudgetAlerts } from '@/hooks/useBudgetAlerts';
 import { Link, useLocation } from 'react-router-dom';
 
 // Navigation items configuration
@@ -42,6 +49,13 @@ const navigationItems = [
     path: '/transactions',
     description: 'Manage income and expenses'
   },
+  {
+    id: 'recurring',
+    label: 'Recurring',
+    icon: Repeat,
+    path: '/recurring',
+    description: 'Scheduled and repeating transactions'
+  },
   {
     id: 'reports',
     label: 'Reports',
@@ -49,6 +63,13 @@ const navigationItems = [
     path: '/reports',
     description: 'Financial reports and analytics'
   },
+  {
+    id: 'budgets',
+    label: 'Budgets',
+    icon: Wallet,
+    path: '/budgets',
+    description: 'Spending limits and rollover'
+  },
   {
     id: 'goals',
     label: 'Goals & Savings',
@@ -56,6 +77,20 @@ const navigationItems = [
     path: '/goals',
     description: 'Track savings goals and progress'
   },
+  {
+    id: 'net-worth',
+    label: 'Net Worth',
+    icon: Landmark,
+    path: '/net-worth',
+    description: 'Assets, liabilities and net worth history'
+  },
+  {
+    id: 'debts',
+    label: 'Debts',
+    icon: CreditCard,
+    path: '/debts',
+    description: 'Payoff plans for loans and cards'
+  },
   {
     id: 'insights',
     label: 'Insights',
@@ -96,6 +131,15 @@ export const SidebarLayout: React.FC<SidebarLayoutProps> = ({ children }) => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
 
+  // Post any recurring transactions that came due since the last visit
+  useRecurringTransactionGenerator();
+
+  // Pay interest earned by savings goals since the last visit
+  useGoalInterestPoster();
+
+  // Notify when spending crosses a budget alert threshold
+  useBudgetAlerts();
+
   // Load sidebar state from localStorage
   useEffect(() => {
     const savedSidebarState = localStorage.getItem('sidebar-open');
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useNetWorth } from '@/hooks/useNetWorth';
+import { NetWorthCategory, NetWorthItem, NetWorthItemKind } from '@/types';
+import { NET_WORTH_CATEGORIES, NET_WORTH_CATEGORY_LABELS } from '@/utils/netWorth';
+
+interface NetWorthItemFormProps {
+  kind: NetWorthItemKind;
+  item?: NetWorthItem;
+  trigger: React.ReactNode;
+}
+
+/**
+ * NetWorthItemForm adds an asset or liability, with its current value, or edits one
+ */
+export const NetWorthItemForm = ({ kind, item, trigger }: NetWorthItemFormProps) => {
+  const [open, setOpen] = useState(false);
+  const { saveItem, isSaving } = useNetWorth();
+
+  const initialFormData = () => ({
+    name: item?.name || '',
+    category: item?.category || NET_WORTH_CATEGORIES[kind][0],
+    value: '',
+    notes: item?.notes || '',
+    is_archived: item?.is_archived ?? false,
+  });
+
+  const [formData, setFormData] = useState(initialFormData);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setFormData(initialFormData());
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveItem(
+      {
+        id: item?.id,
+        name: formData.name,
+        kind,
+        category: formData.category,
+        notes: formData.notes.trim() || null,
+        is_archived: formData.is_archived,
+        value: item ? undefined : parseFloat(formData.value),
+      },
+      { onSuccess: () => setOpen(false) }
+    );
+  };
+
+  const noun = kind === 'asset' ? 'Asset' : 'Liability';
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{item ? `Edit ${noun}` : `Add ${noun}`}</DialogTitle>
+          <DialogDescription>
+            {kind === 'asset'
+              ? 'Something you own that isn\'t tracked as an account, like property, a vehicle or investments.'
+              : 'Money you owe that isn\'t tracked as an account, like a loan or a credit card.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="net-worth-name">Name</Label>
+              <Input
+                id="net-worth-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder={kind === 'asset' ? 'Condo' : 'Car loan'}
+                maxLength={100}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="net-worth-category">Type</Label>
+              <Select
+                value={formData.category}
+                onValueChange={(value) => setFormData({ ...formData, category: value as NetWorthCategory })}
+              >
+                <SelectTrigger id="net-worth-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NET_WORTH_CATEGORIES[kind].map(category => (
+                    <SelectItem key={category} value={category}>
+                      {NET_WORTH_CATEGORY_LABELS[category]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {!item && (
+            <div className="space-y-2">
+              <Label htmlFor="net-worth-value">{kind === 'asset' ? 'Current value' : 'Amount owed'}</Label>
+              <Input
+                id="net-worth-value"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.value}
+                onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                placeholder="0.00"
+                required
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="net-worth-notes">Notes</Label>
+            <Textarea
+              id="net-worth-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          {item && (
+            <div className="flex items-start justify-between gap-4 rounded-lg border p-3">
+              <div>
+                <Label htmlFor="net-worth-archived">Archived</Label>
+                <p className="text-xs text-gray-500">
+                  Archived items no longer count toward your net worth. Past months keep their figures.
+                </p>
+              </div>
+              <Switch
+                id="net-worth-archived"
+                checked={formData.is_archived}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_archived: checked })}
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : item ? 'Save Changes' : `Add ${noun}`}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,264 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { ComposedChart } from 'recharts/es6/chart/ComposedChart';
+import { Bar } from 'recharts/es6/cartesian/Bar';
+import { Line } from 'recharts/es6/cartesian/Line';
+import { XAxis } from 'recharts/es6/cartesian/XAxis';
+import { YAxis } from 'recharts/es6/cartesian/YAxis';
+import { CartesianGrid } from 'recharts/es6/cartesian/CartesianGrid';
+import { Tooltip } from 'recharts/es6/component/Tooltip';
+import { ResponsiveContainer } from 'recharts/es6/component/ResponsiveContainer';
+import { Landmark, Plus, Edit, Trash2, History, TrendingUp, TrendingDown, Wallet, PiggyBank } from 'lucide-react';
+import { useNetWorth } from '@/hooks/useNetWorth';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { NetWorthItem, NetWorthItemKind } from '@/types';
+import { NET_WORTH_CATEGORY_LABELS, getLatestValuation } from '@/utils/netWorth';
+import { NetWorthItemForm } from './NetWorthItemForm';
+import { ValuationDialog } from './ValuationDialog';
+import { todayIsoDate } from '@/utils/recurrence';
+
+const formatMonth = (value: string) => {
+  return new Date(`${value}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+/**
+ * NetWorthPage adds up account balances, savings goals and hand-valued assets and liabilities, and
+ * charts net worth month by month
+ */
+export const NetWorthPage = () => {
+  const { items, valuations, accountBalances, goalHoldings, current, history, change, isLoading, deleteItem } = useNetWorth();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  // Liabilities are drawn below the axis
+  const chartData = history.map(point => ({ ...point, liabilities: -point.liabilities }));
+
+  const renderItems = (kind: NetWorthItemKind) => {
+    const kindItems = items.filter(item => item.kind === kind);
+    const kindAccounts = accountBalances.filter(({ balance }) => (kind === 'asset' ? balance > 0 : balance < 0));
+    const kindGoals = kind === 'asset' ? goalHoldings.filter(({ balance }) => balance > 0) : [];
+
+    if (kindItems.length === 0 && kindAccounts.length === 0 && kindGoals.length === 0) {
+      return (
+        <p className="text-sm text-gray-500 py-4 text-center">
+          {kind === 'asset' ? 'No assets yet.' : 'No liabilities yet.'}
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-2">
+        {kindAccounts.map(({ account, balance }) => (
+          <div key={account.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border">
+            <div className="min-w-0 flex items-center gap-2">
+              <Wallet className="w-4 h-4 text-gray-400 shrink-0" />
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{account.name}</p>
+                <p className="text-xs text-gray-500">Account balance</p>
+              </div>
+            </div>
+            <span className="font-semibold">{formatCurrency(Math.abs(balance))}</span>
+          </div>
+        ))}
+
+        {kindGoals.map(({ goal, balance }) => (
+          <div key={goal.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border">
+            <div className="min-w-0 flex items-center gap-2">
+              <PiggyBank className="w-4 h-4 text-gray-400 shrink-0" />
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{goal.name}</p>
+                <p className="text-xs text-gray-500">Savings goal</p>
+              </div>
+            </div>
+            <span className="font-semibold">{formatCurrency(balance)}</span>
+          </div>
+        ))}
+
+        {kindItems.map((item: NetWorthItem) => {
+          const value = getLatestValuation(item.id, valuations, todayIsoDate());
+          return (
+            <div
+              key={item.id}
+              className={`flex flex-wrap items-center justify-between gap-3 p-3 rounded-lg border ${item.is_archived ? 'opacity-60' : ''}`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-gray-900 truncate">{item.name}</p>
+                  {item.is_archived && <Badge variant="secondary">Archived</Badge>}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {NET_WORTH_CATEGORY_LABELS[item.category]}
+                  {item.notes && ` · ${item.notes}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <span className="font-semibold mr-2">{value === null ? '—' : formatCurrency(value)}</span>
+                <ValuationDialog
+                  item={item}
+                  trigger={
+                    <Button variant="ghost" size="sm" aria-label="Valuations">
+                      <History className="w-4 h-4" />
+                    </Button>
+                  }
+                />
+                <NetWorthItemForm
+                  kind={kind}
+                  item={item}
+                  trigger={
+                    <Button variant="ghost" size="sm" aria-label="Edit">
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                  }
+                />
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      aria-label="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete {item.name}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Its valuations are deleted too. To stop counting it but keep its history, archive it instead.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => deleteItem(item.id)}
+                        className="bg-red-600 hover:bg-red-700"
+                      >
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="container mx-auto py-6">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Net Worth</h1>
+        <p className="text-gray-600 mt-1">Everything you own, less everything you owe</p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm font-semibold text-gray-600">Assets</p>
+            <p className="text-2xl font-bold text-green-600">{formatCurrency(current.assets)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm font-semibold text-gray-600">Liabilities</p>
+            <p className="text-2xl font-bold text-red-600">{formatCurrency(current.liabilities)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm font-semibold text-gray-600">Net Worth</p>
+            <p className="text-2xl font-bold text-gray-900">{formatCurrency(current.netWorth)}</p>
+            {history.length > 1 && (
+              <p className={`text-xs flex items-center gap-1 ${change < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {change < 0 ? <TrendingDown className="w-3 h-3" /> : <TrendingUp className="w-3 h-3" />}
+                {change > 0 ? '+' : ''}{change}% vs last month
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* History */}
+      <Card className="mb-6">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Landmark className="w-5 h-5 text-primary" />
+            Net Worth History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {history.length < 2 ? (
+            <p className="text-sm text-gray-500 py-8 text-center">
+              Your net worth is saved each month. The chart fills in as months go by.
+            </p>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="month" tickFormatter={(value: string) => formatMonth(value)} />
+                <YAxis />
+                <Tooltip
+                  labelFormatter={(value: string) => formatMonth(value)}
+                  formatter={(value: number) => formatCurrency(Math.abs(value))}
+                />
+                <Bar dataKey="assets" fill="#10b981" name="Assets" />
+                <Bar dataKey="liabilities" fill="#ef4444" name="Liabilities" />
+                <Line type="monotone" dataKey="netWorth" stroke="#3b82f6" name="Net worth" strokeWidth={2} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Assets and Liabilities */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {(['asset', 'liability'] as NetWorthItemKind[]).map(kind => (
+          <Card key={kind}>
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">{kind === 'asset' ? 'Assets' : 'Liabilities'}</CardTitle>
+                <NetWorthItemForm
+                  kind={kind}
+                  trigger={
+                    <Button size="sm" variant="outline">
+                      <Plus className="w-4 h-4 mr-2" />
+                      {kind === 'asset' ? 'Add Asset' : 'Add Liability'}
+                    </Button>
+                  }
+                />
+              </div>
+            </CardHeader>
+            <CardContent>
+              {renderItems(kind)}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
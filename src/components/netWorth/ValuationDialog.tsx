@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History, Trash2 } from 'lucide-react';
+import { useNetWorth } from '@/hooks/useNetWorth';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { NetWorthItem } from '@/types';
+import { todayIsoDate } from '@/utils/recurrence';
+
+interface ValuationDialogProps {
+  item: NetWorthItem;
+  trigger: React.ReactNode;
+}
+
+const formatDate = (value: string) => {
+  return new Date(`${value}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+/**
+ * ValuationDialog records what an asset is worth, or what is owed on a liability, on a
+ * given day and lists its earlier valuations
+ */
+export const ValuationDialog = ({ item, trigger }: ValuationDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const { valuations, saveValuation, deleteValuation, isSaving } = useNetWorth();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+
+  const initialFormData = () => ({
+    valued_on: todayIsoDate(),
+    value: '',
+  });
+
+  const [formData, setFormData] = useState(initialFormData);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setFormData(initialFormData());
+    }
+    setOpen(nextOpen);
+  };
+
+  // Newest first
+  const history = useMemo(
+    () => valuations
+      .filter(valuation => valuation.item_id === item.id)
+      .sort((a, b) => b.valued_on.localeCompare(a.valued_on)),
+    [valuations, item.id]
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveValuation(
+      { itemId: item.id, valuedOn: formData.valued_on, value: parseFloat(formData.value) },
+      { onSuccess: () => setFormData(initialFormData()) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            {item.name} Valuations
+          </DialogTitle>
+          <DialogDescription>
+            A new valuation on a date that already has one replaces it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-[1fr_1fr_auto] items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="valuation-date">Date</Label>
+            <Input
+              id="valuation-date"
+              type="date"
+              value={formData.valued_on}
+              max={todayIsoDate()}
+              onChange={(e) => setFormData({ ...formData, valued_on: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="valuation-value">{item.kind === 'asset' ? 'Value' : 'Amount owed'}</Label>
+            <Input
+              id="valuation-value"
+              type="number"
+              step="0.01"
+              min="0"
+              value={formData.value}
+              onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+              placeholder="0.00"
+              required
+            />
+          </div>
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </form>
+
+        <div className="space-y-2 pt-2 border-t">
+          <h3 className="text-sm font-medium text-gray-900 pt-2">History</h3>
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-500">No valuations yet, so this counts as zero.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">{item.kind === 'asset' ? 'Value' : 'Owed'}</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map(valuation => (
+                  <TableRow key={valuation.id}>
+                    <TableCell>{formatDate(valuation.valued_on)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(valuation.value)}</TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        onClick={() => deleteValuation(valuation.id)}
+                        aria-label="Delete valuation"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
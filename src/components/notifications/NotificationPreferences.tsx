@@ -19,15 +19,19 @@ import {
   Filter,
   BarChart3,
   Settings,
-  Info
+  Info,
+  Wallet
 } from 'lucide-react';
 import { smartNotifications, NotificationPreferences } from '@/utils/smartNotifications';
+import { parseBudgetAlertThresholds } from '@/utils/budgetAlerts';
 
 export const NotificationPreferencesComponent: React.FC = () => {
   const [preferences, setPreferences] = useState<NotificationPreferences>(
     smartNotifications.getPreferences()
   );
   const [stats, setStats] = useState(smartNotifications.getNotificationStats());
+  const [thresholdInput, setThresholdInput] = useState(preferences.budgetAlertThresholds.join(', '));
+  const [thresholdError, setThresholdError] = useState<string | null>(null);
 
   useEffect(() => {
     // Update stats every minute
@@ -49,6 +53,17 @@ export const NotificationPreferencesComponent: React.FC = () => {
     handlePreferenceChange({ categories: newCategories });
   };
 
+  const handleThresholdsBlur = () => {
+    const thresholds = parseBudgetAlertThresholds(thresholdInput);
+    if (!thresholds) {
+      setThresholdError('Use whole percentages from 1 to 500, separated by commas.');
+      return;
+    }
+    setThresholdError(null);
+    setThresholdInput(thresholds.join(', '));
+    handlePreferenceChange({ budgetAlertThresholds: thresholds });
+  };
+
   const testNotification = () => {
     smartNotifications.info(
       'Test Notification',
@@ -193,6 +208,32 @@ export const NotificationPreferencesComponent: React.FC = () => {
               Only notifications at or above this priority level will be shown
             </p>
           </div>
+
+          <Separator />
+
+          {/* Budget Alerts */}
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Wallet className="w-4 h-4" />
+              <Label htmlFor="budgetThresholds" className="text-base font-medium">Budget Alert Thresholds</Label>
+            </div>
+
+            <Input
+              id="budgetThresholds"
+              value={thresholdInput}
+              onChange={(e) => setThresholdInput(e.target.value)}
+              onBlur={handleThresholdsBlur}
+              placeholder="50, 80, 100, 120"
+            />
+
+            {thresholdError ? (
+              <p className="text-sm text-red-600">{thresholdError}</p>
+            ) : (
+              <p className="text-sm text-gray-600">
+                Get a budget alert when spending passes each of these percentages of a budget. Leave empty to turn budget alerts off.
+              </p>
+            )}
+          </div>
         </CardContent>
       </Card>
 
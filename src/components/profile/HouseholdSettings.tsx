@@ -0,0 +1,325 @@
+// Household settings: create a household, invite members and manage their roles
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Home, Mail, UserPlus, X, LogOut, Trash2 } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useAuth } from '@/hooks/useAuth';
+import { useHousehold } from '@/hooks/useHousehold';
+import { HouseholdInvitation, HouseholdRole } from '@/types';
+import { HOUSEHOLD_ROLE_DESCRIPTIONS, HOUSEHOLD_ROLE_LABELS } from '@/utils/households';
+
+const INVITE_ROLES: HouseholdInvitation['role'][] = ['editor', 'viewer'];
+const MEMBER_ROLES: HouseholdRole[] = ['owner', 'editor', 'viewer'];
+
+export const HouseholdSettings = () => {
+  const { user } = useAuth();
+  const {
+    household,
+    members,
+    sentInvitations,
+    receivedInvitations,
+    role,
+    isLoading,
+    createHousehold,
+    inviteMember,
+    revokeInvitation,
+    acceptInvitation,
+    declineInvitation,
+    updateMemberRole,
+    removeMember,
+    leaveHousehold,
+    deleteHousehold,
+    isCreating,
+    isInviting,
+    isAccepting,
+  } = useHousehold();
+
+  const [name, setName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<HouseholdInvitation['role']>('editor');
+
+  const isOwner = role === 'owner';
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createHousehold(name, { onSuccess: () => setName('') });
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    inviteMember({ email: inviteEmail, role: inviteRole }, { onSuccess: () => setInviteEmail('') });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {receivedInvitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="w-5 h-5" />
+              Invitations
+            </CardTitle>
+            <CardDescription>
+              {household
+                ? 'Leave your current household to join another one.'
+                : 'Joining a household lets you share accounts, budgets and savings goals.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {receivedInvitations.map(invitation => (
+              <div key={invitation.id} className="flex flex-wrap items-center justify-between gap-2 p-3 border rounded-lg">
+                <div>
+                  <p className="font-medium">{invitation.household?.name || 'A household'}</p>
+                  <p className="text-sm text-muted-foreground">
+                    Invited as {HOUSEHOLD_ROLE_LABELS[invitation.role].toLowerCase()}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => acceptInvitation(invitation.id)}
+                    disabled={!!household || isAccepting}
+                  >
+                    Join
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => declineInvitation(invitation.id)}>
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {!household ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Home className="w-5 h-5" />
+              Create a Household
+            </CardTitle>
+            <CardDescription>
+              Share accounts, budgets and savings goals with a partner or family. Anything you
+              don't share stays private.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., The Santos family"
+                aria-label="Household name"
+              />
+              <Button type="submit" disabled={isCreating || !name.trim()}>
+                {isCreating ? 'Creating...' : 'Create Household'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Home className="w-5 h-5" />
+              {household.name}
+            </CardTitle>
+            <CardDescription>
+              Mark accounts, budgets and goals as shared to let members see them. Transactions in
+              shared accounts are shared; the rest stay private.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-3">
+              {members.map(member => {
+                const isSelf = member.user_id === user?.id;
+                return (
+                  <div key={member.id} className="flex flex-wrap items-center justify-between gap-2 p-3 border rounded-lg">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">
+                        {member.full_name || member.email || 'Household member'}
+                        {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                      </p>
+                      {member.full_name && member.email && (
+                        <p className="text-sm text-muted-foreground truncate">{member.email}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {isOwner && !isSelf ? (
+                        <>
+                          <Select
+                            value={member.role}
+                            onValueChange={(value) => updateMemberRole({ id: member.id, role: value as HouseholdRole })}
+                          >
+                            <SelectTrigger className="w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {MEMBER_ROLES.map(option => (
+                                <SelectItem key={option} value={option}>
+                                  {HOUSEHOLD_ROLE_LABELS[option]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeMember(member.id)}
+                            aria-label={`Remove ${member.full_name || member.email || 'member'}`}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <Badge variant={member.role === 'owner' ? 'default' : 'secondary'}>
+                          {HOUSEHOLD_ROLE_LABELS[member.role]}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {role && (
+              <p className="text-sm text-muted-foreground">
+                You are {role === 'owner' ? 'an' : 'a'} {HOUSEHOLD_ROLE_LABELS[role].toLowerCase()}: {HOUSEHOLD_ROLE_DESCRIPTIONS[role].toLowerCase()}.
+              </p>
+            )}
+
+            {isOwner && (
+              <>
+                <Separator />
+                <form onSubmit={handleInvite} className="space-y-2">
+                  <Label htmlFor="invite_email">Invite by email</Label>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Input
+                      id="invite_email"
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      placeholder="name@example.com"
+                    />
+                    <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as HouseholdInvitation['role'])}>
+                      <SelectTrigger className="sm:w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {INVITE_ROLES.map(option => (
+                          <SelectItem key={option} value={option}>
+                            {HOUSEHOLD_ROLE_LABELS[option]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button type="submit" disabled={isInviting || !inviteEmail.trim()}>
+                      <UserPlus className="w-4 h-4 mr-2" />
+                      Invite
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    They'll see the invitation here after signing in with this address.
+                  </p>
+                </form>
+
+                {sentInvitations.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Pending invitations</p>
+                    {sentInvitations.map(invitation => (
+                      <div key={invitation.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate">
+                          {invitation.email}
+                          <span className="text-muted-foreground"> · {HOUSEHOLD_ROLE_LABELS[invitation.role]}</span>
+                        </span>
+                        <Button variant="ghost" size="sm" onClick={() => revokeInvitation(invitation.id)}>
+                          Revoke
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+
+            <Separator />
+
+            <div className="flex flex-wrap justify-end gap-2">
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline">
+                    <LogOut className="w-4 h-4 mr-2" />
+                    Leave Household
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Leave {household.name}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Everything you shared becomes private again and you lose access to what
+                      others shared. An owner has to make someone else an owner before leaving.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => leaveHousehold()}>Leave</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+
+              {isOwner && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="destructive">
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete Household
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete {household.name}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        All members are removed and everything shared becomes private to whoever
+                        created it. No accounts, budgets, goals or transactions are deleted.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => deleteHousehold()}>Delete</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -16,11 +16,14 @@ import {
   Bell, 
   CreditCard,
   FileText,
-  Camera
+  Camera,
+  Home
 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useCurrency } from '@/hooks/useCurrency';
 import { CountryCurrencySelector } from './CountryCurrencySelector';
+import { HouseholdSettings } from './HouseholdSettings';
+import { NotificationPreferencesComponent } from '@/components/notifications/NotificationPreferences';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
@@ -135,7 +138,7 @@ export const ProfileSettingsPage: React.FC = () => {
 
       {/* Settings Tabs */}
       <Tabs defaultValue="profile" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="profile" className="flex items-center gap-2">
             <User className="w-4 h-4" />
             Profile
@@ -152,6 +155,10 @@ export const ProfileSettingsPage: React.FC = () => {
             <Bell className="w-4 h-4" />
             Notifications
           </TabsTrigger>
+          <TabsTrigger value="household" className="flex items-center gap-2">
+            <Home className="w-4 h-4" />
+            Household
+          </TabsTrigger>
         </TabsList>
 
         {/* Profile Tab */}
@@ -262,6 +269,11 @@ export const ProfileSettingsPage: React.FC = () => {
           </Card>
         </TabsContent>
 
+        {/* Household Tab */}
+        <TabsContent value="household">
+          <HouseholdSettings />
+        </TabsContent>
+
         {/* Notifications Tab */}
         <TabsContent value="notifications">
           <Card>
@@ -315,6 +327,10 @@ export const ProfileSettingsPage: React.FC = () => {
               </div>
             </CardContent>
           </Card>
+
+          <div className="mt-6">
+            <NotificationPreferencesComponent />
+          </div>
         </TabsContent>
       </Tabs>
 
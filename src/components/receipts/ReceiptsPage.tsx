@@ -19,6 +19,8 @@ import {
 import { useNavigate } from 'react-router-dom';
 import { useTransactions } from '@/hooks/useTransactions';
 import { useCategories } from '@/hooks/useCategories';
+import { usePayees } from '@/hooks/usePayees';
+import { useTags } from '@/hooks/useTags';
 import { ReceiptViewer } from './ReceiptViewer';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 
@@ -30,9 +32,13 @@ export const ReceiptsPage = () => {
   const navigate = useNavigate();
   const { transactions, isLoading } = useTransactions();
   const { categories } = useCategories();
+  const { payees } = usePayees();
+  const { tags } = useTags();
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<'all' | 'income' | 'expense'>('all');
   const [filterCategory, setFilterCategory] = useState<string>('all');
+  const [filterPayee, setFilterPayee] = useState<string>('all');
+  const [filterTag, setFilterTag] = useState<string>('all');
   const [sortBy, setSortBy] = useState<'date' | 'amount' | 'name'>('date');
 
   // Filter transactions that have receipts
@@ -64,6 +70,16 @@ export const ReceiptsPage = () => {
       filtered = filtered.filter(transaction => transaction.category_id === filterCategory);
     }
 
+    // Payee filter
+    if (filterPayee !== 'all') {
+      filtered = filtered.filter(transaction => transaction.payee_id === filterPayee);
+    }
+
+    // Tag filter
+    if (filterTag !== 'all') {
+      filtered = filtered.filter(transaction => transaction.tag_ids?.includes(filterTag));
+    }
+
     // Sort
     filtered.sort((a, b) => {
       switch (sortBy) {
@@ -79,7 +95,7 @@ export const ReceiptsPage = () => {
     });
 
     return filtered;
-  }, [transactionsWithReceipts, searchTerm, filterType, filterCategory, sortBy]);
+  }, [transactionsWithReceipts, searchTerm, filterType, filterCategory, filterPayee, filterTag, sortBy]);
 
   const getCategoryName = (categoryId: string | null) => {
     if (!categoryId) return 'Uncategorized';
@@ -160,7 +176,7 @@ export const ReceiptsPage = () => {
         {/* Filters */}
         <Card className="mb-6">
           <CardContent className="pt-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
               <div className="space-y-2">
                 <label className="text-sm font-medium">Search</label>
                 <div className="relative">
@@ -205,6 +221,40 @@ export const ReceiptsPage = () => {
                 </Select>
               </div>
               
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Payee</label>
+                <Select value={filterPayee} onValueChange={setFilterPayee}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Payees</SelectItem>
+                    {payees.map((payee) => (
+                      <SelectItem key={payee.id} value={payee.id}>
+                        {payee.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Tag</label>
+                <Select value={filterTag} onValueChange={setFilterTag}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Tags</SelectItem>
+                    {tags.map((tag) => (
+                      <SelectItem key={tag.id} value={tag.id}>
+                        #{tag.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="space-y-2">
                 <label className="text-sm font-medium">Sort By</label>
                 <Select value={sortBy} onValueChange={(value: string) => setSortBy(value)}>
@@ -267,6 +317,18 @@ export const ReceiptsPage = () => {
                         </div>
                         <span className="truncate ml-2">{getCategoryName(transaction.category_id)}</span>
                       </div>
+
+                      {!!transaction.tag_ids?.length && (
+                        <div className="flex flex-wrap gap-1">
+                          {tags
+                            .filter(tag => transaction.tag_ids!.includes(tag.id))
+                            .map(tag => (
+                              <Badge key={tag.id} variant="outline" style={{ borderColor: tag.color, color: tag.color }}>
+                                #{tag.name}
+                              </Badge>
+                            ))}
+                        </div>
+                      )}
                     </div>
 
                     {/* Actions */}
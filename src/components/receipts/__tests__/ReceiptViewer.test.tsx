@@ -57,6 +57,7 @@ describe('ReceiptViewer', () => {
     amount: 25.99,
     type: 'expense',
     category_id: 'cat1',
+    account_id: 'acc1',
     description: 'Coffee Shop',
     date: '2024-01-15',
     receipt_url: 'https://example.com/storage/v1/object/public/receipts/user1/receipt.jpg',
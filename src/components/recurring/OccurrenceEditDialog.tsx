@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCategories } from '@/hooks/useCategories';
+import type { OccurrenceOverrides } from '@/hooks/useRecurringTransactions';
+import { UpcomingOccurrence } from '@/types';
+
+interface OccurrenceEditDialogProps {
+  occurrence: UpcomingOccurrence | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (occurrence: UpcomingOccurrence, overrides: OccurrenceOverrides) => void;
+  isPosting?: boolean;
+}
+
+/**
+ * OccurrenceEditDialog lets the user adjust a single occurrence before posting it,
+ * without changing the recurring template
+ */
+export const OccurrenceEditDialog = ({ occurrence, onOpenChange, onConfirm, isPosting = false }: OccurrenceEditDialogProps) => {
+  const { categories } = useCategories();
+  const [formData, setFormData] = useState({
+    amount: '',
+    description: '',
+    category_id: '',
+    date: '',
+  });
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+
+  // Reset the fields whenever a different occurrence is opened
+  const occurrenceKey = occurrence ? `${occurrence.recurringTransaction.id}:${occurrence.date}` : null;
+  if (occurrence && occurrenceKey !== editingKey) {
+    setEditingKey(occurrenceKey);
+    setFormData({
+      amount: occurrence.recurringTransaction.amount.toString(),
+      description: occurrence.recurringTransaction.description,
+      category_id: occurrence.recurringTransaction.category_id || '',
+      date: occurrence.date,
+    });
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!occurrence) return;
+
+    onConfirm(occurrence, {
+      amount: parseFloat(formData.amount) || 0,
+      description: formData.description.trim() || occurrence.recurringTransaction.description,
+      category_id: occurrence.recurringTransaction.type === 'transfer' ? null : formData.category_id || null,
+      date: formData.date,
+    });
+  };
+
+  const type = occurrence?.recurringTransaction.type;
+
+  return (
+    <Dialog open={!!occurrence} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Edit Occurrence</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="occurrence-description">Description</Label>
+            <Input
+              id="occurrence-description"
+              type="text"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="occurrence-amount">Amount</Label>
+              <Input
+                id="occurrence-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="occurrence-date">Date</Label>
+              <Input
+                id="occurrence-date"
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          {type !== 'transfer' && (
+            <div className="space-y-2">
+              <Label htmlFor="occurrence-category">Category</Label>
+              <Select
+                value={formData.category_id}
+                onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+              >
+                <SelectTrigger id="occurrence-category">
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories
+                    .filter(cat => cat.type === type)
+                    .map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Changes apply to this occurrence only. Future occurrences keep the schedule's details.
+          </p>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPosting}>
+              {isPosting ? 'Posting...' : 'Save & Post'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
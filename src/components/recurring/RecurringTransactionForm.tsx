@@ -0,0 +1,353 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Repeat } from 'lucide-react';
+import { useRecurringTransactions } from '@/hooks/useRecurringTransactions';
+import { useCategories } from '@/hooks/useCategories';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useSavingsGoals } from '@/hooks/useSavingsGoals';
+import { RecurrenceFrequency, RecurringTransaction, TransactionType } from '@/types';
+import { RECURRENCE_FREQUENCY_LABELS, todayIsoDate } from '@/utils/recurrence';
+
+const NONE = '__none__';
+
+interface RecurringTransactionFormProps {
+  trigger?: React.ReactNode;
+  recurringTransaction?: RecurringTransaction;
+  isEdit?: boolean;
+}
+
+/**
+ * RecurringTransactionForm component for creating and editing recurring transaction templates
+ */
+export const RecurringTransactionForm = ({ trigger, recurringTransaction, isEdit = false }: RecurringTransactionFormProps) => {
+  const [open, setOpen] = useState(false);
+  const { savingsGoals } = useSavingsGoals();
+
+  // Twice-a-month schedules default to the salary dates of the user's savings goals
+  const defaultPaydays = {
+    day_of_month_1: savingsGoals[0]?.salary_date_1 ?? 15,
+    day_of_month_2: savingsGoals[0]?.salary_date_2 ?? 30,
+  };
+
+  const initialFormData = () => ({
+    description: recurringTransaction?.description || '',
+    amount: recurringTransaction?.amount?.toString() || '',
+    type: recurringTransaction?.type || 'expense' as TransactionType,
+    category_id: recurringTransaction?.category_id || '',
+    account_id: recurringTransaction?.account_id || '',
+    transfer_account_id: recurringTransaction?.transfer_account_id || '',
+    savings_goal_id: recurringTransaction?.savings_goal_id || '',
+    frequency: recurringTransaction?.frequency || 'monthly' as RecurrenceFrequency,
+    day_of_month_1: (recurringTransaction?.day_of_month_1 ?? defaultPaydays.day_of_month_1).toString(),
+    day_of_month_2: (recurringTransaction?.day_of_month_2 ?? defaultPaydays.day_of_month_2).toString(),
+    start_date: recurringTransaction?.start_date || todayIsoDate(),
+    end_date: recurringTransaction?.end_date || '',
+    auto_post: recurringTransaction?.auto_post ?? true,
+  });
+
+  const [formData, setFormData] = useState(initialFormData);
+
+  const { createRecurringTransaction, updateRecurringTransaction, isCreating, isUpdating } = useRecurringTransactions();
+  const { categories } = useCategories();
+  const { activeAccounts } = useAccounts();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Re-read defaults on open so salary dates loaded after mount are picked up
+    if (nextOpen) {
+      setFormData(initialFormData());
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const isTransfer = formData.type === 'transfer';
+    const isBiMonthly = formData.frequency === 'bi_monthly';
+    const templateData = {
+      description: formData.description,
+      amount: parseFloat(formData.amount) || 0,
+      type: formData.type,
+      category_id: isTransfer ? null : formData.category_id || null,
+      account_id: formData.account_id,
+      transfer_account_id: isTransfer ? formData.transfer_account_id || null : null,
+      savings_goal_id: isTransfer ? formData.savings_goal_id || null : null,
+      frequency: formData.frequency,
+      day_of_month_1: isBiMonthly ? parseInt(formData.day_of_month_1) || 15 : null,
+      day_of_month_2: isBiMonthly ? parseInt(formData.day_of_month_2) || 30 : null,
+      start_date: formData.start_date,
+      end_date: formData.end_date || null,
+      auto_post: formData.auto_post,
+      is_active: recurringTransaction?.is_active ?? true,
+    };
+
+    if (isEdit && recurringTransaction) {
+      updateRecurringTransaction({ id: recurringTransaction.id, ...templateData });
+    } else {
+      createRecurringTransaction(templateData);
+    }
+
+    setOpen(false);
+  };
+
+  const defaultTrigger = (
+    <Button className="flex items-center space-x-2">
+      <Plus className="w-4 h-4" />
+      <span>{isEdit ? 'Edit' : 'New Recurring'}</span>
+    </Button>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger || defaultTrigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="w-5 h-5" />
+            {isEdit ? 'Edit Recurring Transaction' : 'Add Recurring Transaction'}
+          </DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="recurring-description">Description</Label>
+            <Input
+              id="recurring-description"
+              type="text"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              placeholder="Monthly rent"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-amount">Amount</Label>
+              <Input
+                id="recurring-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-type">Type</Label>
+              <Select
+                value={formData.type}
+                onValueChange={(value) => setFormData({ ...formData, type: value as TransactionType, category_id: '' })}
+              >
+                <SelectTrigger id="recurring-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="expense">Expense</SelectItem>
+                  <SelectItem value="income">Income</SelectItem>
+                  <SelectItem value="transfer">Transfer</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {formData.type !== 'transfer' && (
+            <div className="space-y-2">
+              <Label htmlFor="recurring-category">Category</Label>
+              <Select
+                value={formData.category_id}
+                onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+              >
+                <SelectTrigger id="recurring-category">
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories
+                    .filter(cat => cat.type === formData.type)
+                    .map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-account">{formData.type === 'transfer' ? 'From Account' : 'Account'}</Label>
+            <Select
+              value={formData.account_id}
+              onValueChange={(value) => setFormData({ ...formData, account_id: value })}
+            >
+              <SelectTrigger id="recurring-account">
+                <SelectValue placeholder="Select an account" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {formData.type === 'transfer' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="recurring-transfer-account">To Account</Label>
+                <Select
+                  value={formData.transfer_account_id || NONE}
+                  onValueChange={(value) => setFormData({ ...formData, transfer_account_id: value === NONE ? '' : value })}
+                >
+                  <SelectTrigger id="recurring-transfer-account">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No account</SelectItem>
+                    {activeAccounts
+                      .filter(account => account.id !== formData.account_id)
+                      .map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurring-savings-goal">Savings Goal</Label>
+                <Select
+                  value={formData.savings_goal_id || NONE}
+                  onValueChange={(value) => setFormData({ ...formData, savings_goal_id: value === NONE ? '' : value })}
+                >
+                  <SelectTrigger id="recurring-savings-goal">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No specific goal</SelectItem>
+                    {savingsGoals.map((goal) => (
+                      <SelectItem key={goal.id} value={goal.id}>
+                        {goal.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-frequency">Repeats</Label>
+            <Select
+              value={formData.frequency}
+              onValueChange={(value) => setFormData({ ...formData, frequency: value as RecurrenceFrequency })}
+            >
+              <SelectTrigger id="recurring-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RECURRENCE_FREQUENCY_LABELS) as RecurrenceFrequency[]).map(frequency => (
+                  <SelectItem key={frequency} value={frequency}>
+                    {RECURRENCE_FREQUENCY_LABELS[frequency]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {formData.frequency === 'bi_monthly' && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-day-1">First Day</Label>
+                  <Input
+                    id="recurring-day-1"
+                    type="number"
+                    min="1"
+                    max="31"
+                    value={formData.day_of_month_1}
+                    onChange={(e) => setFormData({ ...formData, day_of_month_1: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-day-2">Second Day</Label>
+                  <Input
+                    id="recurring-day-2"
+                    type="number"
+                    min="1"
+                    max="31"
+                    value={formData.day_of_month_2}
+                    onChange={(e) => setFormData({ ...formData, day_of_month_2: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                Days past the end of a month fall on its last day, so the 30th posts on February 28.
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-start-date">Start Date</Label>
+              <Input
+                id="recurring-start-date"
+                type="date"
+                value={formData.start_date}
+                onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-end-date">End Date (Optional)</Label>
+              <Input
+                id="recurring-end-date"
+                type="date"
+                value={formData.end_date}
+                min={formData.start_date}
+                onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <Label htmlFor="recurring-auto-post">Post automatically</Label>
+              <p className="text-xs text-gray-500">
+                When off, each occurrence waits in Upcoming until you confirm it.
+              </p>
+            </div>
+            <Switch
+              id="recurring-auto-post"
+              checked={formData.auto_post}
+              onCheckedChange={(checked) => setFormData({ ...formData, auto_post: checked })}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isCreating || isUpdating || !formData.account_id}>
+              {isEdit
+                ? (isUpdating ? 'Updating...' : 'Update')
+                : (isCreating ? 'Creating...' : 'Create')
+              }
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Repeat, CalendarClock, Check, SkipForward, Edit, Trash2, Plus } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useRecurringTransactions, type OccurrenceOverrides } from '@/hooks/useRecurringTransactions';
+import { useCategories } from '@/hooks/useCategories';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { RecurringTransaction, UpcomingOccurrence } from '@/types';
+import { RECURRENCE_FREQUENCY_LABELS, getNextOccurrence, todayIsoDate } from '@/utils/recurrence';
+import { RecurringTransactionForm } from './RecurringTransactionForm';
+import { OccurrenceEditDialog } from './OccurrenceEditDialog';
+
+const formatDate = (dateString: string) => {
+  return new Date(`${dateString}T00:00:00`).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+/**
+ * RecurringTransactionsPage lists recurring schedules and the occurrences coming up next
+ * Occurrences can be skipped, edited or confirmed one at a time
+ */
+export const RecurringTransactionsPage = () => {
+  const {
+    recurringTransactions,
+    upcomingOccurrences,
+    isLoading,
+    updateRecurringTransaction,
+    deleteRecurringTransaction,
+    skipOccurrence,
+    confirmOccurrence,
+    isPostingOccurrence,
+  } = useRecurringTransactions();
+  const { categories } = useCategories();
+  const { accounts } = useAccounts();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+  const [editingOccurrence, setEditingOccurrence] = useState<UpcomingOccurrence | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const today = todayIsoDate();
+
+  const getCategoryName = (template: RecurringTransaction) => {
+    if (template.type === 'transfer') return 'Transfer';
+    return categories.find(c => c.id === template.category_id)?.name || 'Uncategorized';
+  };
+
+  const getAccountName = (accountId: string) => accounts.find(a => a.id === accountId)?.name || 'Unknown account';
+
+  const getScheduleLabel = (template: RecurringTransaction) => {
+    if (template.frequency === 'bi_monthly') {
+      return `${RECURRENCE_FREQUENCY_LABELS.bi_monthly} (${template.day_of_month_1 ?? 15} & ${template.day_of_month_2 ?? 30})`;
+    }
+    return RECURRENCE_FREQUENCY_LABELS[template.frequency];
+  };
+
+  const amountClass = (template: RecurringTransaction) => {
+    if (template.type === 'transfer') return 'text-blue-600';
+    return template.type === 'income' ? 'text-green-600' : 'text-red-600';
+  };
+
+  const handleConfirmEdited = (occurrence: UpcomingOccurrence, overrides: OccurrenceOverrides) => {
+    confirmOccurrence(
+      { template: occurrence.recurringTransaction, date: occurrence.date, overrides },
+      { onSuccess: () => setEditingOccurrence(null) }
+    );
+  };
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Recurring</h1>
+          <p className="text-gray-600 mt-1">Rent, subscriptions and salary, posted on schedule</p>
+        </div>
+
+        <RecurringTransactionForm />
+      </div>
+
+      {/* Upcoming occurrences */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            Upcoming
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {upcomingOccurrences.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing scheduled for the next 30 days.</p>
+          ) : (
+            <div className="divide-y">
+              {upcomingOccurrences.map((occurrence) => {
+                const template = occurrence.recurringTransaction;
+                return (
+                  <div
+                    key={`${template.id}-${occurrence.date}`}
+                    className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium truncate">{template.description}</p>
+                        {occurrence.isDue && (
+                          <Badge variant="outline" className="border-orange-300 text-orange-700">
+                            {occurrence.date < today ? 'Overdue' : 'Due today'}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        {formatDate(occurrence.date)} · {getCategoryName(template)} · {getAccountName(template.account_id)}
+                        {!template.auto_post && ' · Needs confirmation'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className={`font-semibold mr-2 ${amountClass(template)}`}>
+                        {formatCurrency(template.amount)}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => skipOccurrence({ template, date: occurrence.date })}
+                        disabled={isPostingOccurrence}
+                        title="Skip this occurrence"
+                      >
+                        <SkipForward className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditingOccurrence(occurrence)}
+                        disabled={isPostingOccurrence}
+                        title="Edit and post this occurrence"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => confirmOccurrence({ template, date: occurrence.date })}
+                        disabled={isPostingOccurrence}
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        Confirm
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Schedules */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Repeat className="w-5 h-5" />
+            Schedules
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {recurringTransactions.length === 0 ? (
+            <div className="text-center py-8">
+              <Repeat className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-600 mb-4">No recurring transactions yet</p>
+              <RecurringTransactionForm
+                trigger={
+                  <Button variant="outline">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add your first schedule
+                  </Button>
+                }
+              />
+            </div>
+          ) : (
+            <div className="divide-y">
+              {recurringTransactions.map((template) => {
+                const nextDate = template.is_active ? getNextOccurrence(template, today) : null;
+                return (
+                  <div
+                    key={template.id}
+                    className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium truncate">{template.description}</p>
+                        <Badge variant="secondary">{getScheduleLabel(template)}</Badge>
+                        {!template.auto_post && <Badge variant="outline">Manual</Badge>}
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        {getCategoryName(template)} · {getAccountName(template.account_id)} ·{' '}
+                        {nextDate ? `Next on ${formatDate(nextDate)}` : template.is_active ? 'Ended' : 'Paused'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className={`font-semibold mr-2 ${amountClass(template)}`}>
+                        {formatCurrency(template.amount)}
+                      </span>
+                      <Switch
+                        checked={template.is_active}
+                        onCheckedChange={(checked) => updateRecurringTransaction({ id: template.id, is_active: checked })}
+                        aria-label={template.is_active ? 'Pause schedule' : 'Resume schedule'}
+                      />
+                      <RecurringTransactionForm
+                        recurringTransaction={template}
+                        isEdit
+                        trigger={
+                          <Button variant="ghost" size="sm">
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                        }
+                      />
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete recurring transaction?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              "{template.description}" will stop repeating. Transactions it already posted are kept.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteRecurringTransaction(template.id)}
+                              className="bg-red-600 hover:bg-red-700"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <OccurrenceEditDialog
+        occurrence={editingOccurrence}
+        onOpenChange={(open) => !open && setEditingOccurrence(null)}
+        onConfirm={handleConfirmEdited}
+        isPosting={isPostingOccurrence}
+      />
+    </div>
+  );
+};
@@ -22,25 +22,37 @@ import { Area } from 'recharts/es6/cartesian/Area';
 import { RadialBarChart } from 'recharts/es6/chart/RadialBarChart';
 import { RadialBar } from 'recharts/es6/polar/RadialBar';
 import { Legend } from 'recharts/es6/component/Legend';
+import { ReferenceLine } from 'recharts/es6/cartesian/ReferenceLine';
 import { useTransactions } from '@/hooks/useTransactions';
 import { useCategories } from '@/hooks/useCategories';
 import { useBudgets } from '@/hooks/useBudgets';
+import { useBudgetForecast } from '@/hooks/useBudgetForecast';
+import { usePayees } from '@/hooks/usePayees';
+import { useTags } from '@/hooks/useTags';
+import { filterTransactionsByAccount } from '@/utils/accountBalances';
+import { excludeTransfers } from '@/utils/transfers';
+import { expandSplitLines } from '@/utils/transactionSplits';
+import { groupSpending, SPENDING_DIMENSION_LABELS, type SpendingDimension } from '@/utils/spendingGroups';
 import { Calendar, TrendingUp, TrendingDown, Download } from 'lucide-react';
 import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfDay, endOfDay, subMonths, subWeeks, subDays, subYears } from 'date-fns';
 
-interface CategoryData {
-  name: string;
-  amount: number;
-  color: string;
+interface AdvancedReportsProps {
+  accountId?: string | null; // Limit every report to one account; all accounts when empty
 }
 
-export const AdvancedReports = () => {
+export const AdvancedReports = ({ accountId }: AdvancedReportsProps) => {
   const [period, setPeriod] = useState<'daily' | 'weekly' | 'monthly' | 'yearly'>('monthly');
   const [historicalPeriods, setHistoricalPeriods] = useState(6); // Number of periods to show
   const [activeTab, setActiveTab] = useState<'overview' | 'trends' | 'budgets' | 'seasonal'>('overview');
-  const { transactions } = useTransactions();
+  const [groupBy, setGroupBy] = useState<SpendingDimension>('category');
+  const { transactions: allTransactions } = useTransactions();
   const { categories } = useCategories();
   const { budgets } = useBudgets();
+  const { budgetForecasts, totalForecast, totalSeries, totalBudget } = useBudgetForecast(accountId);
+  const { payees } = usePayees();
+  const { tags } = useTags();
+  // Transfers only move money between accounts, so they stay out of income and spending reports
+  const transactions = excludeTransfers(filterTransactionsByAccount(allTransactions, accountId));
 
   // Get transactions for current period only (for current period stats)
   const getCurrentPeriodTransactions = () => {
@@ -132,25 +144,9 @@ export const AdvancedReports = () => {
     return historicalData;
   };
 
-  const generateSpendingByCategory = (): CategoryData[] => {
-    const filtered = getCurrentPeriodTransactions().filter(t => t.type === 'expense');
-    const categoryMap: Record<string, CategoryData> = {};
-
-    filtered.forEach(transaction => {
-      const category = categories.find(c => c.id === transaction.category_id);
-      const categoryName = category?.name || 'Unknown';
-
-      if (!categoryMap[categoryName]) {
-        categoryMap[categoryName] = {
-          name: categoryName,
-          amount: 0,
-          color: category?.color || '#6b7280'
-        };
-      }
-      categoryMap[categoryName].amount += transaction.amount;
-    });
-
-    return Object.values(categoryMap);
+  const generateSpendingBreakdown = () => {
+    const expenses = getCurrentPeriodTransactions().filter(t => t.type === 'expense');
+    return groupSpending(expenses, groupBy, { categories, payees, tags });
   };
 
   const generateIncomeVsExpenses = () => {
@@ -216,8 +212,7 @@ export const AdvancedReports = () => {
     historicalData.forEach(periodData => {
       const categorySpending: Record<string, number> = {};
 
-      periodData.transactions
-        .filter(t => t.type === 'expense')
+      expandSplitLines(periodData.transactions.filter(t => t.type === 'expense'))
         .forEach(transaction => {
           const category = categories.find(c => c.id === transaction.category_id);
           const categoryName = category?.name || 'Unknown';
@@ -349,7 +344,7 @@ export const AdvancedReports = () => {
       const categoryName = category?.name || 'Unknown';
 
       // Calculate actual spending for this category in current period
-      const actualSpending = currentPeriodTransactions
+      const actualSpending = expandSplitLines(currentPeriodTransactions)
         .filter(t => t.category_id === budget.category_id && t.type === 'expense')
         .reduce((sum, t) => sum + t.amount, 0);
 
@@ -459,7 +454,7 @@ export const AdvancedReports = () => {
     return projections;
   };
 
-  const categoryData = generateSpendingByCategory();
+  const spendingData = generateSpendingBreakdown();
   const incomeExpenseData = generateIncomeVsExpenses();
   const trends = generateTrends();
   const categoryTrends = generateCategoryTrends();
@@ -475,7 +470,8 @@ export const AdvancedReports = () => {
       historicalPeriods,
       dateGenerated: new Date().toISOString(),
       summary: trends,
-      categoryBreakdown: categoryData,
+      groupBy,
+      spendingBreakdown: spendingData,
       historicalData: getHistoricalTransactions(),
       currentPeriodTransactions: getCurrentPeriodTransactions()
     };
@@ -655,17 +651,31 @@ export const AdvancedReports = () => {
           </CardContent>
         </Card>
 
-        {/* Category Breakdown */}
+        {/* Spending Breakdown */}
         <Card>
           <CardHeader>
-            <CardTitle>Spending by Category</CardTitle>
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle>Spending by {SPENDING_DIMENSION_LABELS[groupBy]}</CardTitle>
+              <Select value={groupBy} onValueChange={(value: SpendingDimension) => setGroupBy(value)}>
+                <SelectTrigger className="w-32" aria-label="Group spending by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SPENDING_DIMENSION_LABELS) as SpendingDimension[]).map(dimension => (
+                    <SelectItem key={dimension} value={dimension}>
+                      {SPENDING_DIMENSION_LABELS[dimension]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </CardHeader>
           <CardContent>
-            {categoryData.length > 0 ? (
+            {spendingData.length > 0 ? (
               <ResponsiveContainer width="100%" height={300}>
                 <PieChart>
                   <Pie
-                    data={categoryData}
+                    data={spendingData}
                     cx="50%"
                     cy="50%"
                     labelLine={false}
@@ -674,7 +684,7 @@ export const AdvancedReports = () => {
                     fill="#8884d8"
                     dataKey="amount"
                   >
-                    {categoryData.map((entry, index) => (
+                    {spendingData.map((entry, index) => (
                       <Cell key={`cell-${index}`} fill={entry.color} />
                     ))}
                   </Pie>
@@ -791,6 +801,86 @@ export const AdvancedReports = () => {
             </CardContent>
           </Card>
 
+          {/* End-of-Period Forecast */}
+          <Card>
+            <CardHeader>
+              <CardTitle>End-of-Period Forecast</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <div className="flex flex-wrap justify-between gap-2 mb-2 text-sm">
+                  <span className="font-medium">Total expenses this month</span>
+                  <span className={totalBudget > 0 && totalForecast.projected > totalBudget ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                    ${totalForecast.spentToDate.toLocaleString()} so far, heading for ${totalForecast.projected.toLocaleString()}
+                    {' '}(${totalForecast.low.toLocaleString()}–${totalForecast.high.toLocaleString()})
+                    {totalBudget > 0 && ` of $${totalBudget.toLocaleString()} budgeted`}
+                  </span>
+                </div>
+                <ResponsiveContainer width="100%" height={300}>
+                  <ComposedChart data={totalSeries}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" tickFormatter={(value: string) => format(new Date(`${value}T00:00:00`), 'MMM d')} />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    <Area type="monotone" dataKey="band" stroke="none" fill="#f97316" fillOpacity={0.2} name="Forecast range" />
+                    <Line type="monotone" dataKey="projected" stroke="#f97316" strokeDasharray="5 5" dot={false} name="Forecast" />
+                    <Line type="monotone" dataKey="actual" stroke="#ef4444" strokeWidth={2} dot={false} name="Spent" />
+                    {totalBudget > 0 && (
+                      <ReferenceLine y={totalBudget} stroke="#3b82f6" strokeDasharray="3 3" label="Budget" />
+                    )}
+                  </ComposedChart>
+                </ResponsiveContainer>
+                {totalForecast.upcomingRecurring > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Includes ${totalForecast.upcomingRecurring.toLocaleString()} of recurring expenses still due this month.
+                  </p>
+                )}
+              </div>
+
+              {budgetForecasts.length > 0 && (
+                <div className="space-y-3">
+                  {budgetForecasts.map(({ utilization, forecast, projectedOverspend }) => {
+                    const category = categories.find(c => c.id === utilization.budget.category_id);
+                    const scale = Math.max(forecast.high, utilization.available, 1);
+
+                    return (
+                      <div key={utilization.budget.id}>
+                        <div className="flex justify-between text-sm mb-1">
+                          <span className="font-medium">{utilization.budget.category_id ? category?.name || 'Unknown' : 'All expenses'}</span>
+                          <span className={projectedOverspend > 0 ? 'text-red-600' : 'text-gray-600'}>
+                            {projectedOverspend > 0
+                              ? `Projected $${projectedOverspend.toLocaleString()} over`
+                              : `Projected $${forecast.projected.toLocaleString()} of $${utilization.available.toLocaleString()}`}
+                          </span>
+                        </div>
+                        {/* Spent so far, the forecast range and the budget line on one scale */}
+                        <div className="relative h-3 rounded-full bg-gray-100 overflow-hidden">
+                          <div
+                            className="absolute inset-y-0 bg-orange-200"
+                            style={{ left: `${(forecast.low / scale) * 100}%`, width: `${((forecast.high - forecast.low) / scale) * 100}%` }}
+                          />
+                          <div
+                            className={`absolute inset-y-0 left-0 ${projectedOverspend > 0 ? 'bg-red-500' : 'bg-blue-500'}`}
+                            style={{ width: `${(forecast.spentToDate / scale) * 100}%` }}
+                          />
+                          <div
+                            className="absolute inset-y-0 w-0.5 bg-gray-900"
+                            style={{ left: `${Math.min((utilization.available / scale) * 100, 99.5)}%` }}
+                          />
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          ${forecast.spentToDate.toLocaleString()} spent, day {forecast.elapsedDays} of {forecast.totalDays}.
+                          {' '}Likely ${forecast.low.toLocaleString()}–${forecast.high.toLocaleString()} by {format(new Date(`${forecast.window.end}T00:00:00`), 'MMM d')}.
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Budget Utilization */}
           {budgetVsActualData.length > 0 && (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
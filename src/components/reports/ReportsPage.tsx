@@ -20,6 +20,8 @@ import { Pie } from 'recharts/es6/polar/Pie';
 import { Cell } from 'recharts/es6/component/Cell';
 import { useTransactions } from '@/hooks/useTransactions';
 import { useCategories } from '@/hooks/useCategories';
+import { useAccounts } from '@/hooks/useAccounts';
+import { filterTransactionsByAccount } from '@/utils/accountBalances';
 // Lazy load AdvancedReports for better performance
 const AdvancedReports = React.lazy(() =>
   import('./AdvancedReports').then(module => ({ default: module.AdvancedReports }))
@@ -30,8 +32,13 @@ import { format, subMonths } from 'date-fns';
 export const ReportsPage = () => {
   const navigate = useNavigate();
   const [timeRange, setTimeRange] = useState('6');
-  const { transactions } = useTransactions();
+  const [accountFilter, setAccountFilter] = useState('all');
+  const { transactions: allTransactions } = useTransactions();
   const { categories } = useCategories();
+  const { accounts } = useAccounts();
+
+  const selectedAccountId = accountFilter === 'all' ? null : accountFilter;
+  const transactions = filterTransactionsByAccount(allTransactions, selectedAccountId);
 
   // Generate monthly trend data
   const generateMonthlyTrends = () => {
@@ -77,16 +84,29 @@ export const ReportsPage = () => {
           <h1 className="text-3xl font-bold text-gray-900">Financial Reports</h1>
           <p className="text-gray-600 mt-1">Comprehensive insights into your financial health</p>
         </div>
-        <Select value={timeRange} onValueChange={setTimeRange}>
-          <SelectTrigger className="w-48">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="3">Last 3 months</SelectItem>
-            <SelectItem value="6">Last 6 months</SelectItem>
-            <SelectItem value="12">Last 12 months</SelectItem>
-          </SelectContent>
-        </Select>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={accountFilter} onValueChange={setAccountFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All accounts</SelectItem>
+              {accounts.map(account => (
+                <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={timeRange} onValueChange={setTimeRange}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="3">Last 3 months</SelectItem>
+              <SelectItem value="6">Last 6 months</SelectItem>
+              <SelectItem value="12">Last 12 months</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
         <Tabs defaultValue="overview" className="space-y-6">
@@ -181,7 +201,7 @@ export const ReportsPage = () => {
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
               </div>
             }>
-              <AdvancedReports />
+              <AdvancedReports accountId={selectedAccountId} />
             </Suspense>
           </TabsContent>
 
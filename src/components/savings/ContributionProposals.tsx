@@ -0,0 +1,74 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { PiggyBank } from 'lucide-react';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { useGoalContributions } from '@/hooks/useGoalContributions';
+
+const formatDate = (value: string) => {
+  return new Date(`${value}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+/**
+ * Payday contributions waiting for the user to confirm or skip
+ */
+export const ContributionProposals = () => {
+  const { accounts } = useAccounts();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+  const { proposals, contribute, skipPayday, isContributing } = useGoalContributions();
+
+  if (proposals.length === 0) return null;
+
+  return (
+    <Card className="mb-6 border-primary/30">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <PiggyBank className="w-5 h-5 text-primary" />
+          Payday Contributions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {proposals.map(proposal => {
+          const account = accounts.find(item => item.id === proposal.account_id);
+          return (
+            <div
+              key={`${proposal.plan.id}:${proposal.payday}`}
+              className="flex flex-wrap items-center justify-between gap-3 p-3 rounded-lg border"
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900">
+                  {formatCurrency(proposal.amount)} to {proposal.goal.name}
+                </p>
+                <p className="text-sm text-gray-500">
+                  Payday {formatDate(proposal.payday)} · {formatCurrency(proposal.income)} income
+                  {account && ` · from ${account.name}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  disabled={isContributing}
+                  onClick={() => contribute({
+                    planId: proposal.plan.id,
+                    payday: proposal.payday,
+                    amount: proposal.amount,
+                    accountId: proposal.account_id,
+                  })}
+                >
+                  Contribute
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => skipPayday({ planId: proposal.plan.id, payday: proposal.payday, amount: proposal.amount })}
+                >
+                  Skip
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { ComposedChart } from 'recharts/es6/chart/ComposedChart';
+import { Bar } from 'recharts/es6/cartesian/Bar';
+import { Line } from 'recharts/es6/cartesian/Line';
+import { XAxis } from 'recharts/es6/cartesian/XAxis';
+import { YAxis } from 'recharts/es6/cartesian/YAxis';
+import { CartesianGrid } from 'recharts/es6/cartesian/CartesianGrid';
+import { Tooltip } from 'recharts/es6/component/Tooltip';
+import { ResponsiveContainer } from 'recharts/es6/component/ResponsiveContainer';
+import { History, Flag, TrendingUp } from 'lucide-react';
+import { useTransactions } from '@/hooks/useTransactions';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { SavingsGoal } from '@/types';
+import { getGoalMilestones, getGoalTimeline } from '@/utils/goalHistory';
+import { getMonthlySavingsNeeded } from '@/utils/goalWaterfall';
+import { getMonthStart } from '@/utils/envelopes';
+import { COMPOUNDING_FREQUENCY_LABELS, hasInterest, projectGoalBalance } from '@/utils/goalInterest';
+import { todayIsoDate } from '@/utils/recurrence';
+
+interface GoalHistoryDialogProps {
+  goal: SavingsGoal;
+  trigger: React.ReactNode;
+}
+
+// Longest projection shown, in months
+const MAX_PROJECTION_MONTHS = 120;
+
+const formatMonth = (value: string) => {
+  return new Date(`${value}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+const formatDate = (value: string) => {
+  return new Date(`${value}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+/**
+ * GoalHistoryDialog charts contributions, withdrawals and interest over time, shows
+ * which milestones the goal has reached and, for goals earning interest, how the
+ * balance is projected to grow
+ */
+export const GoalHistoryDialog = ({ goal, trigger }: GoalHistoryDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const { transactions } = useTransactions();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+
+  const timeline = useMemo(
+    () => getGoalTimeline(goal.id, transactions).map(point => ({ ...point, withdrawals: -point.withdrawals })),
+    [goal.id, transactions]
+  );
+  const milestones = useMemo(() => getGoalMilestones(goal, transactions), [goal, transactions]);
+
+  // Growth if the goal keeps getting what it needs each month, up to its target date
+  const projection = useMemo(() => {
+    const date = todayIsoDate();
+    if (!hasInterest(goal) || goal.target_date <= date) return [];
+    const months = Math.min(
+      MAX_PROJECTION_MONTHS,
+      Math.max(1, Math.round((Date.parse(goal.target_date) - Date.parse(date)) / (30.44 * 24 * 60 * 60 * 1000)))
+    );
+    return projectGoalBalance(
+      Number(goal.current_amount || 0),
+      getMonthlySavingsNeeded(goal, date),
+      Number(goal.interest_rate),
+      goal.compounding_frequency || 'monthly',
+      months,
+      getMonthStart(date)
+    );
+  }, [goal]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            {goal.name} History
+          </DialogTitle>
+          <DialogDescription>
+            {formatCurrency(goal.current_amount)} of {formatCurrency(goal.target_amount)} saved
+          </DialogDescription>
+        </DialogHeader>
+
+        {timeline.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">Nothing has been put into this goal yet.</p>
+        ) : (
+          <ResponsiveContainer width="100%" height={260}>
+            <ComposedChart data={timeline}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" tickFormatter={(value: string) => formatDate(value)} />
+              <YAxis />
+              <Tooltip
+                labelFormatter={(value: string) => formatDate(value)}
+                formatter={(value: number) => formatCurrency(Math.abs(value))}
+              />
+              <Bar dataKey="contributions" fill="#10b981" name="Contributions" />
+              <Bar dataKey="withdrawals" fill="#ef4444" name="Withdrawals" />
+              <Bar dataKey="interest" fill="#f59e0b" name="Interest" />
+              <Line type="stepAfter" dataKey="balance" stroke="#3b82f6" name="Saved" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+
+        <div className="space-y-2 pt-2 border-t">
+          <h3 className="text-sm font-medium text-gray-900 pt-2">Milestones</h3>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {milestones.map(milestone => (
+              <div
+                key={milestone.percent}
+                className={`rounded-lg border p-3 ${milestone.reachedOn ? 'border-green-200 bg-green-50' : ''}`}
+              >
+                <div className="flex items-center gap-1 font-medium">
+                  <Flag className={`w-4 h-4 ${milestone.reachedOn ? 'text-green-600' : 'text-gray-300'}`} />
+                  {milestone.percent}%
+                </div>
+                <p className="text-xs text-gray-500">{formatCurrency(milestone.amount)}</p>
+                {milestone.reachedOn ? (
+                  <Badge variant="secondary" className="mt-1">{formatDate(milestone.reachedOn)}</Badge>
+                ) : (
+                  <p className="text-xs text-gray-400 mt-1">Not reached</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {projection.length > 0 && (
+          <div className="space-y-2 pt-2 border-t">
+            <h3 className="text-sm font-medium text-gray-900 pt-2 flex items-center gap-2">
+              <TrendingUp className="w-4 h-4" />
+              Projected growth at {Number(goal.interest_rate)}% compounded{' '}
+              {COMPOUNDING_FREQUENCY_LABELS[goal.compounding_frequency || 'monthly'].toLowerCase()}
+            </h3>
+            <p className="text-xs text-gray-500">
+              Putting in {formatCurrency(getMonthlySavingsNeeded(goal, todayIsoDate()))} a month, the goal would hold{' '}
+              {formatCurrency(projection[projection.length - 1].balance)} by {formatMonth(projection[projection.length - 1].month)}
+            </p>
+            <ResponsiveContainer width="100%" height={220}>
+              <ComposedChart data={projection}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="month" tickFormatter={(value: string) => formatMonth(value)} />
+                <YAxis />
+                <Tooltip
+                  labelFormatter={(value: string) => formatMonth(value)}
+                  formatter={(value: number) => formatCurrency(value)}
+                />
+                <Line type="monotone" dataKey="saved" stroke="#9ca3af" name="Contributions only" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="balance" stroke="#10b981" name="With interest" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
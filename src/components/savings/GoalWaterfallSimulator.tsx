@@ -0,0 +1,188 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowUp, Layers } from 'lucide-react';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { useGoalWaterfall } from '@/hooks/useGoalWaterfall';
+import { WaterfallMethod } from '@/types';
+import { getMonthStart } from '@/utils/envelopes';
+import {
+  SURPLUS_HISTORY_MONTHS,
+  WATERFALL_METHOD_DESCRIPTIONS,
+  WATERFALL_METHOD_LABELS,
+  simulateWaterfall,
+} from '@/utils/goalWaterfall';
+import { todayIsoDate } from '@/utils/recurrence';
+
+const formatMonth = (value: string) => {
+  return new Date(`${value}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+/**
+ * GoalWaterfallSimulator ranks savings goals, sets how surplus income is split between
+ * them, and shows when each goal would be reached
+ */
+export const GoalWaterfallSimulator = () => {
+  const { standard: formatCurrency } = useCurrencyFormatter();
+  const { settings, rankedGoals, averageSurplus, setWaterfallSettings, setGoalPriorities, isReordering } = useGoalWaterfall();
+  const [surplusInput, setSurplusInput] = useState('');
+  const [minimumInput, setMinimumInput] = useState(settings.minimum.toString());
+
+  useEffect(() => {
+    setMinimumInput(settings.minimum.toString());
+  }, [settings.minimum]);
+
+  const surplus = surplusInput === '' ? averageSurplus : parseFloat(surplusInput) || 0;
+
+  const result = useMemo(
+    () => simulateWaterfall(rankedGoals, surplus, settings.method, settings.minimum, getMonthStart(todayIsoDate())),
+    [rankedGoals, surplus, settings.method, settings.minimum]
+  );
+
+  if (rankedGoals.length === 0) return null;
+
+  const moveGoal = (index: number, offset: number) => {
+    const ids = rankedGoals.map(goal => goal.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    setGoalPriorities(ids);
+  };
+
+  const saveMinimum = () => {
+    const minimum = parseFloat(minimumInput) || 0;
+    if (minimum !== settings.minimum) {
+      setWaterfallSettings({ method: settings.method, minimum });
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Layers className="w-5 h-5 text-primary" />
+          Savings Waterfall
+        </CardTitle>
+        <CardDescription>{WATERFALL_METHOD_DESCRIPTIONS[settings.method]}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="waterfall-method">Split surplus</Label>
+            <Select
+              value={settings.method}
+              onValueChange={(value) => setWaterfallSettings({ method: value as WaterfallMethod, minimum: settings.minimum })}
+            >
+              <SelectTrigger id="waterfall-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(WATERFALL_METHOD_LABELS) as WaterfallMethod[]).map(method => (
+                  <SelectItem key={method} value={method}>
+                    {WATERFALL_METHOD_LABELS[method]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {settings.method === 'minimum' && (
+            <div className="space-y-2">
+              <Label htmlFor="waterfall-minimum">Minimum per goal</Label>
+              <Input
+                id="waterfall-minimum"
+                type="number"
+                step="0.01"
+                min="0"
+                value={minimumInput}
+                onChange={(e) => setMinimumInput(e.target.value)}
+                onBlur={saveMinimum}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="waterfall-surplus">Monthly surplus</Label>
+            <Input
+              id="waterfall-surplus"
+              type="number"
+              step="0.01"
+              min="0"
+              value={surplusInput}
+              onChange={(e) => setSurplusInput(e.target.value)}
+              placeholder={averageSurplus.toFixed(2)}
+            />
+            <p className="text-xs text-gray-500">
+              Defaults to your average over the last {SURPLUS_HISTORY_MONTHS} months
+            </p>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Goal</TableHead>
+              <TableHead className="text-right">Needs / month</TableHead>
+              <TableHead className="text-right">This month</TableHead>
+              <TableHead>Completes</TableHead>
+              <TableHead className="w-20" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {result.projections.map((projection, index) => (
+              <TableRow key={projection.goal.id}>
+                <TableCell className="font-medium">
+                  <span className="text-gray-400 mr-2">{index + 1}.</span>
+                  {projection.goal.name}
+                </TableCell>
+                <TableCell className="text-right text-gray-600">
+                  {formatCurrency(projection.goal.monthlyNeeded)}
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(projection.firstAllocation)}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    {projection.completionMonth ? formatMonth(projection.completionMonth) : 'Not reached'}
+                    <Badge variant={projection.onTrack ? 'secondary' : 'destructive'}>
+                      {projection.onTrack ? 'On track' : 'Late'}
+                    </Badge>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === 0 || isReordering}
+                      onClick={() => moveGoal(index, -1)}
+                      aria-label={`Move ${projection.goal.name} up`}
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === result.projections.length - 1 || isReordering}
+                      onClick={() => moveGoal(index, 1)}
+                      aria-label={`Move ${projection.goal.name} down`}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {surplus <= 0 ? (
+          <p className="text-sm text-orange-600">There is no surplus to put towards your goals.</p>
+        ) : result.unallocated > 0 && (
+          <p className="text-sm text-gray-600">
+            {formatCurrency(result.unallocated)} a month is left over once every goal has what it needs.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
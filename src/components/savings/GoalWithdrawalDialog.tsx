@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDownToLine } from 'lucide-react';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useSavingsGoals } from '@/hooks/useSavingsGoals';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { SavingsGoal } from '@/types';
+import { todayIsoDate } from '@/utils/recurrence';
+
+interface GoalWithdrawalDialogProps {
+  goal: SavingsGoal;
+  trigger: React.ReactNode;
+}
+
+/**
+ * GoalWithdrawalDialog takes money back out of a savings goal into one of the user's accounts
+ */
+export const GoalWithdrawalDialog = ({ goal, trigger }: GoalWithdrawalDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const { activeAccounts } = useAccounts();
+  const { withdrawFromGoal, isWithdrawing } = useSavingsGoals();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+
+  const initialFormData = () => ({
+    amount: '',
+    account_id: activeAccounts[0]?.id || '',
+    date: todayIsoDate(),
+    description: `Withdrawal from ${goal.name}`,
+  });
+
+  const [formData, setFormData] = useState(initialFormData);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setFormData(initialFormData());
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    withdrawFromGoal(
+      {
+        goalId: goal.id,
+        amount: parseFloat(formData.amount),
+        accountId: formData.account_id,
+        date: formData.date,
+        description: formData.description,
+      },
+      { onSuccess: () => setOpen(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowDownToLine className="w-5 h-5" />
+            Withdraw from {goal.name}
+          </DialogTitle>
+          <DialogDescription>
+            {formatCurrency(goal.current_amount)} is saved towards this goal.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="withdrawal-amount">Amount</Label>
+            <Input
+              id="withdrawal-amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              max={goal.current_amount}
+              value={formData.amount}
+              onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="withdrawal-account">Move to</Label>
+            <Select
+              value={formData.account_id}
+              onValueChange={(value) => setFormData({ ...formData, account_id: value })}
+            >
+              <SelectTrigger id="withdrawal-account">
+                <SelectValue placeholder="Select an account" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeAccounts.map(account => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="withdrawal-date">Date</Label>
+              <Input
+                id="withdrawal-date"
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="withdrawal-description">Description</Label>
+              <Input
+                id="withdrawal-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isWithdrawing || !formData.account_id}>
+              {isWithdrawing ? 'Withdrawing...' : 'Withdraw'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,283 @@
+import React, { useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CalendarClock } from 'lucide-react';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { useGoalContributions } from '@/hooks/useGoalContributions';
+import { ContributionMethod, SavingsGoal } from '@/types';
+import { addDaysToIsoDate, todayIsoDate } from '@/utils/recurrence';
+import {
+  CONTRIBUTION_METHOD_LABELS,
+  DEFAULT_WINDOW_DAYS,
+  getPaydayContributions,
+} from '@/utils/goalContributions';
+
+const INCOME_ACCOUNT = '__income__';
+
+// Paydays shown in the planned vs. actual table
+const HISTORY_DAYS = 120;
+
+interface PaydayPlanDialogProps {
+  goal: SavingsGoal;
+  trigger: React.ReactNode;
+}
+
+const formatDate = (value: string) => {
+  return new Date(`${value}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+const ordinal = (day: number) => {
+  const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th';
+  return `${day}${suffix}`;
+};
+
+/**
+ * PaydayPlanDialog sets how much goes into a goal each payday and compares what was
+ * planned with what was actually put aside
+ */
+export const PaydayPlanDialog = ({ goal, trigger }: PaydayPlanDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const { activeAccounts } = useAccounts();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+  const { plans, contributions, ownTransactions, savePlan, deletePlan, isSaving } = useGoalContributions();
+
+  const plan = plans.find(item => item.savings_goal_id === goal.id);
+
+  const initialFormData = () => ({
+    method: plan?.method || 'percentage' as ContributionMethod,
+    amount: plan?.amount?.toString() || (plan ? '' : goal.savings_percentage_threshold?.toString() || ''),
+    account_id: plan?.account_id || INCOME_ACCOUNT,
+    auto_contribute: plan?.auto_contribute ?? false,
+    window_days: (plan?.window_days ?? DEFAULT_WINDOW_DAYS).toString(),
+    starts_on: plan?.starts_on || todayIsoDate(),
+    is_active: plan?.is_active ?? true,
+  });
+
+  const [formData, setFormData] = useState(initialFormData);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setFormData(initialFormData());
+    }
+    setOpen(nextOpen);
+  };
+
+  const history = useMemo(() => {
+    if (!plan) return [];
+    const date = todayIsoDate();
+    return getPaydayContributions(goal, plan, ownTransactions, contributions, addDaysToIsoDate(date, -HISTORY_DAYS), date)
+      .reverse();
+  }, [goal, plan, ownTransactions, contributions]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    savePlan(
+      {
+        savings_goal_id: goal.id,
+        method: formData.method,
+        amount: parseFloat(formData.amount),
+        account_id: formData.account_id === INCOME_ACCOUNT ? null : formData.account_id,
+        auto_contribute: formData.auto_contribute,
+        window_days: parseInt(formData.window_days) || 0,
+        starts_on: formData.starts_on,
+        is_active: formData.is_active,
+      },
+      { onSuccess: () => setOpen(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            Payday Plan: {goal.name}
+          </DialogTitle>
+          <DialogDescription>
+            Runs when income lands near your salary dates, the {ordinal(goal.salary_date_1)} and{' '}
+            {ordinal(goal.salary_date_2)}. Change them by editing the goal.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="plan-method">Contribute</Label>
+              <Select
+                value={formData.method}
+                onValueChange={(value) => setFormData({ ...formData, method: value as ContributionMethod })}
+              >
+                <SelectTrigger id="plan-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CONTRIBUTION_METHOD_LABELS) as ContributionMethod[]).map(method => (
+                    <SelectItem key={method} value={method}>
+                      {CONTRIBUTION_METHOD_LABELS[method]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-amount">{formData.method === 'fixed' ? 'Amount per payday' : 'Percent of income'}</Label>
+              <Input
+                id="plan-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                max={formData.method === 'percentage' ? '100' : undefined}
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                placeholder={formData.method === 'fixed' ? '2000' : '20'}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="plan-account">Take from</Label>
+              <Select
+                value={formData.account_id}
+                onValueChange={(value) => setFormData({ ...formData, account_id: value })}
+              >
+                <SelectTrigger id="plan-account">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={INCOME_ACCOUNT}>Account the income lands in</SelectItem>
+                  {activeAccounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-window">Days either side of payday</Label>
+              <Input
+                id="plan-window"
+                type="number"
+                min="0"
+                max="10"
+                value={formData.window_days}
+                onChange={(e) => setFormData({ ...formData, window_days: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="plan-start">Starting from</Label>
+            <Input
+              id="plan-start"
+              type="date"
+              value={formData.starts_on}
+              onChange={(e) => setFormData({ ...formData, starts_on: e.target.value })}
+              required
+            />
+          </div>
+
+          <div className="flex items-start justify-between gap-4 rounded-lg border p-3">
+            <div>
+              <Label htmlFor="plan-auto">Contribute automatically</Label>
+              <p className="text-xs text-gray-500">
+                Record the transfer as soon as income lands. When off, each contribution waits for you to confirm it.
+              </p>
+            </div>
+            <Switch
+              id="plan-auto"
+              checked={formData.auto_contribute}
+              onCheckedChange={(checked) => setFormData({ ...formData, auto_contribute: checked })}
+            />
+          </div>
+
+          {plan && (
+            <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+              <Label htmlFor="plan-active">Plan active</Label>
+              <Switch
+                id="plan-active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+            </div>
+          )}
+
+          <div className="flex justify-between gap-2 pt-2">
+            {plan ? (
+              <Button
+                type="button"
+                variant="ghost"
+                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                onClick={() => deletePlan(plan.id, { onSuccess: () => setOpen(false) })}
+              >
+                Remove Plan
+              </Button>
+            ) : <span />}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Plan'}
+              </Button>
+            </div>
+          </div>
+        </form>
+
+        {plan && (
+          <div className="space-y-2 pt-2 border-t">
+            <h3 className="text-sm font-medium text-gray-900 pt-2">Planned vs. actual</h3>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500">No paydays since the plan started.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Payday</TableHead>
+                    <TableHead className="text-right">Income</TableHead>
+                    <TableHead className="text-right">Planned</TableHead>
+                    <TableHead className="text-right">Actual</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map(row => (
+                    <TableRow key={row.payday}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {formatDate(row.payday)}
+                          {row.contribution?.status === 'skipped' && <Badge variant="secondary">Skipped</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right text-gray-600">
+                        {row.income > 0 ? formatCurrency(row.income) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.planned)}</TableCell>
+                      <TableCell
+                        className={`text-right font-medium ${row.actual < row.planned ? 'text-orange-600' : 'text-green-600'}`}
+                      >
+                        {formatCurrency(row.actual)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
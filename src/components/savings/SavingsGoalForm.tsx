@@ -5,12 +5,17 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Target, Settings, Calculator, Info } from 'lucide-react';
 import { useSavingsGoals } from '@/hooks/useSavingsGoals';
+import { useHousehold } from '@/hooks/useHousehold';
+import { useAccounts } from '@/hooks/useAccounts';
 import { useCurrencyFormatter } from '@/hooks/useCurrency';
 import { useToast } from '@/hooks/use-toast';
-import { SavingsGoal } from '@/types';
+import { CompoundingFrequency, SavingsGoal } from '@/types';
+import { COMPOUNDING_FREQUENCY_LABELS } from '@/utils/goalInterest';
 
 interface SavingsGoalFormProps {
   trigger?: React.ReactNode;
@@ -30,9 +35,15 @@ export const SavingsGoalForm = ({ trigger, goal, isEdit = false }: SavingsGoalFo
     savings_percentage_threshold: goal?.savings_percentage_threshold?.toString() || '20',
     salary_date_1: goal?.salary_date_1?.toString() || '15',
     salary_date_2: goal?.salary_date_2?.toString() || '30',
+    shared: !!goal?.household_id,
+    interest_rate: goal?.interest_rate?.toString() || '',
+    compounding_frequency: goal?.compounding_frequency || 'monthly' as CompoundingFrequency,
+    interest_account_id: goal?.interest_account_id || '',
   });
 
   const { createSavingsGoal, updateSavingsGoal, isCreating, isUpdating } = useSavingsGoals();
+  const { household, canEditShared } = useHousehold();
+  const { activeAccounts } = useAccounts();
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -97,6 +108,14 @@ export const SavingsGoalForm = ({ trigger, goal, isEdit = false }: SavingsGoalFo
       validationErrors.push("Second salary date must be between 1 and 31.");
     }
 
+    // Interest validation (optional)
+    const interestRate = formData.interest_rate ? parseFloat(formData.interest_rate) : 0;
+    if (isNaN(interestRate) || interestRate < 0 || interestRate > 100) {
+      validationErrors.push("Interest rate must be between 0 and 100.");
+    } else if (interestRate > 0 && !formData.interest_account_id) {
+      validationErrors.push("Choose the account that holds this goal so its interest can be recorded.");
+    }
+
     // Description validation (optional but limited)
     if (formData.description && formData.description.length > 500) {
       validationErrors.push("Description must be 500 characters or less.");
@@ -121,6 +140,10 @@ export const SavingsGoalForm = ({ trigger, goal, isEdit = false }: SavingsGoalFo
       savings_percentage_threshold: parseFloat(formData.savings_percentage_threshold),
       salary_date_1: parseInt(formData.salary_date_1),
       salary_date_2: parseInt(formData.salary_date_2),
+      household_id: formData.shared && household ? household.id : null,
+      interest_rate: interestRate > 0 ? interestRate : null,
+      compounding_frequency: formData.compounding_frequency,
+      interest_account_id: interestRate > 0 ? formData.interest_account_id : null,
     };
 
     if (isEdit && goal) {
@@ -138,6 +161,10 @@ export const SavingsGoalForm = ({ trigger, goal, isEdit = false }: SavingsGoalFo
       savings_percentage_threshold: '20',
       salary_date_1: '15',
       salary_date_2: '30',
+      shared: false,
+      interest_rate: '',
+      compounding_frequency: 'monthly',
+      interest_account_id: '',
     });
   };
 
@@ -151,7 +178,7 @@ export const SavingsGoalForm = ({ trigger, goal, isEdit = false }: SavingsGoalFo
           </Button>
         )}
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Settings className="w-5 h-5" />
@@ -270,6 +297,65 @@ export const SavingsGoalForm = ({ trigger, goal, isEdit = false }: SavingsGoalFo
             </p>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="interest_rate">Interest Rate (% a year)</Label>
+              <Input
+                id="interest_rate"
+                type="number"
+                step="0.001"
+                min="0"
+                max="100"
+                value={formData.interest_rate}
+                onChange={(e) => setFormData({ ...formData, interest_rate: e.target.value })}
+                placeholder="None"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="compounding_frequency">Compounded</Label>
+              <Select
+                value={formData.compounding_frequency}
+                onValueChange={(value) => setFormData({ ...formData, compounding_frequency: value as CompoundingFrequency })}
+                disabled={!(parseFloat(formData.interest_rate) > 0)}
+              >
+                <SelectTrigger id="compounding_frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(COMPOUNDING_FREQUENCY_LABELS) as CompoundingFrequency[]).map(frequency => (
+                    <SelectItem key={frequency} value={frequency}>
+                      {COMPOUNDING_FREQUENCY_LABELS[frequency]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {parseFloat(formData.interest_rate) > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="interest_account_id">Held in</Label>
+              <Select
+                value={formData.interest_account_id}
+                onValueChange={(value) => setFormData({ ...formData, interest_account_id: value })}
+              >
+                <SelectTrigger id="interest_account_id">
+                  <SelectValue placeholder="Select the account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeAccounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                Interest is added to the goal at the end of each period and recorded against this account
+              </p>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="savings_threshold">Savings Threshold (%)</Label>
             <Input
@@ -313,6 +399,22 @@ export const SavingsGoalForm = ({ trigger, goal, isEdit = false }: SavingsGoalFo
             </div>
           </div>
 
+          {household && canEditShared && (
+            <div className="flex items-start justify-between gap-4 rounded-lg border p-3">
+              <div>
+                <Label htmlFor="goal_shared">Share with {household.name}</Label>
+                <p className="text-xs text-gray-500">
+                  Members see this goal's progress. Editors can change it.
+                </p>
+              </div>
+              <Switch
+                id="goal_shared"
+                checked={formData.shared}
+                onCheckedChange={(checked) => setFormData({ ...formData, shared: checked })}
+              />
+            </div>
+          )}
+
           <div className="flex justify-end gap-2 pt-4">
             <Button type="button" variant="outline" onClick={() => setOpen(false)}>
               Cancel
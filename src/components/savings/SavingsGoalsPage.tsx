@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { Target, Plus, Calendar, DollarSign, Trash2, Edit } from 'lucide-react';
+import { Target, Plus, Calendar, DollarSign, Trash2, Edit, Users, CalendarClock, ArrowDownToLine, History, Percent } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -18,7 +18,15 @@ import { useNavigate } from 'react-router-dom';
 import { useSavingsGoals } from '@/hooks/useSavingsGoals';
 import { useCurrencyFormatter } from '@/hooks/useCurrency';
 import { SavingsGoalForm } from './SavingsGoalForm';
+import { PaydayPlanDialog } from './PaydayPlanDialog';
+import { ContributionProposals } from './ContributionProposals';
+import { GoalWaterfallSimulator } from './GoalWaterfallSimulator';
+import { GoalWithdrawalDialog } from './GoalWithdrawalDialog';
+import { GoalHistoryDialog } from './GoalHistoryDialog';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { GOAL_MILESTONES } from '@/utils/goalHistory';
+import { getRequiredContributionWithInterest, hasInterest } from '@/utils/goalInterest';
+import { todayIsoDate } from '@/utils/recurrence';
 
 /**
  * SavingsGoalsPage component displays and manages user's savings goals
@@ -92,6 +100,10 @@ export const SavingsGoalsPage = () => {
         />
       </div>
 
+        <ContributionProposals />
+
+        <GoalWaterfallSimulator />
+
         {/* Goals Grid */}
         {goals && goals.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -100,6 +112,7 @@ export const SavingsGoalsPage = () => {
               const daysRemaining = getDaysRemaining(goal.target_date);
               const isOverdue = daysRemaining < 0;
               const isCompleted = progress >= 100;
+              const monthlyNeeded = savingsGoalsWithProgress.find(item => item.id === goal.id)?.monthly_savings_needed;
 
               return (
                 <Card key={goal.id} className="shadow-card hover:shadow-card-hover transition-shadow">
@@ -110,6 +123,9 @@ export const SavingsGoalsPage = () => {
                         <CardTitle className="text-lg font-semibold truncate">
                           {goal.name}
                         </CardTitle>
+                        {goal.household_id && (
+                          <Users className="w-4 h-4 text-gray-400 shrink-0" aria-label="Shared with your household" />
+                        )}
                       </div>
                       {isCompleted && (
                         <div className="bg-green-100 text-green-800 text-xs px-2 py-1 rounded-full">
@@ -130,6 +146,20 @@ export const SavingsGoalsPage = () => {
                         <span className="text-sm text-gray-600">{progress.toFixed(1)}%</span>
                       </div>
                       <Progress value={progress} className="h-2" />
+                      {/* Milestones */}
+                      <div className="relative h-4 mt-1">
+                        {GOAL_MILESTONES.map(percent => (
+                          <span
+                            key={percent}
+                            className={`absolute -translate-x-full text-[10px] ${
+                              progress >= percent ? 'text-green-600 font-medium' : 'text-gray-400'
+                            }`}
+                            style={{ left: `${percent}%` }}
+                          >
+                            {percent}%
+                          </span>
+                        ))}
+                      </div>
                     </div>
 
                     {/* Amount */}
@@ -148,6 +178,27 @@ export const SavingsGoalsPage = () => {
                       </div>
                     </div>
 
+                    {/* Monthly Needed */}
+                    {!isCompleted && monthlyNeeded !== undefined && (
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <Percent className="w-4 h-4 text-gray-500" />
+                          <span className="text-sm text-gray-600">Monthly Needed</span>
+                        </div>
+                        <div className="text-right">
+                          <div className="text-sm font-medium">
+                            {formatCurrency(monthlyNeeded)}
+                          </div>
+                          {hasInterest(goal) && (
+                            <div className="text-xs text-green-600">
+                              {formatCurrency(getRequiredContributionWithInterest(goal, todayIsoDate()))} with{' '}
+                              {Number(goal.interest_rate)}% interest
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Target Date */}
                     <div className="flex items-center justify-between">
                       <div className="flex items-center space-x-2">
@@ -185,6 +236,16 @@ export const SavingsGoalsPage = () => {
                           }
                         />
 
+                        <PaydayPlanDialog
+                          goal={goal}
+                          trigger={
+                            <Button variant="outline" size="sm" className="flex-1">
+                              <CalendarClock className="w-4 h-4 mr-2" />
+                              Payday
+                            </Button>
+                          }
+                        />
+
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button
@@ -217,6 +278,27 @@ export const SavingsGoalsPage = () => {
                           </AlertDialogContent>
                         </AlertDialog>
                       </div>
+                      <div className="flex gap-2 mt-2">
+                        <GoalWithdrawalDialog
+                          goal={goal}
+                          trigger={
+                            <Button variant="outline" size="sm" className="flex-1" disabled={goal.current_amount <= 0}>
+                              <ArrowDownToLine className="w-4 h-4 mr-2" />
+                              Withdraw
+                            </Button>
+                          }
+                        />
+
+                        <GoalHistoryDialog
+                          goal={goal}
+                          trigger={
+                            <Button variant="outline" size="sm" className="flex-1">
+                              <History className="w-4 h-4 mr-2" />
+                              History
+                            </Button>
+                          }
+                        />
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
@@ -9,9 +9,23 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
 import { useInsightPreferences } from '@/hooks/useInsightPreferences';
+import { useInsightTemplates } from '@/hooks/useInsightTemplates';
 import { useFinancialInsights } from '@/hooks/useFinancialInsights';
+import { InsightTemplateForm } from './InsightTemplateForm';
+import { BUILT_IN_INSIGHT_TEMPLATES } from '@/utils/insightTemplates';
 import { 
   Settings, 
   Clock, 
@@ -22,7 +36,10 @@ import {
   Trash2,
   Info,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  FileText,
+  Pencil,
+  Plus
 } from 'lucide-react';
 import {
   InsightFrequency,
@@ -63,15 +80,21 @@ export const InsightPreferencesSettings = ({ className }: InsightPreferencesSett
     isCleaningUp
   } = useFinancialInsights();
 
+  const { templates, toggleTemplate, deleteTemplate } = useInsightTemplates();
+
+  const insightTypeLabel = (type: InsightType) => INSIGHT_TYPES.find(t => t.value === type)?.label || type;
+
   // Local state for form
   const [formData, setFormData] = useState<{
     insight_frequency: InsightFrequency;
     enabled_insight_types: InsightType[];
     preferred_delivery_time: string;
+    disabled_template_ids: string[];
   }>({
     insight_frequency: 'weekly',
     enabled_insight_types: ['weekly', 'monthly', 'threshold_alert'],
-    preferred_delivery_time: '09:00'
+    preferred_delivery_time: '09:00',
+    disabled_template_ids: []
   });
 
   // Update form data when preferences load
@@ -80,7 +103,8 @@ export const InsightPreferencesSettings = ({ className }: InsightPreferencesSett
       setFormData({
         insight_frequency: preferences.insight_frequency,
         enabled_insight_types: preferences.enabled_insight_types,
-        preferred_delivery_time: preferences.preferred_delivery_time.slice(0, 5) // HH:MM format
+        preferred_delivery_time: preferences.preferred_delivery_time.slice(0, 5), // HH:MM format
+        disabled_template_ids: preferences.disabled_template_ids || []
       });
     }
   }, [preferences]);
@@ -100,6 +124,16 @@ export const InsightPreferencesSettings = ({ className }: InsightPreferencesSett
     }));
   };
 
+  // Handle built-in template toggle
+  const handleBuiltInTemplateToggle = (id: string, enabled: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      disabled_template_ids: enabled
+        ? prev.disabled_template_ids.filter(templateId => templateId !== id)
+        : [...prev.disabled_template_ids, id]
+    }));
+  };
+
   // Handle time change
   const handleTimeChange = (time: string) => {
     setFormData(prev => ({ ...prev, preferred_delivery_time: time }));
@@ -114,7 +148,8 @@ export const InsightPreferencesSettings = ({ className }: InsightPreferencesSett
           id: preferences.id,
           insight_frequency: formData.insight_frequency,
           enabled_insight_types: formData.enabled_insight_types,
-          preferred_delivery_time: `${formData.preferred_delivery_time}:00`
+          preferred_delivery_time: `${formData.preferred_delivery_time}:00`,
+          disabled_template_ids: formData.disabled_template_ids
         };
         updatePreferences(updateData);
       } else {
@@ -123,7 +158,8 @@ export const InsightPreferencesSettings = ({ className }: InsightPreferencesSett
           insight_frequency: formData.insight_frequency,
           enabled_insight_types: formData.enabled_insight_types,
           preferred_delivery_time: `${formData.preferred_delivery_time}:00`,
-          timezone: userTimezone
+          timezone: userTimezone,
+          disabled_template_ids: formData.disabled_template_ids
         };
         createPreferences(createData);
       }
@@ -264,6 +300,30 @@ export const InsightPreferencesSettings = ({ className }: InsightPreferencesSett
             </div>
           )}
 
+          {/* Built-in Templates */}
+          {formData.insight_frequency !== 'disabled' && (
+            <div className="space-y-3">
+              <Label className="text-base font-medium">Built-in Insights</Label>
+              <div className="space-y-2">
+                {BUILT_IN_INSIGHT_TEMPLATES
+                  .filter(template => formData.enabled_insight_types.includes(template.type))
+                  .map(template => (
+                    <div key={template.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                      <div className="flex-1 min-w-0">
+                        <Label className="font-medium">{template.name}</Label>
+                        <p className="text-sm text-gray-600">{insightTypeLabel(template.type)}</p>
+                      </div>
+                      <Switch
+                        checked={!formData.disabled_template_ids.includes(template.id)}
+                        onCheckedChange={(checked) => handleBuiltInTemplateToggle(template.id, checked)}
+                        className="flex-shrink-0"
+                      />
+                    </div>
+                  ))}
+              </div>
+            </div>
+          )}
+
           {/* Save Button */}
           <div className="flex gap-2 pt-4">
             <Button 
@@ -294,6 +354,96 @@ export const InsightPreferencesSettings = ({ className }: InsightPreferencesSett
         </CardContent>
       </Card>
 
+      {/* Templates Card */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="w-5 h-5" />
+                Insight Templates
+              </CardTitle>
+              <CardDescription>
+                Your own insights, created when the conditions you set are met
+              </CardDescription>
+            </div>
+            <InsightTemplateForm
+              trigger={
+                <Button size="sm">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Template
+                </Button>
+              }
+            />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {templates.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No templates yet. Add one to get an insight when, say, a category takes more than a third of your spending.
+            </p>
+          ) : (
+            templates.map(template => (
+              <div key={template.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <Label className="font-medium truncate">{template.name}</Label>
+                    <Badge variant="secondary" className="text-xs">
+                      {insightTypeLabel(template.type)}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-gray-600 truncate">{template.title_template}</p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Switch
+                    checked={template.is_enabled !== false}
+                    onCheckedChange={(checked) => toggleTemplate({ id: template.id, isEnabled: checked })}
+                    aria-label={`Enable ${template.name}`}
+                  />
+                  <InsightTemplateForm
+                    template={template}
+                    trigger={
+                      <Button variant="ghost" size="sm" aria-label={`Edit ${template.name}`}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    }
+                  />
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        aria-label={`Delete ${template.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete {template.name}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Insights it already created stay in your feed.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => deleteTemplate(template.id)}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
       {/* Status Card */}
       <Card>
         <CardHeader>
@@ -0,0 +1,323 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import { useInsightTemplates } from '@/hooks/useInsightTemplates';
+import {
+  INSIGHT_TYPES,
+  InsightCondition,
+  InsightConditionOperator,
+  InsightMetric,
+  InsightPriority,
+  InsightTemplate,
+  InsightType,
+} from '@/types/insights';
+import { INSIGHT_CONDITION_OPERATORS, INSIGHT_METRICS } from '@/utils/insightTemplates';
+
+interface InsightTemplateFormProps {
+  template?: InsightTemplate;
+  trigger: React.ReactNode;
+}
+
+interface ConditionFormData {
+  field: InsightMetric;
+  operator: InsightConditionOperator;
+  value: string;
+  max: string;
+  threshold: string;
+}
+
+const METRICS = Object.keys(INSIGHT_METRICS) as InsightMetric[];
+
+const OPERATORS = Object.keys(INSIGHT_CONDITION_OPERATORS) as InsightConditionOperator[];
+
+const PRIORITIES: InsightPriority[] = ['low', 'medium', 'high'];
+
+const toConditionFormData = (condition: InsightCondition): ConditionFormData => ({
+  field: condition.field,
+  operator: condition.operator,
+  value: (Array.isArray(condition.value) ? condition.value[0] : condition.value).toString(),
+  max: Array.isArray(condition.value) ? condition.value[1].toString() : '',
+  threshold: condition.threshold?.toString() || '',
+});
+
+const toCondition = (condition: ConditionFormData): InsightCondition => ({
+  field: condition.field,
+  operator: condition.operator,
+  value: condition.operator === 'between'
+    ? [parseFloat(condition.value), parseFloat(condition.max)]
+    : parseFloat(condition.value),
+  ...(condition.threshold !== '' && INSIGHT_METRICS[condition.field].base
+    ? { threshold: parseFloat(condition.threshold) }
+    : {}),
+});
+
+/**
+ * InsightTemplateForm adds or edits one of the user's own insight templates: the
+ * conditions that trigger it and the title and content it produces
+ */
+export const InsightTemplateForm = ({ template, trigger }: InsightTemplateFormProps) => {
+  const [open, setOpen] = useState(false);
+  const { saveTemplate, isSaving } = useInsightTemplates();
+
+  const initialFormData = () => ({
+    name: template?.name || '',
+    type: template?.type || 'monthly' as InsightType,
+    priority: template?.priority || 'medium' as InsightPriority,
+    title_template: template?.title_template || '',
+    content_template: template?.content_template || '',
+    conditions: template?.conditions.map(toConditionFormData) || [
+      { field: 'spending_increase', operator: 'gt', value: '20', max: '', threshold: '' } as ConditionFormData,
+    ],
+  });
+
+  const [formData, setFormData] = useState(initialFormData);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setFormData(initialFormData());
+    }
+    setOpen(nextOpen);
+  };
+
+  const updateCondition = (index: number, changes: Partial<ConditionFormData>) => {
+    setFormData({
+      ...formData,
+      conditions: formData.conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition)),
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveTemplate(
+      {
+        id: template?.id,
+        name: formData.name,
+        type: formData.type,
+        priority: formData.priority,
+        title_template: formData.title_template,
+        content_template: formData.content_template,
+        conditions: formData.conditions.map(toCondition),
+      },
+      { onSuccess: () => setOpen(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? 'Edit Insight Template' : 'Add Insight Template'}</DialogTitle>
+          <DialogDescription>
+            The insight is created whenever every condition holds. Conditions on a category or budget
+            are checked for each one in turn.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="Dining out creeping up"
+              maxLength={100}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-type">Checked with</Label>
+              <Select
+                value={formData.type}
+                onValueChange={(value) => setFormData({ ...formData, type: value as InsightType })}
+              >
+                <SelectTrigger id="template-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INSIGHT_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-priority">Priority</Label>
+              <Select
+                value={formData.priority}
+                onValueChange={(value) => setFormData({ ...formData, priority: value as InsightPriority })}
+              >
+                <SelectTrigger id="template-priority" className="capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRIORITIES.map(priority => (
+                    <SelectItem key={priority} value={priority} className="capitalize">
+                      {priority}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Conditions</Label>
+            {formData.conditions.map((condition, index) => {
+              const metric = INSIGHT_METRICS[condition.field];
+              return (
+                <div key={index} className="space-y-2 rounded-lg border p-3">
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={condition.field}
+                      onValueChange={(value) => updateCondition(index, { field: value as InsightMetric })}
+                    >
+                      <SelectTrigger className="flex-1" aria-label="Metric">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {METRICS.map(field => (
+                          <SelectItem key={field} value={field}>
+                            {INSIGHT_METRICS[field].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={condition.operator}
+                      onValueChange={(value) => updateCondition(index, { operator: value as InsightConditionOperator })}
+                    >
+                      <SelectTrigger className="w-36" aria-label="Operator">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {OPERATORS.map(operator => (
+                          <SelectItem key={operator} value={operator}>
+                            {INSIGHT_CONDITION_OPERATORS[operator]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setFormData({ ...formData, conditions: formData.conditions.filter((_, i) => i !== index) })}
+                      disabled={formData.conditions.length === 1}
+                      aria-label="Remove condition"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      step="any"
+                      value={condition.value}
+                      onChange={(e) => updateCondition(index, { value: e.target.value })}
+                      className="w-28"
+                      aria-label="Value"
+                      required
+                    />
+                    {condition.operator === 'between' && (
+                      <>
+                        <span className="text-sm text-gray-500">and</span>
+                        <Input
+                          type="number"
+                          step="any"
+                          value={condition.max}
+                          onChange={(e) => updateCondition(index, { max: e.target.value })}
+                          className="w-28"
+                          aria-label="Upper value"
+                          required
+                        />
+                      </>
+                    )}
+                    <span className="text-sm text-gray-500">
+                      {metric.format === 'percent' ? '%' : metric.format === 'currency' ? '$' : ''}
+                    </span>
+                    {metric.base && (
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={condition.threshold}
+                        onChange={(e) => updateCondition(index, { threshold: e.target.value })}
+                        placeholder={`Min. ${INSIGHT_METRICS[metric.base].label.toLowerCase()}`}
+                        className="flex-1"
+                        aria-label="Threshold"
+                      />
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500">{metric.description}</p>
+                </div>
+              );
+            })}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setFormData({
+                ...formData,
+                conditions: [...formData.conditions, { field: 'spending', operator: 'gt', value: '0', max: '', threshold: '' }],
+              })}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Condition
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-title">Title</Label>
+            <Input
+              id="template-title"
+              value={formData.title_template}
+              onChange={(e) => setFormData({ ...formData, title_template: e.target.value })}
+              placeholder="{{category}} spending is up"
+              maxLength={200}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-content">Content</Label>
+            <Textarea
+              id="template-content"
+              value={formData.content_template}
+              onChange={(e) => setFormData({ ...formData, content_template: e.target.value })}
+              placeholder="You spent {{category_spending}} on {{category}}, {{category_change}} more than last time."
+              maxLength={1000}
+              rows={3}
+              required
+            />
+            <p className="text-xs text-gray-500">
+              Use {'{{category}}'} or {'{{budget}}'} for the name, and any metric in braces, such
+              as {'{{spending}}'} or {'{{budget_utilization}}'}, for its value.
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : template ? 'Save Changes' : 'Add Template'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToastAction } from '@/components/ui/toast';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { CalendarDays, Trash2, X } from 'lucide-react';
+import { useTransactionMutations, type BulkTransactionChanges, type TransactionSnapshot } from '@/hooks/useTransactions';
+import { useCategories } from '@/hooks/useCategories';
+import { useSavingsGoals } from '@/hooks/useSavingsGoals';
+import { useCurrency } from '@/hooks/useCurrency';
+import { useToast } from '@/hooks/use-toast';
+import { Transaction } from '@/types';
+import { getBulkEditTargets, type BulkEditField } from '@/utils/bulkTransactions';
+import { todayIsoDate } from '@/utils/recurrence';
+
+interface BulkTransactionActionsProps {
+  selected: Transaction[];
+  onClearSelection: () => void;
+}
+
+const plural = (count: number) => `${count} transaction${count === 1 ? '' : 's'}`;
+
+/**
+ * BulkTransactionActions applies one change to every selected transaction and offers
+ * a single undo for the whole batch
+ */
+export const BulkTransactionActions = ({ selected, onClearSelection }: BulkTransactionActionsProps) => {
+  const { bulkUpdateTransactions, bulkDeleteTransactions, restoreTransactions, isBulkUpdating } = useTransactionMutations();
+  const { categories } = useCategories();
+  const { savingsGoals } = useSavingsGoals();
+  const { currencies } = useCurrency();
+  const { toast } = useToast();
+  const [bulkDate, setBulkDate] = useState(todayIsoDate());
+  const [datePopoverOpen, setDatePopoverOpen] = useState(false);
+
+  const selectedTypes = new Set(selected.map(t => t.type));
+  const selectableCategories = categories.filter(cat => selectedTypes.has(cat.type));
+
+  const showUndoToast = (title: string, description: string, snapshot: TransactionSnapshot) => {
+    toast({
+      title,
+      description,
+      action: (
+        <ToastAction altText="Undo" onClick={() => restoreTransactions(snapshot)}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  const applyChange = (field: BulkEditField, changes: BulkTransactionChanges, label: string) => {
+    const category = field === 'category' ? categories.find(c => c.id === changes.category_id) : null;
+    const { ids, skipped } = getBulkEditTargets(selected, field, category);
+
+    if (ids.length === 0) {
+      toast({
+        title: "Nothing to update",
+        description: field === 'savings_goal'
+          ? "Only transfers can be linked to a savings goal."
+          : "None of the selected transactions can take this change.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    bulkUpdateTransactions({ ids, changes }, {
+      onSuccess: (snapshot) => {
+        showUndoToast(
+          `${plural(ids.length)} updated`,
+          skipped > 0 ? `${label} ${skipped} skipped because the change doesn't apply to them.` : label,
+          snapshot
+        );
+        onClearSelection();
+      },
+    });
+  };
+
+  const handleDelete = () => {
+    const ids = selected.map(t => t.id);
+    bulkDeleteTransactions(ids, {
+      onSuccess: (snapshot) => {
+        showUndoToast(`${plural(ids.length)} deleted`, 'Use Undo to bring them back.', snapshot);
+        onClearSelection();
+      },
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-3 mb-4 rounded-lg border bg-blue-50 border-blue-200">
+      <span className="text-sm font-medium text-blue-900 mr-2">{selected.length} selected</span>
+
+      <Select
+        value=""
+        onValueChange={(value) => {
+          const name = categories.find(c => c.id === value)?.name;
+          applyChange('category', { category_id: value }, `Category set to ${name}.`);
+        }}
+        disabled={isBulkUpdating || selectableCategories.length === 0}
+      >
+        <SelectTrigger className="w-auto min-w-[150px] h-9 bg-white" aria-label="Change category">
+          <SelectValue placeholder="Change category" />
+        </SelectTrigger>
+        <SelectContent>
+          {selectableCategories.map((category) => (
+            <SelectItem key={category.id} value={category.id}>
+              {category.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Popover open={datePopoverOpen} onOpenChange={setDatePopoverOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-9 bg-white" disabled={isBulkUpdating}>
+            <CalendarDays className="w-4 h-4 mr-1" />
+            Change date
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-2">
+          <Input
+            type="date"
+            value={bulkDate}
+            onChange={(e) => setBulkDate(e.target.value)}
+            aria-label="New date"
+          />
+          <Button
+            size="sm"
+            className="w-full"
+            disabled={!bulkDate}
+            onClick={() => {
+              setDatePopoverOpen(false);
+              applyChange('date', { date: bulkDate }, `Date set to ${bulkDate}.`);
+            }}
+          >
+            Apply to {plural(selected.length)}
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      <Select
+        value=""
+        onValueChange={(value) => {
+          const name = savingsGoals.find(g => g.id === value)?.name;
+          applyChange('savings_goal', { savings_goal_id: value }, `Linked to ${name}.`);
+        }}
+        disabled={isBulkUpdating || savingsGoals.length === 0}
+      >
+        <SelectTrigger className="w-auto min-w-[150px] h-9 bg-white" aria-label="Link to savings goal">
+          <SelectValue placeholder="Link to goal" />
+        </SelectTrigger>
+        <SelectContent>
+          {savingsGoals.map((goal) => (
+            <SelectItem key={goal.id} value={goal.id}>
+              {goal.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value=""
+        onValueChange={(value) => applyChange('currency', { currency: value }, `Currency set to ${value}.`)}
+        disabled={isBulkUpdating || currencies.length === 0}
+      >
+        <SelectTrigger className="w-auto min-w-[130px] h-9 bg-white" aria-label="Change currency">
+          <SelectValue placeholder="Change currency" />
+        </SelectTrigger>
+        <SelectContent>
+          {currencies.map((currency) => (
+            <SelectItem key={currency.code} value={currency.code}>
+              {currency.code} - {currency.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-9 bg-white text-red-600 hover:text-red-700 hover:bg-red-50"
+            disabled={isBulkUpdating}
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {plural(selected.length)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected transactions will be removed. You can undo this from the notification that follows.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete {plural(selected.length)}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Button variant="ghost" size="sm" className="h-9 ml-auto" onClick={onClearSelection}>
+        <X className="w-4 h-4 mr-1" />
+        Clear
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import { Sparkles } from 'lucide-react';
+import { Category } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface CategorySuggestionChipProps {
+  category: Category;
+  confidence: number;
+  onAccept: (categoryId: string) => void;
+  className?: string;
+}
+
+/**
+ * CategorySuggestionChip offers the category learned from past transactions; tapping it applies it
+ */
+export const CategorySuggestionChip = ({ category, confidence, onAccept, className }: CategorySuggestionChipProps) => (
+  <button
+    type="button"
+    onClick={() => onAccept(category.id)}
+    className={cn(
+      "inline-flex items-center gap-1 rounded-full border border-purple-200 bg-purple-50 px-2.5 py-1 text-xs text-purple-700 hover:bg-purple-100",
+      className
+    )}
+  >
+    <Sparkles className="w-3 h-3" />
+    Suggested: <span className="font-medium">{category.name}</span>
+    <span className="text-purple-500">{Math.round(confidence * 100)}%</span>
+  </button>
+);
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ArchiveRestore, RotateCcw } from 'lucide-react';
+import { useDeletedTransactions } from '@/hooks/useTransactionHistory';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { CHANGE_SOURCE_LABELS, HISTORY_RETENTION_DAYS, getRestoreDeadline } from '@/utils/transactionHistory';
+
+interface DeletedTransactionsDialogProps {
+  trigger?: React.ReactNode;
+}
+
+const formatDate = (value: string | Date) => {
+  return new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+/**
+ * DeletedTransactionsDialog lists transactions deleted within the retention window
+ * and restores them, split lines and tags included
+ */
+export const DeletedTransactionsDialog = ({ trigger }: DeletedTransactionsDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const { deletedTransactions, isLoading, restoreTransaction, isRestoring } = useDeletedTransactions();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline" className="flex items-center space-x-2">
+            <ArchiveRestore className="w-4 h-4" />
+            <span>Recently deleted</span>
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[525px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArchiveRestore className="w-5 h-5" />
+            Recently deleted
+          </DialogTitle>
+          <DialogDescription>
+            Deleted transactions can be restored for {HISTORY_RETENTION_DAYS} days.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : deletedTransactions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">Nothing deleted recently.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <div className="divide-y border rounded-lg">
+              {deletedTransactions.map(entry => {
+                const row = entry.before || {};
+                return (
+                  <div key={entry.id} className="flex items-center gap-3 p-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{String(row.description ?? '')}</p>
+                      <p className="text-sm text-gray-500">
+                        {formatCurrency(Number(row.amount), row.currency ? String(row.currency) : undefined)}
+                        {row.date ? ` · ${formatDate(String(row.date))}` : ''}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        Deleted {formatDate(entry.changed_at)} ({CHANGE_SOURCE_LABELS[entry.source].toLowerCase()}),
+                        restorable until {formatDate(getRestoreDeadline(entry))}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => restoreTransaction(entry.id)}
+                      disabled={isRestoring}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restore
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,67 @@
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Copy } from 'lucide-react';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import type { DuplicateMatch, DuplicateResolution } from '@/utils/duplicateDetection';
+
+interface DuplicateTransactionDialogProps {
+  matches: DuplicateMatch[];
+  onResolve: (resolution: DuplicateResolution) => void;
+  onCancel: () => void;
+}
+
+export const DuplicateTransactionDialog = ({ matches, onResolve, onCancel }: DuplicateTransactionDialogProps) => {
+  const { standard: formatCurrency } = useCurrencyFormatter();
+
+  return (
+    <AlertDialog open={matches.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Copy className="w-5 h-5 text-amber-600" />
+            Possible duplicate transaction
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            This looks like a transaction you have already recorded. Skip it, merge it into the existing one, or add it anyway.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-2">
+          {matches.slice(0, 3).map(({ transaction, similarity }) => (
+            <div key={transaction.id} className="flex items-center justify-between p-3 rounded-lg border bg-amber-50 border-amber-200 text-sm">
+              <div>
+                <p className="font-medium text-gray-900">{transaction.description}</p>
+                <p className="text-gray-500">{transaction.date}</p>
+              </div>
+              <div className="text-right">
+                <p className="font-semibold">{formatCurrency(transaction.amount)}</p>
+                <p className="text-xs text-gray-500">{Math.round(similarity * 100)}% match</p>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onCancel}>Back</AlertDialogCancel>
+          <Button variant="outline" onClick={() => onResolve('skip')}>
+            Skip
+          </Button>
+          <Button variant="outline" onClick={() => onResolve('merge')}>
+            Merge
+          </Button>
+          <Button onClick={() => onResolve('keep')}>
+            Add Anyway
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -8,20 +8,29 @@ import { Textarea } from '@/components/ui/textarea';
 import { Plus, Upload, Loader2, X, Camera, FileImage } from 'lucide-react';
 import { useTransactions } from '@/hooks/useTransactions';
 import { useCategories } from '@/hooks/useCategories';
+import { useCategorySuggestions } from '@/hooks/useCategorySuggestions';
+import { useAccounts } from '@/hooks/useAccounts';
+import { usePayees } from '@/hooks/usePayees';
 import { useSavingsGoals } from '@/hooks/useSavingsGoals';
 import { useCurrencyFormatter } from '@/hooks/useCurrency';
 import { useDeviceInfo } from '@/hooks/use-mobile';
 import { useMobileFileUpload } from '@/hooks/useMobileFileUpload';
-import { Transaction } from '@/types';
+import { Transaction, TransactionType } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import { sanitizeString, sanitizeNumber } from '@/lib/validation';
 import { MobileButton } from '@/components/ui/mobile-button';
+import { mergeDuplicateTransaction, type DuplicateMatch, type DuplicateResolution } from '@/utils/duplicateDetection';
+import { validateTransfer } from '@/utils/transfers';
+import { DuplicateTransactionDialog } from './DuplicateTransactionDialog';
+import { CategorySuggestionChip } from './CategorySuggestionChip';
+
+const NONE = '__none__';
 
 interface MobileTransactionFormProps {
   transaction?: Transaction;
   isEdit?: boolean;
   trigger?: React.ReactNode;
-  defaultType?: 'income' | 'expense';
+  defaultType?: TransactionType;
 }
 
 export const MobileTransactionForm = ({ 
@@ -40,6 +49,8 @@ export const MobileTransactionForm = ({
     amount: transaction?.amount || '',
     type: transaction?.type || defaultType,
     category_id: transaction?.category_id || '',
+    account_id: transaction?.account_id || '',
+    transfer_account_id: transaction?.transfer_account_id || '',
     savings_goal_id: transaction?.savings_goal_id || '',
     description: transaction?.description || '',
     date: transaction?.date || new Date().toISOString().split('T')[0],
@@ -49,13 +60,22 @@ export const MobileTransactionForm = ({
   const [receiptPreview, setReceiptPreview] = useState<string | null>(null);
   const [uploading, setUploading] = useState(false);
 
-  const { addTransaction, updateTransaction, isAdding, isUpdating } = useTransactions();
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[]>([]);
+
+  const { addTransaction, updateTransaction, findDuplicates, isAdding, isUpdating } = useTransactions();
   const { categories } = useCategories();
+  const { activeAccounts } = useAccounts();
+  const { matchPayee } = usePayees();
   const { toast } = useToast();
+  const { suggest } = useCategorySuggestions();
 
   // Filter categories based on transaction type
   const filteredCategories = categories.filter(cat => cat.type === formData.type);
 
+  const suggestion = formData.type !== 'transfer' && !formData.category_id
+    ? suggest(formData.description, formData.type)
+    : null;
+
   const handleInputChange = (field: string, value: string | number) => {
     setFormData(prev => ({
       ...prev,
@@ -86,41 +106,104 @@ export const MobileTransactionForm = ({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.amount || !formData.description || !formData.category_id) {
+    const isTransfer = formData.type === 'transfer';
+
+    if (!formData.amount || !formData.description || (!isTransfer && !formData.category_id) || !formData.account_id) {
       toast({
         title: "Missing required fields",
-        description: "Please fill in amount, description, and category.",
+        description: isTransfer
+          ? "Please fill in amount, description, and account."
+          : "Please fill in amount, description, category, and account.",
         variant: "destructive",
       });
       return;
     }
 
+    if (isTransfer) {
+      const transferError = validateTransfer({
+        account_id: formData.account_id,
+        transfer_account_id: formData.transfer_account_id || null,
+        savings_goal_id: formData.savings_goal_id || null,
+      });
+      if (transferError) {
+        toast({
+          title: "Invalid transfer",
+          description: transferError,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    // Flag likely duplicates before saving
+    if (!isEdit) {
+      const matches = findDuplicates({
+        amount: Number(formData.amount),
+        type: formData.type,
+        date: formData.date,
+        description: formData.description,
+      });
+      if (matches.length > 0) {
+        setDuplicateMatches(matches);
+        return;
+      }
+    }
+
+    await saveTransaction();
+  };
+
+  const handleDuplicateResolution = async (resolution: DuplicateResolution) => {
+    const [bestMatch] = duplicateMatches;
+    setDuplicateMatches([]);
+
+    if (resolution === 'skip') {
+      setOpen(false);
+      resetForm();
+      return;
+    }
+
+    await saveTransaction(resolution === 'merge' ? bestMatch.transaction : undefined);
+  };
+
+  const resetForm = () => {
+    setFormData({
+      amount: '',
+      type: defaultType,
+      category_id: '',
+      account_id: '',
+      transfer_account_id: '',
+      savings_goal_id: '',
+      description: '',
+      date: new Date().toISOString().split('T')[0],
+    });
+    setReceipt(null);
+    setReceiptPreview(null);
+  };
+
+  const saveTransaction = async (mergeInto?: Transaction) => {
     try {
       setUploading(true);
       
       const transactionData = {
         ...formData,
         amount: Number(formData.amount),
+        // Transfers carry no category; only transfers have a destination account
+        category_id: formData.type === 'transfer' ? null : formData.category_id,
+        transfer_account_id: formData.type === 'transfer' ? formData.transfer_account_id || null : null,
+        savings_goal_id: formData.savings_goal_id || null,
         receipt_file: receipt,
       };
 
       if (isEdit && transaction) {
         await updateTransaction({ id: transaction.id, ...transactionData });
+      } else if (mergeInto) {
+        await updateTransaction(mergeDuplicateTransaction(mergeInto, transactionData));
       } else {
-        await addTransaction(transactionData);
+        await addTransaction({ ...transactionData, payee_id: matchPayee(formData.description)?.id ?? null });
       }
       
       setOpen(false);
-      setFormData({
-        amount: '',
-        type: defaultType,
-        category_id: '',
-        savings_goal_id: '',
-        description: '',
-        date: new Date().toISOString().split('T')[0],
-      });
-      setReceipt(null);
-      setReceiptPreview(null);
+      resetForm();
     } catch (error) {
       console.error('Transaction submission failed:', error);
     } finally {
@@ -161,7 +244,7 @@ export const MobileTransactionForm = ({
 
         <form onSubmit={handleSubmit} className="space-y-6 pb-6">
           {/* Transaction Type Toggle */}
-          <div className="grid grid-cols-2 gap-3">
+          <div className="grid grid-cols-3 gap-3">
             <MobileButton
               type="button"
               variant={formData.type === 'expense' ? 'default' : 'outline'}
@@ -178,6 +261,14 @@ export const MobileTransactionForm = ({
             >
               Income
             </MobileButton>
+            <MobileButton
+              type="button"
+              variant={formData.type === 'transfer' ? 'default' : 'outline'}
+              onClick={() => handleInputChange('type', 'transfer')}
+              className="h-12"
+            >
+              Transfer
+            </MobileButton>
           </div>
 
           {/* Amount Input */}
@@ -196,25 +287,99 @@ export const MobileTransactionForm = ({
           </div>
 
           {/* Category Selection */}
+          {formData.type !== 'transfer' && (
+            <div className="space-y-2">
+              <Label className="text-base font-medium">Category *</Label>
+              <Select value={formData.category_id} onValueChange={(value) => handleInputChange('category_id', value)}>
+                <SelectTrigger className="h-12">
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {filteredCategories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      <div className="flex items-center gap-2">
+                        <span>{category.icon}</span>
+                        <span>{category.name}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {suggestion && (
+                <CategorySuggestionChip
+                  category={suggestion.category}
+                  confidence={suggestion.confidence}
+                  onAccept={(categoryId) => handleInputChange('category_id', categoryId)}
+                  className="py-2 text-sm"
+                />
+              )}
+            </div>
+          )}
+
+          {/* Account Selection */}
           <div className="space-y-2">
-            <Label className="text-base font-medium">Category *</Label>
-            <Select value={formData.category_id} onValueChange={(value) => handleInputChange('category_id', value)}>
+            <Label className="text-base font-medium">{formData.type === 'transfer' ? 'From Account *' : 'Account *'}</Label>
+            <Select value={formData.account_id} onValueChange={(value) => handleInputChange('account_id', value)}>
               <SelectTrigger className="h-12">
-                <SelectValue placeholder="Select category" />
+                <SelectValue placeholder="Select account" />
               </SelectTrigger>
               <SelectContent>
-                {filteredCategories.map((category) => (
-                  <SelectItem key={category.id} value={category.id}>
-                    <div className="flex items-center gap-2">
-                      <span>{category.icon}</span>
-                      <span>{category.name}</span>
-                    </div>
+                {activeAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
 
+          {/* Transfer Destination */}
+          {formData.type === 'transfer' && (
+            <>
+              <div className="space-y-2">
+                <Label className="text-base font-medium">To Account</Label>
+                <Select
+                  value={formData.transfer_account_id || NONE}
+                  onValueChange={(value) => handleInputChange('transfer_account_id', value === NONE ? '' : value)}
+                >
+                  <SelectTrigger className="h-12">
+                    <SelectValue placeholder="Select account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No account (savings goal only)</SelectItem>
+                    {activeAccounts
+                      .filter(account => account.id !== formData.account_id)
+                      .map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-base font-medium">Savings Goal</Label>
+                <Select
+                  value={formData.savings_goal_id || NONE}
+                  onValueChange={(value) => handleInputChange('savings_goal_id', value === NONE ? '' : value)}
+                >
+                  <SelectTrigger className="h-12">
+                    <SelectValue placeholder="Select savings goal" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No specific goal</SelectItem>
+                    {savingsGoals.map((goal) => (
+                      <SelectItem key={goal.id} value={goal.id}>
+                        {goal.name} ({formatCurrency(goal.current_amount)} / {formatCurrency(goal.target_amount)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
           {/* Description */}
           <div className="space-y-2">
             <Label htmlFor="description" className="text-base font-medium">Description *</Label>
@@ -300,6 +465,11 @@ export const MobileTransactionForm = ({
             {isEdit ? 'Update Transaction' : 'Add Transaction'}
           </MobileButton>
         </form>
+        <DuplicateTransactionDialog
+          matches={duplicateMatches}
+          onResolve={handleDuplicateResolution}
+          onCancel={() => setDuplicateMatches([])}
+        />
       </FormContent>
     </FormWrapper>
   );
@@ -14,8 +14,8 @@ import {
   Info,
   Plus
 } from 'lucide-react';
-import { useTransactions } from '@/hooks/useTransactions';
-import { useCategories } from '@/hooks/useCategories';
+import { useTransactionMutations } from '@/hooks/useTransactions';
+import { useAccounts } from '@/hooks/useAccounts';
 import { useSavingsGoals } from '@/hooks/useSavingsGoals';
 import { useCurrencyFormatter } from '@/hooks/useCurrency';
 import { useToast } from '@/hooks/use-toast';
@@ -36,23 +36,18 @@ export const SavingsTransactionForm: React.FC<SavingsTransactionFormProps> = ({
 }) => {
   const [open, setOpen] = useState(false);
   const { toast } = useToast();
-  const { addTransaction, updateTransaction } = useTransactions();
-  const { categories } = useCategories();
+  const { addTransaction, updateTransaction } = useTransactionMutations();
+  const { activeAccounts } = useAccounts();
   const { savingsGoals } = useSavingsGoals();
   const { standard: formatCurrency } = useCurrencyFormatter();
 
-  // Find savings category
-  const savingsCategory = categories.find(cat => 
-    cat.name === 'Savings' && cat.type === 'expense'
-  );
-
   const [formData, setFormData] = useState({
     amount: transaction?.amount?.toString() || '',
     description: transaction?.description || '',
     date: transaction?.date || new Date().toISOString().split('T')[0],
     savings_goal_id: transaction?.savings_goal_id || defaultSavingsGoalId || '',
-    category_id: transaction?.category_id || savingsCategory?.id || '',
-    type: 'expense' as const, // Savings are always expenses (money going out)
+    account_id: transaction?.account_id || '',
+    type: 'transfer' as const, // Savings move money from an account into a goal
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -76,13 +71,23 @@ export const SavingsTransactionForm: React.FC<SavingsTransactionFormProps> = ({
       return;
     }
 
+    if (!formData.account_id) {
+      toast({
+        title: "Account Required",
+        description: "Please select the account the savings are taken from.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       const transactionData = {
         amount: parseFloat(formData.amount),
         description: formData.description,
         date: formData.date,
         type: formData.type,
-        category_id: formData.category_id || savingsCategory?.id || null,
+        category_id: null,
+        account_id: formData.account_id,
         savings_goal_id: formData.savings_goal_id,
       };
 
@@ -117,8 +122,8 @@ export const SavingsTransactionForm: React.FC<SavingsTransactionFormProps> = ({
       description: '',
       date: new Date().toISOString().split('T')[0],
       savings_goal_id: defaultSavingsGoalId || '',
-      category_id: savingsCategory?.id || '',
-      type: 'expense',
+      account_id: '',
+      type: 'transfer',
     });
   };
 
@@ -196,6 +201,26 @@ export const SavingsTransactionForm: React.FC<SavingsTransactionFormProps> = ({
             )}
           </div>
 
+          {/* Source Account */}
+          <div className="space-y-2">
+            <Label htmlFor="account_id">From Account</Label>
+            <Select
+              value={formData.account_id}
+              onValueChange={(value) => setFormData({ ...formData, account_id: value })}
+            >
+              <SelectTrigger id="account_id">
+                <SelectValue placeholder="Select an account" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Amount */}
           <div className="space-y-2">
             <Label htmlFor="amount">Amount</Label>
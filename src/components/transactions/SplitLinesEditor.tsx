@@ -0,0 +1,97 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import { Category } from '@/types';
+import { getSplitTotal } from '@/utils/transactionSplits';
+
+export interface SplitLineDraft {
+  category_id: string;
+  amount: string;
+}
+
+interface SplitLinesEditorProps {
+  lines: SplitLineDraft[];
+  onChange: (lines: SplitLineDraft[]) => void;
+  categories: Category[];
+  totalAmount: number;
+  formatCurrency: (amount: number) => string;
+}
+
+/**
+ * SplitLinesEditor edits the per-category lines of a split transaction and shows
+ * how much of the total is still unassigned
+ */
+export const SplitLinesEditor = ({ lines, onChange, categories, totalAmount, formatCurrency }: SplitLinesEditorProps) => {
+  const remaining = Math.round((totalAmount - getSplitTotal(lines.map(line => ({ amount: parseFloat(line.amount) || 0 })))) * 100) / 100;
+
+  const updateLine = (index: number, changes: Partial<SplitLineDraft>) => {
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const removeLine = (index: number) => {
+    onChange(lines.filter((_, i) => i !== index));
+  };
+
+  const addLine = () => {
+    // Start the new line with whatever is left to assign
+    onChange([...lines, { category_id: '', amount: remaining > 0 ? remaining.toFixed(2) : '' }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {lines.map((line, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select
+            value={line.category_id}
+            onValueChange={(value) => updateLine(index, { category_id: value })}
+          >
+            <SelectTrigger className="flex-1" aria-label={`Split line ${index + 1} category`}>
+              <SelectValue placeholder="Category" />
+            </SelectTrigger>
+            <SelectContent>
+              {categories.map((category) => (
+                <SelectItem key={category.id} value={category.id}>
+                  {category.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="0.01"
+            min="0.01"
+            className="w-28"
+            value={line.amount}
+            onChange={(e) => updateLine(index, { amount: e.target.value })}
+            aria-label={`Split line ${index + 1} amount`}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => removeLine(index)}
+            disabled={lines.length <= 2}
+            aria-label={`Remove split line ${index + 1}`}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="outline" size="sm" onClick={addLine}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add line
+        </Button>
+        <span className={`text-xs ${Math.abs(remaining) < 0.005 ? 'text-green-600' : 'text-orange-600'}`}>
+          {Math.abs(remaining) < 0.005
+            ? 'Fully assigned'
+            : remaining > 0
+              ? `${formatCurrency(remaining)} left to assign`
+              : `${formatCurrency(-remaining)} over the total`}
+        </span>
+      </div>
+    </div>
+  );
+};
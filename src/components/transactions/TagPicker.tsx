@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus } from 'lucide-react';
+import { useTags } from '@/hooks/useTags';
+import { Tag } from '@/types';
+import { parseTagList } from '@/utils/tags';
+
+interface TagPickerProps {
+  selectedIds: string[];
+  onChange: (tagIds: string[]) => void;
+}
+
+/**
+ * TagPicker toggles existing tags on a transaction and creates new ones from
+ * comma-separated input
+ */
+export const TagPicker = ({ selectedIds, onChange }: TagPickerProps) => {
+  const { tags, createTagAsync, isCreating } = useTags();
+  const [newTags, setNewTags] = useState('');
+
+  const toggle = (tagId: string) => {
+    onChange(selectedIds.includes(tagId)
+      ? selectedIds.filter(id => id !== tagId)
+      : [...selectedIds, tagId]);
+  };
+
+  const addNewTags = async () => {
+    const names = parseTagList(newTags);
+    if (names.length === 0) return;
+
+    const created: Tag[] = [];
+    for (const name of names) {
+      try {
+        created.push(await createTagAsync({ name }));
+      } catch {
+        // The hook already reported the failure
+      }
+    }
+    onChange([...new Set([...selectedIds, ...created.map(tag => tag.id)])]);
+    setNewTags('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map((tag) => {
+            const selected = selectedIds.includes(tag.id);
+            return (
+              <Badge
+                key={tag.id}
+                variant={selected ? 'default' : 'outline'}
+                className="cursor-pointer"
+                style={selected ? { backgroundColor: tag.color } : { borderColor: tag.color, color: tag.color }}
+                onClick={() => toggle(tag.id)}
+              >
+                #{tag.name}
+              </Badge>
+            );
+          })}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Input
+          value={newTags}
+          onChange={(e) => setNewTags(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addNewTags();
+            }
+          }}
+          placeholder="New tags, e.g. vacation-2026, work"
+          aria-label="New tags"
+        />
+        <Button type="button" variant="outline" size="sm" onClick={addNewTags} disabled={isCreating || !newTags.trim()}>
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
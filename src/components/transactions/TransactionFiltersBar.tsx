@@ -0,0 +1,238 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, X } from 'lucide-react';
+import { useCategories } from '@/hooks/useCategories';
+import { useCurrency } from '@/hooks/useCurrency';
+import { usePayees } from '@/hooks/usePayees';
+import { useTags } from '@/hooks/useTags';
+import { TransactionType } from '@/types';
+import { countActiveFilters, type TransactionFilters } from '@/utils/transactionFilters';
+
+const ALL = 'all';
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface TransactionFiltersBarProps {
+  filters: TransactionFilters;
+  onChange: (filters: TransactionFilters) => void;
+}
+
+/**
+ * TransactionFiltersBar edits the transaction list filters: search, type, category,
+ * payee, tag, currency, date range and amount range
+ */
+export const TransactionFiltersBar = ({ filters, onChange }: TransactionFiltersBarProps) => {
+  const { categories } = useCategories();
+  const { currencies } = useCurrency();
+  const { payees } = usePayees();
+  const { tags } = useTags();
+  const [search, setSearch] = useState(filters.search || '');
+
+  // Keep the box in sync when the URL changes from outside, e.g. back navigation
+  useEffect(() => {
+    setSearch(filters.search || '');
+  }, [filters.search]);
+
+  useEffect(() => {
+    const trimmed = search.trim();
+    if (trimmed === (filters.search || '')) return;
+
+    const timeout = setTimeout(() => {
+      onChange({ ...filters, search: trimmed || undefined });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search, filters, onChange]);
+
+  const update = (changes: Partial<TransactionFilters>) => {
+    onChange({ ...filters, ...changes });
+  };
+
+  const parseAmount = (value: string) => (value === '' ? undefined : Math.max(0, Number(value)));
+
+  const visibleCategories = categories.filter(cat => !filters.type || cat.type === filters.type);
+  const activeCount = countActiveFilters(filters);
+
+  return (
+    <div className="space-y-3 mb-6">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <Input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search descriptions"
+            className="pl-9"
+            aria-label="Search transactions"
+          />
+        </div>
+        {activeCount > 0 && (
+          <Button
+            variant="outline"
+            onClick={() => {
+              setSearch('');
+              onChange({});
+            }}
+          >
+            <X className="w-4 h-4 mr-1" />
+            Clear filters ({activeCount})
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-9 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="filter-type" className="text-xs text-gray-500">Type</Label>
+          <Select
+            value={filters.type || ALL}
+            onValueChange={(value) => update({
+              type: value === ALL ? undefined : value as TransactionType,
+              // A category only makes sense for the type it belongs to
+              categoryId: undefined,
+            })}
+          >
+            <SelectTrigger id="filter-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All types</SelectItem>
+              <SelectItem value="expense">Expense</SelectItem>
+              <SelectItem value="income">Income</SelectItem>
+              <SelectItem value="transfer">Transfer</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-category" className="text-xs text-gray-500">Category</Label>
+          <Select
+            value={filters.categoryId || ALL}
+            onValueChange={(value) => update({ categoryId: value === ALL ? undefined : value })}
+          >
+            <SelectTrigger id="filter-category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All categories</SelectItem>
+              {visibleCategories.map((category) => (
+                <SelectItem key={category.id} value={category.id}>
+                  {category.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-payee" className="text-xs text-gray-500">Payee</Label>
+          <Select
+            value={filters.payeeId || ALL}
+            onValueChange={(value) => update({ payeeId: value === ALL ? undefined : value })}
+          >
+            <SelectTrigger id="filter-payee">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All payees</SelectItem>
+              {payees.map((payee) => (
+                <SelectItem key={payee.id} value={payee.id}>
+                  {payee.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-tag" className="text-xs text-gray-500">Tag</Label>
+          <Select
+            value={filters.tagId || ALL}
+            onValueChange={(value) => update({ tagId: value === ALL ? undefined : value })}
+          >
+            <SelectTrigger id="filter-tag">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All tags</SelectItem>
+              {tags.map((tag) => (
+                <SelectItem key={tag.id} value={tag.id}>
+                  #{tag.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-currency" className="text-xs text-gray-500">Currency</Label>
+          <Select
+            value={filters.currency || ALL}
+            onValueChange={(value) => update({ currency: value === ALL ? undefined : value })}
+          >
+            <SelectTrigger id="filter-currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All currencies</SelectItem>
+              {currencies.map((currency) => (
+                <SelectItem key={currency.code} value={currency.code}>
+                  {currency.code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-from" className="text-xs text-gray-500">From</Label>
+          <Input
+            id="filter-from"
+            type="date"
+            value={filters.dateFrom || ''}
+            max={filters.dateTo}
+            onChange={(e) => update({ dateFrom: e.target.value || undefined })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-to" className="text-xs text-gray-500">To</Label>
+          <Input
+            id="filter-to"
+            type="date"
+            value={filters.dateTo || ''}
+            min={filters.dateFrom}
+            onChange={(e) => update({ dateTo: e.target.value || undefined })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-min" className="text-xs text-gray-500">Min amount</Label>
+          <Input
+            id="filter-min"
+            type="number"
+            min="0"
+            step="0.01"
+            value={filters.minAmount ?? ''}
+            onChange={(e) => update({ minAmount: parseAmount(e.target.value) })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="filter-max" className="text-xs text-gray-500">Max amount</Label>
+          <Input
+            id="filter-max"
+            type="number"
+            min="0"
+            step="0.01"
+            value={filters.maxAmount ?? ''}
+            onChange={(e) => update({ maxAmount: parseAmount(e.target.value) })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,48 +1,133 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { Plus, Upload, Loader2, X, Eye, Target } from 'lucide-react';
+import { Plus, Upload, Loader2, X, Eye, Target, Split, Wand2, Store, CreditCard } from 'lucide-react';
 import { useTransactions } from '@/hooks/useTransactions';
 import { useCategories } from '@/hooks/useCategories';
+import { useCategoryRules } from '@/hooks/useCategoryRules';
+import { useCategorySuggestions } from '@/hooks/useCategorySuggestions';
+import { useAccounts } from '@/hooks/useAccounts';
+import { usePayees } from '@/hooks/usePayees';
 import { useSavingsGoals } from '@/hooks/useSavingsGoals';
+import { useDebts } from '@/hooks/useDebts';
 import { useCurrencyFormatter } from '@/hooks/useCurrency';
-import { Transaction } from '@/types';
+import { CategoryRule, Transaction, TransactionType } from '@/types';
 import { ReceiptViewer } from '../receipts/ReceiptViewer';
+import { DuplicateTransactionDialog } from './DuplicateTransactionDialog';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { sanitizeString, sanitizeNumber } from '@/lib/validation';
+import { mergeDuplicateTransaction, type DuplicateMatch, type DuplicateResolution } from '@/utils/duplicateDetection';
+import { validateTransfer } from '@/utils/transfers';
+import { validateSplits } from '@/utils/transactionSplits';
+import { findMatchingRule } from '@/utils/categoryRules';
+import { normalizePayeeName } from '@/utils/payees';
+import { SplitLinesEditor, type SplitLineDraft } from './SplitLinesEditor';
+import { CategorySuggestionChip } from './CategorySuggestionChip';
+import { TagPicker } from './TagPicker';
+
+const NONE = '__none__';
 
 interface TransactionFormProps {
   transaction?: Transaction;
   isEdit?: boolean;
   trigger?: React.ReactNode;
-  defaultType?: 'income' | 'expense';
+  defaultType?: TransactionType;
 }
 
 export const TransactionForm = ({ transaction, isEdit = false, trigger, defaultType = 'expense' }: TransactionFormProps) => {
   const [open, setOpen] = useState(false);
   const { savingsGoals } = useSavingsGoals();
+  const { openDebts } = useDebts();
   const { standard: formatCurrency } = useCurrencyFormatter();
   const [formData, setFormData] = useState({
     amount: transaction?.amount || '',
     type: transaction?.type || defaultType,
     category_id: transaction?.category_id || '',
+    account_id: transaction?.account_id || '',
+    transfer_account_id: transaction?.transfer_account_id || '',
     savings_goal_id: transaction?.savings_goal_id || '',
+    debt_id: transaction?.debt_id || '',
+    payee_id: transaction?.payee_id || '',
     description: transaction?.description || '',
     date: transaction?.date || new Date().toISOString().split('T')[0],
   });
+  const [tagIds, setTagIds] = useState<string[]>(transaction?.tag_ids || []);
+  const [splitLines, setSplitLines] = useState<SplitLineDraft[]>(
+    (transaction?.splits || []).map(split => ({ category_id: split.category_id || '', amount: split.amount.toString() }))
+  );
+  const isSplit = splitLines.length > 0 && formData.type !== 'transfer';
   const [receipt, setReceipt] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
 
-  const { addTransaction, updateTransaction, isAdding, isUpdating } = useTransactions();
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[]>([]);
+
+  const { addTransaction, updateTransaction, findDuplicates, isAdding, isUpdating } = useTransactions();
   const { categories } = useCategories();
+  const { rules, recordRuleHits } = useCategoryRules();
+  const { suggest } = useCategorySuggestions();
+  const { activeAccounts } = useAccounts();
+  const { payees, matchPayee, createPayeeAsync, isCreating: isCreatingPayee } = usePayees();
   const { toast } = useToast();
 
+  // Rule that filled in the category (or goal), until the user picks one themselves
+  const [appliedRule, setAppliedRule] = useState<CategoryRule | null>(null);
+  const [targetChosen, setTargetChosen] = useState(isEdit);
+
+  useEffect(() => {
+    if (targetChosen || isSplit) return;
+
+    const match = findMatchingRule(rules, {
+      description: formData.description,
+      amount: parseFloat(String(formData.amount)) || 0,
+      type: formData.type,
+      transfer_account_id: formData.transfer_account_id || null,
+    }, categories);
+
+    if (match) {
+      setFormData(prev => ({ ...prev, ...match.changes }));
+    } else if (appliedRule) {
+      setFormData(prev => ({ ...prev, category_id: '', savings_goal_id: '' }));
+    }
+    setAppliedRule(match?.rule ?? null);
+  }, [formData.description, formData.amount, formData.type, formData.transfer_account_id, rules, categories, targetChosen, isSplit, appliedRule]);
+
+  const chooseTarget = (changes: Partial<typeof formData>) => {
+    setTargetChosen(true);
+    setAppliedRule(null);
+    setFormData(prev => ({ ...prev, ...changes }));
+  };
+
+  // Follow the description with a matching payee until the user picks one
+  const [payeeChosen, setPayeeChosen] = useState(isEdit);
+
+  useEffect(() => {
+    if (payeeChosen) return;
+    setFormData(prev => ({ ...prev, payee_id: matchPayee(formData.description)?.id ?? '' }));
+  }, [formData.description, matchPayee, payeeChosen]);
+
+  const suggestedPayeeName = !formData.payee_id ? normalizePayeeName(formData.description) : '';
+
+  const createPayeeFromDescription = async () => {
+    try {
+      const payee = await createPayeeAsync({ name: suggestedPayeeName, aliases: [] });
+      setPayeeChosen(true);
+      setFormData(prev => ({ ...prev, payee_id: payee.id }));
+    } catch {
+      // The hook already reported the failure
+    }
+  };
+
+  // Learned suggestion for when no rule matched and nothing has been picked yet
+  const suggestion = formData.type !== 'transfer' && !isSplit && !formData.category_id
+    ? suggest(formData.description, formData.type)
+    : null;
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -77,10 +162,29 @@ export const TransactionForm = ({ transaction, isEdit = false, trigger, defaultT
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const resetForm = () => {
+    setFormData({
+      amount: '',
+      type: 'expense',
+      category_id: '',
+      account_id: '',
+      transfer_account_id: '',
+      savings_goal_id: '',
+      debt_id: '',
+      payee_id: '',
+      description: '',
+      date: new Date().toISOString().split('T')[0],
+    });
+    setTagIds([]);
+    setPayeeChosen(false);
+    setSplitLines([]);
+    setReceipt(null);
+    setAppliedRule(null);
+    setTargetChosen(false);
+  };
 
-    // Sanitize and validate form data
+  // Sanitize and validate form data, returning null (after notifying) when invalid
+  const getSanitizedValues = () => {
     const sanitizedAmount = sanitizeNumber(parseFloat(String(formData.amount)), 0.01, 1000000);
     const sanitizedDescription = sanitizeString(formData.description);
 
@@ -90,7 +194,7 @@ export const TransactionForm = ({ transaction, isEdit = false, trigger, defaultT
         description: "Please enter a valid positive amount.",
         variant: "destructive",
       });
-      return;
+      return null;
     }
 
     if (!sanitizedDescription.trim()) {
@@ -99,8 +203,100 @@ export const TransactionForm = ({ transaction, isEdit = false, trigger, defaultT
         description: "Please enter a description.",
         variant: "destructive",
       });
+      return null;
+    }
+
+    if (!formData.account_id) {
+      toast({
+        title: "Account required",
+        description: "Please select the account this transaction belongs to.",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    if (formData.type === 'transfer') {
+      const transferError = validateTransfer({
+        account_id: formData.account_id,
+        transfer_account_id: formData.transfer_account_id || null,
+        savings_goal_id: formData.savings_goal_id || null,
+      });
+      if (transferError) {
+        toast({
+          title: "Invalid transfer",
+          description: transferError,
+          variant: "destructive",
+        });
+        return null;
+      }
+    }
+
+    if (isSplit) {
+      const splitError = validateSplits(sanitizedAmount, getSplitInputs());
+      if (splitError) {
+        toast({
+          title: "Invalid split",
+          description: splitError,
+          variant: "destructive",
+        });
+        return null;
+      }
+    }
+
+    return { amount: sanitizedAmount, description: sanitizedDescription };
+  };
+
+  const getSplitInputs = () => splitLines.map(line => ({
+    category_id: line.category_id || null,
+    amount: parseFloat(line.amount) || 0,
+  }));
+
+  // Turn splitting on with the current category as the first line, or back off again
+  const toggleSplit = () => {
+    if (isSplit) {
+      setSplitLines([]);
       return;
     }
+    setSplitLines([
+      { category_id: formData.category_id, amount: formData.amount ? String(formData.amount) : '' },
+      { category_id: '', amount: '' },
+    ]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const values = getSanitizedValues();
+    if (!values) return;
+
+    // Flag likely duplicates before anything is uploaded or saved
+    if (!isEdit) {
+      const matches = findDuplicates({ ...values, type: formData.type, date: formData.date });
+      if (matches.length > 0) {
+        setDuplicateMatches(matches);
+        return;
+      }
+    }
+
+    await saveTransaction();
+  };
+
+  const handleDuplicateResolution = async (resolution: DuplicateResolution) => {
+    const [bestMatch] = duplicateMatches;
+    setDuplicateMatches([]);
+
+    if (resolution === 'skip') {
+      setOpen(false);
+      resetForm();
+      return;
+    }
+
+    await saveTransaction(resolution === 'merge' ? bestMatch.transaction : undefined);
+  };
+
+  const saveTransaction = async (mergeInto?: Transaction) => {
+    const values = getSanitizedValues();
+    if (!values) return;
 
     let receiptUrl = transaction?.receipt_url;
     let receiptName = transaction?.receipt_name;
@@ -158,29 +354,36 @@ export const TransactionForm = ({ transaction, isEdit = false, trigger, defaultT
 
     const transactionData = {
       ...formData,
-      amount: sanitizedAmount,
-      description: sanitizedDescription,
+      amount: values.amount,
+      description: values.description,
+      // Transfers carry no category; only transfers have a destination account
+      category_id: formData.type === 'transfer' ? null : formData.category_id,
+      transfer_account_id: formData.type === 'transfer' ? formData.transfer_account_id || null : null,
+      savings_goal_id: formData.savings_goal_id || null,
+      // Only money going out can pay down a debt
+      debt_id: formData.type !== 'income' ? formData.debt_id || null : null,
+      payee_id: formData.payee_id || null,
+      tag_ids: tagIds,
       receipt_url: receiptUrl,
       receipt_name: receiptName,
     };
+    const splits = isSplit ? getSplitInputs() : [];
 
     try {
       if (isEdit && transaction) {
-        updateTransaction({ id: transaction.id, ...transactionData });
+        updateTransaction({ id: transaction.id, ...transactionData, splits });
+      } else if (mergeInto) {
+        updateTransaction(mergeDuplicateTransaction(mergeInto, transactionData));
       } else {
-        addTransaction(transactionData);
+        addTransaction({ ...transactionData, splits });
+      }
+
+      if (appliedRule && !isSplit) {
+        recordRuleHits({ [appliedRule.id]: 1 });
       }
 
       setOpen(false);
-      setFormData({
-        amount: '',
-        type: 'expense',
-        category_id: '',
-        savings_goal_id: '',
-        description: '',
-        date: new Date().toISOString().split('T')[0],
-      });
-      setReceipt(null);
+      resetForm();
     } catch (error) {
       console.error('Transaction save failed:', error);
     }
@@ -188,6 +391,13 @@ export const TransactionForm = ({ transaction, isEdit = false, trigger, defaultT
 
   const isLoading = isAdding || isUpdating || uploading;
 
+  const renderRuleHint = (rule: CategoryRule) => (
+    <p className="flex items-center gap-1 text-xs text-blue-600">
+      <Wand2 className="w-3 h-3" />
+      Filled in by your rule "{rule.name}"
+    </p>
+  );
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -221,7 +431,7 @@ export const TransactionForm = ({ transaction, isEdit = false, trigger, defaultT
               <Label htmlFor="type">Type</Label>
               <Select
                 value={formData.type}
-                onValueChange={(value) => setFormData({ ...formData, type: value as 'income' | 'expense' })}
+                onValueChange={(value) => setFormData({ ...formData, type: value as TransactionType })}
               >
                 <SelectTrigger>
                   <SelectValue />
@@ -229,48 +439,118 @@ export const TransactionForm = ({ transaction, isEdit = false, trigger, defaultT
                 <SelectContent>
                   <SelectItem value="expense">Expense</SelectItem>
                   <SelectItem value="income">Income</SelectItem>
+                  <SelectItem value="transfer">Transfer</SelectItem>
                 </SelectContent>
               </Select>
             </div>
           </div>
 
+          {formData.type !== 'transfer' && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="category">{isSplit ? 'Split Across Categories' : 'Category'}</Label>
+                <Button type="button" variant="ghost" size="sm" onClick={toggleSplit} className="h-auto py-1 text-xs">
+                  <Split className="w-3 h-3 mr-1" />
+                  {isSplit ? 'Use one category' : 'Split'}
+                </Button>
+              </div>
+              {isSplit ? (
+                <SplitLinesEditor
+                  lines={splitLines}
+                  onChange={setSplitLines}
+                  categories={categories.filter(cat => cat.type === formData.type)}
+                  totalAmount={parseFloat(String(formData.amount)) || 0}
+                  formatCurrency={formatCurrency}
+                />
+              ) : (
+                <Select
+                  value={formData.category_id}
+                  onValueChange={(value) => chooseTarget({ category_id: value })}
+                >
+                  <SelectTrigger id="category">
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories
+                      .filter(cat => cat.type === formData.type)
+                      .map((category) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {appliedRule && !isSplit && renderRuleHint(appliedRule)}
+              {suggestion && (
+                <CategorySuggestionChip
+                  category={suggestion.category}
+                  confidence={suggestion.confidence}
+                  onAccept={(categoryId) => chooseTarget({ category_id: categoryId })}
+                />
+              )}
+            </div>
+          )}
+
           <div className="space-y-2">
-            <Label htmlFor="category">Category</Label>
+            <Label htmlFor="account">{formData.type === 'transfer' ? 'From Account' : 'Account'}</Label>
             <Select
-              value={formData.category_id}
-              onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+              value={formData.account_id}
+              onValueChange={(value) => setFormData({ ...formData, account_id: value })}
             >
-              <SelectTrigger>
-                <SelectValue placeholder="Select a category" />
+              <SelectTrigger id="account">
+                <SelectValue placeholder="Select an account" />
               </SelectTrigger>
               <SelectContent>
-                {categories
-                  .filter(cat => cat.type === formData.type)
-                  .map((category) => (
-                    <SelectItem key={category.id} value={category.id}>
-                      {category.name}
-                    </SelectItem>
-                  ))}
+                {activeAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
 
-          {/* Savings Goal Selection - only show for expense transactions with Savings category */}
-          {formData.type === 'expense' && categories.find(cat => cat.id === formData.category_id)?.name === 'Savings' && (
+          {formData.type === 'transfer' && (
+            <div className="space-y-2">
+              <Label htmlFor="transfer_account_id">To Account</Label>
+              <Select
+                value={formData.transfer_account_id || NONE}
+                onValueChange={(value) => setFormData({ ...formData, transfer_account_id: value === NONE ? '' : value })}
+              >
+                <SelectTrigger id="transfer_account_id">
+                  <SelectValue placeholder="Select an account" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No account (savings goal only)</SelectItem>
+                  {activeAccounts
+                    .filter(account => account.id !== formData.account_id)
+                    .map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Savings Goal Selection - only show for transfers */}
+          {formData.type === 'transfer' && (
             <div className="space-y-2">
               <Label htmlFor="savings_goal_id" className="flex items-center gap-2">
                 <Target className="w-4 h-4" />
                 Savings Goal (Optional)
               </Label>
               <Select
-                value={formData.savings_goal_id}
-                onValueChange={(value) => setFormData({ ...formData, savings_goal_id: value })}
+                value={formData.savings_goal_id || NONE}
+                onValueChange={(value) => chooseTarget({ savings_goal_id: value === NONE ? '' : value })}
               >
                 <SelectTrigger>
                   <SelectValue placeholder="Select a savings goal" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="">No specific goal</SelectItem>
+                  <SelectItem value={NONE}>No specific goal</SelectItem>
                   {savingsGoals.map((goal) => (
                     <SelectItem key={goal.id} value={goal.id}>
                       <div className="flex items-center justify-between w-full">
@@ -283,12 +563,42 @@ export const TransactionForm = ({ transaction, isEdit = false, trigger, defaultT
                   ))}
                 </SelectContent>
               </Select>
+              {appliedRule && renderRuleHint(appliedRule)}
               <p className="text-xs text-gray-500">
-                Link this transaction to a specific savings goal to track progress automatically.
+                Link this transfer to a specific savings goal to track progress automatically.
               </p>
             </div>
           )}
 
+          {/* Debt Selection - expenses and transfers can pay down a debt */}
+          {formData.type !== 'income' && openDebts.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="debt_id" className="flex items-center gap-2">
+                <CreditCard className="w-4 h-4" />
+                Debt Payment (Optional)
+              </Label>
+              <Select
+                value={formData.debt_id || NONE}
+                onValueChange={(value) => setFormData({ ...formData, debt_id: value === NONE ? '' : value })}
+              >
+                <SelectTrigger id="debt_id">
+                  <SelectValue placeholder="Select a debt" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Not a debt payment</SelectItem>
+                  {openDebts.map((debt) => (
+                    <SelectItem key={debt.id} value={debt.id}>
+                      <div className="flex items-center justify-between w-full">
+                        <span>{debt.name}</span>
+                        <span className="text-xs text-gray-500 ml-2">{formatCurrency(debt.balance)} owed</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="date">Date</Label>
             <Input
@@ -310,6 +620,50 @@ export const TransactionForm = ({ transaction, isEdit = false, trigger, defaultT
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="payee" className="flex items-center gap-2">
+              <Store className="w-4 h-4" />
+              Payee (Optional)
+            </Label>
+            <Select
+              value={formData.payee_id || NONE}
+              onValueChange={(value) => {
+                setPayeeChosen(true);
+                setFormData({ ...formData, payee_id: value === NONE ? '' : value });
+              }}
+            >
+              <SelectTrigger id="payee">
+                <SelectValue placeholder="Select a payee" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No payee</SelectItem>
+                {payees.map((payee) => (
+                  <SelectItem key={payee.id} value={payee.id}>
+                    {payee.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {suggestedPayeeName && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={createPayeeFromDescription}
+                disabled={isCreatingPayee}
+                className="h-auto py-1 text-xs"
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                Create payee "{suggestedPayeeName}"
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tags (Optional)</Label>
+            <TagPicker selectedIds={tagIds} onChange={setTagIds} />
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="receipt">Receipt (Optional)</Label>
             <div className="space-y-2">
@@ -390,6 +744,11 @@ export const TransactionForm = ({ transaction, isEdit = false, trigger, defaultT
             </Button>
           </div>
         </form>
+        <DuplicateTransactionDialog
+          matches={duplicateMatches}
+          onResolve={handleDuplicateResolution}
+          onCancel={() => setDuplicateMatches([])}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { History, PlusCircle, Pencil, Trash2 } from 'lucide-react';
+import { useTransactionHistory } from '@/hooks/useTransactionHistory';
+import { useCategories } from '@/hooks/useCategories';
+import { useAccounts } from '@/hooks/useAccounts';
+import { usePayees } from '@/hooks/usePayees';
+import { useSavingsGoals } from '@/hooks/useSavingsGoals';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { Transaction, TransactionChangeAction } from '@/types';
+import { CHANGE_SOURCE_LABELS, getFieldChanges, type TrackedField } from '@/utils/transactionHistory';
+
+interface TransactionHistoryDialogProps {
+  transaction: Transaction;
+  trigger?: React.ReactNode;
+}
+
+const ACTION_DETAILS: Record<TransactionChangeAction, { label: string; icon: typeof History; className: string }> = {
+  insert: { label: 'Created', icon: PlusCircle, className: 'text-green-600' },
+  update: { label: 'Changed', icon: Pencil, className: 'text-blue-600' },
+  delete: { label: 'Deleted', icon: Trash2, className: 'text-red-600' },
+};
+
+const formatTimestamp = (value: string) => {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+/**
+ * TransactionHistoryDialog shows every recorded change to a transaction, newest first,
+ * with the fields each change touched and where it came from
+ */
+export const TransactionHistoryDialog = ({ transaction, trigger }: TransactionHistoryDialogProps) => {
+  const [open, setOpen] = useState(false);
+  // Load only while open so reopening shows changes made in the meantime
+  const { history, isLoading } = useTransactionHistory(open ? transaction.id : null);
+  const { categories } = useCategories();
+  const { accounts } = useAccounts();
+  const { payees } = usePayees();
+  const { savingsGoals } = useSavingsGoals();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+
+  const formatValue = (field: TrackedField, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+
+    const id = String(value);
+    switch (field) {
+      case 'amount':
+        return formatCurrency(Number(value), transaction.currency);
+      case 'category_id':
+        return categories.find(c => c.id === id)?.name ?? 'Deleted category';
+      case 'account_id':
+      case 'transfer_account_id':
+        return accounts.find(a => a.id === id)?.name ?? 'Deleted account';
+      case 'payee_id':
+        return payees.find(p => p.id === id)?.name ?? 'Deleted payee';
+      case 'savings_goal_id':
+        return savingsGoals.find(g => g.id === id)?.name ?? 'Deleted goal';
+      default:
+        return id;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="ghost" size="sm" aria-label="View history">
+            <History className="w-4 h-4" />
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[525px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Transaction history
+          </DialogTitle>
+          <DialogDescription className="truncate">{transaction.description}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">
+            No changes recorded yet. Changes are tracked from now on.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <ol className="space-y-4">
+              {history.map(entry => {
+                const action = ACTION_DETAILS[entry.action];
+                const ActionIcon = action.icon;
+                const changes = entry.action === 'update' ? getFieldChanges(entry) : [];
+
+                return (
+                  <li key={entry.id} className="flex gap-3">
+                    <ActionIcon className={`w-4 h-4 mt-0.5 shrink-0 ${action.className}`} />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium text-gray-900">{action.label}</span>
+                        <Badge variant="outline" className="text-xs">{CHANGE_SOURCE_LABELS[entry.source]}</Badge>
+                        <span className="text-xs text-gray-500">{formatTimestamp(entry.changed_at)}</span>
+                      </div>
+                      {changes.map(change => (
+                        <p key={change.field} className="text-sm text-gray-600">
+                          <span className="text-gray-500">{change.label}:</span>{' '}
+                          <span className="line-through">{formatValue(change.field, change.before)}</span>
+                          {' → '}
+                          <span className="text-gray-900">{formatValue(change.field, change.after)}</span>
+                        </p>
+                      ))}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,472 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Upload, Loader2, AlertCircle, CheckCircle2, FileSpreadsheet, Copy, Wand2 } from 'lucide-react';
+import { useTransactions } from '@/hooks/useTransactions';
+import { useCategories } from '@/hooks/useCategories';
+import { useCategoryRules } from '@/hooks/useCategoryRules';
+import { useAccounts } from '@/hooks/useAccounts';
+import { usePayees } from '@/hooks/usePayees';
+import { useToast } from '@/hooks/use-toast';
+import { sanitizeString } from '@/lib/validation';
+import { mergeDuplicateTransaction, type DuplicateResolution } from '@/utils/duplicateDetection';
+import { countRuleHits } from '@/utils/categoryRules';
+import {
+  buildImportPreview,
+  detectStatementFormat,
+  flagImportDuplicates,
+  mapCsvRows,
+  parseCsv,
+  parseOfx,
+  parseQif,
+  suggestCsvMapping,
+  validateImportRow,
+  type CsvColumnMapping,
+  type CsvTable,
+  type ImportDateFormat,
+  type ImportPreviewRow,
+  type ParsedStatementRow,
+  type StatementFormat,
+} from '@/utils/statementImport';
+
+interface TransactionImportProps {
+  trigger?: React.ReactNode;
+}
+
+type ImportStep = 'upload' | 'map' | 'preview';
+
+const NONE = '__none__';
+
+const DATE_FORMATS: ImportDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+export const TransactionImport = ({ trigger }: TransactionImportProps) => {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [format, setFormat] = useState<StatementFormat>('csv');
+  const [fileContent, setFileContent] = useState('');
+  const [csvTable, setCsvTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [qifDateFormat, setQifDateFormat] = useState<ImportDateFormat>('MM/DD/YYYY');
+  const [previewRows, setPreviewRows] = useState<ImportPreviewRow[]>([]);
+  const [accountId, setAccountId] = useState('');
+
+  const { transactions, importTransactions, updateTransaction, isImporting } = useTransactions();
+  const { categories } = useCategories();
+  const { rules, recordRuleHits } = useCategoryRules();
+  const { activeAccounts } = useAccounts();
+  const { matchPayee } = usePayees();
+  const { toast } = useToast();
+
+  const reset = () => {
+    setStep('upload');
+    setFileContent('');
+    setCsvTable(null);
+    setMapping(null);
+    setPreviewRows([]);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) reset();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const maxSize = 5 * 1024 * 1024; // 5MB
+    if (file.size > maxSize) {
+      toast({
+        title: "File too large",
+        description: "Please select a statement smaller than 5MB.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const content = await file.text();
+    const detected = detectStatementFormat(file.name, content);
+    setFormat(detected);
+    setFileContent(content);
+
+    if (detected === 'csv') {
+      const table = parseCsv(content);
+      if (table.headers.length === 0) {
+        toast({
+          title: "Empty statement",
+          description: "No rows were found in this file.",
+          variant: "destructive",
+        });
+        return;
+      }
+      setCsvTable(table);
+      setMapping(suggestCsvMapping(table.headers));
+      setStep('map');
+    } else if (detected === 'qif') {
+      setStep('map');
+    } else {
+      showPreview(parseOfx(content));
+    }
+  };
+
+  const handleBuildPreview = () => {
+    const parsed = format === 'csv' && csvTable && mapping
+      ? mapCsvRows(csvTable, mapping)
+      : parseQif(fileContent, qifDateFormat);
+    showPreview(parsed);
+  };
+
+  const showPreview = (parsed: ParsedStatementRow[]) => {
+    setPreviewRows(flagImportDuplicates(buildImportPreview(parsed, categories, rules), transactions));
+    setStep('preview');
+  };
+
+  const updateRow = (index: number, updates: Partial<ImportPreviewRow>) => {
+    setPreviewRows(rows => rows.map((row, i) => {
+      if (i !== index) return row;
+      const next = { ...row, ...updates };
+      return { ...next, errors: validateImportRow(next) };
+    }));
+  };
+
+  const validRows = previewRows.filter(row => row.errors.length === 0);
+  const invalidRows = previewRows.filter(row => row.errors.length > 0);
+  const duplicateRows = validRows.filter(row => row.duplicate || row.duplicateOfRow !== undefined);
+  const rowsToInsert = validRows.filter(row => (!row.duplicate && row.duplicateOfRow === undefined) || row.resolution === 'keep');
+  const rowsToMerge = validRows.filter(row => row.duplicate && row.resolution === 'merge');
+
+  const handleImport = () => {
+    if (rowsToInsert.length === 0 && rowsToMerge.length === 0) return;
+
+    const ruleHits = countRuleHits([...rowsToInsert, ...rowsToMerge]);
+
+    rowsToMerge.forEach(row => {
+      if (!row.duplicate) return;
+      updateTransaction({
+        ...mergeDuplicateTransaction(row.duplicate.transaction, {
+          category_id: row.category_id,
+          payee_id: matchPayee(row.description)?.id ?? null,
+          external_id: row.externalId ?? null,
+          description: sanitizeString(row.description),
+        }),
+        change_source: 'import',
+      });
+    });
+
+    if (rowsToInsert.length === 0) {
+      recordRuleHits(ruleHits);
+      handleOpenChange(false);
+      return;
+    }
+
+    importTransactions(
+      rowsToInsert.map(row => ({
+        amount: row.amount,
+        type: row.type,
+        category_id: row.category_id,
+        payee_id: matchPayee(row.description)?.id ?? null,
+        account_id: accountId,
+        description: sanitizeString(row.description),
+        date: row.date,
+        external_id: row.externalId ?? null,
+      })),
+      {
+        onSuccess: () => {
+          recordRuleHits(ruleHits);
+          handleOpenChange(false);
+        },
+      }
+    );
+  };
+
+  const renderColumnSelect = (
+    label: string,
+    field: keyof Omit<CsvColumnMapping, 'dateFormat'>,
+    optional = false
+  ) => (
+    <div className="space-y-2">
+      <Label>{label}{optional && <span className="text-gray-400"> (optional)</span>}</Label>
+      <Select
+        value={mapping?.[field] || NONE}
+        onValueChange={(value) => mapping && setMapping({ ...mapping, [field]: value === NONE ? undefined : value })}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Select a column" />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NONE}>Not mapped</SelectItem>}
+          {csvTable?.headers.filter(Boolean).map(header => (
+            <SelectItem key={header} value={header}>{header}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const canPreview = format === 'qif' || (
+    !!mapping?.date && !!mapping.description && (!!mapping.amount || (!!mapping.debit && !!mapping.credit))
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline">
+            <Upload className="w-4 h-4 mr-2" />
+            Import Statement
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Import Bank Statement</DialogTitle>
+          <DialogDescription>
+            Upload a CSV, OFX/QFX or QIF export from your bank, review the rows, then import them in one go.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <div className="flex flex-col items-center justify-center p-8 border-2 border-dashed rounded-lg text-center">
+              <FileSpreadsheet className="w-10 h-10 text-gray-400 mb-3" />
+              <Label htmlFor="statement-file" className="mb-2">Statement file</Label>
+              <Input
+                id="statement-file"
+                type="file"
+                accept=".csv,.ofx,.qfx,.qif,text/csv"
+                onChange={handleFileChange}
+                className="max-w-sm"
+              />
+              <p className="text-xs text-gray-500 mt-2">Supported formats: CSV, OFX, QFX, QIF. Max size: 5MB</p>
+            </div>
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="space-y-4">
+            {format === 'csv' && mapping && (
+              <>
+                <p className="text-sm text-gray-600">
+                  Match the columns in your file to transaction fields. Use either a signed amount column or separate debit and credit columns.
+                </p>
+                <div className="grid grid-cols-2 gap-4">
+                  {renderColumnSelect('Date', 'date')}
+                  {renderColumnSelect('Description', 'description')}
+                  {renderColumnSelect('Amount', 'amount', true)}
+                  {renderColumnSelect('Type', 'type', true)}
+                  {renderColumnSelect('Debit (money out)', 'debit', true)}
+                  {renderColumnSelect('Credit (money in)', 'credit', true)}
+                  {renderColumnSelect('Category', 'category', true)}
+                  <div className="space-y-2">
+                    <Label>Date format</Label>
+                    <Select
+                      value={mapping.dateFormat}
+                      onValueChange={(value) => setMapping({ ...mapping, dateFormat: value as ImportDateFormat })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DATE_FORMATS.map(f => (
+                          <SelectItem key={f} value={f}>{f}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </>
+            )}
+
+            {format === 'qif' && (
+              <div className="space-y-2 max-w-xs">
+                <Label>QIF date format</Label>
+                <Select value={qifDateFormat} onValueChange={(value) => setQifDateFormat(value as ImportDateFormat)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map(f => (
+                      <SelectItem key={f} value={f}>{f}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button type="button" onClick={handleBuildPreview} disabled={!canPreview}>
+                Preview Rows
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <Label htmlFor="import-account" className="whitespace-nowrap">Import into account</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger id="import-account" className="max-w-xs">
+                  <SelectValue placeholder="Select an account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeAccounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center gap-3 text-sm">
+              <Badge variant="outline" className="flex items-center gap-1">
+                <CheckCircle2 className="w-3 h-3 text-green-600" />
+                {validRows.length} ready
+              </Badge>
+              {duplicateRows.length > 0 && (
+                <Badge variant="outline" className="flex items-center gap-1">
+                  <Copy className="w-3 h-3 text-amber-600" />
+                  {duplicateRows.length} possible duplicate{duplicateRows.length === 1 ? '' : 's'}
+                </Badge>
+              )}
+              {invalidRows.length > 0 && (
+                <Badge variant="outline" className="flex items-center gap-1">
+                  <AlertCircle className="w-3 h-3 text-red-600" />
+                  {invalidRows.length} with errors (will be skipped)
+                </Badge>
+              )}
+            </div>
+
+            <ScrollArea className="h-[400px] border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Row</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.map((row, index) => (
+                    <TableRow
+                      key={`${row.rowNumber}-${index}`}
+                      className={row.errors.length > 0 ? 'bg-red-50' : row.duplicate || row.duplicateOfRow !== undefined ? 'bg-amber-50' : undefined}
+                    >
+                      <TableCell className="text-gray-500">{row.rowNumber}</TableCell>
+                      <TableCell className="whitespace-nowrap">{row.date || '—'}</TableCell>
+                      <TableCell className="max-w-[220px] truncate">{row.description || '—'}</TableCell>
+                      <TableCell className={`text-right whitespace-nowrap ${row.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                        {row.type === 'income' ? '+' : '-'}{isNaN(row.amount) ? '—' : row.amount.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="min-w-[180px]">
+                        <Select
+                          value={row.category_id || undefined}
+                          onValueChange={(value) => updateRow(index, { category_id: value, ruleId: undefined })}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue placeholder="Select category" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {categories
+                              .filter(cat => cat.type === row.type)
+                              .map(category => (
+                                <SelectItem key={category.id} value={category.id}>
+                                  {category.name}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        {row.ruleId && (
+                          <p className="flex items-center gap-1 text-xs text-gray-500 mt-1">
+                            <Wand2 className="w-3 h-3" />
+                            {rules.find(rule => rule.id === row.ruleId)?.name}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 && row.duplicate ? (
+                          <div className="space-y-1">
+                            <p className="text-xs text-amber-700">
+                              Matches "{row.duplicate.transaction.description}" on {row.duplicate.transaction.date}
+                            </p>
+                            <Select
+                              value={row.resolution}
+                              onValueChange={(value) => updateRow(index, { resolution: value as DuplicateResolution })}
+                            >
+                              <SelectTrigger className="h-7 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="skip">Skip</SelectItem>
+                                <SelectItem value="merge">Merge into existing</SelectItem>
+                                <SelectItem value="keep">Import anyway</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ) : row.errors.length === 0 && row.duplicateOfRow !== undefined ? (
+                          <div className="space-y-1">
+                            <p className="text-xs text-amber-700">
+                              Same as row {row.duplicateOfRow} of this file
+                            </p>
+                            <Select
+                              value={row.resolution}
+                              onValueChange={(value) => updateRow(index, { resolution: value as DuplicateResolution })}
+                            >
+                              <SelectTrigger className="h-7 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="skip">Skip</SelectItem>
+                                <SelectItem value="keep">Import anyway</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ) : row.errors.length === 0 ? (
+                          <span className="text-xs text-green-600">Ready</span>
+                        ) : (
+                          <ul className="text-xs text-red-600 space-y-0.5">
+                            {row.errors.map(error => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={reset}>
+                Start Over
+              </Button>
+              <Button
+                type="button"
+                onClick={handleImport}
+                disabled={isImporting || (rowsToInsert.length === 0 && rowsToMerge.length === 0) || (rowsToInsert.length > 0 && !accountId)}
+              >
+                {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {rowsToInsert.length} Transaction{rowsToInsert.length === 1 ? '' : 's'}
+                {rowsToMerge.length > 0 && `, Merge ${rowsToMerge.length}`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,10 +1,11 @@
 
-import React, { useState } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Edit, Trash2, Receipt, ArrowUpRight, ArrowDownRight, ArrowLeft, Plus } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Edit, Trash2, Receipt, ArrowUpRight, ArrowDownRight, ArrowLeftRight, ArrowLeft, Plus, Users } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -16,18 +17,77 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
-import { useTransactions } from '@/hooks/useTransactions';
+import { useAuth } from '@/hooks/useAuth';
+import { useHousehold } from '@/hooks/useHousehold';
+import { useTransactionMutations } from '@/hooks/useTransactions';
+import { usePaginatedTransactions } from '@/hooks/usePaginatedTransactions';
 import { useCategories } from '@/hooks/useCategories';
+import { usePayees } from '@/hooks/usePayees';
+import { useTags } from '@/hooks/useTags';
 import { TransactionForm } from './TransactionForm';
+import { TransactionImport } from './TransactionImport';
+import { TransactionFiltersBar } from './TransactionFiltersBar';
+import { BulkTransactionActions } from './BulkTransactionActions';
+import { TransactionHistoryDialog } from './TransactionHistoryDialog';
+import { DeletedTransactionsDialog } from './DeletedTransactionsDialog';
+import { MobileCardList } from '@/components/ui/mobile-table';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { ReceiptViewer } from '../receipts/ReceiptViewer';
 import { Transaction } from '@/types';
 import { cn } from '@/lib/utils';
+import { isSplitTransaction } from '@/utils/transactionSplits';
+import { HISTORY_RETENTION_DAYS } from '@/utils/transactionHistory';
+import { getMemberName } from '@/utils/households';
+import {
+  countActiveFilters,
+  parseTransactionFilters,
+  serializeTransactionFilters,
+  type TransactionFilters,
+} from '@/utils/transactionFilters';
 
 export const TransactionList = () => {
   const navigate = useNavigate();
-  const { transactions, deleteTransaction, isDeleting } = useTransactions();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseTransactionFilters(searchParams), [searchParams]);
+  const {
+    transactions,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = usePaginatedTransactions(filters);
+  const { user } = useAuth();
+  const { members } = useHousehold();
+  const { deleteTransaction, isDeleting } = useTransactionMutations();
   const { categories } = useCategories();
+  const { payees } = usePayees();
+  const { tags } = useTags();
   const [deletingTransactionId, setDeletingTransactionId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Shared transactions other members entered can be seen but only changed by them
+  const isOwn = (transaction: Transaction) => !transaction.user_id || transaction.user_id === user?.id;
+  const ownTransactions = transactions.filter(isOwn);
+  const selectedTransactions = transactions.filter(t => selectedIds.has(t.id));
+  const allSelected = ownTransactions.length > 0 && selectedTransactions.length === ownTransactions.length;
+
+  const toggleSelected = (transactionId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(transactionId);
+      } else {
+        next.delete(transactionId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(ownTransactions.map(t => t.id)) : new Set());
+  };
+
+  const clearSelection = useCallback(() => setSelectedIds(new Set()), []);
 
   const getCategoryInfo = (categoryId: string | null) => {
     return categories.find(cat => cat.id === categoryId) || {
@@ -45,6 +105,17 @@ export const TransactionList = () => {
     });
   };
 
+  // Filters live in the URL so filtered views can be bookmarked and shared
+  const handleFiltersChange = useCallback((next: TransactionFilters) => {
+    setSearchParams(serializeTransactionFilters(next), { replace: true });
+    // The selection may include rows the new filters hide
+    setSelectedIds(new Set());
+  }, [setSearchParams]);
+
+  const loadMore = useCallback(() => {
+    fetchNextPage();
+  }, [fetchNextPage]);
+
   const handleDeleteTransaction = (transactionId: string) => {
     setDeletingTransactionId(transactionId);
     deleteTransaction(transactionId);
@@ -59,14 +130,18 @@ export const TransactionList = () => {
           <p className="text-gray-600 mt-1">Manage your income and expenses</p>
         </div>
 
-        <TransactionForm
-          trigger={
-            <Button className="flex items-center space-x-2">
-              <Plus className="w-4 h-4" />
-              <span>Add Transaction</span>
-            </Button>
-          }
-        />
+        <div className="flex items-center gap-2">
+          <DeletedTransactionsDialog />
+          <TransactionImport />
+          <TransactionForm
+            trigger={
+              <Button className="flex items-center space-x-2">
+                <Plus className="w-4 h-4" />
+                <span>Add Transaction</span>
+              </Button>
+            }
+          />
+        </div>
       </div>
 
         <Card>
@@ -74,15 +149,46 @@ export const TransactionList = () => {
             <CardTitle>All Transactions</CardTitle>
           </CardHeader>
           <CardContent>
-        <div className="space-y-4">
-          {transactions.length === 0 ? (
+        <TransactionFiltersBar filters={filters} onChange={handleFiltersChange} />
+        {selectedTransactions.length > 0 ? (
+          <BulkTransactionActions selected={selectedTransactions} onClearSelection={clearSelection} />
+        ) : ownTransactions.length > 0 && (
+          <div className="flex items-center gap-2 mb-4 px-1">
+            <Checkbox
+              id="select-all-transactions"
+              checked={allSelected}
+              onCheckedChange={(checked) => toggleAll(checked === true)}
+            />
+            <label htmlFor="select-all-transactions" className="text-sm text-gray-600">
+              Select all {ownTransactions.length} loaded
+            </label>
+          </div>
+        )}
+        <MobileCardList
+          className="space-y-4"
+          onLoadMore={loadMore}
+          hasMore={hasNextPage}
+          isLoadingMore={isFetchingNextPage}
+        >
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : transactions.length === 0 ? (
             <p className="text-center text-gray-500 py-8">
-              No transactions yet. Add your first transaction to get started!
+              {countActiveFilters(filters) > 0
+                ? 'No transactions match your filters.'
+                : 'No transactions yet. Add your first transaction to get started!'}
             </p>
           ) : (
             transactions.map((transaction) => {
-              const category = getCategoryInfo(transaction.category_id);
               const isIncome = transaction.type === 'income';
+              const isTransfer = transaction.type === 'transfer';
+              const category = isTransfer
+                ? { name: transaction.goal_withdrawal ? 'Goal Withdrawal' : 'Transfer', color: '#3b82f6' }
+                : transaction.goal_interest
+                  ? { name: 'Goal Interest', color: '#10b981' }
+                  : getCategoryInfo(transaction.category_id);
               
               return (
                 <div 
@@ -90,11 +196,19 @@ export const TransactionList = () => {
                   className="flex items-center justify-between p-4 rounded-lg border hover:bg-gray-50 transition-colors"
                 >
                   <div className="flex items-center space-x-4">
+                    <Checkbox
+                      checked={selectedIds.has(transaction.id)}
+                      disabled={!isOwn(transaction)}
+                      onCheckedChange={(checked) => toggleSelected(transaction.id, checked === true)}
+                      aria-label={`Select ${transaction.description}`}
+                    />
                     <div 
                       className="w-12 h-12 rounded-full flex items-center justify-center text-white"
                       style={{ backgroundColor: category.color }}
                     >
-                      {isIncome ? (
+                      {isTransfer ? (
+                        <ArrowLeftRight className="w-6 h-6" />
+                      ) : isIncome ? (
                         <ArrowUpRight className="w-6 h-6" />
                       ) : (
                         <ArrowDownRight className="w-6 h-6" />
@@ -103,14 +217,46 @@ export const TransactionList = () => {
                     <div>
                       <p className="font-medium text-gray-900">
                         {transaction.description}
+                        {transaction.payee_id && (
+                          <span className="ml-2 text-sm font-normal text-gray-500">
+                            {payees.find(payee => payee.id === transaction.payee_id)?.name}
+                          </span>
+                        )}
                       </p>
-                      <div className="flex items-center gap-2 mt-1">
-                        <Badge variant="outline">
-                          {category.name}
-                        </Badge>
+                      <div className="flex flex-wrap items-center gap-2 mt-1">
+                        {isSplitTransaction(transaction) ? (
+                          transaction.splits!.map(split => (
+                            <Badge key={split.id} variant="outline" title={`$${Number(split.amount).toLocaleString()}`}>
+                              {getCategoryInfo(split.category_id).name}
+                            </Badge>
+                          ))
+                        ) : (
+                          <Badge variant="outline">
+                            {category.name}
+                          </Badge>
+                        )}
+                        {tags
+                          .filter(tag => transaction.tag_ids?.includes(tag.id))
+                          .map(tag => (
+                            <Badge
+                              key={tag.id}
+                              variant="outline"
+                              className="cursor-pointer"
+                              style={{ borderColor: tag.color, color: tag.color }}
+                              onClick={() => handleFiltersChange({ ...filters, tagId: tag.id })}
+                            >
+                              #{tag.name}
+                            </Badge>
+                          ))}
                         <span className="text-sm text-gray-500">
                           {formatDate(transaction.date)}
                         </span>
+                        {!isOwn(transaction) && (
+                          <span className="flex items-center gap-1 text-xs text-gray-500">
+                            <Users className="w-3 h-3" />
+                            by {getMemberName(members, transaction.user_id!)}
+                          </span>
+                        )}
                         {transaction.receipt_url && (
                           <ReceiptViewer
                             transaction={transaction}
@@ -133,59 +279,72 @@ export const TransactionList = () => {
                     <div className="text-right">
                       <p className={cn(
                         "font-semibold text-lg",
-                        isIncome ? "text-green-600" : "text-red-600"
+                        isTransfer ? "text-blue-600" : isIncome ? "text-green-600" : "text-red-600"
                       )}>
-                        {isIncome ? '+' : '-'}${transaction.amount.toLocaleString()}
+                        {isTransfer ? '' : isIncome ? '+' : '-'}${transaction.amount.toLocaleString()}
                       </p>
                     </div>
                     
                     <div className="flex items-center gap-1">
-                      <TransactionForm
-                        transaction={transaction}
-                        isEdit={true}
-                        trigger={
-                          <Button variant="ghost" size="sm">
-                            <Edit className="w-4 h-4" />
-                          </Button>
-                        }
-                      />
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            disabled={isDeleting && deletingTransactionId === transaction.id}
-                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>Delete Transaction?</AlertDialogTitle>
-                            <AlertDialogDescription>
-                              Are you sure you want to delete this transaction "{transaction.description}"? This action cannot be undone.
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction
-                              onClick={() => handleDeleteTransaction(transaction.id)}
-                              className="bg-red-600 hover:bg-red-700"
-                              disabled={isDeleting}
-                            >
-                              {isDeleting && deletingTransactionId === transaction.id ? 'Deleting...' : 'Delete Transaction'}
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
+                      <TransactionHistoryDialog transaction={transaction} />
+                      {isOwn(transaction) && (
+                        <>
+                          <TransactionForm
+                            transaction={transaction}
+                            isEdit={true}
+                            trigger={
+                              <Button variant="ghost" size="sm">
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                            }
+                          />
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={isDeleting && deletingTransactionId === transaction.id}
+                                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Transaction?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete this transaction "{transaction.description}"? You can restore it from Recently deleted for {HISTORY_RETENTION_DAYS} days.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDeleteTransaction(transaction.id)}
+                                  className="bg-red-600 hover:bg-red-700"
+                                  disabled={isDeleting}
+                                >
+                                  {isDeleting && deletingTransactionId === transaction.id ? 'Deleting...' : 'Delete Transaction'}
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </>
+                      )}
                     </div>
                   </div>
                 </div>
               );
             })
           )}
-        </div>
+        </MobileCardList>
+        {/* Mobile loads more on scroll; larger screens page with a button */}
+        {hasNextPage && (
+          <div className="hidden md:flex justify-center pt-4">
+            <Button variant="outline" onClick={loadMore} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
           </CardContent>
         </Card>
     </div>
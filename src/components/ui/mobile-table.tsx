@@ -147,10 +147,31 @@ MobileTableCaption.displayName = "MobileTableCaption"
 interface MobileCardListProps {
   children: React.ReactNode
   className?: string
+  // Infinite scroll: called on mobile when the end of the list scrolls into view
+  onLoadMore?: () => void
+  hasMore?: boolean
+  isLoadingMore?: boolean
 }
 
-const MobileCardList = ({ children, className }: MobileCardListProps) => {
+const MobileCardList = ({ children, className, onLoadMore, hasMore = false, isLoadingMore = false }: MobileCardListProps) => {
   const { isMobile } = useDeviceInfo()
+  const sentinelRef = React.useRef<HTMLDivElement>(null)
+
+  React.useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!isMobile || !onLoadMore || !hasMore || isLoadingMore || !sentinel) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMore()
+        }
+      },
+      { rootMargin: "200px" }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [isMobile, onLoadMore, hasMore, isLoadingMore])
   
   if (!isMobile) {
     return <div className={className}>{children}</div>
@@ -159,6 +180,11 @@ const MobileCardList = ({ children, className }: MobileCardListProps) => {
   return (
     <div className={cn("space-y-3", className)}>
       {children}
+      {onLoadMore && hasMore && (
+        <div ref={sentinelRef} className="py-4 text-center text-sm text-muted-foreground">
+          {isLoadingMore ? "Loading more..." : null}
+        </div>
+      )}
     </div>
   )
 }
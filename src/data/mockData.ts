@@ -7,6 +7,7 @@ export const mockTransactions: Transaction[] = [
     amount: 5000,
     type: 'income',
     category_id: 'salary-cat-id',
+    account_id: 'cash-account-id',
     description: 'Monthly Salary',
     date: '2024-01-15',
   },
@@ -15,6 +16,7 @@ export const mockTransactions: Transaction[] = [
     amount: 85.50,
     type: 'expense',
     category_id: 'food-cat-id',
+    account_id: 'cash-account-id',
     description: 'Grocery shopping',
     date: '2024-01-14',
   },
@@ -23,6 +25,7 @@ export const mockTransactions: Transaction[] = [
     amount: 1200,
     type: 'expense',
     category_id: 'bills-cat-id',
+    account_id: 'cash-account-id',
     description: 'Rent payment',
     date: '2024-01-01',
   },
@@ -31,6 +34,7 @@ export const mockTransactions: Transaction[] = [
     amount: 45.25,
     type: 'expense',
     category_id: 'transportation-cat-id',
+    account_id: 'cash-account-id',
     description: 'Gas station',
     date: '2024-01-13',
   },
@@ -39,6 +43,7 @@ export const mockTransactions: Transaction[] = [
     amount: 120,
     type: 'expense',
     category_id: 'entertainment-cat-id',
+    account_id: 'cash-account-id',
     description: 'Movie tickets and dinner',
     date: '2024-01-12',
   },
@@ -47,6 +52,7 @@ export const mockTransactions: Transaction[] = [
     amount: 300,
     type: 'income',
     category_id: 'freelance-cat-id',
+    account_id: 'cash-account-id',
     description: 'Website project',
     date: '2024-01-10',
   }
@@ -87,5 +93,8 @@ export const mockDashboardStats: DashboardStats = {
       color: '#f97316'
     }
   ],
-  recentTransactions: mockTransactions.slice(0, 5)
+  recentTransactions: mockTransactions.slice(0, 5),
+  accountBalances: [],
+  netWorth: 3548.25,
+  netWorthChange: 0
 };
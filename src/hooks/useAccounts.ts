@@ -0,0 +1,202 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Account } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { ownOrSharedFilter } from '@/utils/households';
+
+interface DatabaseError {
+  message: string;
+  details?: string;
+  hint?: string;
+  code?: string;
+}
+
+export const useAccounts = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: accounts = [], isLoading } = useQuery({
+    queryKey: ['accounts', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('*')
+        .or(ownOrSharedFilter(user.id))
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching accounts');
+        throw error;
+      }
+
+      return data as Account[];
+    },
+    enabled: !!user,
+  });
+
+  const createAccountMutation = useMutation({
+    mutationFn: async (account: Omit<Account, 'id' | 'created_at' | 'updated_at' | 'user_id' | 'is_archived'>) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      if (!account.name || account.name.trim() === '') {
+        throw new Error('Account name is required');
+      }
+      if (!account.type) {
+        throw new Error('Account type is required');
+      }
+
+      const accountData: Database['public']['Tables']['accounts']['Insert'] = {
+        user_id: user.id,
+        name: account.name.trim(),
+        type: account.type,
+        opening_balance: Number(account.opening_balance || 0),
+      };
+
+      if (account.currency) {
+        accountData.currency = account.currency;
+      }
+
+      const { data, error } = await supabase
+        .from('accounts')
+        .insert([accountData])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Supabase error creating account:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accounts', user?.id] });
+      toast({
+        title: "Account created",
+        description: "Your account has been added successfully.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Create account mutation error:', error);
+      toast({
+        title: "Error creating account",
+        description: error.message || "Failed to create account. Please check your input and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateAccountMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<Account> & { id: string }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const cleanUpdates: Database['public']['Tables']['accounts']['Update'] = {
+        updated_at: new Date().toISOString(),
+      };
+
+      if (updates.name !== undefined) {
+        if (!updates.name || updates.name.trim() === '') {
+          throw new Error('Account name cannot be empty');
+        }
+        cleanUpdates.name = updates.name.trim();
+      }
+
+      if (updates.type !== undefined) {
+        cleanUpdates.type = updates.type;
+      }
+
+      if (updates.opening_balance !== undefined) {
+        cleanUpdates.opening_balance = Number(updates.opening_balance || 0);
+      }
+
+      if (updates.currency !== undefined) {
+        cleanUpdates.currency = updates.currency || null;
+      }
+
+      if (updates.is_archived !== undefined) {
+        cleanUpdates.is_archived = updates.is_archived;
+      }
+
+      const { data, error } = await supabase
+        .from('accounts')
+        .update(cleanUpdates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Supabase error updating account:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accounts', user?.id] });
+      toast({
+        title: "Account updated",
+        description: "Your account has been updated successfully.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Update account mutation error:', error);
+      toast({
+        title: "Error updating account",
+        description: error.message || "Failed to update account. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteAccountMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('accounts')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accounts', user?.id] });
+      toast({
+        title: "Account deleted",
+        description: "Your account has been deleted successfully.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Delete account mutation error:', error);
+      toast({
+        title: "Error deleting account",
+        // Foreign key violation: the account still has transactions
+        description: error.code === '23503'
+          ? "This account has transactions. Archive it instead."
+          : error.message || "Failed to delete account. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    accounts,
+    activeAccounts: accounts.filter(account => !account.is_archived),
+    isLoading,
+    createAccount: createAccountMutation.mutate,
+    updateAccount: updateAccountMutation.mutate,
+    deleteAccount: deleteAccountMutation.mutate,
+    isCreating: createAccountMutation.isPending,
+    isUpdating: updateAccountMutation.isPending,
+    isDeleting: deleteAccountMutation.isPending,
+  };
+};
@@ -0,0 +1,72 @@
+import { useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useBudgetUtilization } from '@/hooks/useBudgetPeriods';
+import { useCategories } from '@/hooks/useCategories';
+import { useCurrencyFormatter } from '@/hooks/useCurrency';
+import { smartNotifications } from '@/utils/smartNotifications';
+import { BudgetAlertLevels, getBudgetAlerts } from '@/utils/budgetAlerts';
+
+const LEVELS_KEY = 'budget-alert-levels';
+
+const loadLevels = (userId: string): BudgetAlertLevels => {
+  try {
+    const stored = localStorage.getItem(`${LEVELS_KEY}:${userId}`);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn('Failed to load budget alert levels:', error);
+    return {};
+  }
+};
+
+const saveLevels = (userId: string, levels: BudgetAlertLevels) => {
+  try {
+    localStorage.setItem(`${LEVELS_KEY}:${userId}`, JSON.stringify(levels));
+  } catch (error) {
+    console.warn('Failed to save budget alert levels:', error);
+  }
+};
+
+/**
+ * Raise a budget notification when spending pushes a budget past one of the user's alert
+ * thresholds. Utilization follows the loaded transactions, so this runs right after a
+ * transaction is added or edited. Alerts go through smartNotifications as medium priority,
+ * so quiet hours, rate limits and the budget category switch all apply. An alert held back
+ * by quiet hours or a limit is tried again on a later check; one switched off is dropped.
+ */
+export const useBudgetAlerts = () => {
+  const { user } = useAuth();
+  const { utilization, isLoading } = useBudgetUtilization();
+  const { categories, isLoading: isLoadingCategories } = useCategories();
+  const { standard: formatCurrency } = useCurrencyFormatter();
+
+  useEffect(() => {
+    if (!user || isLoading || isLoadingCategories) return;
+
+    const preferences = smartNotifications.getPreferences();
+    const switchedOff = !preferences.enabled || !preferences.categories.budget;
+    const { alerts, levels } = getBudgetAlerts(utilization, preferences.budgetAlertThresholds, loadLevels(user.id));
+
+    alerts.forEach(alert => {
+      const item = utilization.find(u => u.budget.id === alert.budgetId);
+      if (!item) return;
+
+      const name = item.budget.category_id
+        ? categories.find(c => c.id === item.budget.category_id)?.name ?? 'Budget'
+        : 'All expenses';
+      const over = alert.threshold >= 100;
+
+      const shown = smartNotifications.notify({
+        type: over ? 'error' : 'warning',
+        category: 'budget',
+        priority: 'medium',
+        title: over ? `${name} budget: ${alert.threshold}% reached` : `${name} budget at ${alert.threshold}%`,
+        description: `You've spent ${formatCurrency(item.spent)} of ${formatCurrency(item.available)} (${alert.percentage.toFixed(0)}%) this period.`,
+      });
+      if (!shown && !switchedOff) {
+        levels[alert.levelKey] = alert.previousLevel;
+      }
+    });
+
+    saveLevels(user.id, levels);
+  }, [user, isLoading, isLoadingCategories, utilization, categories, formatCurrency]);
+};
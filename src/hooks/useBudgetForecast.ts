@@ -0,0 +1,71 @@
+import { useMemo } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useBudgetUtilization } from '@/hooks/useBudgetPeriods';
+import { useRecurringTransactions } from '@/hooks/useRecurringTransactions';
+import { useTransactions } from '@/hooks/useTransactions';
+import { filterTransactionsByAccount } from '@/utils/accountBalances';
+import { BudgetUtilization } from '@/utils/budgetPeriods';
+import {
+  MONTHLY_EXPENSE_SCHEDULE,
+  SpendingForecast,
+  forecastSpending,
+  getForecastSeries,
+  getProjectedOverspend,
+  getTotalExpenseBudget,
+} from '@/utils/budgetForecast';
+import { getBudgetTransactions } from '@/utils/households';
+import { todayIsoDate } from '@/utils/recurrence';
+
+export interface BudgetForecast {
+  utilization: BudgetUtilization;
+  forecast: SpendingForecast;
+  projectedOverspend: number;
+}
+
+/**
+ * End-of-period forecasts for every active budget, and for this month's total expenses
+ * against the monthly budgets. With an account, only its spending and recurring
+ * expenses are forecast.
+ */
+export const useBudgetForecast = (accountId?: string | null) => {
+  const { user } = useAuth();
+  const { utilization, isLoading: isLoadingUtilization } = useBudgetUtilization();
+  const { transactions: allTransactions, isLoading: isLoadingTransactions } = useTransactions();
+  const { recurringTransactions: allRecurring, isLoading: isLoadingRecurring } = useRecurringTransactions();
+
+  const isLoading = isLoadingUtilization || isLoadingTransactions || isLoadingRecurring;
+
+  const { budgetForecasts, totalForecast, totalSeries, totalBudget } = useMemo(() => {
+    const date = todayIsoDate();
+    const transactions = filterTransactionsByAccount(allTransactions, accountId);
+    const recurringTransactions = accountId
+      ? allRecurring.filter(template => template.account_id === accountId)
+      : allRecurring;
+
+    const budgetForecasts: BudgetForecast[] = utilization
+      .filter(item => item.state === 'active')
+      .map(item => {
+        const budgetTransactions = user ? getBudgetTransactions(item.budget, transactions, user.id) : [];
+        const forecast = forecastSpending(item.budget, budgetTransactions, recurringTransactions, date);
+        return { utilization: item, forecast, projectedOverspend: getProjectedOverspend(forecast, item.available) };
+      });
+
+    const totalSchedule = { ...MONTHLY_EXPENSE_SCHEDULE, category_id: null };
+    const totalForecast = forecastSpending(totalSchedule, transactions, recurringTransactions, date);
+
+    return {
+      budgetForecasts,
+      totalForecast,
+      totalSeries: getForecastSeries(totalSchedule, transactions, totalForecast),
+      totalBudget: getTotalExpenseBudget(utilization),
+    };
+  }, [user, utilization, allTransactions, allRecurring, accountId]);
+
+  return {
+    budgetForecasts,
+    totalForecast,
+    totalSeries,
+    totalBudget,
+    isLoading,
+  };
+};
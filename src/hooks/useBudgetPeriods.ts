@@ -0,0 +1,102 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { BudgetPeriod } from '@/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useBudgets } from '@/hooks/useBudgets';
+import { useTransactions } from '@/hooks/useTransactions';
+import {
+  BudgetPeriodInput,
+  BudgetUtilization,
+  getBudgetUtilization,
+  getPendingBudgetPeriods,
+} from '@/utils/budgetPeriods';
+import { getBudgetTransactions } from '@/utils/households';
+import { todayIsoDate } from '@/utils/recurrence';
+
+/**
+ * Current-period utilization of every budget, worked out from the loaded transactions so
+ * it follows every edit, plus the history of finished periods. Periods that finished
+ * since the last visit are recorded as they are found.
+ */
+export const useBudgetUtilization = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { budgets, isLoading: isLoadingBudgets } = useBudgets();
+  const { transactions, isLoading: isLoadingTransactions } = useTransactions();
+  const recordingKey = useRef<string | null>(null);
+
+  const { data: recordedPeriods = [], isLoading: isLoadingPeriods } = useQuery({
+    queryKey: ['budget-periods', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      // Row level security returns the user's periods and those of shared budgets
+      const { data, error } = await supabase
+        .from('budget_periods')
+        .select('*')
+        .order('period_start', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching budget periods');
+        throw error;
+      }
+
+      return data as BudgetPeriod[];
+    },
+    enabled: !!user,
+  });
+
+  const isLoading = isLoadingBudgets || isLoadingTransactions || isLoadingPeriods;
+
+  const { utilization, historyByBudget, pendingPeriods } = useMemo(() => {
+    const date = todayIsoDate();
+    const historyByBudget: Record<string, (BudgetPeriod | BudgetPeriodInput)[]> = {};
+    const pendingPeriods: BudgetPeriodInput[] = [];
+    const utilization: BudgetUtilization[] = [];
+
+    if (isLoading || !user) return { utilization, historyByBudget, pendingPeriods };
+
+    budgets.forEach(budget => {
+      const budgetTransactions = getBudgetTransactions(budget, transactions, user.id);
+      const recorded = recordedPeriods.filter(period => period.budget_id === budget.id);
+      const pending = getPendingBudgetPeriods(budget, budgetTransactions, recorded, date);
+      const history = [...recorded, ...pending].sort((a, b) => b.period_start.localeCompare(a.period_start));
+
+      historyByBudget[budget.id] = history;
+      pendingPeriods.push(...pending);
+      utilization.push(getBudgetUtilization(budget, budgetTransactions, history, date));
+    });
+
+    return { utilization, historyByBudget, pendingPeriods };
+  }, [user, budgets, transactions, recordedPeriods, isLoading]);
+
+  useEffect(() => {
+    if (!user || pendingPeriods.length === 0) return;
+
+    // Only try each batch once; a failed write is retried on the next visit
+    const key = pendingPeriods.map(period => `${period.budget_id}:${period.period_start}`).join(',');
+    if (recordingKey.current === key) return;
+    recordingKey.current = key;
+
+    supabase
+      .from('budget_periods')
+      .upsert(
+        pendingPeriods.map(period => ({ ...period, user_id: user.id })),
+        { onConflict: 'budget_id,period_start', ignoreDuplicates: true }
+      )
+      .then(({ error }) => {
+        if (error) {
+          console.error('Error recording budget periods:', error);
+          return;
+        }
+        queryClient.invalidateQueries({ queryKey: ['budget-periods', user.id] });
+      });
+  }, [user, pendingPeriods, queryClient]);
+
+  return {
+    utilization,
+    historyByBudget,
+    isLoading,
+  };
+};
@@ -0,0 +1,196 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { BudgetAmountInput, BudgetTemplate } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useTransactions } from '@/hooks/useTransactions';
+import { SuggestionMethod, suggestBudgets } from '@/utils/budgetSuggestions';
+import { todayIsoDate } from '@/utils/recurrence';
+
+interface DatabaseError {
+  message: string;
+  details?: string;
+  hint?: string;
+  code?: string;
+}
+
+const validateAmounts = (items: BudgetAmountInput[]) => {
+  if (items.length === 0) {
+    throw new Error('Pick at least one budget');
+  }
+  if (items.some(item => !(Number(item.amount) > 0))) {
+    throw new Error('Budget amount must be greater than 0');
+  }
+};
+
+/**
+ * Suggested monthly budgets per category from the last `months` full months of spending
+ */
+export const useBudgetSuggestions = (months: number, method: SuggestionMethod) => {
+  const { transactions, isLoading } = useTransactions();
+
+  const suggestions = useMemo(
+    () => suggestBudgets(transactions, months, method, todayIsoDate()),
+    [transactions, months, method]
+  );
+
+  return { suggestions, isLoading };
+};
+
+/**
+ * Saved budget templates, and applying a template or suggestions to the budgets in bulk
+ */
+export const useBudgetTemplates = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ['budget-templates', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('budget_templates')
+        .select('*, items:budget_template_items(*)')
+        .eq('user_id', user.id)
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching budget templates');
+        throw error;
+      }
+
+      return data as BudgetTemplate[];
+    },
+    enabled: !!user,
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async ({ name, description, items }: { name: string; description?: string; items: BudgetAmountInput[] }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (!name.trim()) {
+        throw new Error('Template name is required');
+      }
+      validateAmounts(items);
+
+      const { data, error } = await supabase.rpc('save_budget_template', {
+        p_name: name.trim(),
+        p_description: description?.trim() || '',
+        p_items: items.map(item => ({
+          category_id: item.category_id,
+          amount: Number(item.amount),
+          period: item.period,
+        })),
+      });
+
+      if (error) {
+        console.error('Supabase error saving budget template:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (_, { name }) => {
+      queryClient.invalidateQueries({ queryKey: ['budget-templates', user?.id] });
+      toast({
+        title: "Template saved",
+        description: `"${name.trim()}" can now be applied to your budgets.`,
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Save budget template mutation error:', error);
+      toast({
+        title: "Error saving template",
+        description: error.message || "Failed to save the budget template. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('budget_templates')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['budget-templates', user?.id] });
+      toast({
+        title: "Template deleted",
+        description: "Your budgets are not affected.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Delete budget template mutation error:', error);
+      toast({
+        title: "Error deleting template",
+        description: error.message || "Failed to delete the budget template. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyBudgetsMutation = useMutation({
+    mutationFn: async (items: BudgetAmountInput[]) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      validateAmounts(items);
+
+      const { data, error } = await supabase.rpc('apply_budgets', {
+        p_items: items.map(item => ({
+          category_id: item.category_id,
+          amount: Number(item.amount),
+          period: item.period,
+        })),
+        p_start_date: todayIsoDate(),
+      });
+
+      if (error) {
+        console.error('Supabase error applying budgets:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (applied) => {
+      queryClient.invalidateQueries({ queryKey: ['budgets', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['budget-periods', user?.id] });
+      toast({
+        title: "Budgets applied",
+        description: applied === 0
+          ? "Your budgets already match."
+          : `${applied} budget${applied === 1 ? '' : 's'} created or updated.`,
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Apply budgets mutation error:', error);
+      toast({
+        title: "Error applying budgets",
+        description: error.message || "Failed to apply the budgets. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    templates,
+    isLoading,
+    saveTemplate: saveTemplateMutation.mutate,
+    deleteTemplate: deleteTemplateMutation.mutate,
+    applyBudgets: applyBudgetsMutation.mutate,
+    isSaving: saveTemplateMutation.isPending,
+    isDeleting: deleteTemplateMutation.isPending,
+    isApplying: applyBudgetsMutation.isPending,
+  };
+};
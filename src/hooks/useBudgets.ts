@@ -4,6 +4,7 @@ import type { Database } from '@/integrations/supabase/types';
 import { Budget } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { ownOrSharedFilter } from '@/utils/households';
 
 interface DatabaseError {
   message: string;
@@ -25,7 +26,7 @@ export const useBudgets = () => {
       const { data, error } = await supabase
         .from('budgets')
         .select('*')
-        .eq('user_id', user.id)
+        .or(ownOrSharedFilter(user.id))
         .order('created_at', { ascending: false });
       
       if (error) {
@@ -134,13 +135,46 @@ export const useBudgets = () => {
         cleanUpdates.category_id = updates.category_id;
       }
 
+      if (updates.rollover !== undefined) {
+        cleanUpdates.rollover = updates.rollover;
+      }
+
+      if (updates.household_id !== undefined) {
+        cleanUpdates.household_id = updates.household_id || null;
+      }
+
+      if (updates.cover_from_budget_id !== undefined) {
+        if (updates.cover_from_budget_id === id) {
+          throw new Error('An envelope cannot cover its own overspending');
+        }
+        cleanUpdates.cover_from_budget_id = updates.cover_from_budget_id;
+      }
+
+      // Recorded periods follow the old schedule and would no longer line up with the new one
+      const current = budgets.find(budget => budget.id === id);
+      const scheduleChanged = !!current && (
+        (cleanUpdates.period !== undefined && cleanUpdates.period !== current.period) ||
+        (cleanUpdates.start_date !== undefined && cleanUpdates.start_date !== current.start_date)
+      );
+      if (scheduleChanged) {
+        const { error: periodsError } = await supabase
+          .from('budget_periods')
+          .delete()
+          .eq('budget_id', id);
+
+        if (periodsError) {
+          console.error('Supabase error clearing budget periods:', periodsError);
+          throw periodsError;
+        }
+      }
+
       console.log('Updating budget with data:', { id, updates: cleanUpdates });
 
       const { data, error } = await supabase
         .from('budgets')
         .update(cleanUpdates)
+        // Row level security lets household editors change shared budgets too
         .eq('id', id)
-        .eq('user_id', user.id)
         .select()
         .single();
 
@@ -152,6 +186,7 @@ export const useBudgets = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['budgets', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['budget-periods', user?.id] });
       toast({
         title: "Budget updated",
         description: "Your budget has been updated successfully.",
@@ -176,13 +211,13 @@ export const useBudgets = () => {
       const { error } = await supabase
         .from('budgets')
         .delete()
-        .eq('id', id)
-        .eq('user_id', user.id);
+        .eq('id', id);
 
       if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['budgets', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['budget-periods', user?.id] });
       toast({
         title: "Budget deleted",
         description: "Your budget has been deleted successfully.",
@@ -4,6 +4,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { Category } from '@/types';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { ownOrSharedFilter } from '@/utils/households';
 
 interface DatabaseError extends Error {
   message: string;
@@ -22,7 +23,7 @@ export const useCategories = () => {
       const { data, error } = await supabase
         .from('categories')
         .select('*')
-        .eq('user_id', user.id)
+        .or(ownOrSharedFilter(user.id))
         .order('name');
 
       if (error) {
@@ -0,0 +1,330 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { CategoryRule, TransactionType } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useCategories } from '@/hooks/useCategories';
+import { chunkIds } from '@/utils/bulkTransactions';
+import { applyRulesToTransactions, countRuleHits, validateCategoryRule, type RuleTarget } from '@/utils/categoryRules';
+import { afterCursorFilter, getNextCursor, type TransactionCursor } from '@/utils/transactionFilters';
+
+interface DatabaseError {
+  message: string;
+  details?: string;
+  hint?: string;
+  code?: string;
+}
+
+// Rows read per request when applying rules; PostgREST caps a response at 1000
+const RULES_PAGE_SIZE = 1000;
+
+export type CategoryRuleInput = Omit<
+  CategoryRule,
+  'id' | 'created_at' | 'updated_at' | 'user_id' | 'hit_count' | 'last_matched_at'
+>;
+
+export const useCategoryRules = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { categories } = useCategories();
+  const queryClient = useQueryClient();
+
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: ['category-rules', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('category_rules')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('priority', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching category rules');
+        throw error;
+      }
+
+      return data as CategoryRule[];
+    },
+    enabled: !!user,
+  });
+
+  const invalidateRules = () => {
+    queryClient.invalidateQueries({ queryKey: ['category-rules', user?.id] });
+  };
+
+  const toRuleFields = (rule: Partial<CategoryRuleInput>) => {
+    const isTransfer = rule.transaction_type === 'transfer';
+    return {
+      ...rule,
+      name: rule.name?.trim(),
+      pattern: rule.match_type === 'regex' ? rule.pattern : rule.pattern?.trim(),
+      transaction_type: rule.transaction_type || null,
+      min_amount: rule.min_amount ?? null,
+      max_amount: rule.max_amount ?? null,
+      // Transfers have no category, and only transfers are linked to goals
+      category_id: isTransfer ? null : rule.category_id || null,
+      savings_goal_id: rule.transaction_type && !isTransfer ? null : rule.savings_goal_id || null,
+    };
+  };
+
+  const createRuleMutation = useMutation({
+    mutationFn: async (rule: CategoryRuleInput) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const fields = toRuleFields(rule);
+      const validationError = validateCategoryRule(fields, categories);
+      if (validationError) throw new Error(validationError);
+
+      const ruleData: Database['public']['Tables']['category_rules']['Insert'] = {
+        ...fields,
+        user_id: user.id,
+        name: fields.name!,
+        pattern: fields.pattern!,
+      };
+
+      const { data, error } = await supabase
+        .from('category_rules')
+        .insert([ruleData])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Supabase error creating category rule:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: () => {
+      invalidateRules();
+      toast({
+        title: "Rule created",
+        description: "New transactions that match will be categorized automatically.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Create category rule mutation error:', error);
+      toast({
+        title: "Error creating rule",
+        description: error.message || "Failed to create rule. Please check your input and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRuleMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<CategoryRuleInput> & { id: string }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const existing = rules.find(r => r.id === id);
+      const fields = toRuleFields({ ...existing, ...updates });
+      const validationError = validateCategoryRule(fields, categories);
+      if (validationError) throw new Error(validationError);
+
+      const cleanUpdates: Database['public']['Tables']['category_rules']['Update'] = {
+        name: fields.name,
+        match_type: fields.match_type,
+        pattern: fields.pattern,
+        min_amount: fields.min_amount,
+        max_amount: fields.max_amount,
+        transaction_type: fields.transaction_type,
+        category_id: fields.category_id,
+        savings_goal_id: fields.savings_goal_id,
+        priority: fields.priority,
+        is_active: fields.is_active,
+        updated_at: new Date().toISOString(),
+      };
+
+      const { data, error } = await supabase
+        .from('category_rules')
+        .update(cleanUpdates)
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Supabase error updating category rule:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: () => {
+      invalidateRules();
+      toast({
+        title: "Rule updated",
+        description: "Your rule has been saved.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Update category rule mutation error:', error);
+      toast({
+        title: "Error updating rule",
+        description: error.message || "Failed to update rule. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('category_rules')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateRules();
+      toast({
+        title: "Rule deleted",
+        description: "Transactions it already categorized keep their category.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Delete category rule mutation error:', error);
+      toast({
+        title: "Error deleting rule",
+        description: error.message || "Failed to delete rule. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Hit counters are statistics only, so failures are logged rather than shown
+  const recordRuleHitsMutation = useMutation({
+    mutationFn: async (hits: Record<string, number>) => {
+      if (!user || Object.keys(hits).length === 0) return;
+
+      const { error } = await supabase.rpc('record_category_rule_hits', { p_hits: hits });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateRules();
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Record category rule hits error:', error);
+    },
+  });
+
+  // Runs every active rule over the transactions already on record
+  const applyRulesMutation = useMutation({
+    mutationFn: async ({ overwrite = false }: { overwrite?: boolean } = {}) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      // Read a page at a time; a single request stops at the API's row limit
+      const rows: RuleTarget[] = [];
+      let cursor: TransactionCursor | null = null;
+      do {
+        let request = supabase
+          .from('transactions')
+          .select('id, date, description, amount, type, category_id, savings_goal_id, transfer_account_id, goal_withdrawal, splits:transaction_splits(id)')
+          .eq('user_id', user.id);
+        if (cursor) request = request.or(afterCursorFilter(cursor));
+
+        const { data, error } = await request
+          .order('date', { ascending: false })
+          .order('id', { ascending: false })
+          .limit(RULES_PAGE_SIZE);
+
+        if (error) throw error;
+
+        const page = data || [];
+        rows.push(...page.map(row => ({ ...row, type: row.type as TransactionType })));
+        cursor = getNextCursor(page, RULES_PAGE_SIZE);
+      } while (cursor);
+
+      const applications = applyRulesToTransactions(rules, rows, categories, overwrite);
+
+      // One update per distinct change keeps the number of requests down
+      const groups = new Map<string, string[]>();
+      applications.forEach(application => {
+        const key = JSON.stringify(application.changes);
+        groups.set(key, [...(groups.get(key) || []), application.id]);
+      });
+
+      for (const [key, ids] of groups) {
+        const changes: Database['public']['Tables']['transactions']['Update'] = {
+          ...JSON.parse(key),
+          change_source: 'rule',
+          updated_at: new Date().toISOString(),
+        };
+
+        for (const batch of chunkIds(ids)) {
+          const { error: updateError } = await supabase
+            .from('transactions')
+            .update(changes)
+            .in('id', batch)
+            .eq('user_id', user.id);
+
+          if (updateError) throw updateError;
+        }
+      }
+
+      const hits = countRuleHits(applications);
+      if (Object.keys(hits).length > 0) {
+        const { error: hitsError } = await supabase.rpc('record_category_rule_hits', { p_hits: hits });
+        if (hitsError) console.error('Record category rule hits error:', hitsError);
+      }
+
+      return applications.length;
+    },
+    onSuccess: (count) => {
+      invalidateRules();
+      queryClient.invalidateQueries({ queryKey: ['transactions', user?.id] });
+      toast({
+        title: count > 0 ? "Rules applied" : "Nothing to change",
+        description: count > 0
+          ? `${count} transaction${count === 1 ? '' : 's'} categorized.`
+          : "No transactions matched your rules.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Apply category rules error:', error);
+      toast({
+        title: "Error applying rules",
+        description: error.message || "Failed to apply rules. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Total hits of the rules that assign each category
+  const getCategoryRuleStats = (categoryId: string) => {
+    const categoryRules = rules.filter(rule => rule.category_id === categoryId);
+    return {
+      ruleCount: categoryRules.length,
+      hitCount: categoryRules.reduce((sum, rule) => sum + rule.hit_count, 0),
+    };
+  };
+
+  return {
+    rules,
+    isLoading,
+    createRule: createRuleMutation.mutate,
+    updateRule: updateRuleMutation.mutate,
+    deleteRule: deleteRuleMutation.mutate,
+    recordRuleHits: recordRuleHitsMutation.mutate,
+    applyRules: applyRulesMutation.mutate,
+    getCategoryRuleStats,
+    isCreating: createRuleMutation.isPending,
+    isUpdating: updateRuleMutation.isPending,
+    isDeleting: deleteRuleMutation.isPending,
+    isApplying: applyRulesMutation.isPending,
+  };
+};
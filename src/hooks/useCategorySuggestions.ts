@@ -0,0 +1,42 @@
+import { useCallback, useMemo } from 'react';
+import { useTransactions } from '@/hooks/useTransactions';
+import { useCategories } from '@/hooks/useCategories';
+import { Category, Transaction, TransactionType } from '@/types';
+import {
+  DEFAULT_SUGGESTION_CONFIDENCE,
+  suggestCategory,
+  trainCategoryModel,
+  type CategoryModel,
+} from '@/utils/categorySuggestions';
+
+// Every form reads the same cached query arrays, so one model serves them all until the data changes
+let sharedModel: { transactions: Transaction[]; categories: Category[]; model: CategoryModel } | null = null;
+
+const getSharedModel = (transactions: Transaction[], categories: Category[]): CategoryModel => {
+  if (sharedModel?.transactions !== transactions || sharedModel.categories !== categories) {
+    sharedModel = { transactions, categories, model: trainCategoryModel(transactions, categories) };
+  }
+  return sharedModel.model;
+};
+
+/**
+ * Suggest categories from the user's own history. The model is trained in memory from the
+ * transactions already loaded for the session; nothing is sent anywhere.
+ */
+export const useCategorySuggestions = (minConfidence = DEFAULT_SUGGESTION_CONFIDENCE) => {
+  const { transactions } = useTransactions();
+  const { categories } = useCategories();
+
+  const model = useMemo(() => getSharedModel(transactions, categories), [transactions, categories]);
+
+  const suggest = useCallback(
+    (description: string, type: TransactionType) => {
+      const suggestion = suggestCategory(model, description, type, minConfidence);
+      const category = suggestion && categories.find(c => c.id === suggestion.categoryId);
+      return suggestion && category ? { ...suggestion, category } : null;
+    },
+    [model, categories, minConfidence]
+  );
+
+  return { suggest };
+};
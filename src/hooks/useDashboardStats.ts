@@ -2,19 +2,29 @@
 import { useMemo } from 'react';
 import { useTransactions } from './useTransactions';
 import { useCategories } from './useCategories';
+import { useAccounts } from './useAccounts';
+import { useNetWorth } from './useNetWorth';
 import { DashboardStats, CategoryStats } from '@/types';
+import { calculateAccountBalances } from '@/utils/accountBalances';
+import { excludeTransfers } from '@/utils/transfers';
+import { expandSplitLines } from '@/utils/transactionSplits';
 
 export const useDashboardStats = (): DashboardStats => {
   const { transactions } = useTransactions();
   const { categories } = useCategories();
+  const { accounts } = useAccounts();
+  const { current: netWorth, change: netWorthChange } = useNetWorth();
 
   return useMemo(() => {
     const now = new Date();
     const currentMonth = now.getMonth();
     const currentYear = now.getFullYear();
 
+    // Transfers between accounts are neither income nor spending
+    const cashFlowTransactions = excludeTransfers(transactions);
+
     // Filter transactions for current month
-    const currentMonthTransactions = transactions.filter(t => {
+    const currentMonthTransactions = cashFlowTransactions.filter(t => {
       const date = new Date(t.date);
       return date.getMonth() === currentMonth && date.getFullYear() === currentYear;
     });
@@ -28,15 +38,19 @@ export const useDashboardStats = (): DashboardStats => {
       .reduce((sum, t) => sum + t.amount, 0);
 
     // Calculate total balance from all transactions
-    const totalIncome = transactions
+    const totalIncome = cashFlowTransactions
       .filter(t => t.type === 'income')
       .reduce((sum, t) => sum + t.amount, 0);
 
-    const totalExpenses = transactions
+    const totalExpenses = cashFlowTransactions
       .filter(t => t.type === 'expense')
       .reduce((sum, t) => sum + t.amount, 0);
 
-    const totalBalance = totalIncome - totalExpenses;
+    // Account balances include opening balances, so they make up the total when accounts exist
+    const accountBalances = calculateAccountBalances(accounts, transactions);
+    const totalBalance = accountBalances.length > 0
+      ? accountBalances.reduce((sum, a) => sum + a.balance, 0)
+      : totalIncome - totalExpenses;
 
     // Calculate category stats for expenses
     const categoryTotals: Record<string, {
@@ -45,7 +59,8 @@ export const useDashboardStats = (): DashboardStats => {
       count: number;
       color: string;
     }> = {};
-    const expenseTransactions = currentMonthTransactions.filter(t => t.type === 'expense');
+    // Split transactions count toward each of their line categories
+    const expenseTransactions = expandSplitLines(currentMonthTransactions.filter(t => t.type === 'expense'));
     
     expenseTransactions.forEach(transaction => {
       const category = categories.find(c => c.id === transaction.category_id);
@@ -85,6 +100,9 @@ export const useDashboardStats = (): DashboardStats => {
       transactionCount: transactions.length,
       topCategories,
       recentTransactions,
+      accountBalances,
+      netWorth: netWorth.netWorth,
+      netWorthChange,
     };
-  }, [transactions, categories]);
+  }, [transactions, categories, accounts, netWorth.netWorth, netWorthChange]);
 };
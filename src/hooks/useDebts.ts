@@ -0,0 +1,293 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Debt, DebtStrategy } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useTransactions } from '@/hooks/useTransactions';
+import { getMonthStart } from '@/utils/envelopes';
+import { comparePayoffStrategies, getDebtBalance } from '@/utils/debts';
+import { todayIsoDate } from '@/utils/recurrence';
+
+interface DatabaseError {
+  message: string;
+  details?: string;
+  hint?: string;
+  code?: string;
+}
+
+export interface DebtPlanSettings {
+  strategy: DebtStrategy;
+  extraPayment: number;
+}
+
+export type DebtInput = Pick<
+  Debt,
+  'name' | 'debt_type' | 'balance' | 'balance_as_of' | 'apr' | 'minimum_payment' | 'due_day' | 'is_archived'
+> & { id?: string };
+
+const DEFAULT_SETTINGS: DebtPlanSettings = { strategy: 'avalanche', extraPayment: 0 };
+
+/**
+ * Debts with their balances after linked payments, the payoff plan for each strategy,
+ * and the strategy and extra payment the user has chosen
+ */
+export const useDebts = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { transactions, isLoading: isLoadingTransactions } = useTransactions();
+
+  const { data: debts = [], isLoading: isLoadingDebts } = useQuery({
+    queryKey: ['debts', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('debts')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching debts');
+        throw error;
+      }
+
+      return data as Debt[];
+    },
+    enabled: !!user,
+  });
+
+  const { data: settings = DEFAULT_SETTINGS, isLoading: isLoadingSettings } = useQuery({
+    queryKey: ['debt-plan', user?.id],
+    queryFn: async (): Promise<DebtPlanSettings> => {
+      if (!user) return DEFAULT_SETTINGS;
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('debt_strategy, debt_extra_payment')
+        .eq('id', user.id)
+        .single();
+
+      if (error) {
+        console.error('Error fetching debt plan settings');
+        throw error;
+      }
+
+      return {
+        strategy: data.debt_strategy as DebtStrategy,
+        extraPayment: Number(data.debt_extra_payment),
+      };
+    },
+    enabled: !!user,
+  });
+
+  // Current balances, after payments made since each statement
+  const openDebts = useMemo(
+    () => debts
+      .filter(debt => !debt.is_archived)
+      .map(debt => ({ ...debt, balance: getDebtBalance(debt, transactions) })),
+    [debts, transactions]
+  );
+
+  const plans = useMemo(
+    () => comparePayoffStrategies(
+      openDebts.filter(debt => debt.balance > 0),
+      settings.extraPayment,
+      getMonthStart(todayIsoDate())
+    ),
+    [openDebts, settings.extraPayment]
+  );
+
+  const invalidateDebts = () => {
+    queryClient.invalidateQueries({ queryKey: ['debts', user?.id] });
+  };
+
+  const saveDebtMutation = useMutation({
+    mutationFn: async ({ id, ...debt }: DebtInput) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (!debt.name.trim()) {
+        throw new Error('Name is required');
+      }
+      if (!(Number(debt.balance) >= 0)) {
+        throw new Error('Balance cannot be negative');
+      }
+      if (!(Number(debt.apr) >= 0 && Number(debt.apr) <= 100)) {
+        throw new Error('APR must be between 0 and 100');
+      }
+      if (!(Number(debt.minimum_payment) >= 0)) {
+        throw new Error('Minimum payment cannot be negative');
+      }
+
+      const values = { ...debt, name: debt.name.trim() };
+
+      if (id) {
+        const { error } = await supabase
+          .from('debts')
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('user_id', user.id);
+
+        if (error) throw error;
+        return;
+      }
+
+      const { error } = await supabase
+        .from('debts')
+        .insert([{ ...values, user_id: user.id }]);
+
+      if (error) {
+        console.error('Supabase error creating debt:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, debt) => {
+      invalidateDebts();
+      toast({
+        title: debt.id ? "Debt updated" : "Debt added",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Save debt mutation error:', error);
+      toast({
+        title: "Error saving debt",
+        description: error.message || "Failed to save the debt. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteDebtMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('debts')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateDebts();
+      queryClient.invalidateQueries({ queryKey: ['transactions', user?.id] });
+      toast({
+        title: "Debt deleted",
+        description: "Its payments stay in your transactions.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Delete debt mutation error:', error);
+      toast({
+        title: "Error deleting debt",
+        description: error.message || "Failed to delete the debt. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setDebtPlanMutation = useMutation({
+    mutationFn: async ({ strategy, extraPayment }: DebtPlanSettings) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (!(extraPayment >= 0)) {
+        throw new Error('Extra payment cannot be negative');
+      }
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ debt_strategy: strategy, debt_extra_payment: extraPayment })
+        .eq('id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['debt-plan', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['user-profile', user?.id] });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Set debt plan mutation error:', error);
+      toast({
+        title: "Error saving payoff plan",
+        description: error.message || "Failed to save your payoff plan. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setDebtPrioritiesMutation = useMutation({
+    mutationFn: async (debtIds: string[]) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase.rpc('set_debt_priorities', { p_debt_ids: debtIds });
+
+      if (error) {
+        console.error('Supabase error ranking debts:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidateDebts();
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Set debt priorities mutation error:', error);
+      toast({
+        title: "Error reordering debts",
+        description: error.message || "Failed to save the debt order. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const linkPaymentMutation = useMutation({
+    mutationFn: async ({ transactionId, debtId }: { transactionId: string; debtId: string | null }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('transactions')
+        .update({ debt_id: debtId, updated_at: new Date().toISOString() })
+        .eq('id', transactionId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions', user?.id] });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Link debt payment mutation error:', error);
+      toast({
+        title: "Error linking payment",
+        description: error.message || "Failed to link the payment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    debts,
+    openDebts,
+    settings,
+    plans,
+    plan: plans[settings.strategy],
+    transactions,
+    isLoading: isLoadingDebts || isLoadingSettings || isLoadingTransactions,
+    saveDebt: saveDebtMutation.mutate,
+    deleteDebt: deleteDebtMutation.mutate,
+    setDebtPlan: setDebtPlanMutation.mutate,
+    setDebtPriorities: setDebtPrioritiesMutation.mutate,
+    linkPayment: linkPaymentMutation.mutate,
+    isSaving: saveDebtMutation.isPending,
+    isReordering: setDebtPrioritiesMutation.isPending,
+  };
+};
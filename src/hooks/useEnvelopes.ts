@@ -0,0 +1,239 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { BudgetingMode, EnvelopeAssignment, EnvelopeTransfer } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useBudgets } from '@/hooks/useBudgets';
+import { useTransactions } from '@/hooks/useTransactions';
+import { getEnvelopeMonth } from '@/utils/envelopes';
+
+interface DatabaseError {
+  message: string;
+  details?: string;
+  hint?: string;
+  code?: string;
+}
+
+/**
+ * Whether the user budgets with spending limits or envelopes
+ */
+export const useBudgetingMode = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: budgetingMode = 'limits', isLoading } = useQuery({
+    queryKey: ['budgeting-mode', user?.id],
+    queryFn: async (): Promise<BudgetingMode> => {
+      if (!user) return 'limits';
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('budgeting_mode')
+        .eq('id', user.id)
+        .single();
+
+      if (error) {
+        console.error('Error fetching budgeting mode');
+        throw error;
+      }
+
+      return data.budgeting_mode as BudgetingMode;
+    },
+    enabled: !!user,
+  });
+
+  const setBudgetingModeMutation = useMutation({
+    mutationFn: async (mode: BudgetingMode) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ budgeting_mode: mode })
+        .eq('id', user.id);
+
+      if (error) throw error;
+      return mode;
+    },
+    onSuccess: (mode) => {
+      queryClient.invalidateQueries({ queryKey: ['budgeting-mode', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['user-profile', user?.id] });
+      toast({
+        title: mode === 'envelope' ? "Envelope budgeting on" : "Spending limits on",
+        description: mode === 'envelope'
+          ? "Assign your income to envelopes until nothing is left to assign."
+          : "Each budget caps spending for its period.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Set budgeting mode mutation error:', error);
+      toast({
+        title: "Error changing budgeting mode",
+        description: error.message || "Failed to change budgeting mode. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    budgetingMode,
+    isLoading,
+    setBudgetingMode: setBudgetingModeMutation.mutate,
+    isSaving: setBudgetingModeMutation.isPending,
+  };
+};
+
+/**
+ * Envelope balances and money left to assign for one month (first day of the month)
+ */
+export const useEnvelopes = (month: string) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { budgets, isLoading: isLoadingBudgets } = useBudgets();
+  const { transactions, isLoading: isLoadingTransactions } = useTransactions();
+
+  const { data: assignments = [], isLoading: isLoadingAssignments } = useQuery({
+    queryKey: ['envelope-assignments', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('envelope_assignments')
+        .select('*')
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error fetching envelope assignments');
+        throw error;
+      }
+
+      return data as EnvelopeAssignment[];
+    },
+    enabled: !!user,
+  });
+
+  const { data: transfers = [], isLoading: isLoadingTransfers } = useQuery({
+    queryKey: ['envelope-transfers', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('envelope_transfers')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching envelope transfers');
+        throw error;
+      }
+
+      return data as EnvelopeTransfer[];
+    },
+    enabled: !!user,
+  });
+
+  const envelopeMonth = useMemo(
+    () => getEnvelopeMonth(budgets, transactions, assignments, transfers, month),
+    [budgets, transactions, assignments, transfers, month]
+  );
+
+  const assignMutation = useMutation({
+    mutationFn: async (entries: { budgetId: string; amount: number }[]) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (entries.some(entry => isNaN(entry.amount))) {
+        throw new Error('Assigned amount must be a number');
+      }
+
+      const { error } = await supabase
+        .from('envelope_assignments')
+        .upsert(
+          entries.map(entry => ({
+            user_id: user.id,
+            budget_id: entry.budgetId,
+            month,
+            amount: Number(entry.amount),
+            updated_at: new Date().toISOString(),
+          })),
+          { onConflict: 'budget_id,month' }
+        );
+
+      if (error) {
+        console.error('Supabase error assigning to envelopes:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['envelope-assignments', user?.id] });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Assign to envelope mutation error:', error);
+      toast({
+        title: "Error assigning money",
+        description: error.message || "Failed to assign money to the envelope. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const moveMoneyMutation = useMutation({
+    mutationFn: async (transfer: { fromBudgetId: string; toBudgetId: string; amount: number; note?: string }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (transfer.fromBudgetId === transfer.toBudgetId) {
+        throw new Error('Pick two different envelopes');
+      }
+      if (!(transfer.amount > 0)) {
+        throw new Error('Amount must be greater than 0');
+      }
+
+      const { error } = await supabase
+        .from('envelope_transfers')
+        .insert({
+          user_id: user.id,
+          from_budget_id: transfer.fromBudgetId,
+          to_budget_id: transfer.toBudgetId,
+          month,
+          amount: Number(transfer.amount),
+          note: transfer.note?.trim() || null,
+        });
+
+      if (error) {
+        console.error('Supabase error moving money:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['envelope-transfers', user?.id] });
+      toast({
+        title: "Money moved",
+        description: "The envelopes have been updated.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Move money mutation error:', error);
+      toast({
+        title: "Error moving money",
+        description: error.message || "Failed to move money between envelopes. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    envelopeMonth,
+    transfers: transfers.filter(transfer => transfer.month === month),
+    isLoading: isLoadingBudgets || isLoadingTransactions || isLoadingAssignments || isLoadingTransfers,
+    assign: assignMutation.mutate,
+    moveMoney: moveMoneyMutation.mutate,
+    isAssigning: assignMutation.isPending,
+    isMoving: moveMoneyMutation.isPending,
+  };
+};
@@ -0,0 +1,271 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { GoalContribution, GoalContributionPlan } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useSavingsGoals } from '@/hooks/useSavingsGoals';
+import { useTransactions } from '@/hooks/useTransactions';
+import { getContributionProposals } from '@/utils/goalContributions';
+import { todayIsoDate } from '@/utils/recurrence';
+
+interface DatabaseError {
+  message: string;
+  details?: string;
+  hint?: string;
+  code?: string;
+}
+
+export type GoalContributionPlanInput = Pick<
+  GoalContributionPlan,
+  'savings_goal_id' | 'method' | 'amount' | 'account_id' | 'auto_contribute' | 'window_days' | 'starts_on' | 'is_active'
+>;
+
+/**
+ * Payday contribution plans for savings goals, what was recorded for each payday, and
+ * the contributions waiting to be accepted or skipped
+ */
+export const useGoalContributions = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { savingsGoals, isLoading: isLoadingGoals } = useSavingsGoals();
+  const { transactions, isLoading: isLoadingTransactions } = useTransactions();
+
+  const { data: plans = [], isLoading: isLoadingPlans } = useQuery({
+    queryKey: ['goal-contribution-plans', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('goal_contribution_plans')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching contribution plans');
+        throw error;
+      }
+
+      return data as GoalContributionPlan[];
+    },
+    enabled: !!user,
+  });
+
+  const { data: contributions = [], isLoading: isLoadingContributions } = useQuery({
+    queryKey: ['goal-contributions', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('goal_contributions')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('payday', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching goal contributions');
+        throw error;
+      }
+
+      return data as GoalContribution[];
+    },
+    enabled: !!user,
+  });
+
+  // Plans follow the member's own pay, so only their own income and deposits count
+  const ownTransactions = useMemo(
+    () => transactions.filter(t => !t.user_id || t.user_id === user?.id),
+    [transactions, user?.id]
+  );
+
+  const proposals = useMemo(
+    () => getContributionProposals(plans, savingsGoals, ownTransactions, contributions, todayIsoDate()),
+    [plans, savingsGoals, ownTransactions, contributions]
+  );
+
+  const invalidateContributions = () => {
+    queryClient.invalidateQueries({ queryKey: ['goal-contributions', user?.id] });
+    queryClient.invalidateQueries({ queryKey: ['transactions', user?.id] });
+    queryClient.invalidateQueries({ queryKey: ['savings-goals', user?.id] });
+    queryClient.invalidateQueries({ queryKey: ['savings-goals-progress', user?.id] });
+  };
+
+  const savePlanMutation = useMutation({
+    mutationFn: async (plan: GoalContributionPlanInput) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (!(Number(plan.amount) > 0)) {
+        throw new Error('Contribution amount must be greater than 0');
+      }
+      if (plan.method === 'percentage' && Number(plan.amount) > 100) {
+        throw new Error('A share of income cannot be more than 100%');
+      }
+
+      const { data, error } = await supabase
+        .from('goal_contribution_plans')
+        .upsert(
+          [{
+            ...plan,
+            user_id: user.id,
+            amount: Number(plan.amount),
+            account_id: plan.account_id || null,
+            updated_at: new Date().toISOString(),
+          }],
+          { onConflict: 'user_id,savings_goal_id' }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Supabase error saving contribution plan:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (_, plan) => {
+      queryClient.invalidateQueries({ queryKey: ['goal-contribution-plans', user?.id] });
+      toast({
+        title: "Payday plan saved",
+        description: plan.auto_contribute
+          ? "Contributions will be made as income lands near your salary dates."
+          : "You'll be asked to confirm each contribution when income lands near your salary dates.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Save contribution plan mutation error:', error);
+      toast({
+        title: "Error saving payday plan",
+        description: error.message || "Failed to save the payday plan. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePlanMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('goal_contribution_plans')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['goal-contribution-plans', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['goal-contributions', user?.id] });
+      toast({
+        title: "Payday plan removed",
+        description: "Contributions already made stay with the goal.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Delete contribution plan mutation error:', error);
+      toast({
+        title: "Error removing payday plan",
+        description: error.message || "Failed to remove the payday plan. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const contributeMutation = useMutation({
+    mutationFn: async ({ planId, payday, amount, accountId }: { planId: string; payday: string; amount: number; accountId: string }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (!(amount > 0)) {
+        throw new Error('Contribution amount must be greater than 0');
+      }
+
+      const { data, error } = await supabase.rpc('contribute_to_goal', {
+        p_plan_id: planId,
+        p_payday: payday,
+        p_amount: amount,
+        p_account_id: accountId,
+        p_date: todayIsoDate() < payday ? todayIsoDate() : payday,
+      });
+
+      if (error) {
+        console.error('Supabase error contributing to goal:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: () => {
+      invalidateContributions();
+      toast({
+        title: "Contribution added",
+        description: "The transfer has been recorded against your goal.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Contribute to goal mutation error:', error);
+      toast({
+        title: "Error adding contribution",
+        description: error.message || "Failed to add the contribution. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const skipPaydayMutation = useMutation({
+    mutationFn: async ({ planId, payday, amount }: { planId: string; payday: string; amount: number }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      const plan = plans.find(item => item.id === planId);
+      if (!plan) {
+        throw new Error('Contribution plan not found');
+      }
+
+      const { error } = await supabase
+        .from('goal_contributions')
+        .insert([{
+          user_id: user.id,
+          plan_id: planId,
+          savings_goal_id: plan.savings_goal_id,
+          payday,
+          planned_amount: amount,
+          status: 'skipped',
+        }]);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['goal-contributions', user?.id] });
+      toast({
+        title: "Payday skipped",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Skip payday mutation error:', error);
+      toast({
+        title: "Error skipping payday",
+        description: error.message || "Failed to skip the payday. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    plans,
+    contributions,
+    proposals,
+    ownTransactions,
+    isLoading: isLoadingPlans || isLoadingContributions || isLoadingGoals || isLoadingTransactions,
+    savePlan: savePlanMutation.mutate,
+    deletePlan: deletePlanMutation.mutate,
+    contribute: contributeMutation.mutate,
+    skipPayday: skipPaydayMutation.mutate,
+    isSaving: savePlanMutation.isPending,
+    isContributing: contributeMutation.isPending,
+  };
+};
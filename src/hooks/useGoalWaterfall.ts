@@ -0,0 +1,161 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { WaterfallMethod } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useSavingsGoals } from '@/hooks/useSavingsGoals';
+import { useTransactions } from '@/hooks/useTransactions';
+import {
+  SURPLUS_HISTORY_MONTHS,
+  WaterfallGoal,
+  getAverageMonthlySurplus,
+  getMonthlySavingsNeeded,
+  sortGoalsByPriority,
+} from '@/utils/goalWaterfall';
+import { todayIsoDate } from '@/utils/recurrence';
+
+interface DatabaseError {
+  message: string;
+  details?: string;
+  hint?: string;
+  code?: string;
+}
+
+export interface WaterfallSettings {
+  method: WaterfallMethod;
+  minimum: number;
+}
+
+const DEFAULT_SETTINGS: WaterfallSettings = { method: 'strict', minimum: 0 };
+
+/**
+ * Savings goals in funding order, how surplus is split between them, and the surplus
+ * the user has averaged over recent months
+ */
+export const useGoalWaterfall = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { savingsGoals, savingsGoalsWithProgress, isLoading: isLoadingGoals } = useSavingsGoals();
+  const { transactions, isLoading: isLoadingTransactions } = useTransactions();
+
+  const { data: settings = DEFAULT_SETTINGS, isLoading: isLoadingSettings } = useQuery({
+    queryKey: ['goal-waterfall', user?.id],
+    queryFn: async (): Promise<WaterfallSettings> => {
+      if (!user) return DEFAULT_SETTINGS;
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('goal_waterfall_method, goal_waterfall_minimum')
+        .eq('id', user.id)
+        .single();
+
+      if (error) {
+        console.error('Error fetching waterfall settings');
+        throw error;
+      }
+
+      return {
+        method: data.goal_waterfall_method as WaterfallMethod,
+        minimum: Number(data.goal_waterfall_minimum),
+      };
+    },
+    enabled: !!user,
+  });
+
+  // Unfinished goals in funding order, with what each needs per month from the progress view
+  const rankedGoals = useMemo((): WaterfallGoal[] => {
+    const date = todayIsoDate();
+    return sortGoalsByPriority(savingsGoals)
+      .filter(goal => Number(goal.target_amount) > Number(goal.current_amount || 0))
+      .map(goal => {
+        const progress = savingsGoalsWithProgress.find(item => item.id === goal.id);
+        return {
+          id: goal.id,
+          name: goal.name,
+          target_date: goal.target_date,
+          remaining: Number(goal.target_amount) - Number(goal.current_amount || 0),
+          monthlyNeeded: progress
+            ? Number(progress.monthly_savings_needed || 0)
+            : getMonthlySavingsNeeded(goal, date),
+        };
+      });
+  }, [savingsGoals, savingsGoalsWithProgress]);
+
+  // Surplus follows the member's own income and spending
+  const averageSurplus = useMemo(
+    () => getAverageMonthlySurplus(
+      transactions.filter(t => !t.user_id || t.user_id === user?.id),
+      SURPLUS_HISTORY_MONTHS,
+      todayIsoDate()
+    ),
+    [transactions, user?.id]
+  );
+
+  const setWaterfallSettingsMutation = useMutation({
+    mutationFn: async ({ method, minimum }: WaterfallSettings) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (!(minimum >= 0)) {
+        throw new Error('Minimum per goal cannot be negative');
+      }
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ goal_waterfall_method: method, goal_waterfall_minimum: minimum })
+        .eq('id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['goal-waterfall', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['user-profile', user?.id] });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Set waterfall settings mutation error:', error);
+      toast({
+        title: "Error saving waterfall",
+        description: error.message || "Failed to save how surplus is split. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setGoalPrioritiesMutation = useMutation({
+    mutationFn: async (goalIds: string[]) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase.rpc('set_goal_priorities', { p_goal_ids: goalIds });
+
+      if (error) {
+        console.error('Supabase error ranking goals:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['savings-goals', user?.id] });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Set goal priorities mutation error:', error);
+      toast({
+        title: "Error reordering goals",
+        description: error.message || "Failed to save the goal order. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    settings,
+    rankedGoals,
+    averageSurplus,
+    isLoading: isLoadingSettings || isLoadingGoals || isLoadingTransactions,
+    setWaterfallSettings: setWaterfallSettingsMutation.mutate,
+    setGoalPriorities: setGoalPrioritiesMutation.mutate,
+    isReordering: setGoalPrioritiesMutation.isPending,
+  };
+};
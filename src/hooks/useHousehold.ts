@@ -0,0 +1,476 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Household, HouseholdInvitation, HouseholdMember, HouseholdRole } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { canEditShared } from '@/utils/households';
+
+interface DatabaseError {
+  message: string;
+  details?: string;
+  hint?: string;
+  code?: string;
+}
+
+interface HouseholdData {
+  household: Household;
+  members: HouseholdMember[];
+  // Pending invitations the household has sent; only owners can see them
+  invitations: HouseholdInvitation[];
+}
+
+// Everything that reads shared rows needs reloading when sharing changes
+const SHARED_QUERY_KEYS = ['accounts', 'budgets', 'budget-periods', 'savings-goals', 'categories', 'transactions'];
+
+/**
+ * The user's household with its members, invitations they have received, and the
+ * actions for managing membership and sharing
+ */
+export const useHousehold = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: householdData = null, isLoading: isLoadingHousehold } = useQuery({
+    queryKey: ['household', user?.id],
+    queryFn: async (): Promise<HouseholdData | null> => {
+      if (!user) return null;
+
+      const { data: membership, error: membershipError } = await supabase
+        .from('household_members')
+        .select('household_id')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (membershipError) {
+        console.error('Error fetching household membership');
+        throw membershipError;
+      }
+      if (!membership) return null;
+
+      const [householdResult, membersResult, invitationsResult] = await Promise.all([
+        supabase.from('households').select('*').eq('id', membership.household_id).single(),
+        supabase.from('household_members').select('*').eq('household_id', membership.household_id).order('created_at'),
+        supabase
+          .from('household_invitations')
+          .select('*')
+          .eq('household_id', membership.household_id)
+          .eq('status', 'pending')
+          .order('created_at'),
+      ]);
+
+      const error = householdResult.error || membersResult.error || invitationsResult.error;
+      if (error) {
+        console.error('Error fetching household');
+        throw error;
+      }
+
+      const memberRows = membersResult.data || [];
+      const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('id, full_name, email')
+        .in('id', memberRows.map(member => member.user_id));
+
+      if (profilesError) {
+        console.error('Error fetching household member profiles');
+        throw profilesError;
+      }
+
+      return {
+        household: householdResult.data as Household,
+        members: memberRows.map(member => {
+          const profile = profiles?.find(item => item.id === member.user_id);
+          return { ...member, full_name: profile?.full_name, email: profile?.email } as HouseholdMember;
+        }),
+        invitations: (invitationsResult.data || []) as HouseholdInvitation[],
+      };
+    },
+    enabled: !!user,
+  });
+
+  const { data: receivedInvitations = [], isLoading: isLoadingInvitations } = useQuery({
+    queryKey: ['household-invitations', user?.id],
+    queryFn: async () => {
+      if (!user?.email) return [];
+
+      const { data, error } = await supabase
+        .from('household_invitations')
+        .select('*, household:households(id, name)')
+        .ilike('email', user.email)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching household invitations');
+        throw error;
+      }
+
+      return data as HouseholdInvitation[];
+    },
+    enabled: !!user,
+  });
+
+  const role: HouseholdRole | null = householdData?.members.find(member => member.user_id === user?.id)?.role ?? null;
+
+  const invalidateHousehold = () => {
+    queryClient.invalidateQueries({ queryKey: ['household', user?.id] });
+    queryClient.invalidateQueries({ queryKey: ['household-invitations', user?.id] });
+  };
+
+  const invalidateShared = () => {
+    invalidateHousehold();
+    SHARED_QUERY_KEYS.forEach(key => queryClient.invalidateQueries({ queryKey: [key, user?.id] }));
+  };
+
+  const createHouseholdMutation = useMutation({
+    mutationFn: async (name: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (!name.trim()) {
+        throw new Error('Household name is required');
+      }
+
+      const { data, error } = await supabase.rpc('create_household', { p_name: name.trim() });
+
+      if (error) {
+        console.error('Supabase error creating household:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: () => {
+      invalidateHousehold();
+      toast({
+        title: "Household created",
+        description: "Invite members and share accounts, budgets and goals with them.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Create household mutation error:', error);
+      toast({
+        title: "Error creating household",
+        description: error.message || "Failed to create the household. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const inviteMemberMutation = useMutation({
+    mutationFn: async ({ email, role }: { email: string; role: HouseholdInvitation['role'] }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (!householdData) {
+        throw new Error('Create a household first');
+      }
+      const address = email.trim().toLowerCase();
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)) {
+        throw new Error('Enter a valid email address');
+      }
+      if (householdData.members.some(member => member.email?.toLowerCase() === address)) {
+        throw new Error('This person is already a member');
+      }
+
+      const { error } = await supabase
+        .from('household_invitations')
+        .insert([{ household_id: householdData.household.id, email: address, role, invited_by: user.id }]);
+
+      if (error) {
+        console.error('Supabase error inviting household member:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, { email }) => {
+      invalidateHousehold();
+      toast({
+        title: "Invitation sent",
+        description: `${email.trim()} will see it the next time they sign in.`,
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Invite household member mutation error:', error);
+      toast({
+        title: "Error sending invitation",
+        description: error.code === '23505'
+          ? "This address already has a pending invitation."
+          : error.message || "Failed to send the invitation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('household_invitations')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateHousehold();
+      toast({
+        title: "Invitation revoked",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Revoke household invitation mutation error:', error);
+      toast({
+        title: "Error revoking invitation",
+        description: error.message || "Failed to revoke the invitation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const acceptInvitationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { data, error } = await supabase.rpc('accept_household_invitation', { p_invitation_id: id });
+
+      if (error) {
+        console.error('Supabase error accepting household invitation:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: () => {
+      invalidateShared();
+      toast({
+        title: "Joined household",
+        description: "Shared accounts, budgets and goals now appear alongside yours.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Accept household invitation mutation error:', error);
+      toast({
+        title: "Error joining household",
+        description: error.message || "Failed to accept the invitation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const declineInvitationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('household_invitations')
+        .update({ status: 'declined', responded_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateHousehold();
+      toast({
+        title: "Invitation declined",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Decline household invitation mutation error:', error);
+      toast({
+        title: "Error declining invitation",
+        description: error.message || "Failed to decline the invitation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMemberRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: HouseholdRole }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase.rpc('set_household_member_role', { p_member_id: id, p_role: role });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateHousehold();
+      toast({
+        title: "Role updated",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Update household member role mutation error:', error);
+      toast({
+        title: "Error updating role",
+        description: error.message || "Failed to update the member's role. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Removing a member and leaving both delete the membership; their shared items go private
+  const removeMemberMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('household_members')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateShared();
+      toast({
+        title: "Member removed",
+        description: "Their shared items are private again.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Remove household member mutation error:', error);
+      toast({
+        title: "Error removing member",
+        description: error.message || "Failed to remove the member. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const leaveHouseholdMutation = useMutation({
+    mutationFn: async () => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('household_members')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateShared();
+      toast({
+        title: "Left household",
+        description: "Your shared items are private again.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Leave household mutation error:', error);
+      toast({
+        title: "Error leaving household",
+        description: error.message || "Failed to leave the household. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteHouseholdMutation = useMutation({
+    mutationFn: async () => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (!householdData) {
+        throw new Error('You are not in a household');
+      }
+
+      const { error } = await supabase
+        .from('households')
+        .delete()
+        .eq('id', householdData.household.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateShared();
+      toast({
+        title: "Household deleted",
+        description: "Everything that was shared is private again.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Delete household mutation error:', error);
+      toast({
+        title: "Error deleting household",
+        description: error.message || "Failed to delete the household. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Accounts go through an RPC so the transactions already in them are shared too
+  const setAccountSharingMutation = useMutation({
+    mutationFn: async ({ accountId, shared }: { accountId: string; shared: boolean }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (shared && !householdData) {
+        throw new Error('Create or join a household first');
+      }
+
+      const { error } = await supabase.rpc('set_account_household', {
+        p_account_id: accountId,
+        p_household_id: shared && householdData ? householdData.household.id : null,
+      });
+
+      if (error) {
+        console.error('Supabase error changing account sharing:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, { shared }) => {
+      invalidateShared();
+      toast({
+        title: shared ? "Account shared" : "Account made private",
+        description: shared
+          ? "Household members can now see this account and its transactions."
+          : "Only you can see this account and its transactions now.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Set account sharing mutation error:', error);
+      toast({
+        title: "Error changing account sharing",
+        description: error.message || "Failed to change the account's sharing. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    household: householdData?.household ?? null,
+    members: householdData?.members ?? [],
+    sentInvitations: householdData?.invitations ?? [],
+    receivedInvitations,
+    role,
+    canEditShared: canEditShared(role),
+    isLoading: isLoadingHousehold || isLoadingInvitations,
+    createHousehold: createHouseholdMutation.mutate,
+    inviteMember: inviteMemberMutation.mutate,
+    revokeInvitation: revokeInvitationMutation.mutate,
+    acceptInvitation: acceptInvitationMutation.mutate,
+    declineInvitation: declineInvitationMutation.mutate,
+    updateMemberRole: updateMemberRoleMutation.mutate,
+    removeMember: removeMemberMutation.mutate,
+    leaveHousehold: leaveHouseholdMutation.mutate,
+    deleteHousehold: deleteHouseholdMutation.mutate,
+    setAccountSharing: setAccountSharingMutation.mutate,
+    isCreating: createHouseholdMutation.isPending,
+    isInviting: inviteMemberMutation.isPending,
+    isAccepting: acceptInvitationMutation.isPending,
+    isLeaving: leaveHouseholdMutation.isPending,
+    isDeleting: deleteHouseholdMutation.isPending,
+    isSettingAccountSharing: setAccountSharingMutation.isPending,
+  };
+};
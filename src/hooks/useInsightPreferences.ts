@@ -80,7 +80,8 @@ export const useInsightPreferences = () => {
           insight_frequency: input.insight_frequency,
           enabled_insight_types: input.enabled_insight_types,
           preferred_delivery_time: input.preferred_delivery_time,
-          timezone: input.timezone || userTimezone
+          timezone: input.timezone || userTimezone,
+          disabled_template_ids: input.disabled_template_ids || []
         }])
         .select()
         .single();
@@ -0,0 +1,177 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { InsightTemplate } from '@/types/insights';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { fromInsightTemplateRow, validateInsightTemplate } from '@/utils/insightTemplates';
+
+interface DatabaseError {
+  message: string;
+  details?: string;
+  hint?: string;
+  code?: string;
+}
+
+export type InsightTemplateInput = Pick<
+  InsightTemplate,
+  'name' | 'type' | 'title_template' | 'content_template' | 'priority' | 'conditions'
+> & { id?: string };
+
+/**
+ * The user's own insight templates. Built-in templates aren't stored; switching them
+ * off goes through the insight preferences.
+ */
+export const useInsightTemplates = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ['insight-templates', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('insight_templates')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching insight templates');
+        throw error;
+      }
+
+      return data.map(fromInsightTemplateRow);
+    },
+    enabled: !!user,
+  });
+
+  const invalidateTemplates = () => {
+    queryClient.invalidateQueries({ queryKey: ['insight-templates', user?.id] });
+  };
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async ({ id, ...template }: InsightTemplateInput) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const invalid = validateInsightTemplate(template);
+      if (invalid) {
+        throw new Error(invalid);
+      }
+
+      const values = {
+        name: template.name.trim(),
+        insight_type: template.type,
+        title_template: template.title_template.trim(),
+        content_template: template.content_template.trim(),
+        priority: template.priority,
+        conditions: template.conditions as unknown as Json,
+      };
+
+      if (id) {
+        const { error } = await supabase
+          .from('insight_templates')
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('user_id', user.id);
+
+        if (error) throw error;
+        return;
+      }
+
+      const { error } = await supabase
+        .from('insight_templates')
+        .insert([{ ...values, user_id: user.id }]);
+
+      if (error) {
+        console.error('Supabase error creating insight template:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, template) => {
+      invalidateTemplates();
+      toast({
+        title: template.id ? "Template updated" : "Template added",
+        description: "It will be checked the next time insights are generated.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Save insight template mutation error:', error);
+      toast({
+        title: "Error saving template",
+        description: error.message || "Failed to save the template. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleTemplateMutation = useMutation({
+    mutationFn: async ({ id, isEnabled }: { id: string; isEnabled: boolean }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('insight_templates')
+        .update({ is_enabled: isEnabled, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateTemplates();
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Toggle insight template mutation error:', error);
+      toast({
+        title: "Error updating template",
+        description: error.message || "Failed to update the template. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('insight_templates')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateTemplates();
+      toast({
+        title: "Template deleted",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Delete insight template mutation error:', error);
+      toast({
+        title: "Error deleting template",
+        description: error.message || "Failed to delete the template. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    templates,
+    isLoading,
+    saveTemplate: saveTemplateMutation.mutate,
+    toggleTemplate: toggleTemplateMutation.mutate,
+    deleteTemplate: deleteTemplateMutation.mutate,
+    isSaving: saveTemplateMutation.isPending,
+  };
+};
@@ -0,0 +1,328 @@
+import { useEffect, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { NetWorthItem, NetWorthSnapshot, NetWorthValuation } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useTransactions } from '@/hooks/useTransactions';
+import { useSavingsGoals } from '@/hooks/useSavingsGoals';
+import { calculateAccountBalances } from '@/utils/accountBalances';
+import { getMonthStart } from '@/utils/envelopes';
+import { getGoalHoldings, getNetWorth, getNetWorthChange, getNetWorthHistory } from '@/utils/netWorth';
+import { todayIsoDate } from '@/utils/recurrence';
+
+interface DatabaseError {
+  message: string;
+  details?: string;
+  hint?: string;
+  code?: string;
+}
+
+export type NetWorthItemInput = Pick<NetWorthItem, 'name' | 'kind' | 'category' | 'notes' | 'is_archived'> & {
+  id?: string;
+  // Opening valuation, recorded for today when a new item is added
+  value?: number;
+};
+
+/**
+ * Assets and liabilities with their valuations, the user's current net worth and its
+ * monthly history. Keeps this month's snapshot up to date.
+ */
+export const useNetWorth = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { accounts, isLoading: isLoadingAccounts } = useAccounts();
+  const { transactions, isLoading: isLoadingTransactions } = useTransactions();
+  const { savingsGoals, isLoading: isLoadingGoals } = useSavingsGoals();
+
+  const { data: items = [], isLoading: isLoadingItems } = useQuery({
+    queryKey: ['net-worth-items', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('net_worth_items')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching net worth items');
+        throw error;
+      }
+
+      return data as NetWorthItem[];
+    },
+    enabled: !!user,
+  });
+
+  const { data: valuations = [], isLoading: isLoadingValuations } = useQuery({
+    queryKey: ['net-worth-valuations', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('net_worth_valuations')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('valued_on', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching valuations');
+        throw error;
+      }
+
+      return data as NetWorthValuation[];
+    },
+    enabled: !!user,
+  });
+
+  const { data: snapshots = [], isLoading: isLoadingSnapshots } = useQuery({
+    queryKey: ['net-worth-snapshots', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('net_worth_snapshots')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('month', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching net worth snapshots');
+        throw error;
+      }
+
+      return data as NetWorthSnapshot[];
+    },
+    enabled: !!user,
+  });
+
+  // Accounts and goals shared by other household members belong to their net worth, not this user's
+  const accountBalances = useMemo(
+    () => calculateAccountBalances(accounts.filter(account => account.user_id === user?.id), transactions),
+    [accounts, transactions, user?.id]
+  );
+
+  const goalHoldings = useMemo(
+    () => getGoalHoldings(savingsGoals.filter(goal => goal.user_id === user?.id)),
+    [savingsGoals, user?.id]
+  );
+
+  const current = useMemo(
+    () => getNetWorth(accountBalances, goalHoldings, items, valuations, todayIsoDate()),
+    [accountBalances, goalHoldings, items, valuations]
+  );
+
+  const currentMonth = getMonthStart(todayIsoDate());
+  const history = useMemo(
+    () => getNetWorthHistory(snapshots, current, currentMonth),
+    [snapshots, current, currentMonth]
+  );
+
+  const isLoading = isLoadingItems || isLoadingValuations || isLoadingSnapshots || isLoadingAccounts || isLoadingTransactions || isLoadingGoals;
+
+  // Record this month's figures so they stay in the history once the month is over
+  const monthSnapshot = snapshots.find(snapshot => snapshot.month === currentMonth);
+  useEffect(() => {
+    if (!user || isLoading) return;
+    if (
+      monthSnapshot
+      && Number(monthSnapshot.assets) === current.assets
+      && Number(monthSnapshot.liabilities) === current.liabilities
+    ) return;
+
+    supabase
+      .from('net_worth_snapshots')
+      .upsert(
+        [{
+          user_id: user.id,
+          month: currentMonth,
+          assets: current.assets,
+          liabilities: current.liabilities,
+          updated_at: new Date().toISOString(),
+        }],
+        { onConflict: 'user_id,month' }
+      )
+      .then(({ error }) => {
+        if (error) {
+          console.error('Failed to save net worth snapshot:', error);
+          return;
+        }
+        queryClient.invalidateQueries({ queryKey: ['net-worth-snapshots', user.id] });
+      });
+  }, [user, isLoading, monthSnapshot, current.assets, current.liabilities, currentMonth, queryClient]);
+
+  const saveItemMutation = useMutation({
+    mutationFn: async ({ id, value, ...item }: NetWorthItemInput) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (!item.name.trim()) {
+        throw new Error('Name is required');
+      }
+      if (value !== undefined && !(value >= 0)) {
+        throw new Error('Value cannot be negative');
+      }
+
+      if (id) {
+        const { error } = await supabase
+          .from('net_worth_items')
+          .update({ ...item, name: item.name.trim(), updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('user_id', user.id);
+
+        if (error) throw error;
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('net_worth_items')
+        .insert([{ ...item, name: item.name.trim(), user_id: user.id }])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Supabase error creating net worth item:', error);
+        throw error;
+      }
+
+      if (value !== undefined) {
+        const { error: valuationError } = await supabase
+          .from('net_worth_valuations')
+          .insert([{ user_id: user.id, item_id: data.id, valued_on: todayIsoDate(), value }]);
+
+        if (valuationError) throw valuationError;
+      }
+    },
+    onSuccess: (_, item) => {
+      queryClient.invalidateQueries({ queryKey: ['net-worth-items', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['net-worth-valuations', user?.id] });
+      toast({
+        title: item.id ? "Item updated" : item.kind === 'asset' ? "Asset added" : "Liability added",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Save net worth item mutation error:', error);
+      toast({
+        title: "Error saving item",
+        description: error.message || "Failed to save the item. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteItemMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('net_worth_items')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['net-worth-items', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['net-worth-valuations', user?.id] });
+      toast({
+        title: "Item deleted",
+        description: "Past monthly snapshots keep their figures.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Delete net worth item mutation error:', error);
+      toast({
+        title: "Error deleting item",
+        description: error.message || "Failed to delete the item. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveValuationMutation = useMutation({
+    mutationFn: async ({ itemId, valuedOn, value }: { itemId: string; valuedOn: string; value: number }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (!(value >= 0)) {
+        throw new Error('Value cannot be negative');
+      }
+
+      const { error } = await supabase
+        .from('net_worth_valuations')
+        .upsert(
+          [{ user_id: user.id, item_id: itemId, valued_on: valuedOn, value }],
+          { onConflict: 'item_id,valued_on' }
+        );
+
+      if (error) {
+        console.error('Supabase error saving valuation:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['net-worth-valuations', user?.id] });
+      toast({
+        title: "Valuation saved",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Save valuation mutation error:', error);
+      toast({
+        title: "Error saving valuation",
+        description: error.message || "Failed to save the valuation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteValuationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('net_worth_valuations')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['net-worth-valuations', user?.id] });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Delete valuation mutation error:', error);
+      toast({
+        title: "Error deleting valuation",
+        description: error.message || "Failed to delete the valuation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    items,
+    valuations,
+    accountBalances,
+    goalHoldings,
+    current,
+    history,
+    change: getNetWorthChange(history),
+    isLoading,
+    saveItem: saveItemMutation.mutate,
+    deleteItem: deleteItemMutation.mutate,
+    saveValuation: saveValuationMutation.mutate,
+    deleteValuation: deleteValuationMutation.mutate,
+    isSaving: saveItemMutation.isPending || saveValuationMutation.isPending,
+  };
+};
@@ -0,0 +1,101 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Transaction } from '@/types';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  afterCursorFilter,
+  escapeLikePattern,
+  getNextCursor,
+  type TransactionCursor,
+  type TransactionFilters,
+} from '@/utils/transactionFilters';
+import { withTagIds } from '@/utils/tags';
+import { ownOrSharedFilter } from '@/utils/households';
+
+export const TRANSACTIONS_PAGE_SIZE = 25;
+
+// Rows embedded only to filter on; they are dropped from the results
+interface FilterEmbeds {
+  transaction_tags?: { tag_id: string }[] | null;
+  category_splits?: unknown;
+  tag_filter?: unknown;
+}
+
+interface TransactionPage {
+  transactions: Transaction[];
+  nextCursor: TransactionCursor | null;
+}
+
+/**
+ * Load transactions a page at a time with filtering and search done by the database.
+ * Shares the ['transactions', userId] key prefix so existing invalidations refresh it.
+ */
+export const usePaginatedTransactions = (filters: TransactionFilters, pageSize = TRANSACTIONS_PAGE_SIZE) => {
+  const { user } = useAuth();
+
+  const query = useInfiniteQuery({
+    queryKey: ['transactions', user?.id, 'paged', filters, pageSize],
+    initialPageParam: null as TransactionCursor | null,
+    queryFn: async ({ pageParam }): Promise<TransactionPage> => {
+      if (!user) return { transactions: [], nextCursor: null };
+
+      // Category and tag filters reach into related rows through extra embeds, so the
+      // database does the matching and no id lists are built here
+      const embeds = ['*', 'splits:transaction_splits(*)', 'transaction_tags(tag_id)'];
+      if (filters.categoryId) embeds.push('category_splits:transaction_splits(id)');
+      if (filters.tagId) embeds.push('tag_filter:transaction_tags!inner(tag_id)');
+
+      let request = supabase
+        .from('transactions')
+        .select(embeds.join(', '))
+        .or(ownOrSharedFilter(user.id));
+
+      if (filters.dateFrom) request = request.gte('date', filters.dateFrom);
+      if (filters.dateTo) request = request.lte('date', filters.dateTo);
+      if (filters.type) request = request.eq('type', filters.type);
+      if (filters.minAmount !== undefined) request = request.gte('amount', filters.minAmount);
+      if (filters.maxAmount !== undefined) request = request.lte('amount', filters.maxAmount);
+      if (filters.currency) request = request.eq('currency', filters.currency);
+      if (filters.search) request = request.ilike('description', `%${escapeLikePattern(filters.search)}%`);
+      if (filters.payeeId) request = request.eq('payee_id', filters.payeeId);
+
+      if (filters.categoryId) {
+        // Split transactions match when any of their lines uses the category
+        request = request
+          .eq('category_splits.category_id', filters.categoryId)
+          .or(`category_id.eq.${filters.categoryId},category_splits.not.is.null`);
+      }
+
+      if (filters.tagId) request = request.eq('tag_filter.tag_id', filters.tagId);
+
+      if (pageParam) {
+        request = request.or(afterCursorFilter(pageParam));
+      }
+
+      const { data, error } = await request
+        .order('date', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(pageSize);
+
+      if (error) {
+        console.error('Error fetching transactions page');
+        throw error;
+      }
+
+      const rows = (data || []) as unknown as (Transaction & FilterEmbeds)[];
+      const transactions = rows.map(({ category_splits, tag_filter, ...row }) => withTagIds(row)) as Transaction[];
+
+      return { transactions, nextCursor: getNextCursor(transactions, pageSize) };
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!user,
+  });
+
+  return {
+    transactions: query.data?.pages.flatMap(page => page.transactions) ?? [],
+    isLoading: query.isLoading,
+    isFetchingNextPage: query.isFetchingNextPage,
+    hasNextPage: query.hasNextPage,
+    fetchNextPage: query.fetchNextPage,
+  };
+};
@@ -0,0 +1,255 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Payee } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { cleanPayeeAliases, findPayeeForDescription } from '@/utils/payees';
+import { chunkIds } from '@/utils/bulkTransactions';
+
+interface DatabaseError {
+  message: string;
+  details?: string;
+  hint?: string;
+  code?: string;
+}
+
+export type PayeeInput = Pick<Payee, 'name' | 'aliases'>;
+
+export const usePayees = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: payees = [], isLoading } = useQuery({
+    queryKey: ['payees', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('payees')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching payees');
+        throw error;
+      }
+
+      return data as Payee[];
+    },
+    enabled: !!user,
+  });
+
+  const invalidatePayees = () => {
+    queryClient.invalidateQueries({ queryKey: ['payees', user?.id] });
+  };
+
+  const duplicateNameMessage = (error: DatabaseError) =>
+    error.code === '23505' ? "A payee with this name already exists." : error.message;
+
+  const createPayeeMutation = useMutation({
+    mutationFn: async (payee: PayeeInput) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const name = payee.name.trim();
+      if (!name) {
+        throw new Error('Payee name is required');
+      }
+
+      const payeeData: Database['public']['Tables']['payees']['Insert'] = {
+        user_id: user.id,
+        name,
+        aliases: cleanPayeeAliases(name, payee.aliases),
+      };
+
+      const { data, error } = await supabase
+        .from('payees')
+        .insert([payeeData])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Supabase error creating payee:', error);
+        throw error;
+      }
+      return data as Payee;
+    },
+    onSuccess: (payee) => {
+      invalidatePayees();
+      toast({
+        title: "Payee created",
+        description: `${payee.name} is ready to use.`,
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Create payee mutation error:', error);
+      toast({
+        title: "Error creating payee",
+        description: duplicateNameMessage(error) || "Failed to create payee. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updatePayeeMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<PayeeInput> & { id: string }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const existing = payees.find(p => p.id === id);
+      const name = (updates.name ?? existing?.name ?? '').trim();
+      if (!name) {
+        throw new Error('Payee name is required');
+      }
+
+      const cleanUpdates: Database['public']['Tables']['payees']['Update'] = {
+        name,
+        aliases: cleanPayeeAliases(name, updates.aliases ?? existing?.aliases ?? []),
+        updated_at: new Date().toISOString(),
+      };
+
+      const { data, error } = await supabase
+        .from('payees')
+        .update(cleanUpdates)
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Supabase error updating payee:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: () => {
+      invalidatePayees();
+      toast({
+        title: "Payee updated",
+        description: "Your payee has been saved.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Update payee mutation error:', error);
+      toast({
+        title: "Error updating payee",
+        description: duplicateNameMessage(error) || "Failed to update payee. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePayeeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      // Transactions keep their description; only the payee link is cleared
+      const { error } = await supabase
+        .from('payees')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidatePayees();
+      queryClient.invalidateQueries({ queryKey: ['transactions', user?.id] });
+      toast({
+        title: "Payee deleted",
+        description: "Transactions linked to it are no longer assigned a payee.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Delete payee mutation error:', error);
+      toast({
+        title: "Error deleting payee",
+        description: error.message || "Failed to delete payee. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Link transactions that have no payee yet to the payee their description names
+  const assignPayeesMutation = useMutation({
+    mutationFn: async () => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id, description')
+        .eq('user_id', user.id)
+        .is('payee_id', null);
+
+      if (error) throw error;
+
+      const groups = new Map<string, string[]>();
+      (data || []).forEach(row => {
+        const payee = findPayeeForDescription(row.description, payees);
+        if (payee) groups.set(payee.id, [...(groups.get(payee.id) || []), row.id]);
+      });
+
+      let count = 0;
+      for (const [payeeId, ids] of groups) {
+        for (const batch of chunkIds(ids)) {
+          const { error: updateError } = await supabase
+            .from('transactions')
+            .update({ payee_id: payeeId, change_source: 'rule', updated_at: new Date().toISOString() })
+            .in('id', batch)
+            .eq('user_id', user.id);
+
+          if (updateError) throw updateError;
+        }
+        count += ids.length;
+      }
+      return count;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['transactions', user?.id] });
+      toast({
+        title: count > 0 ? "Payees assigned" : "Nothing to change",
+        description: count > 0
+          ? `${count} transaction${count === 1 ? '' : 's'} linked to a payee.`
+          : "No unassigned transactions matched your payees.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Assign payees error:', error);
+      toast({
+        title: "Error assigning payees",
+        description: error.message || "Failed to assign payees. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const matchPayee = useCallback(
+    (description: string) => findPayeeForDescription(description, payees),
+    [payees]
+  );
+
+  return {
+    payees,
+    isLoading,
+    matchPayee,
+    createPayee: createPayeeMutation.mutate,
+    createPayeeAsync: createPayeeMutation.mutateAsync,
+    updatePayee: updatePayeeMutation.mutate,
+    deletePayee: deletePayeeMutation.mutate,
+    assignPayees: assignPayeesMutation.mutate,
+    isCreating: createPayeeMutation.isPending,
+    isUpdating: updatePayeeMutation.isPending,
+    isDeleting: deletePayeeMutation.isPending,
+    isAssigning: assignPayeesMutation.isPending,
+  };
+};
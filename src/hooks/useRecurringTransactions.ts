@@ -0,0 +1,410 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { RecurringOccurrence, RecurringTransaction } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { buildOccurrenceTransaction, generateDueRecurringTransactions } from '@/services/recurringTransactionGenerator';
+import { addDaysToIsoDate, getUpcomingOccurrences, todayIsoDate } from '@/utils/recurrence';
+import { validateTransfer } from '@/utils/transfers';
+
+interface DatabaseError {
+  message: string;
+  details?: string;
+  hint?: string;
+  code?: string;
+}
+
+// How far back overdue manual occurrences are still offered for confirmation
+const OCCURRENCE_LOOKBACK_DAYS = 90;
+
+export type RecurringTransactionInput = Omit<
+  RecurringTransaction,
+  'id' | 'created_at' | 'updated_at' | 'user_id' | 'last_generated_date'
+>;
+
+export interface OccurrenceOverrides {
+  amount?: number;
+  description?: string;
+  category_id?: string | null;
+  date?: string;
+}
+
+const validateRecurringTransaction = (template: Partial<RecurringTransactionInput>) => {
+  if (!template.description || template.description.trim() === '') {
+    throw new Error('Description is required');
+  }
+  if (!template.amount || Number(template.amount) <= 0) {
+    throw new Error('Amount must be greater than zero');
+  }
+  if (!template.account_id) {
+    throw new Error('Account is required');
+  }
+  if (template.type === 'transfer') {
+    const transferError = validateTransfer({
+      account_id: template.account_id,
+      transfer_account_id: template.transfer_account_id,
+      savings_goal_id: template.savings_goal_id,
+    });
+    if (transferError) throw new Error(transferError);
+  }
+  if (template.end_date && template.start_date && template.end_date < template.start_date) {
+    throw new Error('End date must be on or after the start date');
+  }
+};
+
+/**
+ * Post due occurrences of auto-posting templates once per session for the signed-in user
+ */
+export const useRecurringTransactionGenerator = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const generatedFor = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!user || generatedFor.current === user.id) return;
+    generatedFor.current = user.id;
+
+    generateDueRecurringTransactions(user.id).then(result => {
+      if (result.errors.length > 0) {
+        console.error('Recurring transaction generation errors:', result.errors);
+      }
+      if (result.transactionsCreated > 0) {
+        queryClient.invalidateQueries({ queryKey: ['transactions', user.id] });
+      }
+      queryClient.invalidateQueries({ queryKey: ['recurring-transactions', user.id] });
+      queryClient.invalidateQueries({ queryKey: ['recurring-occurrences', user.id] });
+    });
+  }, [user, queryClient]);
+};
+
+export const useRecurringTransactions = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: recurringTransactions = [], isLoading } = useQuery({
+    queryKey: ['recurring-transactions', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('recurring_transactions')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching recurring transactions');
+        throw error;
+      }
+
+      return data as RecurringTransaction[];
+    },
+    enabled: !!user,
+  });
+
+  const { data: occurrences = [], isLoading: isLoadingOccurrences } = useQuery({
+    queryKey: ['recurring-occurrences', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('recurring_transaction_occurrences')
+        .select('*')
+        .eq('user_id', user.id)
+        .gte('occurrence_date', addDaysToIsoDate(todayIsoDate(), -OCCURRENCE_LOOKBACK_DAYS));
+
+      if (error) {
+        console.error('Error fetching recurring occurrences');
+        throw error;
+      }
+
+      return data as RecurringOccurrence[];
+    },
+    enabled: !!user,
+  });
+
+  const upcomingOccurrences = useMemo(
+    () => getUpcomingOccurrences(recurringTransactions, occurrences, todayIsoDate(), 30, OCCURRENCE_LOOKBACK_DAYS),
+    [recurringTransactions, occurrences]
+  );
+
+  const invalidateRecurring = () => {
+    queryClient.invalidateQueries({ queryKey: ['recurring-transactions', user?.id] });
+    queryClient.invalidateQueries({ queryKey: ['recurring-occurrences', user?.id] });
+  };
+
+  const createRecurringMutation = useMutation({
+    mutationFn: async (template: RecurringTransactionInput) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      validateRecurringTransaction(template);
+
+      const isTransfer = template.type === 'transfer';
+      const recurringData: Database['public']['Tables']['recurring_transactions']['Insert'] = {
+        user_id: user.id,
+        amount: Number(template.amount),
+        type: template.type,
+        category_id: isTransfer ? null : template.category_id || null,
+        account_id: template.account_id,
+        transfer_account_id: isTransfer ? template.transfer_account_id || null : null,
+        savings_goal_id: template.savings_goal_id || null,
+        description: template.description.trim(),
+        frequency: template.frequency,
+        day_of_month_1: template.frequency === 'bi_monthly' ? template.day_of_month_1 ?? 15 : null,
+        day_of_month_2: template.frequency === 'bi_monthly' ? template.day_of_month_2 ?? 30 : null,
+        start_date: template.start_date,
+        end_date: template.end_date || null,
+        auto_post: template.auto_post,
+        is_active: template.is_active,
+      };
+
+      const { data, error } = await supabase
+        .from('recurring_transactions')
+        .insert([recurringData])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Supabase error creating recurring transaction:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: async (data) => {
+      // Backdated templates post their past occurrences straight away
+      if (user && data.auto_post && data.start_date <= todayIsoDate()) {
+        const result = await generateDueRecurringTransactions(user.id);
+        if (result.transactionsCreated > 0) {
+          queryClient.invalidateQueries({ queryKey: ['transactions', user.id] });
+        }
+      }
+      invalidateRecurring();
+      toast({
+        title: "Recurring transaction created",
+        description: "Upcoming occurrences will appear in your schedule.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Create recurring transaction mutation error:', error);
+      toast({
+        title: "Error creating recurring transaction",
+        description: error.message || "Failed to create recurring transaction. Please check your input and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRecurringMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<RecurringTransactionInput> & { id: string }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const existing = recurringTransactions.find(t => t.id === id);
+      validateRecurringTransaction({ ...existing, ...updates });
+
+      const cleanUpdates: Database['public']['Tables']['recurring_transactions']['Update'] = {
+        ...updates,
+        updated_at: new Date().toISOString(),
+      };
+
+      if (updates.description !== undefined) {
+        cleanUpdates.description = updates.description.trim();
+      }
+      if (updates.amount !== undefined) {
+        cleanUpdates.amount = Number(updates.amount);
+      }
+      if (updates.end_date !== undefined) {
+        cleanUpdates.end_date = updates.end_date || null;
+      }
+      // Resuming a paused schedule picks up from today rather than posting the missed occurrences
+      if (updates.is_active && existing && !existing.is_active) {
+        cleanUpdates.last_generated_date = addDaysToIsoDate(todayIsoDate(), -1);
+      }
+
+      const { data, error } = await supabase
+        .from('recurring_transactions')
+        .update(cleanUpdates)
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Supabase error updating recurring transaction:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: () => {
+      invalidateRecurring();
+      toast({
+        title: "Recurring transaction updated",
+        description: "Future occurrences will use the new details.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Update recurring transaction mutation error:', error);
+      toast({
+        title: "Error updating recurring transaction",
+        description: error.message || "Failed to update recurring transaction. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRecurringMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      // Posted transactions are kept; only their link to the template is cleared
+      const { error } = await supabase
+        .from('recurring_transactions')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateRecurring();
+      toast({
+        title: "Recurring transaction deleted",
+        description: "Transactions already posted have been kept.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Delete recurring transaction mutation error:', error);
+      toast({
+        title: "Error deleting recurring transaction",
+        description: error.message || "Failed to delete recurring transaction. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const skipOccurrenceMutation = useMutation({
+    mutationFn: async ({ template, date }: { template: RecurringTransaction; date: string }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('recurring_transaction_occurrences')
+        .insert([{
+          user_id: user.id,
+          recurring_transaction_id: template.id,
+          occurrence_date: date,
+          status: 'skipped',
+        }]);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateRecurring();
+      toast({
+        title: "Occurrence skipped",
+        description: "This occurrence will not be posted.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Skip occurrence mutation error:', error);
+      toast({
+        title: "Error skipping occurrence",
+        // Unique violation: the occurrence was already posted or skipped
+        description: error.code === '23505'
+          ? "This occurrence has already been handled."
+          : error.message || "Failed to skip occurrence. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Posts a single occurrence now, optionally with edited details
+  const confirmOccurrenceMutation = useMutation({
+    mutationFn: async ({ template, date, overrides = {} }: {
+      template: RecurringTransaction;
+      date: string;
+      overrides?: OccurrenceOverrides;
+    }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      if (overrides.amount !== undefined && Number(overrides.amount) <= 0) {
+        throw new Error('Amount must be greater than zero');
+      }
+
+      const { data: occurrence, error: claimError } = await supabase
+        .from('recurring_transaction_occurrences')
+        .insert([{
+          user_id: user.id,
+          recurring_transaction_id: template.id,
+          occurrence_date: date,
+          status: 'posted',
+        }])
+        .select()
+        .single();
+
+      if (claimError) throw claimError;
+
+      const { data: transaction, error: insertError } = await supabase
+        .from('transactions')
+        .insert([buildOccurrenceTransaction(template, date, overrides)])
+        .select()
+        .single();
+
+      if (insertError) {
+        await supabase.from('recurring_transaction_occurrences').delete().eq('id', occurrence.id);
+        throw insertError;
+      }
+
+      await supabase
+        .from('recurring_transaction_occurrences')
+        .update({ transaction_id: transaction.id })
+        .eq('id', occurrence.id);
+
+      return transaction;
+    },
+    onSuccess: () => {
+      invalidateRecurring();
+      queryClient.invalidateQueries({ queryKey: ['transactions', user?.id] });
+      toast({
+        title: "Occurrence posted",
+        description: "The transaction has been added.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Confirm occurrence mutation error:', error);
+      toast({
+        title: "Error posting occurrence",
+        description: error.code === '23505'
+          ? "This occurrence has already been handled."
+          : error.message || "Failed to post occurrence. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    recurringTransactions,
+    upcomingOccurrences,
+    isLoading: isLoading || isLoadingOccurrences,
+    createRecurringTransaction: createRecurringMutation.mutate,
+    updateRecurringTransaction: updateRecurringMutation.mutate,
+    deleteRecurringTransaction: deleteRecurringMutation.mutate,
+    skipOccurrence: skipOccurrenceMutation.mutate,
+    confirmOccurrence: confirmOccurrenceMutation.mutate,
+    isCreating: createRecurringMutation.isPending,
+    isUpdating: updateRecurringMutation.isPending,
+    isDeleting: deleteRecurringMutation.isPending,
+    isPostingOccurrence: skipOccurrenceMutation.isPending || confirmOccurrenceMutation.isPending,
+  };
+};
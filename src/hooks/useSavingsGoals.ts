@@ -1,10 +1,16 @@
 
+import { useEffect, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import type { Database } from '@/integrations/supabase/types';
 import { SavingsGoal, SavingsGoalProgress } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { ownOrSharedFilter } from '@/utils/households';
+import { validateGoalWithdrawal } from '@/utils/goalHistory';
+import { postDueGoalInterest } from '@/services/goalInterestPoster';
+import { getInterestStart } from '@/utils/goalInterest';
+import { todayIsoDate } from '@/utils/recurrence';
 
 interface DatabaseError {
   message: string;
@@ -13,6 +19,31 @@ interface DatabaseError {
   code?: string;
 }
 
+/**
+ * Post interest earned by interest-bearing goals once per session for the signed-in user
+ */
+export const useGoalInterestPoster = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const postedFor = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!user || postedFor.current === user.id) return;
+    postedFor.current = user.id;
+
+    postDueGoalInterest(user.id).then(result => {
+      if (result.errors.length > 0) {
+        console.error('Goal interest posting errors:', result.errors);
+      }
+      if (result.transactionsCreated > 0) {
+        queryClient.invalidateQueries({ queryKey: ['transactions', user.id] });
+        queryClient.invalidateQueries({ queryKey: ['savings-goals', user.id] });
+        queryClient.invalidateQueries({ queryKey: ['savings-goals-progress', user.id] });
+      }
+    });
+  }, [user, queryClient]);
+};
+
 export const useSavingsGoals = () => {
   const { toast } = useToast();
   const { user } = useAuth();
@@ -28,7 +59,7 @@ export const useSavingsGoals = () => {
       const { data, error } = await supabase
         .from('savings_goals')
         .select('*')
-        .eq('user_id', user.id)
+        .or(ownOrSharedFilter(user.id))
         .order('created_at', { ascending: false });
       
       if (error) {
@@ -120,6 +151,17 @@ export const useSavingsGoals = () => {
         goalData.target_date = goal.target_date;
       }
 
+      if (goal.household_id) {
+        goalData.household_id = goal.household_id;
+      }
+
+      if (goal.interest_rate) {
+        goalData.interest_rate = Number(goal.interest_rate);
+        goalData.compounding_frequency = goal.compounding_frequency || 'monthly';
+        goalData.interest_account_id = goal.interest_account_id || null;
+        goalData.interest_posted_through = getInterestStart(null, goal.interest_rate, todayIsoDate());
+      }
+
       console.log('Creating savings goal with data:', goalData);
 
       const { data, error } = await supabase
@@ -213,6 +255,41 @@ export const useSavingsGoals = () => {
         cleanUpdates.savings_percentage_threshold = Number(updates.savings_percentage_threshold || 20);
       }
 
+      if (updates.household_id !== undefined) {
+        cleanUpdates.household_id = updates.household_id || null;
+      }
+
+      if (updates.interest_rate !== undefined) {
+        if (updates.interest_rate !== null && (updates.interest_rate < 0 || updates.interest_rate > 100)) {
+          throw new Error('Interest rate must be between 0 and 100');
+        }
+        cleanUpdates.interest_rate = updates.interest_rate ? Number(updates.interest_rate) : null;
+
+        const { data: current, error: currentError } = await supabase
+          .from('savings_goals')
+          .select('interest_rate')
+          .eq('id', id)
+          .single();
+
+        if (currentError) {
+          console.error('Supabase error fetching savings goal:', currentError);
+          throw currentError;
+        }
+
+        const interestStart = getInterestStart(current.interest_rate, cleanUpdates.interest_rate, todayIsoDate());
+        if (interestStart) {
+          cleanUpdates.interest_posted_through = interestStart;
+        }
+      }
+
+      if (updates.compounding_frequency !== undefined) {
+        cleanUpdates.compounding_frequency = updates.compounding_frequency;
+      }
+
+      if (updates.interest_account_id !== undefined) {
+        cleanUpdates.interest_account_id = updates.interest_account_id || null;
+      }
+
       if (updates.salary_date_1 !== undefined) {
         cleanUpdates.salary_date_1 = Number(updates.salary_date_1 || 15);
       }
@@ -227,7 +304,6 @@ export const useSavingsGoals = () => {
         .from('savings_goals')
         .update(cleanUpdates)
         .eq('id', id)
-        .eq('user_id', user.id)
         .select()
         .single();
 
@@ -263,8 +339,7 @@ export const useSavingsGoals = () => {
       const { error } = await supabase
         .from('savings_goals')
         .delete()
-        .eq('id', id)
-        .eq('user_id', user.id);
+        .eq('id', id);
 
       if (error) throw error;
     },
@@ -284,6 +359,67 @@ export const useSavingsGoals = () => {
     },
   });
 
+  const withdrawFromGoalMutation = useMutation({
+    mutationFn: async ({ goalId, amount, accountId, date, description }: {
+      goalId: string;
+      amount: number;
+      accountId: string;
+      date: string;
+      description: string;
+    }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      const goal = savingsGoals.find(item => item.id === goalId);
+      if (!goal) {
+        throw new Error('Savings goal not found');
+      }
+      const withdrawalError = validateGoalWithdrawal(goal, amount);
+      if (withdrawalError) {
+        throw new Error(withdrawalError);
+      }
+
+      const { data, error } = await supabase
+        .from('transactions')
+        .insert([{
+          user_id: user.id,
+          amount,
+          type: 'transfer',
+          category_id: null,
+          account_id: accountId,
+          savings_goal_id: goalId,
+          goal_withdrawal: true,
+          description,
+          date,
+        }])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Supabase error withdrawing from savings goal:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['savings-goals', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['savings-goals-progress', user?.id] });
+      toast({
+        title: "Withdrawal recorded",
+        description: "The money has been moved out of your goal.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Withdraw from savings goal mutation error:', error);
+      toast({
+        title: "Error recording withdrawal",
+        description: error.message || "Failed to withdraw from the goal. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   return {
     savingsGoals,
     savingsGoalsWithProgress,
@@ -292,8 +428,10 @@ export const useSavingsGoals = () => {
     createSavingsGoal: createSavingsGoalMutation.mutate,
     updateSavingsGoal: updateSavingsGoalMutation.mutate,
     deleteSavingsGoal: deleteSavingsGoalMutation.mutate,
+    withdrawFromGoal: withdrawFromGoalMutation.mutate,
     isCreating: createSavingsGoalMutation.isPending,
     isUpdating: updateSavingsGoalMutation.isPending,
     isDeleting: deleteSavingsGoalMutation.isPending,
+    isWithdrawing: withdrawFromGoalMutation.isPending,
   };
 };
@@ -0,0 +1,181 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Tag } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { normalizeTagName } from '@/utils/tags';
+
+interface DatabaseError {
+  message: string;
+  details?: string;
+  hint?: string;
+  code?: string;
+}
+
+export const useTags = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: tags = [], isLoading } = useQuery({
+    queryKey: ['tags', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('tags')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching tags');
+        throw error;
+      }
+
+      return data as Tag[];
+    },
+    enabled: !!user,
+  });
+
+  const invalidateTags = () => {
+    queryClient.invalidateQueries({ queryKey: ['tags', user?.id] });
+  };
+
+  // Returns the existing tag when one with the same name is already there
+  const createTagMutation = useMutation({
+    mutationFn: async ({ name, color }: { name: string; color?: string }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const tagName = normalizeTagName(name);
+      if (!tagName) {
+        throw new Error('Tags can only use letters, numbers, hyphens and underscores');
+      }
+
+      const existing = tags.find(tag => tag.name === tagName);
+      if (existing) return existing;
+
+      const tagData: Database['public']['Tables']['tags']['Insert'] = {
+        user_id: user.id,
+        name: tagName,
+        ...(color && { color }),
+      };
+
+      const { data, error } = await supabase
+        .from('tags')
+        .insert([tagData])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Supabase error creating tag:', error);
+        throw error;
+      }
+      return data as Tag;
+    },
+    onSuccess: () => {
+      invalidateTags();
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Create tag mutation error:', error);
+      toast({
+        title: "Error creating tag",
+        description: error.message || "Failed to create tag. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateTagMutation = useMutation({
+    mutationFn: async ({ id, name, color }: { id: string; name?: string; color?: string }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const cleanUpdates: Database['public']['Tables']['tags']['Update'] = {};
+      if (name !== undefined) {
+        cleanUpdates.name = normalizeTagName(name);
+        if (!cleanUpdates.name) {
+          throw new Error('Tags can only use letters, numbers, hyphens and underscores');
+        }
+      }
+      if (color !== undefined) {
+        cleanUpdates.color = color;
+      }
+
+      const { data, error } = await supabase
+        .from('tags')
+        .update(cleanUpdates)
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Supabase error updating tag:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: () => {
+      invalidateTags();
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Update tag mutation error:', error);
+      toast({
+        title: "Error updating tag",
+        description: error.code === '23505'
+          ? "A tag with this name already exists."
+          : error.message || "Failed to update tag. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTagMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('tags')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateTags();
+      queryClient.invalidateQueries({ queryKey: ['transactions', user?.id] });
+      toast({
+        title: "Tag deleted",
+        description: "The tag has been removed from all transactions.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Delete tag mutation error:', error);
+      toast({
+        title: "Error deleting tag",
+        description: error.message || "Failed to delete tag. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    tags,
+    isLoading,
+    createTag: createTagMutation.mutate,
+    createTagAsync: createTagMutation.mutateAsync,
+    updateTag: updateTagMutation.mutate,
+    deleteTag: deleteTagMutation.mutate,
+    isCreating: createTagMutation.isPending,
+    isUpdating: updateTagMutation.isPending,
+    isDeleting: deleteTagMutation.isPending,
+  };
+};
@@ -0,0 +1,138 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { TransactionHistoryEntry } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { getRetentionCutoff } from '@/utils/transactionHistory';
+import { chunkIds } from '@/utils/bulkTransactions';
+
+interface DatabaseError {
+  message: string;
+  details?: string;
+  hint?: string;
+  code?: string;
+}
+
+/**
+ * Change log of one transaction, newest first. Pass null to skip loading.
+ */
+export const useTransactionHistory = (transactionId: string | null) => {
+  const { user } = useAuth();
+
+  const { data: history = [], isLoading } = useQuery({
+    queryKey: ['transaction-history', user?.id, transactionId],
+    queryFn: async () => {
+      if (!user || !transactionId) return [];
+
+      const { data, error } = await supabase
+        .from('transaction_history')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('transaction_id', transactionId)
+        .order('changed_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching transaction history');
+        throw error;
+      }
+
+      return data as TransactionHistoryEntry[];
+    },
+    enabled: !!user && !!transactionId,
+  });
+
+  return { history, isLoading };
+};
+
+/**
+ * Transactions deleted within the restore window that have not been restored yet,
+ * most recently deleted first
+ */
+export const useDeletedTransactions = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: deletedTransactions = [], isLoading } = useQuery({
+    queryKey: ['transaction-history', user?.id, 'deleted'],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('transaction_history')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('action', 'delete')
+        .gte('changed_at', getRetentionCutoff())
+        .order('changed_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching deleted transactions');
+        throw error;
+      }
+
+      const entries = data as TransactionHistoryEntry[];
+      if (entries.length === 0) return entries;
+
+      // Restored transactions exist again under the same id
+      const existingIds = new Set<string>();
+      for (const batch of chunkIds([...new Set(entries.map(entry => entry.transaction_id))])) {
+        const { data: existing, error: existingError } = await supabase
+          .from('transactions')
+          .select('id')
+          .in('id', batch);
+
+        if (existingError) throw existingError;
+        (existing || []).forEach(row => existingIds.add(row.id));
+      }
+
+      const seen = new Set<string>();
+      // A transaction deleted, restored and deleted again is listed once, by its latest delete
+      return entries.filter(entry => {
+        if (existingIds.has(entry.transaction_id) || seen.has(entry.transaction_id)) return false;
+        seen.add(entry.transaction_id);
+        return true;
+      });
+    },
+    enabled: !!user,
+  });
+
+  const restoreTransactionMutation = useMutation({
+    mutationFn: async (historyId: string) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { data, error } = await supabase.rpc('restore_deleted_transaction', { p_history_id: historyId });
+
+      if (error) {
+        console.error('Restore deleted transaction error:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['transaction-history', user?.id] });
+      toast({
+        title: "Transaction restored",
+        description: "The deleted transaction is back in your list.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Restore transaction mutation error:', error);
+      toast({
+        title: "Error restoring transaction",
+        description: error.message || "Failed to restore transaction. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    deletedTransactions,
+    isLoading,
+    restoreTransaction: restoreTransactionMutation.mutate,
+    isRestoring: restoreTransactionMutation.isPending,
+  };
+};
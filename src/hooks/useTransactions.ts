@@ -1,9 +1,17 @@
 
+import { useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
 import { Transaction } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { findDuplicateTransactions, type TransactionFingerprintInput } from '@/utils/duplicateDetection';
+import { getPrimarySplitCategory, validateSplits, type SplitLineInput } from '@/utils/transactionSplits';
+import { chunkIds } from '@/utils/bulkTransactions';
+import { buildRestoreRows } from '@/utils/transactionHistory';
+import { withTagIds } from '@/utils/tags';
+import { ownOrSharedFilter } from '@/utils/households';
 
 interface DatabaseError {
   message: string;
@@ -12,43 +20,73 @@ interface DatabaseError {
   code?: string;
 }
 
-export const useTransactions = () => {
+type TransactionRow = Database['public']['Tables']['transactions']['Row'];
+type TransactionSplitRow = Database['public']['Tables']['transaction_splits']['Row'];
+type TransactionTagRow = Database['public']['Tables']['transaction_tags']['Row'];
+
+export type BulkTransactionChanges = Pick<Partial<Transaction>, 'category_id' | 'date' | 'savings_goal_id' | 'currency'>;
+
+// Rows as they were before a bulk change, kept so the change can be undone
+export interface TransactionSnapshot {
+  transactions: TransactionRow[];
+  splits: TransactionSplitRow[];
+  tags: TransactionTagRow[];
+}
+
+/**
+ * Transaction writes without subscribing to the full transaction list, for views that
+ * load their own rows such as the paginated transaction list.
+ */
+export const useTransactionMutations = () => {
   const { toast } = useToast();
   const { user } = useAuth();
   const queryClient = useQueryClient();
 
-  const { data: transactions = [], isLoading } = useQuery({
-    queryKey: ['transactions', user?.id],
-    queryFn: async () => {
-      if (!user) return [];
-      
-      // Fetching transactions for user - logging removed for security
-      
-      const { data, error } = await supabase
-        .from('transactions')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('date', { ascending: false });
-      
-      if (error) {
-        console.error('Error fetching transactions');
-        throw error;
-      }
+  // Swap a transaction's split lines in one call; the database checks they add up to its amount
+  const replaceSplits = async (transactionId: string, splits: SplitLineInput[]) => {
+    const { error } = await supabase.rpc('replace_transaction_splits', {
+      p_transaction_id: transactionId,
+      p_splits: splits.map(split => ({
+        category_id: split.category_id,
+        amount: Number(split.amount),
+        description: split.description || null,
+      })),
+    });
 
-      // Fetched transactions - logging removed for security
-      return data as Transaction[];
-    },
-    enabled: !!user,
-  });
+    if (error) {
+      console.error('Transaction splits error:', error);
+      throw error;
+    }
+  };
+
+  const setTags = async (transactionId: string, tagIds: string[]) => {
+    const { error } = await supabase.rpc('set_transaction_tags', {
+      p_transaction_id: transactionId,
+      p_tag_ids: tagIds,
+    });
+
+    if (error) {
+      console.error('Transaction tags error:', error);
+      throw error;
+    }
+  };
 
   const addTransactionMutation = useMutation({
-    mutationFn: async (transaction: Omit<Transaction, 'id' | 'created_at' | 'updated_at' | 'user_id'>) => {
+    mutationFn: async ({ splits = [], tag_ids = [], ...transaction }: Omit<Transaction, 'id' | 'created_at' | 'updated_at' | 'user_id' | 'splits'> & {
+      splits?: SplitLineInput[];
+    }) => {
       if (!user) {
         throw new Error('User not authenticated');
       }
 
+      if (splits.length > 0) {
+        const splitError = validateSplits(transaction.amount, splits);
+        if (splitError) throw new Error(splitError);
+      }
+
       const transactionWithUserId = {
         ...transaction,
+        category_id: splits.length > 0 ? getPrimarySplitCategory(splits) : transaction.category_id,
         user_id: user.id
       };
 
@@ -64,6 +102,20 @@ export const useTransactions = () => {
         console.error('Transaction insert error:', error);
         throw error;
       }
+
+      if (splits.length > 0) {
+        try {
+          await replaceSplits(data.id, splits);
+        } catch (splitError) {
+          // Don't leave a transaction behind without the lines it was entered with
+          await supabase.from('transactions').delete().eq('id', data.id);
+          throw splitError;
+        }
+      }
+
+      if (tag_ids.length > 0) {
+        await setTags(data.id, tag_ids);
+      }
       return data;
     },
     onSuccess: () => {
@@ -83,12 +135,84 @@ export const useTransactions = () => {
     },
   });
 
+  const importTransactionsMutation = useMutation({
+    mutationFn: async (rows: Array<Omit<Transaction, 'id' | 'created_at' | 'updated_at' | 'user_id'>>) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      if (rows.length === 0) {
+        return [];
+      }
+
+      const rowsWithUserId = rows.map(row => ({
+        ...row,
+        user_id: user.id,
+        change_source: 'import' as const,
+      }));
+
+      const { data, error } = await supabase
+        .from('transactions')
+        .insert(rowsWithUserId)
+        .select();
+
+      if (error) {
+        console.error('Transaction import error:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['transactions', user?.id] });
+      toast({
+        title: "Transactions imported",
+        description: `${data.length} transaction${data.length === 1 ? '' : 's'} imported successfully.`,
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Import transactions error:', error);
+      toast({
+        title: "Error importing transactions",
+        description: error.message || "Failed to import transactions. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateTransactionMutation = useMutation({
-    mutationFn: async ({ id, ...updates }: Partial<Transaction> & { id: string }) => {
+    mutationFn: async ({ id, splits, tag_ids, ...updates }: Partial<Omit<Transaction, 'splits'>> & {
+      id: string;
+      splits?: SplitLineInput[];
+    }) => {
       if (!user) {
         throw new Error('User not authenticated');
       }
 
+      // Split lines only matter when the amount or the lines change
+      let existing: Pick<Transaction, 'amount' | 'splits'> | null = null;
+      if (splits !== undefined || updates.amount !== undefined) {
+        const { data: current, error: currentError } = await supabase
+          .from('transactions')
+          .select('amount, splits:transaction_splits(*)')
+          .eq('id', id)
+          .single();
+
+        if (currentError) {
+          console.error('Transaction lookup error:', currentError);
+          throw currentError;
+        }
+        existing = current;
+      }
+      const amount = updates.amount ?? existing?.amount ?? 0;
+
+      if (splits && splits.length > 0) {
+        const splitError = validateSplits(amount, splits);
+        if (splitError) throw new Error(splitError);
+        updates.category_id = getPrimarySplitCategory(splits);
+      } else if (splits === undefined && existing?.splits?.length && updates.amount !== undefined && updates.amount !== existing.amount) {
+        throw new Error('This transaction is split. Update its split lines to match the new amount.');
+      }
+
       // Updating transaction - logging removed for security
 
       const { data, error } = await supabase
@@ -103,6 +227,14 @@ export const useTransactions = () => {
         console.error('Transaction update error:', error);
         throw error;
       }
+
+      if (splits !== undefined && (splits.length > 0 || existing?.splits?.length)) {
+        await replaceSplits(id, splits);
+      }
+
+      if (tag_ids !== undefined) {
+        await setTags(id, tag_ids);
+      }
       return data;
     },
     onSuccess: () => {
@@ -143,9 +275,10 @@ export const useTransactions = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['transactions', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['transaction-history', user?.id] });
       toast({
         title: "Transaction deleted",
-        description: "Your transaction has been successfully deleted.",
+        description: "You can restore it from Recently deleted if this was a mistake.",
       });
     },
     onError: (error: DatabaseError) => {
@@ -158,14 +291,211 @@ export const useTransactions = () => {
     },
   });
 
+  const takeSnapshot = async (userId: string, ids: string[]): Promise<TransactionSnapshot> => {
+    const snapshot: TransactionSnapshot = { transactions: [], splits: [], tags: [] };
+
+    for (const batch of chunkIds(ids)) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('*, splits:transaction_splits(*), transaction_tags(*)')
+        .in('id', batch)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+
+      (data || []).forEach(({ splits, transaction_tags, ...row }) => {
+        snapshot.transactions.push(row);
+        snapshot.splits.push(...splits);
+        snapshot.tags.push(...transaction_tags);
+      });
+    }
+    return snapshot;
+  };
+
+  // Changes run one request per batch of ids and invalidate the cache once
+  const bulkUpdateTransactionsMutation = useMutation({
+    mutationFn: async ({ ids, changes }: { ids: string[]; changes: BulkTransactionChanges }) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const snapshot = await takeSnapshot(user.id, ids);
+      const cleanChanges: Database['public']['Tables']['transactions']['Update'] = {
+        ...changes,
+        change_source: 'bulk',
+        updated_at: new Date().toISOString(),
+      };
+
+      for (const batch of chunkIds(ids)) {
+        const { error } = await supabase
+          .from('transactions')
+          .update(cleanChanges)
+          .in('id', batch)
+          .eq('user_id', user.id);
+
+        if (error) {
+          console.error('Bulk transaction update error:', error);
+          throw error;
+        }
+      }
+
+      // A new category replaces any split lines; undo brings them back
+      const splitIds = [...new Set(snapshot.splits.map(split => split.transaction_id))];
+      if (changes.category_id !== undefined && splitIds.length > 0) {
+        const { error } = await supabase
+          .from('transaction_splits')
+          .delete()
+          .in('transaction_id', splitIds);
+
+        if (error) throw error;
+      }
+
+      return snapshot;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions', user?.id] });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Bulk update transactions error:', error);
+      toast({
+        title: "Error updating transactions",
+        description: error.message || "Failed to update transactions. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const bulkDeleteTransactionsMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const snapshot = await takeSnapshot(user.id, ids);
+
+      for (const batch of chunkIds(ids)) {
+        const { error } = await supabase.rpc('delete_transactions', { p_ids: batch, p_source: 'bulk' });
+
+        if (error) {
+          console.error('Bulk transaction delete error:', error);
+          throw error;
+        }
+      }
+
+      return snapshot;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['transaction-history', user?.id] });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Bulk delete transactions error:', error);
+      toast({
+        title: "Error deleting transactions",
+        description: error.message || "Failed to delete transactions. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Puts rows back exactly as they were in a snapshot, re-creating any that were deleted
+  const restoreTransactionsMutation = useMutation({
+    mutationFn: async (snapshot: TransactionSnapshot) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      if (snapshot.transactions.length > 0) {
+        const { error } = await supabase
+          .from('transactions')
+          .upsert(buildRestoreRows(snapshot.transactions));
+        if (error) throw error;
+      }
+
+      if (snapshot.splits.length > 0) {
+        const { error } = await supabase.from('transaction_splits').upsert(snapshot.splits);
+        if (error) throw error;
+      }
+
+      if (snapshot.tags.length > 0) {
+        // Tag links are never edited in place, so only the missing ones need inserting
+        const { error } = await supabase
+          .from('transaction_tags')
+          .upsert(snapshot.tags, { ignoreDuplicates: true });
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions', user?.id] });
+      toast({
+        title: "Changes undone",
+        description: "Your transactions have been restored.",
+      });
+    },
+    onError: (error: DatabaseError) => {
+      console.error('Restore transactions error:', error);
+      toast({
+        title: "Error undoing changes",
+        description: error.message || "Failed to restore transactions. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   return {
-    transactions,
-    isLoading,
     addTransaction: addTransactionMutation.mutate,
+    importTransactions: importTransactionsMutation.mutate,
     updateTransaction: updateTransactionMutation.mutate,
     deleteTransaction: deleteTransactionMutation.mutate,
+    bulkUpdateTransactions: bulkUpdateTransactionsMutation.mutate,
+    bulkDeleteTransactions: bulkDeleteTransactionsMutation.mutate,
+    restoreTransactions: restoreTransactionsMutation.mutate,
     isAdding: addTransactionMutation.isPending,
+    isImporting: importTransactionsMutation.isPending,
     isUpdating: updateTransactionMutation.isPending,
     isDeleting: deleteTransactionMutation.isPending,
+    isBulkUpdating: bulkUpdateTransactionsMutation.isPending || bulkDeleteTransactionsMutation.isPending,
+  };
+};
+
+export const useTransactions = () => {
+  const { user } = useAuth();
+  const mutations = useTransactionMutations();
+
+  const { data: transactions = [], isLoading } = useQuery({
+    queryKey: ['transactions', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+      
+      // Fetching transactions for user - logging removed for security
+      
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('*, splits:transaction_splits(*), transaction_tags(tag_id)')
+        .or(ownOrSharedFilter(user.id))
+        .order('date', { ascending: false });
+      
+      if (error) {
+        console.error('Error fetching transactions');
+        throw error;
+      }
+
+      // Fetched transactions - logging removed for security
+      return data.map(withTagIds) as Transaction[];
+    },
+    enabled: !!user,
+  });
+
+  // Check a new transaction against the loaded history before it is added
+  const findDuplicates = useCallback(
+    (candidate: TransactionFingerprintInput) => findDuplicateTransactions(candidate, transactions),
+    [transactions]
+  );
+
+  return {
+    transactions,
+    isLoading,
+    ...mutations,
+    findDuplicates,
   };
 };
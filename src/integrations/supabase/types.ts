@@ -14,34 +14,209 @@ export type Database = {
   }
   public: {
     Tables: {
+      accounts: {
+        Row: {
+          created_at: string
+          currency: string | null
+          household_id: string | null
+          id: string
+          is_archived: boolean
+          name: string
+          opening_balance: number
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          currency?: string | null
+          household_id?: string | null
+          id?: string
+          is_archived?: boolean
+          name: string
+          opening_balance?: number
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string | null
+          household_id?: string | null
+          id?: string
+          is_archived?: boolean
+          name?: string
+          opening_balance?: number
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "accounts_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      budget_periods: {
+        Row: {
+          budget_id: string
+          budgeted: number
+          carried_over: number
+          created_at: string
+          id: string
+          period_end: string
+          period_start: string
+          rollover_in: number
+          spent: number
+          user_id: string
+        }
+        Insert: {
+          budget_id: string
+          budgeted: number
+          carried_over?: number
+          created_at?: string
+          id?: string
+          period_end: string
+          period_start: string
+          rollover_in?: number
+          spent?: number
+          user_id: string
+        }
+        Update: {
+          budget_id?: string
+          budgeted?: number
+          carried_over?: number
+          created_at?: string
+          id?: string
+          period_end?: string
+          period_start?: string
+          rollover_in?: number
+          spent?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budget_periods_budget_id_fkey"
+            columns: ["budget_id"]
+            isOneToOne: false
+            referencedRelation: "budgets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      budget_template_items: {
+        Row: {
+          amount: number
+          category_id: string | null
+          created_at: string
+          id: string
+          period: string
+          template_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          period?: string
+          template_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          period?: string
+          template_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budget_template_items_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budget_template_items_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "budget_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      budget_templates: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       budgets: {
         Row: {
           amount: number
           category_id: string | null
+          cover_from_budget_id: string | null
           created_at: string | null
           end_date: string | null
+          household_id: string | null
           id: string
           period: string
+          rollover: boolean
           start_date: string
           user_id: string | null
         }
         Insert: {
           amount: number
           category_id?: string | null
+          cover_from_budget_id?: string | null
           created_at?: string | null
           end_date?: string | null
+          household_id?: string | null
           id?: string
           period: string
+          rollover?: boolean
           start_date: string
           user_id?: string | null
         }
         Update: {
           amount?: number
           category_id?: string | null
+          cover_from_budget_id?: string | null
           created_at?: string | null
           end_date?: string | null
+          household_id?: string | null
           id?: string
           period?: string
+          rollover?: boolean
           start_date?: string
           user_id?: string | null
         }
@@ -53,6 +228,20 @@ export type Database = {
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "budgets_cover_from_budget_id_fkey"
+            columns: ["cover_from_budget_id"]
+            isOneToOne: false
+            referencedRelation: "budgets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budgets_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
         ]
       }
       categories: {
@@ -60,6 +249,7 @@ export type Database = {
           color: string
           created_at: string | null
           description: string | null
+          household_id: string | null
           icon: string
           id: string
           is_default: boolean | null
@@ -71,6 +261,7 @@ export type Database = {
           color: string
           created_at?: string | null
           description?: string | null
+          household_id?: string | null
           icon: string
           id?: string
           is_default?: boolean | null
@@ -82,6 +273,7 @@ export type Database = {
           color?: string
           created_at?: string | null
           description?: string | null
+          household_id?: string | null
           icon?: string
           id?: string
           is_default?: boolean | null
@@ -89,7 +281,87 @@ export type Database = {
           type?: string
           user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "categories_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      category_rules: {
+        Row: {
+          category_id: string | null
+          created_at: string
+          hit_count: number
+          id: string
+          is_active: boolean
+          last_matched_at: string | null
+          match_type: string
+          max_amount: number | null
+          min_amount: number | null
+          name: string
+          pattern: string
+          priority: number
+          savings_goal_id: string | null
+          transaction_type: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string
+          hit_count?: number
+          id?: string
+          is_active?: boolean
+          last_matched_at?: string | null
+          match_type?: string
+          max_amount?: number | null
+          min_amount?: number | null
+          name: string
+          pattern: string
+          priority?: number
+          savings_goal_id?: string | null
+          transaction_type?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string
+          hit_count?: number
+          id?: string
+          is_active?: boolean
+          last_matched_at?: string | null
+          match_type?: string
+          max_amount?: number | null
+          min_amount?: number | null
+          name?: string
+          pattern?: string
+          priority?: number
+          savings_goal_id?: string | null
+          transaction_type?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_rules_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "category_rules_savings_goal_id_fkey"
+            columns: ["savings_goal_id"]
+            isOneToOne: false
+            referencedRelation: "savings_goals"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       countries: {
         Row: {
@@ -171,6 +443,140 @@ export type Database = {
           },
         ]
       }
+      debts: {
+        Row: {
+          apr: number
+          balance: number
+          balance_as_of: string
+          created_at: string
+          debt_type: string
+          due_day: number
+          id: string
+          is_archived: boolean
+          minimum_payment: number
+          name: string
+          priority: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          apr?: number
+          balance: number
+          balance_as_of?: string
+          created_at?: string
+          debt_type?: string
+          due_day?: number
+          id?: string
+          is_archived?: boolean
+          minimum_payment?: number
+          name: string
+          priority?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          apr?: number
+          balance?: number
+          balance_as_of?: string
+          created_at?: string
+          debt_type?: string
+          due_day?: number
+          id?: string
+          is_archived?: boolean
+          minimum_payment?: number
+          name?: string
+          priority?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      envelope_assignments: {
+        Row: {
+          amount: number
+          budget_id: string
+          created_at: string
+          id: string
+          month: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount?: number
+          budget_id: string
+          created_at?: string
+          id?: string
+          month: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          budget_id?: string
+          created_at?: string
+          id?: string
+          month?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "envelope_assignments_budget_id_fkey"
+            columns: ["budget_id"]
+            isOneToOne: false
+            referencedRelation: "budgets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      envelope_transfers: {
+        Row: {
+          amount: number
+          created_at: string
+          from_budget_id: string
+          id: string
+          month: string
+          note: string | null
+          to_budget_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          from_budget_id: string
+          id?: string
+          month: string
+          note?: string | null
+          to_budget_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          from_budget_id?: string
+          id?: string
+          month?: string
+          note?: string | null
+          to_budget_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "envelope_transfers_from_budget_id_fkey"
+            columns: ["from_budget_id"]
+            isOneToOne: false
+            referencedRelation: "budgets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "envelope_transfers_to_budget_id_fkey"
+            columns: ["to_budget_id"]
+            isOneToOne: false
+            referencedRelation: "budgets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       financial_insights: {
         Row: {
           content: string
@@ -219,6 +625,391 @@ export type Database = {
         }
         Relationships: []
       }
+      goal_contribution_plans: {
+        Row: {
+          account_id: string | null
+          amount: number
+          auto_contribute: boolean
+          created_at: string
+          id: string
+          is_active: boolean
+          method: string
+          savings_goal_id: string
+          starts_on: string
+          updated_at: string
+          user_id: string
+          window_days: number
+        }
+        Insert: {
+          account_id?: string | null
+          amount: number
+          auto_contribute?: boolean
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          method: string
+          savings_goal_id: string
+          starts_on?: string
+          updated_at?: string
+          user_id: string
+          window_days?: number
+        }
+        Update: {
+          account_id?: string | null
+          amount?: number
+          auto_contribute?: boolean
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          method?: string
+          savings_goal_id?: string
+          starts_on?: string
+          updated_at?: string
+          user_id?: string
+          window_days?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_contribution_plans_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_contribution_plans_savings_goal_id_fkey"
+            columns: ["savings_goal_id"]
+            isOneToOne: false
+            referencedRelation: "savings_goals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goal_contributions: {
+        Row: {
+          created_at: string
+          id: string
+          payday: string
+          plan_id: string
+          planned_amount: number
+          savings_goal_id: string
+          status: string
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          payday: string
+          plan_id: string
+          planned_amount: number
+          savings_goal_id: string
+          status: string
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          payday?: string
+          plan_id?: string
+          planned_amount?: number
+          savings_goal_id?: string
+          status?: string
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_contributions_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "goal_contribution_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_contributions_savings_goal_id_fkey"
+            columns: ["savings_goal_id"]
+            isOneToOne: false
+            referencedRelation: "savings_goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_contributions_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      household_invitations: {
+        Row: {
+          created_at: string
+          email: string
+          household_id: string
+          id: string
+          invited_by: string
+          responded_at: string | null
+          role: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          household_id: string
+          id?: string
+          invited_by: string
+          responded_at?: string | null
+          role?: string
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          household_id?: string
+          id?: string
+          invited_by?: string
+          responded_at?: string | null
+          role?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "household_invitations_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      household_members: {
+        Row: {
+          created_at: string
+          household_id: string
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          household_id: string
+          id?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          household_id?: string
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "household_members_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      households: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      insight_templates: {
+        Row: {
+          conditions: Json
+          content_template: string
+          created_at: string
+          id: string
+          insight_type: string
+          is_enabled: boolean
+          name: string
+          priority: string
+          title_template: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          conditions?: Json
+          content_template: string
+          created_at?: string
+          id?: string
+          insight_type: string
+          is_enabled?: boolean
+          name: string
+          priority?: string
+          title_template: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          conditions?: Json
+          content_template?: string
+          created_at?: string
+          id?: string
+          insight_type?: string
+          is_enabled?: boolean
+          name?: string
+          priority?: string
+          title_template?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      net_worth_items: {
+        Row: {
+          category: string
+          created_at: string
+          id: string
+          is_archived: boolean
+          kind: string
+          name: string
+          notes: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          id?: string
+          is_archived?: boolean
+          kind: string
+          name: string
+          notes?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          id?: string
+          is_archived?: boolean
+          kind?: string
+          name?: string
+          notes?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      net_worth_snapshots: {
+        Row: {
+          assets: number
+          created_at: string
+          id: string
+          liabilities: number
+          month: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          assets?: number
+          created_at?: string
+          id?: string
+          liabilities?: number
+          month: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          assets?: number
+          created_at?: string
+          id?: string
+          liabilities?: number
+          month?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      net_worth_valuations: {
+        Row: {
+          created_at: string
+          id: string
+          item_id: string
+          user_id: string
+          valued_on: string
+          value: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          item_id: string
+          user_id: string
+          valued_on: string
+          value: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          item_id?: string
+          user_id?: string
+          valued_on?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "net_worth_valuations_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "net_worth_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payees: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       ph_tax_brackets: {
         Row: {
           base_tax: number
@@ -261,11 +1052,16 @@ export type Database = {
       profiles: {
         Row: {
           avatar_url: string | null
+          budgeting_mode: string
           country: string
           created_at: string | null
           currency: string
+          debt_extra_payment: number
+          debt_strategy: string
           email: string | null
           full_name: string | null
+          goal_waterfall_method: string
+          goal_waterfall_minimum: number
           id: string
           locale: string
           timezone: string
@@ -273,11 +1069,16 @@ export type Database = {
         }
         Insert: {
           avatar_url?: string | null
+          budgeting_mode?: string
           country?: string
           created_at?: string | null
           currency?: string
+          debt_extra_payment?: number
+          debt_strategy?: string
           email?: string | null
           full_name?: string | null
+          goal_waterfall_method?: string
+          goal_waterfall_minimum?: number
           id: string
           locale?: string
           timezone?: string
@@ -285,11 +1086,16 @@ export type Database = {
         }
         Update: {
           avatar_url?: string | null
+          budgeting_mode?: string
           country?: string
           created_at?: string | null
           currency?: string
+          debt_extra_payment?: number
+          debt_strategy?: string
           email?: string | null
           full_name?: string | null
+          goal_waterfall_method?: string
+          goal_waterfall_minimum?: number
           id?: string
           locale?: string
           timezone?: string
@@ -297,14 +1103,160 @@ export type Database = {
         }
         Relationships: []
       }
+      recurring_transaction_occurrences: {
+        Row: {
+          created_at: string
+          id: string
+          occurrence_date: string
+          recurring_transaction_id: string
+          status: string
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          occurrence_date: string
+          recurring_transaction_id: string
+          status: string
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          occurrence_date?: string
+          recurring_transaction_id?: string
+          status?: string
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_transaction_occurrences_recurring_transaction_id_fkey"
+            columns: ["recurring_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_transaction_occurrences_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_transactions: {
+        Row: {
+          account_id: string
+          amount: number
+          auto_post: boolean
+          category_id: string | null
+          created_at: string
+          day_of_month_1: number | null
+          day_of_month_2: number | null
+          description: string
+          end_date: string | null
+          frequency: string
+          id: string
+          is_active: boolean
+          last_generated_date: string | null
+          savings_goal_id: string | null
+          start_date: string
+          transfer_account_id: string | null
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          auto_post?: boolean
+          category_id?: string | null
+          created_at?: string
+          day_of_month_1?: number | null
+          day_of_month_2?: number | null
+          description: string
+          end_date?: string | null
+          frequency: string
+          id?: string
+          is_active?: boolean
+          last_generated_date?: string | null
+          savings_goal_id?: string | null
+          start_date: string
+          transfer_account_id?: string | null
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          auto_post?: boolean
+          category_id?: string | null
+          created_at?: string
+          day_of_month_1?: number | null
+          day_of_month_2?: number | null
+          description?: string
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          is_active?: boolean
+          last_generated_date?: string | null
+          savings_goal_id?: string | null
+          start_date?: string
+          transfer_account_id?: string | null
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_transactions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_transactions_savings_goal_id_fkey"
+            columns: ["savings_goal_id"]
+            isOneToOne: false
+            referencedRelation: "savings_goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_transactions_transfer_account_id_fkey"
+            columns: ["transfer_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       savings_goals: {
         Row: {
+          compounding_frequency: string
           created_at: string
           currency: string | null
           current_amount: number | null
           description: string | null
+          household_id: string | null
           id: string
+          interest_account_id: string | null
+          interest_posted_through: string | null
+          interest_rate: number | null
           name: string
+          priority: number | null
           salary_date_1: number | null
           salary_date_2: number | null
           savings_percentage_threshold: number | null
@@ -314,12 +1266,18 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          compounding_frequency?: string
           created_at?: string
           currency?: string | null
           current_amount?: number | null
           description?: string | null
+          household_id?: string | null
           id?: string
+          interest_account_id?: string | null
+          interest_posted_through?: string | null
+          interest_rate?: number | null
           name: string
+          priority?: number | null
           salary_date_1?: number | null
           salary_date_2?: number | null
           savings_percentage_threshold?: number | null
@@ -329,12 +1287,18 @@ export type Database = {
           user_id: string
         }
         Update: {
+          compounding_frequency?: string
           created_at?: string
           currency?: string | null
           current_amount?: number | null
           description?: string | null
+          household_id?: string | null
           id?: string
+          interest_account_id?: string | null
+          interest_posted_through?: string | null
+          interest_rate?: number | null
           name?: string
+          priority?: number | null
           salary_date_1?: number | null
           salary_date_2?: number | null
           savings_percentage_threshold?: number | null
@@ -343,7 +1307,22 @@ export type Database = {
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "savings_goals_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "savings_goals_interest_account_id_fkey"
+            columns: ["interest_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       supported_currencies: {
         Row: {
@@ -372,6 +1351,30 @@ export type Database = {
         }
         Relationships: []
       }
+      tags: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       tax_calculations: {
         Row: {
           calculation_breakdown: Json | null
@@ -456,47 +1459,204 @@ export type Database = {
           },
         ]
       }
+      transaction_history: {
+        Row: {
+          action: string
+          after: Json | null
+          before: Json | null
+          changed_at: string
+          id: string
+          source: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          action: string
+          after?: Json | null
+          before?: Json | null
+          changed_at?: string
+          id?: string
+          source: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          action?: string
+          after?: Json | null
+          before?: Json | null
+          changed_at?: string
+          id?: string
+          source?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      transaction_splits: {
+        Row: {
+          amount: number
+          category_id: string | null
+          created_at: string
+          description: string | null
+          id: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_splits_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_splits_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_tags: {
+        Row: {
+          created_at: string
+          tag_id: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          tag_id: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          tag_id?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_tags_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transactions: {
         Row: {
+          account_id: string
           amount: number
           category_id: string | null
+          change_source: string | null
           created_at: string | null
+          currency: string | null
           date: string
+          debt_id: string | null
           description: string
+          external_id: string | null
+          goal_interest: boolean
+          goal_withdrawal: boolean
+          household_id: string | null
           id: string
+          payee_id: string | null
           receipt_name: string | null
           receipt_url: string | null
+          recurring_transaction_id: string | null
+          savings_goal_id: string | null
+          transfer_account_id: string | null
           type: string
           updated_at: string | null
           user_id: string | null
         }
         Insert: {
+          account_id: string
           amount: number
           category_id?: string | null
+          change_source?: string | null
           created_at?: string | null
+          currency?: string | null
           date: string
+          debt_id?: string | null
           description: string
+          external_id?: string | null
+          goal_interest?: boolean
+          goal_withdrawal?: boolean
+          household_id?: string | null
           id?: string
+          payee_id?: string | null
           receipt_name?: string | null
           receipt_url?: string | null
+          recurring_transaction_id?: string | null
+          savings_goal_id?: string | null
+          transfer_account_id?: string | null
           type: string
           updated_at?: string | null
           user_id?: string | null
         }
         Update: {
+          account_id?: string
           amount?: number
           category_id?: string | null
+          change_source?: string | null
           created_at?: string | null
+          currency?: string | null
           date?: string
+          debt_id?: string | null
           description?: string
+          external_id?: string | null
+          goal_interest?: boolean
+          goal_withdrawal?: boolean
+          household_id?: string | null
           id?: string
+          payee_id?: string | null
           receipt_name?: string | null
           receipt_url?: string | null
+          recurring_transaction_id?: string | null
+          savings_goal_id?: string | null
+          transfer_account_id?: string | null
           type?: string
           updated_at?: string | null
           user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "transactions_category_id_fkey"
             columns: ["category_id"]
@@ -504,11 +1664,54 @@ export type Database = {
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_debt_id_fkey"
+            columns: ["debt_id"]
+            isOneToOne: false
+            referencedRelation: "debts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_payee_id_fkey"
+            columns: ["payee_id"]
+            isOneToOne: false
+            referencedRelation: "payees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_recurring_transaction_id_fkey"
+            columns: ["recurring_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_savings_goal_id_fkey"
+            columns: ["savings_goal_id"]
+            isOneToOne: false
+            referencedRelation: "savings_goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_transfer_account_id_fkey"
+            columns: ["transfer_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_insight_preferences: {
         Row: {
           created_at: string
+          disabled_template_ids: string[]
           enabled_insight_types: Json
           id: string
           insight_frequency: string
@@ -521,6 +1724,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          disabled_template_ids?: string[]
           enabled_insight_types?: Json
           id?: string
           insight_frequency?: string
@@ -533,6 +1737,7 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          disabled_template_ids?: string[]
           enabled_insight_types?: Json
           id?: string
           insight_frequency?: string
@@ -600,6 +1805,14 @@ export type Database = {
       }
     }
     Functions: {
+      accept_household_invitation: {
+        Args: { p_invitation_id: string }
+        Returns: string
+      }
+      apply_budgets: {
+        Args: { p_items: Json; p_start_date: string }
+        Returns: number
+      }
       calculate_next_generation_due: {
         Args: {
           frequency: string
@@ -618,6 +1831,16 @@ export type Database = {
         }
         Returns: boolean
       }
+      contribute_to_goal: {
+        Args: {
+          p_account_id: string | null
+          p_amount: number
+          p_date: string
+          p_payday: string
+          p_plan_id: string
+        }
+        Returns: string
+      }
       convert_currency: {
         Args: {
           amount: number
@@ -627,12 +1850,72 @@ export type Database = {
         }
         Returns: number
       }
+      create_household: { Args: { p_name: string }; Returns: string }
+      delete_transactions: {
+        Args: { p_ids: string[]; p_source?: string }
+        Returns: number
+      }
       get_exchange_rate: {
         Args: { from_curr: string; rate_date?: string; to_curr: string }
         Returns: number
       }
       get_test_user_id: { Args: never; Returns: string }
+      household_role: { Args: { p_household_id: string }; Returns: string }
+      nearest_payday: {
+        Args: {
+          p_date: string
+          p_salary_date_1: number
+          p_salary_date_2: number
+          p_window: number
+        }
+        Returns: string
+      }
+      record_category_rule_hits: {
+        Args: { p_hits: Json }
+        Returns: undefined
+      }
+      replace_transaction_splits: {
+        Args: { p_splits: Json; p_transaction_id: string }
+        Returns: {
+          amount: number
+          category_id: string | null
+          created_at: string
+          description: string | null
+          id: string
+          transaction_id: string
+          user_id: string
+        }[]
+      }
+      restore_deleted_transaction: {
+        Args: { p_history_id: string }
+        Returns: string
+      }
+      set_account_household: {
+        Args: { p_account_id: string; p_household_id: string | null }
+        Returns: undefined
+      }
+      set_debt_priorities: {
+        Args: { p_debt_ids: string[] }
+        Returns: undefined
+      }
+      set_goal_priorities: {
+        Args: { p_goal_ids: string[] }
+        Returns: undefined
+      }
+      set_household_member_role: {
+        Args: { p_member_id: string; p_role: string }
+        Returns: undefined
+      }
+      set_transaction_tags: {
+        Args: { p_tag_ids: string[]; p_transaction_id: string }
+        Returns: undefined
+      }
+      save_budget_template: {
+        Args: { p_description: string; p_items: Json; p_name: string }
+        Returns: string
+      }
       seed_user_categories: { Args: { user_id: string }; Returns: undefined }
+      shares_household_with: { Args: { p_user_id: string }; Returns: boolean }
     }
     Enums: {
       [_ in never]: never
@@ -105,6 +105,15 @@ export const transactionFormSchema = z.object({
   receipt: fileSchema.optional(),
 });
 
+/**
+ * Statement import row validation schema (transaction form rules, category by id)
+ */
+export const transactionImportRowSchema = transactionFormSchema
+  .omit({ category: true, receipt: true })
+  .extend({
+    category_id: z.string().min(1, 'Category is required'),
+  });
+
 /**
  * Budget form validation schema
  */
@@ -163,6 +172,7 @@ export const validationSchemas = {
   category: categorySchema,
   file: fileSchema,
   transactionForm: transactionFormSchema,
+  transactionImportRow: transactionImportRowSchema,
   budgetForm: budgetFormSchema,
   savingsGoalForm: savingsGoalFormSchema,
   profileForm: profileFormSchema,
@@ -0,0 +1,107 @@
+/**
+ * Goal Interest Poster Service
+ * Posts interest earned by interest-bearing savings goals as income that stays in the goal,
+ * recorded against the account that holds it
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { SavingsGoal, Transaction } from '@/types';
+import { getDueInterest } from '@/utils/goalInterest';
+import { todayIsoDate } from '@/utils/recurrence';
+
+export interface InterestPostingResult {
+  success: boolean;
+  transactionsCreated: number;
+  errors: string[];
+}
+
+// Postgres unique violation: another tab already posted interest for that day
+const UNIQUE_VIOLATION = '23505';
+
+const postForGoal = async (goal: SavingsGoal, transactions: Transaction[], today: string): Promise<number> => {
+  const { postings, postedThrough } = getDueInterest(goal, transactions, today);
+  if (!postedThrough || postedThrough === goal.interest_posted_through) return 0;
+
+  if (postings.length > 0) {
+    if (!goal.interest_account_id) {
+      throw new Error('choose the account that holds this goal to receive its interest');
+    }
+
+    const { error: insertError } = await supabase
+      .from('transactions')
+      .insert(postings.map(posting => ({
+        user_id: goal.user_id,
+        amount: posting.amount,
+        type: 'income',
+        category_id: null,
+        account_id: goal.interest_account_id!,
+        savings_goal_id: goal.id,
+        goal_interest: true,
+        description: `Interest: ${goal.name}`,
+        date: posting.date,
+      })));
+
+    if (insertError && insertError.code !== UNIQUE_VIOLATION) throw insertError;
+    if (insertError) return 0;
+  }
+
+  const { error: updateError } = await supabase
+    .from('savings_goals')
+    .update({ interest_posted_through: postedThrough, updated_at: new Date().toISOString() })
+    .eq('id', goal.id);
+
+  if (updateError) throw updateError;
+
+  return postings.length;
+};
+
+/**
+ * Posts interest for every completed period of the user's interest-bearing goals up to and including today
+ */
+export const postDueGoalInterest = async (
+  userId: string,
+  today: string = todayIsoDate()
+): Promise<InterestPostingResult> => {
+  const result: InterestPostingResult = {
+    success: false,
+    transactionsCreated: 0,
+    errors: []
+  };
+
+  const { data: goals, error: fetchError } = await supabase
+    .from('savings_goals')
+    .select('*')
+    .eq('user_id', userId)
+    .gt('interest_rate', 0);
+
+  if (fetchError) {
+    result.errors.push(`Failed to fetch interest-bearing goals: ${fetchError.message}`);
+    return result;
+  }
+  if (!goals || goals.length === 0) {
+    result.success = true;
+    return result;
+  }
+
+  const { data: transactions, error: transactionsError } = await supabase
+    .from('transactions')
+    .select('*')
+    .in('savings_goal_id', goals.map(goal => goal.id));
+
+  if (transactionsError) {
+    result.errors.push(`Failed to fetch goal transactions: ${transactionsError.message}`);
+    return result;
+  }
+
+  for (const goal of goals as SavingsGoal[]) {
+    try {
+      result.transactionsCreated += await postForGoal(goal, (transactions || []) as Transaction[], today);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : (error as { message?: string }).message;
+      result.errors.push(`Failed to post interest for "${goal.name}": ${message || 'Unknown error'}`);
+    }
+  }
+
+  result.success = result.errors.length === 0;
+  return result;
+};
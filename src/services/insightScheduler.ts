@@ -6,10 +6,19 @@ import {
   InsightGenerationResult,
   InsightGenerationContext,
   CreateInsightInput,
+  InsightTemplate,
   InsightType,
 } from '@/types/insights';
-import type { Transaction, Category, Budget, SavingsGoal } from '@/types';
+import type { Transaction, Category, Budget, BudgetPeriod, RecurringTransaction, SavingsGoal, Debt, DebtStrategy } from '@/types';
 import { createInsightWithDeduplication } from '@/utils/insightDeduplication';
+import { getBudgetUtilization } from '@/utils/budgetPeriods';
+import { forecastSpending, getProjectedOverspend } from '@/utils/budgetForecast';
+import { getGoalMilestones, getGoalPace, isGoalOffTrack } from '@/utils/goalHistory';
+import { getMonthlySavingsNeeded } from '@/utils/goalWaterfall';
+import { addDaysToIsoDate, todayIsoDate } from '@/utils/recurrence';
+import { getDebtBalance, getNextDueDate, simulatePayoff, sortDebtsByStrategy, DEBT_STRATEGY_LABELS } from '@/utils/debts';
+import { addMonthsToMonth, getMonthEnd, getMonthStart } from '@/utils/envelopes';
+import { evaluateInsightTemplates, fromInsightTemplateRow, getActiveTemplates } from '@/utils/insightTemplates';
 
 // Scheduler class for managing insight generation
 export class InsightScheduler {
@@ -242,11 +251,26 @@ export class InsightScheduler {
     preferences: UserInsightPreferences
   ): Promise<InsightGenerationContext> {
     // Fetch user's financial data
-    const [transactions, categories, budgets, savingsGoals] = await Promise.all([
+    const [
+      transactions,
+      categories,
+      budgets,
+      savingsGoals,
+      budgetPeriods,
+      recurringTransactions,
+      debts,
+      debtPlan,
+      insightTemplates
+    ] = await Promise.all([
       this.getUserTransactions(userId),
       this.getUserCategories(userId),
       this.getUserBudgets(userId),
-      this.getUserSavingsGoals(userId)
+      this.getUserSavingsGoals(userId),
+      this.getUserBudgetPeriods(userId),
+      this.getUserRecurringTransactions(userId),
+      this.getUserDebts(userId),
+      this.getUserDebtPlan(userId),
+      this.getUserInsightTemplates(userId)
     ]);
 
     return {
@@ -255,7 +279,12 @@ export class InsightScheduler {
       transactions,
       categories,
       budgets,
-      savings_goals: savingsGoals
+      savings_goals: savingsGoals,
+      budget_periods: budgetPeriods,
+      recurring_transactions: recurringTransactions,
+      debts,
+      debt_plan: debtPlan,
+      insight_templates: insightTemplates
     };
   }
 
@@ -321,178 +350,223 @@ export class InsightScheduler {
     return data || [];
   }
 
-  // Generate insights by type
+  // Fetch recorded budget periods
+  private async getUserBudgetPeriods(userId: string): Promise<BudgetPeriod[]> {
+    const { data, error } = await supabase
+      .from('budget_periods')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching budget periods:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  // Fetch recurring transaction templates
+  private async getUserRecurringTransactions(userId: string): Promise<RecurringTransaction[]> {
+    const { data, error } = await supabase
+      .from('recurring_transactions')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_active', true);
+
+    if (error) {
+      console.error('Error fetching recurring transactions:', error);
+      return [];
+    }
+
+    return (data || []) as RecurringTransaction[];
+  }
+
+  // Fetch debts still being paid down
+  private async getUserDebts(userId: string): Promise<Debt[]> {
+    const { data, error } = await supabase
+      .from('debts')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_archived', false);
+
+    if (error) {
+      console.error('Error fetching debts:', error);
+      return [];
+    }
+
+    return (data || []) as Debt[];
+  }
+
+  // Fetch the payoff strategy and extra payment from the profile
+  private async getUserDebtPlan(userId: string): Promise<InsightGenerationContext['debt_plan']> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('debt_strategy, debt_extra_payment')
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching debt plan:', error);
+      return undefined;
+    }
+
+    return { strategy: data.debt_strategy as DebtStrategy, extra_payment: Number(data.debt_extra_payment) };
+  }
+
+  // Fetch the user's own insight templates
+  private async getUserInsightTemplates(userId: string): Promise<InsightTemplate[]> {
+    const { data, error } = await supabase
+      .from('insight_templates')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching insight templates:', error);
+      return [];
+    }
+
+    return (data || []).map(fromInsightTemplateRow);
+  }
+
+  // Generate insights by type: whatever the active templates produce, plus the insights
+  // that need more than a template can express
   private async generateInsightsByType(
     type: InsightType, 
     context: InsightGenerationContext
   ): Promise<CreateInsightInput[]> {
+    const today = todayIsoDate();
+    const templates = getActiveTemplates(
+      context.insight_templates || [],
+      context.preferences.disabled_template_ids || []
+    );
+    const insights = evaluateInsightTemplates(templates, type, context, today);
+
     switch (type) {
-      case 'daily':
-        return this.generateDailyInsights(context);
-      case 'weekly':
-        return this.generateWeeklyInsights(context);
-      case 'monthly':
-        return this.generateMonthlyInsights(context);
+      case 'monthly': {
+        const debtFree = this.generateDebtFreeInsight(context);
+        if (debtFree) insights.push(debtFree);
+        return insights;
+      }
       case 'threshold_alert':
-        return this.generateThresholdAlerts(context);
+        return [...insights, ...this.generateThresholdAlerts(context)];
       default:
-        return [];
+        return insights;
     }
   }
 
-  // Generate daily insights
-  private async generateDailyInsights(context: InsightGenerationContext): Promise<CreateInsightInput[]> {
-    const insights: CreateInsightInput[] = [];
-    const today = new Date();
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
-
-    // Get today's and yesterday's transactions
-    const todayTransactions = context.transactions.filter(t => 
-      new Date(t.date).toDateString() === today.toDateString()
-    );
-    
-    const yesterdayTransactions = context.transactions.filter(t => 
-      new Date(t.date).toDateString() === yesterday.toDateString()
-    );
-
-    // Daily spending summary
-    const todaySpending = todayTransactions
-      .filter(t => t.type === 'expense')
-      .reduce((sum, t) => sum + t.amount, 0);
+  // When the user will be debt-free if they stick to their payoff plan
+  private generateDebtFreeInsight(context: InsightGenerationContext): CreateInsightInput | null {
+    const today = todayIsoDate();
+    const debts = (context.debts || [])
+      .map(debt => ({ ...debt, balance: getDebtBalance(debt, context.transactions) }))
+      .filter(debt => debt.balance > 0);
+    if (debts.length === 0) return null;
 
-    const yesterdaySpending = yesterdayTransactions
-      .filter(t => t.type === 'expense')
-      .reduce((sum, t) => sum + t.amount, 0);
+    const strategy = context.debt_plan?.strategy || 'avalanche';
+    const month = getMonthStart(today);
+    const plan = simulatePayoff(sortDebtsByStrategy(debts, strategy), context.debt_plan?.extra_payment || 0, month);
+    const owed = debts.reduce((sum, debt) => sum + debt.balance, 0);
 
-    if (todayTransactions.length > 0) {
-      const change = yesterdaySpending > 0 ? 
-        ((todaySpending - yesterdaySpending) / yesterdaySpending) * 100 : 0;
-
-      insights.push({
-        insight_type: 'daily',
-        title: 'Daily Spending Update',
-        content: `Today you spent $${todaySpending.toFixed(2)} across ${todayTransactions.length} transactions. ${
-          change > 0 ? 
-            `This is ${change.toFixed(1)}% more than yesterday.` :
-            change < 0 ?
-              `This is ${Math.abs(change).toFixed(1)}% less than yesterday.` :
-              'This is about the same as yesterday.'
-        }`,
-        priority: todaySpending > yesterdaySpending * 1.5 ? 'high' : 'medium',
-        period_start: today.toISOString().split('T')[0],
-        period_end: today.toISOString().split('T')[0],
+    if (!plan.debtFreeMonth) {
+      return {
+        insight_type: 'monthly',
+        title: 'Debts Not Shrinking',
+        content: `Your payments don't cover the interest on the $${owed.toFixed(2)} you owe, so at this rate the debt is never paid off. Paying a little extra each month would turn it around.`,
+        priority: 'high',
+        period_start: month,
+        period_end: getMonthEnd(month),
         generation_trigger: 'scheduled'
-      });
+      };
     }
 
-    return insights;
+    const debtFree = new Date(`${plan.debtFreeMonth}T00:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    return {
+      insight_type: 'monthly',
+      title: `Debt-Free by ${debtFree}`,
+      content: `Following the ${DEBT_STRATEGY_LABELS[strategy].toLowerCase()} plan, you'll pay off the $${owed.toFixed(2)} you owe by ${debtFree}, paying $${plan.totalInterest.toFixed(2)} in interest along the way.`,
+      priority: plan.debtFreeMonth > addMonthsToMonth(month, 60) ? 'medium' : 'low',
+      period_start: month,
+      period_end: getMonthEnd(month),
+      generation_trigger: 'scheduled'
+    };
   }
 
-  // Generate weekly insights
-  private async generateWeeklyInsights(context: InsightGenerationContext): Promise<CreateInsightInput[]> {
-    const insights: CreateInsightInput[] = [];
-    const now = new Date();
-    const weekStart = new Date(now);
-    weekStart.setDate(now.getDate() - now.getDay()); // Start of current week
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekStart.getDate() + 6); // End of current week
-
-    // Get this week's transactions
-    const weekTransactions = context.transactions.filter(t => {
-      const transactionDate = new Date(t.date);
-      return transactionDate >= weekStart && transactionDate <= weekEnd;
-    });
-
-    if (weekTransactions.length > 0) {
-      const weeklySpending = weekTransactions
-        .filter(t => t.type === 'expense')
-        .reduce((sum, t) => sum + t.amount, 0);
-
-      const weeklyIncome = weekTransactions
-        .filter(t => t.type === 'income')
-        .reduce((sum, t) => sum + t.amount, 0);
-
-      insights.push({
-        insight_type: 'weekly',
-        title: 'Weekly Financial Summary',
-        content: `This week you spent $${weeklySpending.toFixed(2)} and earned $${weeklyIncome.toFixed(2)}. Your net change is $${(weeklyIncome - weeklySpending).toFixed(2)}.`,
-        priority: 'medium',
-        period_start: weekStart.toISOString().split('T')[0],
-        period_end: weekEnd.toISOString().split('T')[0],
-        generation_trigger: 'scheduled'
-      });
-    }
-
-    return insights;
+  // Alerts beyond the budget thresholds the templates cover
+  private generateThresholdAlerts(context: InsightGenerationContext): CreateInsightInput[] {
+    return [
+      ...this.generateProjectedOverspendAlerts(context),
+      ...this.generateSavingsGoalAlerts(context),
+      ...this.generateDebtAlerts(context)
+    ];
   }
 
-  // Generate monthly insights
-  private async generateMonthlyInsights(context: InsightGenerationContext): Promise<CreateInsightInput[]> {
+  // Warn about budgets heading over their limit before the period ends
+  private generateProjectedOverspendAlerts(context: InsightGenerationContext): CreateInsightInput[] {
     const insights: CreateInsightInput[] = [];
-    const now = new Date();
-    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-    const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+    const today = todayIsoDate();
 
-    // Get this month's transactions
-    const monthTransactions = context.transactions.filter(t => {
-      const transactionDate = new Date(t.date);
-      return transactionDate >= monthStart && transactionDate <= monthEnd;
-    });
-
-    if (monthTransactions.length > 0) {
-      const monthlySpending = monthTransactions
-        .filter(t => t.type === 'expense')
-        .reduce((sum, t) => sum + t.amount, 0);
+    for (const budget of context.budgets || []) {
+      const history = (context.budget_periods || []).filter(period => period.budget_id === budget.id);
+      const utilization = getBudgetUtilization(budget, context.transactions, history, today);
+      // Budgets already over their limit get a threshold alert instead
+      if (utilization.state !== 'active' || utilization.spent > utilization.available) continue;
 
-      const monthlyIncome = monthTransactions
-        .filter(t => t.type === 'income')
-        .reduce((sum, t) => sum + t.amount, 0);
+      const forecast = forecastSpending(budget, context.transactions, context.recurring_transactions || [], today);
+      const overspend = getProjectedOverspend(forecast, utilization.available);
+      if (overspend <= 0) continue;
 
-      const savingsRate = monthlyIncome > 0 ? 
-        ((monthlyIncome - monthlySpending) / monthlyIncome) * 100 : 0;
+      const categoryName = budget.category_id
+        ? context.categories.find(c => c.id === budget.category_id)?.name || 'Unknown Category'
+        : 'All Expenses';
 
       insights.push({
-        insight_type: 'monthly',
-        title: 'Monthly Financial Review',
-        content: `This month you spent $${monthlySpending.toFixed(2)} and earned $${monthlyIncome.toFixed(2)}. Your savings rate is ${savingsRate.toFixed(1)}%.`,
-        priority: savingsRate < 10 ? 'high' : 'medium',
-        period_start: monthStart.toISOString().split('T')[0],
-        period_end: monthEnd.toISOString().split('T')[0],
-        generation_trigger: 'scheduled'
+        insight_type: 'threshold_alert',
+        title: `Projected Overspend: ${categoryName}`,
+        content: `At your current pace you'll spend about $${forecast.projected.toFixed(0)} of your $${utilization.available.toFixed(2)} ${categoryName} budget by ${forecast.window.end}, going over by about $${overspend.toFixed(0)}.`,
+        priority: overspend >= utilization.available * 0.2 ? 'high' : 'medium',
+        period_start: forecast.window.start,
+        period_end: forecast.window.end,
+        generation_trigger: 'threshold'
       });
     }
 
     return insights;
   }
 
-  // Generate threshold alerts
-  private async generateThresholdAlerts(context: InsightGenerationContext): Promise<CreateInsightInput[]> {
+  // Celebrate goal milestones reached this week and flag goals falling behind
+  private generateSavingsGoalAlerts(context: InsightGenerationContext): CreateInsightInput[] {
     const insights: CreateInsightInput[] = [];
-    
-    // Check budget thresholds
-    for (const budget of context.budgets || []) {
-      const category = context.categories.find(c => c.id === budget.category_id);
-      const categoryName = category?.name || 'Unknown Category';
-      
-      // Get spending for this budget period
-      const budgetSpending = context.transactions
-        .filter(t => 
-          t.type === 'expense' && 
-          t.category_id === budget.category_id &&
-          new Date(t.date) >= new Date(budget.start_date) &&
-          (!budget.end_date || new Date(t.date) <= new Date(budget.end_date))
-        )
-        .reduce((sum, t) => sum + t.amount, 0);
-
-      const utilizationRate = (budgetSpending / budget.amount) * 100;
-
-      if (utilizationRate >= 90) {
+    const today = todayIsoDate();
+    const weekAgo = addDaysToIsoDate(today, -7);
+
+    for (const goal of context.savings_goals || []) {
+      const milestone = getGoalMilestones(goal, context.transactions)
+        .filter(item => item.reachedOn && item.reachedOn > weekAgo)
+        .pop();
+
+      if (milestone) {
+        insights.push({
+          insight_type: 'threshold_alert',
+          title: milestone.percent === 100 ? `Goal Reached: ${goal.name}` : `Milestone: ${goal.name} is ${milestone.percent}% funded`,
+          content: milestone.percent === 100
+            ? `You've saved the full $${Number(goal.target_amount).toFixed(2)} for ${goal.name}.`
+            : `${goal.name} passed $${milestone.amount.toFixed(2)}, ${milestone.percent}% of its $${Number(goal.target_amount).toFixed(2)} target.`,
+          priority: milestone.percent === 100 ? 'medium' : 'low',
+          period_start: milestone.reachedOn!,
+          generation_trigger: 'threshold'
+        });
+      }
+
+      if (isGoalOffTrack(goal, context.transactions, today)) {
+        const overdue = goal.target_date <= today;
         insights.push({
           insight_type: 'threshold_alert',
-          title: `Budget Alert: ${categoryName}`,
-          content: `You've used ${utilizationRate.toFixed(1)}% of your ${categoryName} budget ($${budgetSpending.toFixed(2)} of $${budget.amount.toFixed(2)}).`,
-          priority: utilizationRate >= 100 ? 'high' : 'medium',
+          title: `Off Track: ${goal.name}`,
+          content: overdue
+            ? `${goal.name} passed its target date with $${(Number(goal.target_amount) - Number(goal.current_amount || 0)).toFixed(2)} still to save.`
+            : `${goal.name} needs about $${getMonthlySavingsNeeded(goal, today).toFixed(0)} a month to reach its target by ${goal.target_date}, but you've been putting in about $${Math.max(getGoalPace(goal.id, context.transactions, today), 0).toFixed(0)} a month.`,
+          priority: overdue ? 'high' : 'medium',
+          period_end: goal.target_date,
           generation_trigger: 'threshold'
         });
       }
@@ -501,6 +575,36 @@ export class InsightScheduler {
     return insights;
   }
 
+  // Remind about debt payments due in the next few days that haven't been made yet
+  private generateDebtAlerts(context: InsightGenerationContext): CreateInsightInput[] {
+    const insights: CreateInsightInput[] = [];
+    const today = todayIsoDate();
+
+    for (const debt of context.debts || []) {
+      const balance = getDebtBalance(debt, context.transactions);
+      if (balance <= 0) continue;
+
+      const dueDate = getNextDueDate(debt.due_day, today);
+      if (dueDate > addDaysToIsoDate(today, 3)) continue;
+
+      // A payment since the previous due date covers this one
+      const previousDue = getNextDueDate(debt.due_day, addMonthsToMonth(getMonthStart(dueDate), -1));
+      const paid = context.transactions.some(t => t.debt_id === debt.id && t.date > previousDue);
+      if (paid) continue;
+
+      insights.push({
+        insight_type: 'threshold_alert',
+        title: `Payment Due: ${debt.name}`,
+        content: `Your $${Number(debt.minimum_payment).toFixed(2)} minimum payment on ${debt.name} is due ${dueDate === today ? 'today' : `on ${dueDate}`}. You still owe $${balance.toFixed(2)}.`,
+        priority: 'high',
+        period_end: dueDate,
+        generation_trigger: 'threshold'
+      });
+    }
+
+    return insights;
+  }
+
   // Update last generation timestamp
   private async updateLastGeneration(userId: string): Promise<void> {
     try {
@@ -0,0 +1,142 @@
+/**
+ * Recurring Transaction Generator Service
+ * Materializes due occurrences of auto-posting recurring templates into transactions
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { RecurringTransaction } from '@/types';
+import { getOccurrences, getPendingStartDate, todayIsoDate } from '@/utils/recurrence';
+
+export interface RecurringGenerationResult {
+  success: boolean;
+  transactionsCreated: number;
+  errors: string[];
+}
+
+type TransactionInsert = Database['public']['Tables']['transactions']['Insert'];
+
+/**
+ * Build the transaction posted for one occurrence of a template
+ */
+export const buildOccurrenceTransaction = (
+  template: RecurringTransaction,
+  date: string,
+  overrides: Partial<Pick<TransactionInsert, 'amount' | 'description' | 'category_id' | 'date'>> = {}
+): TransactionInsert => ({
+  user_id: template.user_id,
+  amount: template.amount,
+  type: template.type,
+  category_id: template.type === 'transfer' ? null : template.category_id,
+  account_id: template.account_id,
+  transfer_account_id: template.type === 'transfer' ? template.transfer_account_id || null : null,
+  savings_goal_id: template.savings_goal_id || null,
+  description: template.description,
+  recurring_transaction_id: template.id,
+  change_source: 'recurring',
+  date,
+  ...overrides,
+});
+
+const generateForTemplate = async (template: RecurringTransaction, today: string): Promise<number> => {
+  const dates = getOccurrences(template, getPendingStartDate(template), today);
+  let posted = 0;
+
+  if (dates.length > 0) {
+    // Claim the occurrences first. Dates that were skipped, or claimed by another tab,
+    // already have a row and are left out of the result.
+    const { data: claimed, error: claimError } = await supabase
+      .from('recurring_transaction_occurrences')
+      .upsert(
+        dates.map(date => ({
+          user_id: template.user_id,
+          recurring_transaction_id: template.id,
+          occurrence_date: date,
+          status: 'posted',
+        })),
+        { onConflict: 'recurring_transaction_id,occurrence_date', ignoreDuplicates: true }
+      )
+      .select();
+
+    if (claimError) throw claimError;
+
+    if (claimed && claimed.length > 0) {
+      const { data: created, error: insertError } = await supabase
+        .from('transactions')
+        .insert(claimed.map(occurrence => buildOccurrenceTransaction(template, occurrence.occurrence_date)))
+        .select('id, date');
+
+      if (insertError) {
+        // Release the claims so the next run can retry these dates
+        await supabase
+          .from('recurring_transaction_occurrences')
+          .delete()
+          .in('id', claimed.map(occurrence => occurrence.id));
+        throw insertError;
+      }
+
+      posted = claimed.length;
+      const transactionIdByDate = new Map((created || []).map(t => [t.date, t.id]));
+      const { error: linkError } = await supabase
+        .from('recurring_transaction_occurrences')
+        .upsert(claimed.map(occurrence => ({
+          ...occurrence,
+          transaction_id: transactionIdByDate.get(occurrence.occurrence_date) || null,
+        })));
+
+      if (linkError) {
+        console.error('Failed to link recurring occurrences to transactions:', linkError);
+      }
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('recurring_transactions')
+    .update({ last_generated_date: today, updated_at: new Date().toISOString() })
+    .eq('id', template.id);
+
+  if (updateError) throw updateError;
+
+  return posted;
+};
+
+/**
+ * Posts every due occurrence of the user's active auto-posting templates up to and including today
+ */
+export const generateDueRecurringTransactions = async (
+  userId: string,
+  today: string = todayIsoDate()
+): Promise<RecurringGenerationResult> => {
+  const result: RecurringGenerationResult = {
+    success: false,
+    transactionsCreated: 0,
+    errors: []
+  };
+
+  const { data: templates, error: fetchError } = await supabase
+    .from('recurring_transactions')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .eq('auto_post', true)
+    .lte('start_date', today);
+
+  if (fetchError) {
+    result.errors.push(`Failed to fetch recurring transactions: ${fetchError.message}`);
+    return result;
+  }
+
+  for (const template of (templates || []) as RecurringTransaction[]) {
+    if (template.last_generated_date && template.last_generated_date >= today) continue;
+
+    try {
+      result.transactionsCreated += await generateForTemplate(template, today);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : (error as { message?: string }).message;
+      result.errors.push(`Failed to post "${template.description}": ${message || 'Unknown error'}`);
+    }
+  }
+
+  result.success = result.errors.length === 0;
+  return result;
+};
@@ -1,20 +1,143 @@
 
+export type TransactionType = 'income' | 'expense' | 'transfer';
+
 export interface Transaction {
   id: string;
   amount: number;
-  type: 'income' | 'expense';
+  type: TransactionType;
   category_id: string | null;
+  account_id: string; // Source account for transfers
+  transfer_account_id?: string | null; // Destination account, transfers only
   description: string;
   date: string;
   receipt_url?: string;
   receipt_name?: string;
   savings_goal_id?: string | null;
+  goal_withdrawal?: boolean; // Transfer out of the savings goal into account_id
+  goal_interest?: boolean; // Income earned by the savings goal
+  debt_id?: string | null; // Debt this expense or transfer pays down
+  recurring_transaction_id?: string | null;
   currency?: string;
+  payee_id?: string | null;
+  tag_ids?: string[];
+  external_id?: string | null; // Bank-assigned identifier (OFX FITID) of an imported transaction
+  change_source?: TransactionChangeSource | null; // Write-only; the history trigger clears it
+  splits?: TransactionSplit[]; // Per-category lines that add up to amount
+  household_id?: string | null; // Set from the account; shared with the household when present
   created_at?: string;
   updated_at?: string;
   user_id?: string;
 }
 
+// Where a change to a transaction came from, as recorded in its history
+export type TransactionChangeSource = 'form' | 'import' | 'rule' | 'bulk' | 'restore' | 'recurring';
+
+export type TransactionChangeAction = 'insert' | 'update' | 'delete';
+
+// One entry of a transaction's append-only change log
+export interface TransactionHistoryEntry {
+  id: string;
+  user_id: string;
+  transaction_id: string;
+  action: TransactionChangeAction;
+  source: TransactionChangeSource;
+  before: Record<string, unknown> | null; // Row before the change; deletes add splits and tag_ids
+  after: Record<string, unknown> | null; // Row after the change; null for deletes
+  changed_at: string;
+}
+
+export interface TransactionSplit {
+  id: string;
+  user_id?: string;
+  transaction_id: string;
+  category_id: string | null;
+  amount: number;
+  description?: string | null;
+  created_at?: string;
+}
+
+// Normalized merchant; aliases are other spellings that appear in descriptions
+export interface Payee {
+  id: string;
+  user_id: string;
+  name: string;
+  aliases: string[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface Tag {
+  id: string;
+  user_id: string;
+  name: string; // Lowercase without '#', e.g. 'vacation-2026'
+  color: string;
+  created_at?: string;
+}
+
+export type AccountType = 'cash' | 'bank' | 'e_wallet' | 'credit_card' | 'loan';
+
+export interface Account {
+  id: string;
+  user_id: string;
+  name: string;
+  type: AccountType;
+  opening_balance: number; // Negative for money owed on credit cards and loans
+  currency?: string;
+  is_archived: boolean;
+  household_id?: string | null; // Shared with this household; private when empty
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface AccountBalance {
+  account: Account;
+  balance: number;
+  income: number;
+  expenses: number;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'bi_monthly' | 'monthly' | 'yearly';
+
+// Template that the generator turns into transactions on schedule
+export interface RecurringTransaction {
+  id: string;
+  user_id: string;
+  amount: number;
+  type: TransactionType;
+  category_id: string | null;
+  account_id: string;
+  transfer_account_id?: string | null;
+  savings_goal_id?: string | null;
+  description: string;
+  frequency: RecurrenceFrequency;
+  day_of_month_1?: number | null; // Bi-monthly only, e.g. 15
+  day_of_month_2?: number | null; // Bi-monthly only, e.g. 30 (clamped to month end)
+  start_date: string;
+  end_date?: string | null;
+  auto_post: boolean; // Post due occurrences automatically instead of waiting for confirmation
+  is_active: boolean;
+  last_generated_date?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// A single occurrence that has been posted or skipped
+export interface RecurringOccurrence {
+  id: string;
+  user_id: string;
+  recurring_transaction_id: string;
+  occurrence_date: string;
+  status: 'posted' | 'skipped';
+  transaction_id?: string | null;
+  created_at?: string;
+}
+
+export interface UpcomingOccurrence {
+  recurringTransaction: RecurringTransaction;
+  date: string;
+  isDue: boolean; // On or before today and still waiting to be confirmed or skipped
+}
+
 export interface Category {
   id: string;
   name: string;
@@ -24,19 +147,144 @@ export interface Category {
   description?: string;
   is_default?: boolean;
   user_id?: string;
+  household_id?: string | null; // Shared with this household, usually along with a shared budget
+  created_at?: string;
+}
+
+export type CategoryRuleMatchType = 'contains' | 'regex';
+
+// User-defined rule that fills in the category (or savings goal, for transfers) of matching transactions
+export interface CategoryRule {
+  id: string;
+  user_id: string;
+  name: string;
+  match_type: CategoryRuleMatchType;
+  pattern: string; // Matched against the description, case-insensitively
+  min_amount?: number | null;
+  max_amount?: number | null;
+  transaction_type?: TransactionType | null; // Null matches any type
+  category_id?: string | null;
+  savings_goal_id?: string | null; // Applied to transfers only
+  priority: number; // Lower runs first; the first matching rule wins
+  is_active: boolean;
+  hit_count: number;
+  last_matched_at?: string | null;
   created_at?: string;
+  updated_at?: string;
 }
 
+export type BudgetPeriodType = 'monthly' | 'weekly' | 'yearly';
+
 export interface Budget {
   id: string;
   user_id: string;
   category_id: string | null;
   amount: number;
-  period: 'monthly' | 'weekly' | 'yearly';
+  period: BudgetPeriodType;
   start_date: string;
   end_date?: string;
   currency?: string;
+  // Carry unused or overspent amounts into the next period
+  rollover?: boolean;
+  // Envelope mode: the envelope that covers this one when it is overspent
+  cover_from_budget_id?: string | null;
+  household_id?: string | null; // Shared with this household; private when empty
+  created_at?: string;
+}
+
+// 'limits' caps spending per period; 'envelope' is zero-based budgeting
+export type BudgetingMode = 'limits' | 'envelope';
+
+// Money assigned to an envelope (a category budget) for one month
+export interface EnvelopeAssignment {
+  id: string;
+  user_id: string;
+  budget_id: string;
+  month: string;
+  amount: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface EnvelopeTransfer {
+  id: string;
+  user_id: string;
+  from_budget_id: string;
+  to_budget_id: string;
+  month: string;
+  amount: number;
+  note?: string | null;
+  created_at?: string;
+}
+
+// A finished budget period, recorded once it is over
+export interface BudgetPeriod {
+  id: string;
+  user_id: string;
+  budget_id: string;
+  period_start: string;
+  period_end: string;
+  budgeted: number;
+  rollover_in: number;
+  spent: number;
+  carried_over: number;
+  created_at?: string;
+}
+
+export interface BudgetTemplateItem {
+  id: string;
+  user_id: string;
+  template_id: string;
+  category_id: string | null;
+  amount: number;
+  period: BudgetPeriodType;
+  created_at?: string;
+}
+
+export interface BudgetTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  items: BudgetTemplateItem[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+// One category budget to create or update in bulk, from a template or a suggestion
+export type BudgetAmountInput = Pick<BudgetTemplateItem, 'category_id' | 'amount' | 'period'>;
+
+export type HouseholdRole = 'owner' | 'editor' | 'viewer';
+
+export interface Household {
+  id: string;
+  name: string;
+  created_by: string;
   created_at?: string;
+  updated_at?: string;
+}
+
+export interface HouseholdMember {
+  id: string;
+  household_id: string;
+  user_id: string;
+  role: HouseholdRole;
+  created_at?: string;
+  // From the member's profile, for attribution
+  full_name?: string | null;
+  email?: string | null;
+}
+
+export interface HouseholdInvitation {
+  id: string;
+  household_id: string;
+  email: string;
+  role: Exclude<HouseholdRole, 'owner'>;
+  invited_by: string;
+  status: 'pending' | 'accepted' | 'declined';
+  created_at?: string;
+  responded_at?: string | null;
+  household?: Pick<Household, 'id' | 'name'> | null;
 }
 
 export interface Profile {
@@ -48,6 +296,8 @@ export interface Profile {
   updated_at?: string;
 }
 
+export type CompoundingFrequency = 'daily' | 'monthly' | 'quarterly' | 'annually';
+
 export interface SavingsGoal {
   id: string;
   user_id: string;
@@ -60,6 +310,12 @@ export interface SavingsGoal {
   salary_date_1: number;
   salary_date_2: number;
   currency?: string;
+  household_id?: string | null; // Shared with this household; private when empty
+  priority?: number | null; // Funding order in the savings waterfall, 1 first; unranked goals go last
+  interest_rate?: number | null; // Annual rate in percent; no interest when empty
+  compounding_frequency?: CompoundingFrequency;
+  interest_account_id?: string | null; // Account holding the goal's money; interest is recorded against it
+  interest_posted_through?: string | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -82,6 +338,104 @@ export interface SavingsGoalProgress {
   status: 'completed' | 'overdue' | 'urgent' | 'active';
 }
 
+// How surplus income is split between savings goals
+export type WaterfallMethod = 'strict' | 'proportional' | 'minimum';
+
+// How a contribution plan sizes each payday's contribution
+export type ContributionMethod = 'fixed' | 'percentage';
+
+export interface GoalContributionPlan {
+  id: string;
+  user_id: string;
+  savings_goal_id: string;
+  method: ContributionMethod;
+  amount: number; // Per payday for fixed plans, percent of the payday's income for percentage plans
+  account_id?: string | null; // Source account; the income's account when empty
+  auto_contribute: boolean; // Contribute as income lands instead of proposing it
+  window_days: number; // Income this many days either side of a salary date belongs to that payday
+  starts_on: string;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface GoalContribution {
+  id: string;
+  user_id: string;
+  plan_id: string;
+  savings_goal_id: string;
+  payday: string;
+  planned_amount: number;
+  transaction_id?: string | null;
+  status: 'contributed' | 'skipped';
+  created_at?: string;
+}
+
+export type NetWorthItemKind = 'asset' | 'liability';
+
+export type NetWorthCategory =
+  | 'property'
+  | 'vehicle'
+  | 'investment'
+  | 'other_asset'
+  | 'loan'
+  | 'credit_card'
+  | 'other_liability';
+
+// Something owned or owed that isn't tracked as an account, valued by hand
+export interface NetWorthItem {
+  id: string;
+  user_id: string;
+  name: string;
+  kind: NetWorthItemKind;
+  category: NetWorthCategory;
+  notes?: string | null;
+  is_archived: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface NetWorthValuation {
+  id: string;
+  user_id: string;
+  item_id: string;
+  valued_on: string;
+  value: number; // Worth of an asset, or amount owed on a liability
+  created_at?: string;
+}
+
+// Net worth at the end of a month (first day of the month)
+export interface NetWorthSnapshot {
+  id: string;
+  user_id: string;
+  month: string;
+  assets: number;
+  liabilities: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type DebtType = 'credit_card' | 'loan' | 'mortgage' | 'other';
+
+// Order debts are paid off in: highest APR first, smallest balance first, or as ranked
+export type DebtStrategy = 'avalanche' | 'snowball' | 'custom';
+
+export interface Debt {
+  id: string;
+  user_id: string;
+  name: string;
+  debt_type: DebtType;
+  balance: number; // From the latest statement; later payments come off it
+  balance_as_of: string;
+  apr: number; // Annual percentage rate, e.g. 24 for 24%
+  minimum_payment: number;
+  due_day: number; // Day of the month the payment is due
+  priority?: number | null; // Payoff order under the custom strategy
+  is_archived: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
 export interface FinancialInsight {
   id: string;
   user_id: string;
@@ -118,6 +472,9 @@ export interface DashboardStats {
   transactionCount: number;
   topCategories: CategoryStats[];
   recentTransactions: Transaction[];
+  accountBalances: AccountBalance[];
+  netWorth: number;
+  netWorthChange: number; // Percent change since last month's snapshot
   savingsRate?: number;
   daysUntilSalary?: number;
 }
@@ -147,6 +504,11 @@ export interface UserProfile {
   currency: string;
   locale: string;
   timezone: string;
+  budgeting_mode?: BudgetingMode;
+  goal_waterfall_method?: WaterfallMethod;
+  goal_waterfall_minimum?: number;
+  debt_strategy?: DebtStrategy;
+  debt_extra_payment?: number;
   created_at: string;
   updated_at: string;
 }
@@ -1,5 +1,5 @@
 // Enhanced types for financial insights system with duplicate prevention and user preferences
-import type { Transaction, Category, Budget, SavingsGoal } from './index';
+import type { Transaction, Category, Budget, BudgetPeriod, RecurringTransaction, SavingsGoal, Debt, DebtStrategy } from './index';
 
 export type InsightType = 'daily' | 'weekly' | 'monthly' | 'threshold_alert';
 
@@ -36,6 +36,7 @@ export interface UserInsightPreferences {
   last_insight_generation?: string; // ISO timestamp
   next_generation_due?: string; // ISO timestamp
   timezone: string; // IANA timezone identifier
+  disabled_template_ids: string[]; // Built-in insight templates switched off
   created_at: string; // ISO timestamp
   updated_at: string; // ISO timestamp
 }
@@ -46,6 +47,7 @@ export interface CreateInsightPreferencesInput {
   enabled_insight_types: InsightType[];
   preferred_delivery_time: string;
   timezone?: string;
+  disabled_template_ids?: string[];
 }
 
 export interface UpdateInsightPreferencesInput extends Partial<CreateInsightPreferencesInput> {
@@ -71,6 +73,11 @@ export interface InsightGenerationContext {
   categories: Category[]; // Category data
   budgets?: Budget[]; // Budget data if available
   savings_goals?: SavingsGoal[]; // Savings goals data if available
+  budget_periods?: BudgetPeriod[]; // Finished budget periods, for rollover into the current one
+  recurring_transactions?: RecurringTransaction[]; // Recurring templates, for spending forecasts
+  debts?: Debt[]; // Debts still being paid down
+  debt_plan?: { strategy: DebtStrategy; extra_payment: number }; // Payoff plan the debt-free date follows
+  insight_templates?: InsightTemplate[]; // User-defined templates, checked alongside the built-in ones
 }
 
 // Insight generation result
@@ -93,20 +100,48 @@ export interface InsightAnalytics {
   next_generation: string; // ISO timestamp
 }
 
+// Figures insight templates can test and fill in
+export type InsightMetric =
+  | 'spending'
+  | 'previous_spending'
+  | 'income'
+  | 'net'
+  | 'transaction_count'
+  | 'spending_increase'
+  | 'spending_decrease'
+  | 'savings_rate'
+  | 'category_spending'
+  | 'category_previous_spending'
+  | 'category_share'
+  | 'category_change'
+  | 'budget_spent'
+  | 'budget_limit'
+  | 'budget_utilization'
+  | 'budget_remaining';
+
+// What a template is checked against: the whole period, each category or each budget
+export type InsightMetricScope = 'overall' | 'category' | 'budget';
+
+export type InsightConditionOperator = 'gt' | 'lt' | 'eq' | 'gte' | 'lte' | 'between';
+
 // Insight content templates
 export interface InsightTemplate {
+  id: string; // Fixed slug for built-in templates, row id for the user's own
+  name: string;
   type: InsightType;
-  title_template: string;
+  title_template: string; // {{metric}}, {{category}} and {{budget}} placeholders are filled in
   content_template: string;
   priority: InsightPriority;
-  conditions: InsightCondition[];
+  conditions: InsightCondition[]; // All must hold
+  is_builtin?: boolean;
+  is_enabled?: boolean;
 }
 
 export interface InsightCondition {
-  field: string; // e.g., 'spending_increase', 'savings_rate'
-  operator: 'gt' | 'lt' | 'eq' | 'gte' | 'lte' | 'between';
-  value: number | [number, number];
-  threshold?: number; // For percentage-based conditions
+  field: InsightMetric;
+  operator: InsightConditionOperator;
+  value: number | [number, number]; // [min, max] for 'between', inclusive
+  threshold?: number; // For percentage-based conditions, the least the base figure must be (e.g. last period's spending)
 }
 
 // Insight scheduling information
@@ -250,5 +285,6 @@ export const DEFAULT_PREFERENCES: Omit<UserInsightPreferences, 'id' | 'user_id'
   insight_frequency: 'weekly',
   enabled_insight_types: ['weekly', 'monthly', 'threshold_alert'],
   preferred_delivery_time: '09:00:00',
-  timezone: 'UTC'
+  timezone: 'UTC',
+  disabled_template_ids: []
 };
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { calculateAccountBalances, filterTransactionsByAccount, isLiabilityAccount } from '../accountBalances';
+import type { Account, Transaction } from '@/types';
+
+const accounts: Account[] = [
+  { id: 'acc-cash', user_id: 'user-1', name: 'Wallet', type: 'cash', opening_balance: 1000, is_archived: false },
+  { id: 'acc-card', user_id: 'user-1', name: 'Visa', type: 'credit_card', opening_balance: -5000, is_archived: false },
+  { id: 'acc-old', user_id: 'user-1', name: 'Old Bank', type: 'bank', opening_balance: 0, is_archived: true },
+];
+
+const transactions: Transaction[] = [
+  { id: 'tx-1', amount: 20000, type: 'income', category_id: 'cat-salary', account_id: 'acc-cash', description: 'Salary', date: '2024-03-15' },
+  { id: 'tx-2', amount: 1500, type: 'expense', category_id: 'cat-food', account_id: 'acc-cash', description: 'Groceries', date: '2024-03-16' },
+  { id: 'tx-3', amount: 2500, type: 'expense', category_id: 'cat-food', account_id: 'acc-card', description: 'Dinner', date: '2024-03-17' },
+];
+
+describe('accountBalances', () => {
+  it('adds income and subtracts expenses from the opening balance', () => {
+    const balances = calculateAccountBalances(accounts, transactions);
+
+    expect(balances.map(b => [b.account.id, b.balance])).toEqual([
+      ['acc-cash', 19500],
+      ['acc-card', -7500],
+    ]);
+    expect(balances[0]).toMatchObject({ income: 20000, expenses: 1500 });
+  });
+
+  it('keeps archived accounts that still hold a balance', () => {
+    const balances = calculateAccountBalances(accounts, [
+      ...transactions,
+      { id: 'tx-4', amount: 300, type: 'income', category_id: null, account_id: 'acc-old', description: 'Interest', date: '2024-03-31' },
+    ]);
+
+    expect(balances.find(b => b.account.id === 'acc-old')?.balance).toBe(300);
+  });
+
+  it('moves transfers from the source to the destination account', () => {
+    const balances = calculateAccountBalances(accounts, [
+      ...transactions,
+      { id: 'tx-4', amount: 2500, type: 'transfer', category_id: null, account_id: 'acc-cash', transfer_account_id: 'acc-card', description: 'Card payment', date: '2024-03-20' },
+      { id: 'tx-5', amount: 1000, type: 'transfer', category_id: null, account_id: 'acc-cash', savings_goal_id: 'goal-1', description: 'Emergency fund', date: '2024-03-21' },
+    ]);
+
+    expect(balances.map(b => [b.account.id, b.balance])).toEqual([
+      ['acc-cash', 16000],
+      ['acc-card', -5000],
+    ]);
+  });
+
+  it('returns goal withdrawals to the source account', () => {
+    const balances = calculateAccountBalances(accounts, [
+      ...transactions,
+      { id: 'tx-4', amount: 1000, type: 'transfer', category_id: null, account_id: 'acc-cash', savings_goal_id: 'goal-1', description: 'Emergency fund', date: '2024-03-21' },
+      { id: 'tx-5', amount: 400, type: 'transfer', category_id: null, account_id: 'acc-cash', savings_goal_id: 'goal-1', goal_withdrawal: true, description: 'Car repair', date: '2024-03-25' },
+    ]);
+
+    expect(balances.find(b => b.account.id === 'acc-cash')?.balance).toBe(18900);
+  });
+
+  it('leaves goal interest in the goal until it is withdrawn', () => {
+    const balances = calculateAccountBalances(accounts, [
+      ...transactions,
+      { id: 'tx-4', amount: 1000, type: 'transfer', category_id: null, account_id: 'acc-cash', savings_goal_id: 'goal-1', description: 'Emergency fund', date: '2024-03-21' },
+      { id: 'tx-5', amount: 10, type: 'income', category_id: null, account_id: 'acc-cash', savings_goal_id: 'goal-1', goal_interest: true, description: 'Interest: Emergency fund', date: '2024-03-31' },
+      { id: 'tx-6', amount: 1010, type: 'transfer', category_id: null, account_id: 'acc-cash', savings_goal_id: 'goal-1', goal_withdrawal: true, description: 'Emergency fund', date: '2024-04-02' },
+    ]);
+
+    expect(balances.find(b => b.account.id === 'acc-cash')).toMatchObject({ income: 20000, balance: 19510 });
+  });
+
+  it('filters transactions by account', () => {
+    expect(filterTransactionsByAccount(transactions, 'acc-card').map(t => t.id)).toEqual(['tx-3']);
+    expect(filterTransactionsByAccount(transactions, null)).toHaveLength(3);
+  });
+
+  it('treats credit cards and loans as liabilities', () => {
+    expect(isLiabilityAccount('credit_card')).toBe(true);
+    expect(isLiabilityAccount('loan')).toBe(true);
+    expect(isLiabilityAccount('e_wallet')).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import type { Budget } from '@/types';
+import type { BudgetUtilization } from '../budgetPeriods';
+import { getBudgetAlerts, getCrossedThreshold, parseBudgetAlertThresholds } from '../budgetAlerts';
+
+const thresholds = [50, 80, 100, 120];
+
+const utilization = (percentage: number, state: BudgetUtilization['state'] = 'active') => ({
+  budget: { id: 'food' } as Budget,
+  window: { index: 2, start: '2025-03-01', end: '2025-03-31' },
+  state,
+  percentage,
+});
+
+describe('budgetAlerts', () => {
+  it('parses threshold lists and rejects anything but whole percentages', () => {
+    expect(parseBudgetAlertThresholds('100, 50,80, 50')).toEqual([50, 80, 100]);
+    expect(parseBudgetAlertThresholds(' ')).toEqual([]);
+    expect(parseBudgetAlertThresholds('50, 85.5')).toBeNull();
+    expect(parseBudgetAlertThresholds('0, 80')).toBeNull();
+  });
+
+  it('finds the highest threshold reached', () => {
+    expect(getCrossedThreshold(49.9, thresholds)).toBe(0);
+    expect(getCrossedThreshold(80, thresholds)).toBe(80);
+    expect(getCrossedThreshold(130, thresholds)).toBe(120);
+  });
+
+  it('alerts once per threshold crossed in a period, for the highest one only', () => {
+    const first = getBudgetAlerts([utilization(85)], thresholds, {});
+    expect(first.alerts).toEqual([
+      { budgetId: 'food', threshold: 80, percentage: 85, levelKey: 'food:2025-03-01', previousLevel: 0 },
+    ]);
+    expect(first.levels).toEqual({ 'food:2025-03-01': 80 });
+
+    expect(getBudgetAlerts([utilization(95)], thresholds, first.levels).alerts).toEqual([]);
+    expect(getBudgetAlerts([utilization(101)], thresholds, first.levels).alerts[0].threshold).toBe(100);
+  });
+
+  it('alerts again after spending drops back under a line and crosses it again', () => {
+    const dropped = getBudgetAlerts([utilization(60)], thresholds, { 'food:2025-03-01': 80 });
+    expect(dropped.alerts).toEqual([]);
+    expect(dropped.levels).toEqual({ 'food:2025-03-01': 50 });
+
+    expect(getBudgetAlerts([utilization(82)], thresholds, dropped.levels).alerts).toHaveLength(1);
+  });
+
+  it('ignores budgets that are not running and forgets their levels', () => {
+    const result = getBudgetAlerts([utilization(150, 'ended')], thresholds, { 'food:2025-02-01': 100 });
+    expect(result).toEqual({ alerts: [], levels: {} });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import type { RecurringTransaction, Transaction } from '@/types';
+import { forecastSpending, getForecastSeries, getProjectedOverspend, getTotalExpenseBudget } from '../budgetForecast';
+import type { BudgetUtilization } from '../budgetPeriods';
+
+const schedule = { category_id: 'food', period: 'monthly' as const, start_date: '2025-01-01' };
+
+const expense = (date: string, amount: number, extra: Partial<Transaction> = {}): Transaction => ({
+  id: `${date}-${amount}`,
+  user_id: 'user-1',
+  account_id: 'acc-1',
+  amount,
+  type: 'expense',
+  description: 'expense',
+  category_id: 'food',
+  date,
+  ...extra,
+});
+
+const mealKit: RecurringTransaction = {
+  id: 'rec-1',
+  user_id: 'user-1',
+  amount: 50,
+  type: 'expense',
+  category_id: 'food',
+  account_id: 'acc-1',
+  description: 'Meal kit',
+  frequency: 'weekly',
+  start_date: '2025-01-03',
+  auto_post: true,
+  is_active: true,
+  last_generated_date: '2025-04-10',
+};
+
+describe('budgetForecast', () => {
+  it('extrapolates the pace to date when there is no history', () => {
+    // 100 over the first 10 of 30 days
+    const forecast = forecastSpending(
+      { ...schedule, start_date: '2025-04-01' },
+      [expense('2025-04-02', 40), expense('2025-04-09', 60)],
+      [],
+      '2025-04-10'
+    );
+
+    expect(forecast.elapsedDays).toBe(10);
+    expect(forecast.totalDays).toBe(30);
+    expect(forecast.usesHistory).toBe(false);
+    expect(forecast.projected).toBe(300);
+    expect(forecast.low).toBe(300);
+  });
+
+  it('blends in how much earlier periods spent after the same day', () => {
+    // January to March each spent 100 early and 200 late in the month
+    const history = ['2025-01', '2025-02', '2025-03'].flatMap(month => [
+      expense(`${month}-05`, 100),
+      expense(`${month}-25`, 200),
+    ]);
+    const forecast = forecastSpending(schedule, [...history, expense('2025-04-05', 100)], [], '2025-04-10');
+
+    // Pace says 300 and history says 100 + 200, so both agree
+    expect(forecast.usesHistory).toBe(true);
+    expect(forecast.projected).toBe(300);
+    expect(forecast.low).toBe(300);
+    expect(forecast.high).toBe(300);
+  });
+
+  it('adds recurring expenses still due and leaves posted ones out of the pace', () => {
+    const forecast = forecastSpending(
+      { ...schedule, start_date: '2025-04-01' },
+      [expense('2025-04-04', 50, { recurring_transaction_id: 'rec-1' }), expense('2025-04-02', 30)],
+      [mealKit],
+      '2025-04-10'
+    );
+
+    // Still due on the 11th, 18th and 25th
+    expect(forecast.upcomingRecurring).toBe(150);
+    expect(forecast.spentToDate).toBe(80);
+    expect(forecast.projected).toBe(90 + 50 + 150);
+    expect(getProjectedOverspend(forecast, 200)).toBe(90);
+    expect(getProjectedOverspend(forecast, 500)).toBe(0);
+  });
+
+  it('charts cumulative spend then a band to the end of the period', () => {
+    const forecast = forecastSpending({ ...schedule, start_date: '2025-04-01' }, [expense('2025-04-02', 30)], [], '2025-04-03');
+    const series = getForecastSeries(schedule, [expense('2025-04-02', 30)], forecast);
+
+    expect(series).toHaveLength(30);
+    expect(series[1]).toEqual({ date: '2025-04-02', actual: 30 });
+    expect(series[2]).toEqual({ date: '2025-04-03', actual: 30, band: [30, 30], projected: 30 });
+    expect(series[29]).toEqual({ date: '2025-04-30', band: [300, 300], projected: 300 });
+  });
+
+  it('uses an all-expenses monthly budget as the total when there is one', () => {
+    const item = (category_id: string | null, available: number, period: 'monthly' | 'weekly' = 'monthly') => ({
+      budget: { id: `${category_id}`, category_id, amount: available, period, start_date: '2025-01-01' },
+      state: 'active',
+      available,
+    }) as Pick<BudgetUtilization, 'budget' | 'state' | 'available'>;
+
+    expect(getTotalExpenseBudget([item('food', 300), item('fun', 100), item('gas', 50, 'weekly')])).toBe(400);
+    expect(getTotalExpenseBudget([item('food', 300), item(null, 1000)])).toBe(1000);
+  });
+});
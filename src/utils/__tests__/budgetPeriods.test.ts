@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import type { Budget, Transaction } from '@/types';
+import {
+  getBudgetPeriodIndex,
+  getBudgetSpending,
+  getBudgetUtilization,
+  getBudgetWindow,
+  getPendingBudgetPeriods,
+} from '../budgetPeriods';
+
+const budget = (overrides: Partial<Budget> = {}): Budget => ({
+  id: 'budget-1',
+  user_id: 'user-1',
+  category_id: 'food',
+  amount: 1000,
+  period: 'monthly',
+  start_date: '2025-01-31',
+  ...overrides,
+});
+
+const expense = (date: string, amount: number, overrides: Partial<Transaction> = {}): Transaction => ({
+  id: `${date}-${amount}`,
+  user_id: 'user-1',
+  account_id: 'acc-1',
+  amount,
+  type: 'expense',
+  description: 'Groceries',
+  category_id: 'food',
+  date,
+  ...overrides,
+});
+
+describe('budgetPeriods', () => {
+  it('anchors monthly windows on the start day, using the last day of shorter months', () => {
+    const schedule = budget();
+
+    expect(getBudgetWindow(schedule, 0)).toEqual({ index: 0, start: '2025-01-31', end: '2025-02-27' });
+    expect(getBudgetWindow(schedule, 1)).toEqual({ index: 1, start: '2025-02-28', end: '2025-03-30' });
+    expect(getBudgetPeriodIndex(schedule, '2025-03-30')).toBe(1);
+    expect(getBudgetPeriodIndex(schedule, '2025-03-31')).toBe(2);
+    expect(getBudgetPeriodIndex(schedule, '2025-01-30')).toBe(-1);
+  });
+
+  it('finds weekly and yearly windows and stops at the end date', () => {
+    const weekly = budget({ period: 'weekly', start_date: '2025-03-03', end_date: '2025-03-12' });
+
+    expect(getBudgetPeriodIndex(weekly, '2025-03-10')).toBe(1);
+    expect(getBudgetWindow(weekly, 1)).toEqual({ index: 1, start: '2025-03-10', end: '2025-03-12' });
+    expect(getBudgetPeriodIndex(budget({ period: 'yearly', start_date: '2024-06-01' }), '2025-05-31')).toBe(0);
+  });
+
+  it('counts expense split lines toward their own category', () => {
+    const transactions = [
+      expense('2025-02-01', 300),
+      expense('2025-02-02', 500, {
+        category_id: 'home',
+        splits: [
+          { id: 's1', user_id: 'user-1', transaction_id: 't', category_id: 'food', amount: 120 },
+          { id: 's2', user_id: 'user-1', transaction_id: 't', category_id: 'home', amount: 380 },
+        ],
+      }),
+      expense('2025-02-03', 900, { type: 'income' }),
+      expense('2025-03-01', 50),
+    ];
+
+    expect(getBudgetSpending(budget(), transactions, '2025-02-01', '2025-02-28')).toBe(420);
+    expect(getBudgetSpending(budget({ category_id: null }), transactions, '2025-02-01', '2025-02-28')).toBe(800);
+  });
+
+  it('records finished periods and carries leftovers and overspending forward', () => {
+    const schedule = budget({ start_date: '2025-01-01', rollover: true });
+    const transactions = [expense('2025-01-10', 700), expense('2025-02-10', 1500), expense('2025-03-05', 200)];
+
+    const pending = getPendingBudgetPeriods(schedule, transactions, [], '2025-03-15');
+    expect(pending.map(p => [p.period_start, p.rollover_in, p.spent, p.carried_over])).toEqual([
+      ['2025-01-01', 0, 700, 300],
+      ['2025-02-01', 300, 1500, -200],
+    ]);
+
+    // Already recorded periods are not repeated
+    expect(getPendingBudgetPeriods(schedule, transactions, pending, '2025-03-15')).toEqual([]);
+
+    const current = getBudgetUtilization(schedule, transactions, pending, '2025-03-15');
+    expect(current.window.start).toBe('2025-03-01');
+    expect(current.available).toBe(800);
+    expect(current.remaining).toBe(600);
+    expect(current.health).toBe('good');
+  });
+
+  it('carries nothing without rollover and flags budgets near or over their limit', () => {
+    const schedule = budget({ start_date: '2025-01-01' });
+    const transactions = [expense('2025-01-10', 200), expense('2025-02-10', 850)];
+    const history = getPendingBudgetPeriods(schedule, transactions, [], '2025-02-15');
+
+    expect(history[0].carried_over).toBe(0);
+    expect(getBudgetUtilization(schedule, transactions, history, '2025-02-15')).toMatchObject({
+      available: 1000,
+      health: 'warning',
+    });
+    expect(getBudgetUtilization(schedule, [...transactions, expense('2025-02-11', 200)], history, '2025-02-15').health).toBe('over');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import type { Transaction } from '@/types';
+import { getMonthlyCategorySpending, getSuggestionMonths, median, percentile, suggestBudgets, trimmedMean } from '../budgetSuggestions';
+
+const expense = (date: string, amount: number, category_id: string | null): Transaction => ({
+  id: `${date}-${amount}-${category_id}`,
+  user_id: 'user-1',
+  account_id: 'acc-1',
+  amount,
+  type: 'expense',
+  description: 'expense',
+  category_id,
+  date,
+});
+
+describe('budgetSuggestions', () => {
+  it('computes the median, percentiles and trimmed mean', () => {
+    expect(median([300, 100, 200])).toBe(200);
+    expect(median([100, 200, 300, 400])).toBe(250);
+    expect(percentile([100, 200, 300, 400, 500], 0.75)).toBe(400);
+    // 20% of five values drops one from each end
+    expect(trimmedMean([1000, 100, 200, 300, 0])).toBe(200);
+    expect(median([])).toBe(0);
+  });
+
+  it('looks back over full months before the current one', () => {
+    expect(getSuggestionMonths(3, '2025-02-14')).toEqual(['2024-11-01', '2024-12-01', '2025-01-01']);
+  });
+
+  it('totals spending per category and month, counting quiet months as zero', () => {
+    const spending = getMonthlyCategorySpending(
+      [
+        expense('2025-01-05', 40, 'food'),
+        expense('2025-01-20', 60, 'food'),
+        expense('2024-11-02', 30, 'food'),
+        expense('2025-02-01', 999, 'food'),
+        expense('2024-12-10', 50, null),
+        {
+          ...expense('2024-12-15', 100, null),
+          splits: [
+            { id: 's1', user_id: 'user-1', transaction_id: 't', category_id: 'food', amount: 70 },
+            { id: 's2', user_id: 'user-1', transaction_id: 't', category_id: 'fun', amount: 30 },
+          ],
+        },
+      ],
+      3,
+      '2025-02-14'
+    );
+
+    expect(spending).toEqual({ food: [30, 70, 100], fun: [0, 30, 0] });
+  });
+
+  it('suggests whole amounts per category using the chosen statistic', () => {
+    const transactions = [
+      expense('2024-11-10', 200.4, 'food'),
+      expense('2024-12-10', 250, 'food'),
+      expense('2025-01-10', 600, 'food'),
+      expense('2025-01-12', 12, 'fun'),
+    ];
+
+    expect(suggestBudgets(transactions, 3, 'median', '2025-02-14')).toEqual([
+      { category_id: 'food', amount: 250, monthlyTotals: [200.4, 250, 600] },
+    ]);
+    expect(suggestBudgets(transactions, 3, 'p75', '2025-02-14').map(s => [s.category_id, s.amount])).toEqual([
+      ['food', 425],
+      ['fun', 6],
+    ]);
+  });
+});
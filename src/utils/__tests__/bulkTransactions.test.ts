@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { chunkIds, getBulkEditTargets } from '../bulkTransactions';
+import type { Transaction } from '@/types';
+
+const selected: Pick<Transaction, 'id' | 'type'>[] = [
+  { id: 'tx-1', type: 'expense' },
+  { id: 'tx-2', type: 'expense' },
+  { id: 'tx-3', type: 'income' },
+  { id: 'tx-4', type: 'transfer' },
+];
+
+describe('bulkTransactions', () => {
+  it('applies a category only to transactions of the same type', () => {
+    expect(getBulkEditTargets(selected, 'category', { type: 'expense' })).toEqual({
+      ids: ['tx-1', 'tx-2'],
+      skipped: 2,
+    });
+  });
+
+  it('links only transfers to a savings goal', () => {
+    expect(getBulkEditTargets(selected, 'savings_goal')).toEqual({ ids: ['tx-4'], skipped: 3 });
+  });
+
+  it('applies dates and currencies to every selected transaction', () => {
+    expect(getBulkEditTargets(selected, 'date').ids).toHaveLength(4);
+    expect(getBulkEditTargets(selected, 'currency').skipped).toBe(0);
+  });
+
+  it('splits ids into batches', () => {
+    const ids = Array.from({ length: 250 }, (_, i) => `tx-${i}`);
+
+    expect(chunkIds(ids).map(batch => batch.length)).toEqual([100, 100, 50]);
+    expect(chunkIds([])).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyRulesToTransactions,
+  countRuleHits,
+  findMatchingRule,
+  matchesRule,
+  validateCategoryRule,
+} from '../categoryRules';
+import type { Category, CategoryRule } from '@/types';
+
+const categories: Pick<Category, 'id' | 'type'>[] = [
+  { id: 'food', type: 'expense' },
+  { id: 'transport', type: 'expense' },
+  { id: 'salary', type: 'income' },
+];
+
+const rule = (overrides: Partial<CategoryRule>): CategoryRule => ({
+  id: 'rule-1',
+  user_id: 'user-1',
+  name: 'Rule',
+  match_type: 'contains',
+  pattern: 'jollibee',
+  priority: 0,
+  is_active: true,
+  hit_count: 0,
+  category_id: 'food',
+  ...overrides,
+});
+
+describe('categoryRules', () => {
+  it('matches description text case-insensitively within the amount range and type', () => {
+    const grab = rule({ pattern: 'grab', category_id: 'transport', min_amount: 50, max_amount: 500, transaction_type: 'expense' });
+
+    expect(matchesRule(grab, { description: 'GRAB* Ride 1234', amount: 180, type: 'expense' })).toBe(true);
+    expect(matchesRule(grab, { description: 'Grab ride', amount: 800, type: 'expense' })).toBe(false);
+    expect(matchesRule(grab, { description: 'Grab refund', amount: 180, type: 'income' })).toBe(false);
+    expect(matchesRule({ ...grab, is_active: false }, { description: 'Grab', amount: 180, type: 'expense' })).toBe(false);
+  });
+
+  it('treats contains patterns literally and supports regexes', () => {
+    expect(matchesRule(rule({ pattern: '7-11 (QC)' }), { description: 'POS 7-11 (QC) branch', amount: 1, type: 'expense' })).toBe(true);
+    expect(matchesRule(rule({ match_type: 'regex', pattern: '^meralco\\s+\\d+' }), { description: 'Meralco 0042', amount: 1, type: 'expense' })).toBe(true);
+    expect(matchesRule(rule({ match_type: 'regex', pattern: '(' }), { description: '(', amount: 1, type: 'expense' })).toBe(false);
+  });
+
+  it('uses the first rule by priority that fits the transaction type', () => {
+    const rules = [
+      rule({ id: 'late', pattern: 'payroll', category_id: 'salary', priority: 5 }),
+      rule({ id: 'wrong-type', pattern: 'payroll', category_id: 'food', priority: 1 }),
+    ];
+
+    expect(findMatchingRule(rules, { description: 'ACME payroll', amount: 30000, type: 'income' }, categories)).toEqual({
+      rule: rules[0],
+      changes: { category_id: 'salary' },
+    });
+  });
+
+  it('links transfers to the rule savings goal', () => {
+    const rules = [rule({ pattern: 'save', category_id: null, savings_goal_id: 'goal-1', transaction_type: 'transfer' })];
+
+    expect(findMatchingRule(rules, { description: 'Auto save', amount: 1000, type: 'transfer' }, categories)?.changes)
+      .toEqual({ savings_goal_id: 'goal-1' });
+    expect(findMatchingRule(rules, { description: 'Auto save', amount: 1000, type: 'transfer', transfer_account_id: 'acc-2' }, categories))
+      .toBeNull();
+    expect(findMatchingRule(rules, { description: 'Auto save', amount: 1000, type: 'transfer', goal_withdrawal: true }, categories))
+      .toBeNull();
+  });
+
+  it('only fills in missing categories unless asked to overwrite', () => {
+    const rules = [rule({})];
+    const transactions = [
+      { id: 'tx-1', description: 'Jollibee', amount: 250, type: 'expense' as const, category_id: null },
+      { id: 'tx-2', description: 'Jollibee', amount: 250, type: 'expense' as const, category_id: 'transport' },
+      { id: 'tx-3', description: 'Jollibee', amount: 250, type: 'expense' as const, category_id: 'food' },
+      {
+        id: 'tx-4', description: 'Jollibee', amount: 250, type: 'expense' as const, category_id: 'food',
+        splits: [{ id: 's-1', transaction_id: 'tx-4', category_id: 'food', amount: 250 }],
+      },
+    ];
+
+    expect(applyRulesToTransactions(rules, transactions, categories).map(a => a.id)).toEqual(['tx-1']);
+    expect(applyRulesToTransactions(rules, transactions, categories, true).map(a => a.id)).toEqual(['tx-1', 'tx-2']);
+  });
+
+  it('counts hits per rule', () => {
+    expect(countRuleHits([{ ruleId: 'a' }, { ruleId: 'b' }, { ruleId: 'a' }, {}])).toEqual({ a: 2, b: 1 });
+  });
+
+  it('rejects incomplete or contradictory rules', () => {
+    expect(validateCategoryRule({ name: 'Bad', match_type: 'regex', pattern: '[', category_id: 'food' }))
+      .toBe('The regular expression is not valid.');
+    expect(validateCategoryRule({ name: 'Range', pattern: 'x', min_amount: 10, max_amount: 5, category_id: 'food' }))
+      .toBe('The minimum amount must not be more than the maximum.');
+    expect(validateCategoryRule({ name: 'Type', pattern: 'x', transaction_type: 'income', category_id: 'food' }, categories))
+      .toBe('The category is for expense, but the rule only matches income.');
+    expect(validateCategoryRule({ name: 'Ok', match_type: 'contains', pattern: 'x', category_id: 'food' }, categories)).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { suggestCategory, tokenizeDescription, trainCategoryModel } from '../categorySuggestions';
+import type { Category, Transaction } from '@/types';
+
+const categories: Pick<Category, 'id' | 'type'>[] = [
+  { id: 'food', type: 'expense' },
+  { id: 'transport', type: 'expense' },
+  { id: 'salary', type: 'income' },
+];
+
+type TrainingRow = Pick<Transaction, 'description' | 'type' | 'category_id' | 'splits'>;
+
+const history: TrainingRow[] = [
+  { description: 'Jollibee Katipunan', type: 'expense', category_id: 'food' },
+  { description: 'Jollibee SM North', type: 'expense', category_id: 'food' },
+  { description: 'Mang Inasal lunch', type: 'expense', category_id: 'food' },
+  { description: 'Grab ride to office', type: 'expense', category_id: 'transport' },
+  { description: 'Grab ride home', type: 'expense', category_id: 'transport' },
+  { description: 'LRT beep reload', type: 'expense', category_id: 'transport' },
+  { description: 'ACME payroll', type: 'income', category_id: 'salary' },
+];
+
+describe('categorySuggestions', () => {
+  it('tokenizes descriptions into lowercase words without numbers or filler', () => {
+    expect(tokenizeDescription('POS Purchase: 7-Eleven #1234 Ayala')).toEqual(['eleven', 'ayala']);
+    expect(tokenizeDescription("McDonald's")).toEqual(['mcdonalds']);
+  });
+
+  it('suggests the category seen most with the same words', () => {
+    const model = trainCategoryModel(history, categories);
+
+    expect(suggestCategory(model, 'Jollibee Katipunan', 'expense')).toMatchObject({ categoryId: 'food' });
+    expect(suggestCategory(model, 'grab ride', 'expense')?.categoryId).toBe('transport');
+  });
+
+  it('only considers categories of the same type', () => {
+    const model = trainCategoryModel(history, categories);
+
+    expect(suggestCategory(model, 'ACME payroll', 'income')?.categoryId).toBe('salary');
+    expect(suggestCategory(model, 'ACME payroll', 'expense')).toBeNull();
+    expect(suggestCategory(model, 'Jollibee', 'transfer')).toBeNull();
+  });
+
+  it('returns nothing for unfamiliar descriptions and lowers confidence for partly familiar ones', () => {
+    const model = trainCategoryModel(history, categories);
+
+    expect(suggestCategory(model, 'Meralco bill', 'expense')).toBeNull();
+
+    const familiar = suggestCategory(model, 'Jollibee', 'expense', 0)!;
+    const partly = suggestCategory(model, 'Jollibee catering deposit', 'expense', 0)!;
+    expect(partly.confidence).toBeLessThan(familiar.confidence);
+    expect(suggestCategory(model, 'Jollibee catering deposit', 'expense', 0.9)).toBeNull();
+  });
+
+  it('skips split, uncategorized and orphaned transactions when training', () => {
+    const model = trainCategoryModel([
+      { description: 'Landmark groceries', type: 'expense', category_id: 'food', splits: [
+        { id: 's-1', transaction_id: 't-1', category_id: 'food', amount: 1 },
+      ] },
+      { description: 'Landmark', type: 'expense', category_id: null },
+      { description: 'Landmark', type: 'expense', category_id: 'deleted-category' },
+    ], categories);
+
+    expect(model.expense.documents).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { comparePayoffStrategies, getDebtBalance, getNextDueDate, simulatePayoff, sortDebtsByStrategy } from '../debts';
+import type { PayoffDebt } from '../debts';
+
+const card: PayoffDebt = { id: 'card', name: 'Credit card', balance: 3000, apr: 24, minimum_payment: 90, priority: 2, created_at: '2024-01-01' };
+const car: PayoffDebt = { id: 'car', name: 'Car loan', balance: 8000, apr: 6, minimum_payment: 250, priority: 1, created_at: '2024-01-02' };
+const store: PayoffDebt = { id: 'store', name: 'Store card', balance: 600, apr: 18, minimum_payment: 30, priority: null, created_at: '2024-01-03' };
+
+describe('debts', () => {
+  it('orders debts by rate, by balance or by rank', () => {
+    const debts = [car, store, card];
+    expect(sortDebtsByStrategy(debts, 'avalanche').map(d => d.id)).toEqual(['card', 'store', 'car']);
+    expect(sortDebtsByStrategy(debts, 'snowball').map(d => d.id)).toEqual(['store', 'card', 'car']);
+    expect(sortDebtsByStrategy(debts, 'custom').map(d => d.id)).toEqual(['car', 'card', 'store']);
+  });
+
+  it('rolls a cleared debt\'s minimum on to the next one', () => {
+    const plan = simulatePayoff(
+      [
+        { id: 'a', name: 'A', balance: 300, apr: 0, minimum_payment: 100 },
+        { id: 'b', name: 'B', balance: 500, apr: 0, minimum_payment: 100 },
+      ],
+      100,
+      '2024-01-01'
+    );
+
+    expect(plan.schedule.map(month => month.balances)).toEqual([
+      { a: 100, b: 400 },
+      { a: 0, b: 200 },
+      { a: 0, b: 0 },
+    ]);
+    expect(plan.debts.map(d => d.payoffMonth)).toEqual(['2024-02-01', '2024-03-01']);
+    expect(plan.debtFreeMonth).toBe('2024-03-01');
+    expect(plan.totalPaid).toBe(800);
+    expect(plan.totalInterest).toBe(0);
+  });
+
+  it('charges monthly interest and compares strategies', () => {
+    const plans = comparePayoffStrategies([car, store, card], 200, '2024-01-01');
+
+    expect(plans.avalanche.schedule[0].interest).toEqual({ card: 60, store: 9, car: 40 });
+    Object.values(plans).forEach(plan => {
+      expect(plan.debtFreeMonth).not.toBeNull();
+      expect(plan.totalPaid).toBeCloseTo(11600 + plan.totalInterest, 2);
+    });
+    expect(plans.avalanche.totalInterest).toBeLessThan(plans.snowball.totalInterest);
+    expect(plans.snowball.debts[0].payoffMonth! < plans.avalanche.debts.find(d => d.debt.id === 'store')!.payoffMonth!).toBe(true);
+  });
+
+  it('never finishes when payments do not cover interest', () => {
+    const plan = simulatePayoff([{ ...card, minimum_payment: 50 }], 0, '2024-01-01');
+    expect(plan.debtFreeMonth).toBeNull();
+    expect(plan.debts[0].payoffMonth).toBeNull();
+    expect(plan.schedule).toHaveLength(1);
+  });
+
+  it('takes payments after the statement off the balance and finds the next due date', () => {
+    const debt = { id: 'card', balance: 1000, balance_as_of: '2024-03-10' };
+    const transactions = [
+      { debt_id: 'card', date: '2024-03-10', amount: 200 },
+      { debt_id: 'card', date: '2024-03-15', amount: 300 },
+      { debt_id: 'car', date: '2024-03-15', amount: 400 },
+    ];
+    expect(getDebtBalance(debt, transactions)).toBe(700);
+    expect(getDebtBalance(debt, [...transactions, { debt_id: 'card', date: '2024-04-01', amount: 900 }])).toBe(0);
+
+    expect(getNextDueDate(15, '2024-03-10')).toBe('2024-03-15');
+    expect(getNextDueDate(15, '2024-03-16')).toBe('2024-04-15');
+    expect(getNextDueDate(31, '2024-02-10')).toBe('2024-02-29');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  findDuplicateTransactions,
+  mergeDuplicateTransaction,
+  normalizeDescription,
+  transactionFingerprint,
+} from '../duplicateDetection';
+import type { Transaction } from '@/types';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {},
+}));
+
+const existing: Transaction[] = [
+  { id: 'tx-1', amount: 1499.5, type: 'expense', category_id: null, account_id: 'acc-1', description: 'POS PURCHASE SM Supermarket 000123456', date: '2024-03-10' },
+  { id: 'tx-2', amount: 1499.5, type: 'expense', category_id: 'cat-1', account_id: 'acc-1', description: 'Netflix subscription', date: '2024-03-10' },
+  { id: 'tx-3', amount: 1499.5, type: 'income', category_id: 'cat-2', account_id: 'acc-1', description: 'SM Supermarket refund', date: '2024-03-10' },
+];
+
+describe('duplicateDetection', () => {
+  it('normalizes bank noise out of descriptions', () => {
+    expect(normalizeDescription('POS PURCHASE SM Supermarket #000123456')).toBe('sm supermarket');
+  });
+
+  it('builds equal fingerprints for equivalent transactions', () => {
+    expect(transactionFingerprint({ amount: 10.1, type: 'expense', date: '2024-01-01', description: 'Card payment: Grab' }))
+      .toBe(transactionFingerprint({ amount: 10.10, type: 'expense', date: '2024-01-01', description: 'grab' }));
+  });
+
+  it('matches same amount and type within the date window by description similarity', () => {
+    const matches = findDuplicateTransactions(
+      { amount: 1499.5, type: 'expense', date: '2024-03-12', description: 'SM Supermarket' },
+      existing
+    );
+
+    expect(matches.map(m => m.transaction.id)).toEqual(['tx-1']);
+    expect(matches[0].daysApart).toBe(2);
+  });
+
+  it('ignores matches outside the date window', () => {
+    const matches = findDuplicateTransactions(
+      { amount: 1499.5, type: 'expense', date: '2024-03-20', description: 'SM Supermarket' },
+      existing
+    );
+
+    expect(matches).toEqual([]);
+  });
+
+  it('only fills gaps when merging', () => {
+    const updates = mergeDuplicateTransaction(existing[0], {
+      category_id: 'cat-groceries',
+      description: 'Groceries',
+      receipt_url: 'https://example.com/r.png',
+      receipt_name: 'r.png',
+    });
+
+    expect(updates).toEqual({
+      id: 'tx-1',
+      category_id: 'cat-groceries',
+      receipt_url: 'https://example.com/r.png',
+      receipt_name: 'r.png',
+    });
+    expect(mergeDuplicateTransaction(existing[1], { description: 'NETFLIX.COM SUBSCRIPTION 0042 MANILA' }))
+      .toEqual({ id: 'tx-2' });
+  });
+});
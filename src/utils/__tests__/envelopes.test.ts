@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import type { Budget, Transaction } from '@/types';
+import { addMonthsToMonth, getEnvelopeMonth, getMonthEnd, planTargetAssignments } from '../envelopes';
+
+const envelope = (id: string, amount: number, coverFrom: string | null = null): Budget => ({
+  id,
+  user_id: 'user-1',
+  category_id: id,
+  amount,
+  period: 'monthly',
+  start_date: '2025-01-01',
+  cover_from_budget_id: coverFrom,
+});
+
+const transaction = (type: 'income' | 'expense', date: string, amount: number, category_id: string | null = null): Transaction => ({
+  id: `${type}-${date}-${amount}`,
+  user_id: 'user-1',
+  account_id: 'acc-1',
+  amount,
+  type,
+  description: type,
+  category_id,
+  date,
+});
+
+describe('envelopes', () => {
+  it('steps through calendar months', () => {
+    expect(addMonthsToMonth('2025-12-01', 1)).toBe('2026-01-01');
+    expect(addMonthsToMonth('2025-01-01', -1)).toBe('2024-12-01');
+    expect(getMonthEnd('2024-02-01')).toBe('2024-02-29');
+  });
+
+  it('keeps income left to assign until it is given to envelopes', () => {
+    const budgets = [envelope('food', 500), envelope('rent', 1000), { ...envelope('all', 2000), category_id: null }];
+    const transactions = [transaction('income', '2025-03-01', 2000), transaction('expense', '2025-03-05', 120, 'food')];
+    const assignments = [
+      { budget_id: 'food', month: '2025-03-01', amount: 500 },
+      { budget_id: 'rent', month: '2025-03-01', amount: 1000 },
+    ];
+
+    const march = getEnvelopeMonth(budgets, transactions, assignments, [], '2025-03-01');
+    expect(march.toBeAssigned).toBe(500);
+    expect(march.envelopes.map(e => [e.budget.id, e.available])).toEqual([['food', 380], ['rent', 1000]]);
+
+    // Balances and unassigned income carry into the next month
+    const april = getEnvelopeMonth(budgets, transactions, assignments, [], '2025-04-01');
+    expect(april.toBeAssigned).toBe(500);
+    expect(april.envelopes[0]).toMatchObject({ carriedIn: 380, available: 380 });
+  });
+
+  it('moves money between envelopes and covers overspending from the chosen envelope', () => {
+    const budgets = [envelope('food', 500, 'fun'), envelope('fun', 300), envelope('gas', 200)];
+    const transactions = [
+      transaction('income', '2025-03-01', 1000),
+      transaction('expense', '2025-03-10', 650, 'food'),
+      transaction('expense', '2025-03-12', 250, 'gas'),
+    ];
+    const assignments = [
+      { budget_id: 'food', month: '2025-03-01', amount: 500 },
+      { budget_id: 'fun', month: '2025-03-01', amount: 300 },
+      { budget_id: 'gas', month: '2025-03-01', amount: 200 },
+    ];
+    const transfers = [{ from_budget_id: 'fun', to_budget_id: 'food', month: '2025-03-01', amount: 100 }];
+
+    const march = getEnvelopeMonth(budgets, transactions, assignments, transfers, '2025-03-01');
+    const [food, fun, gas] = march.envelopes;
+
+    expect(food).toMatchObject({ moved: 100, covered: 50, available: 0 });
+    expect(fun).toMatchObject({ moved: -100, coveredOthers: 50, available: 150 });
+    // Gas has no cover envelope, so its overspending comes out of to be assigned
+    expect(gas).toMatchObject({ uncovered: 50, available: 0 });
+    expect(march.toBeAssigned).toBe(-50);
+  });
+
+  it('takes spending outside envelopes out of to be assigned', () => {
+    const budgets = [envelope('food', 500)];
+    const transactions = [
+      transaction('income', '2025-03-01', 1000),
+      transaction('expense', '2025-03-04', 80, 'taxi'),
+      transaction('expense', '2025-03-06', 20),
+      {
+        ...transaction('expense', '2025-03-08', 150),
+        splits: [
+          { id: 'line-1', transaction_id: 't', category_id: 'food', amount: 100 },
+          { id: 'line-2', transaction_id: 't', category_id: 'gifts', amount: 50 },
+        ],
+      },
+    ];
+    const assignments = [{ budget_id: 'food', month: '2025-03-01', amount: 500 }];
+
+    const march = getEnvelopeMonth(budgets, transactions, assignments, [], '2025-03-01');
+    expect(march.unbudgeted).toBe(150);
+    expect(march.toBeAssigned).toBe(350);
+    expect(march.envelopes[0]).toMatchObject({ spent: 100, available: 400 });
+  });
+
+  it('plans assignments up to each target while money is left', () => {
+    const budgets = [envelope('food', 500), envelope('rent', 1000)];
+    const month = getEnvelopeMonth(
+      budgets,
+      [transaction('income', '2025-03-01', 1200)],
+      [{ budget_id: 'food', month: '2025-03-01', amount: 100 }],
+      [],
+      '2025-03-01'
+    );
+
+    expect(planTargetAssignments(month)).toEqual([
+      { budgetId: 'food', amount: 500 },
+      { budgetId: 'rent', amount: 700 },
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { getContributionProposals, getNearestPayday, getPaydayContributions, getPlannedAmount } from '../goalContributions';
+import type { GoalContribution, GoalContributionPlan, SavingsGoal, Transaction } from '@/types';
+
+const goal: SavingsGoal = {
+  id: 'goal-1',
+  user_id: 'user-1',
+  name: 'Emergency fund',
+  target_amount: 10000,
+  current_amount: 9500,
+  target_date: '2024-12-31',
+  savings_percentage_threshold: 20,
+  salary_date_1: 15,
+  salary_date_2: 30,
+};
+
+const plan: GoalContributionPlan = {
+  id: 'plan-1',
+  user_id: 'user-1',
+  savings_goal_id: 'goal-1',
+  method: 'percentage',
+  amount: 10,
+  account_id: null,
+  auto_contribute: false,
+  window_days: 3,
+  starts_on: '2024-02-01',
+  is_active: true,
+};
+
+const transactions: Transaction[] = [
+  { id: 'tx-1', amount: 20000, type: 'income', category_id: 'cat-salary', account_id: 'acc-bank', description: 'Salary', date: '2024-02-14' },
+  { id: 'tx-2', amount: 1500, type: 'transfer', category_id: null, account_id: 'acc-bank', savings_goal_id: 'goal-1', description: 'Savings', date: '2024-02-16' },
+  { id: 'tx-3', amount: 21000, type: 'income', category_id: 'cat-salary', account_id: 'acc-bank', description: 'Salary', date: '2024-02-29' },
+  { id: 'tx-4', amount: 300, type: 'income', category_id: 'cat-other', account_id: 'acc-cash', description: 'Refund', date: '2024-02-22' },
+];
+
+describe('goalContributions', () => {
+  it('matches income to the nearest salary date, clamped to the end of the month', () => {
+    expect(getNearestPayday(goal, '2024-02-14', 3)).toBe('2024-02-15');
+    expect(getNearestPayday(goal, '2024-03-01', 3)).toBe('2024-02-29');
+    expect(getNearestPayday(goal, '2024-02-22', 3)).toBeNull();
+  });
+
+  it('sizes contributions by method and caps them at what the goal needs', () => {
+    expect(getPlannedAmount({ method: 'fixed', amount: 2000 }, 20000)).toBe(2000);
+    expect(getPlannedAmount({ method: 'percentage', amount: 12.5 }, 20000)).toBe(2500);
+    expect(getPlannedAmount({ method: 'fixed', amount: 2000 }, 20000, 500)).toBe(500);
+    expect(getPlannedAmount({ method: 'fixed', amount: 2000 }, 0)).toBe(0);
+  });
+
+  it('compares planned and actual contributions per payday', () => {
+    const contributions: GoalContribution[] = [
+      { id: 'c-1', user_id: 'user-1', plan_id: 'plan-1', savings_goal_id: 'goal-1', payday: '2024-02-15', planned_amount: 1500, transaction_id: 'tx-2', status: 'contributed' },
+    ];
+    const rows = getPaydayContributions(goal, plan, transactions, contributions, '2024-02-01', '2024-02-29');
+    expect(rows.map(row => [row.payday, row.income, row.planned, row.actual])).toEqual([
+      ['2024-02-15', 20000, 1500, 1500],
+      ['2024-02-29', 21000, 2100, 0],
+    ]);
+  });
+
+  it('proposes unhandled paydays for plans that do not contribute automatically', () => {
+    const proposals = getContributionProposals([plan], [goal], transactions, [{ plan_id: 'plan-1', payday: '2024-02-15' }], '2024-03-02');
+    expect(proposals).toHaveLength(1);
+    expect(proposals[0]).toMatchObject({ payday: '2024-02-29', income: 21000, amount: 500, account_id: 'acc-bank' });
+    expect(getContributionProposals([{ ...plan, auto_contribute: true }], [goal], transactions, [], '2024-03-02')).toEqual([]);
+  });
+
+  it('does not count goal interest as payday income', () => {
+    const interest: Transaction = {
+      id: 'tx-5', amount: 40, type: 'income', category_id: null, account_id: 'acc-bank', savings_goal_id: 'goal-1',
+      goal_interest: true, description: 'Interest', date: '2024-03-31',
+    };
+    const rows = getPaydayContributions(goal, plan, [...transactions, interest], [], '2024-03-01', '2024-03-31');
+    expect(rows.find(row => row.payday === '2024-03-30')?.income ?? 0).toBe(0);
+    expect(getContributionProposals([plan], [goal], [interest], [], '2024-04-02')).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getGoalMilestones, getGoalPace, getGoalTimeline, isGoalOffTrack, validateGoalWithdrawal } from '../goalHistory';
+import type { Transaction } from '@/types';
+
+const transfer = (id: string, date: string, amount: number, goal_withdrawal = false): Transaction => ({
+  id,
+  amount,
+  type: 'transfer',
+  category_id: null,
+  account_id: 'acc-1',
+  savings_goal_id: 'goal-1',
+  goal_withdrawal,
+  description: goal_withdrawal ? 'Withdrawal' : 'Deposit',
+  date,
+});
+
+const transactions: Transaction[] = [
+  transfer('tx-1', '2024-01-15', 3000),
+  transfer('tx-2', '2024-02-15', 3000),
+  transfer('tx-3', '2024-02-15', 500),
+  transfer('tx-4', '2024-03-01', 2000, true),
+  transfer('tx-5', '2024-03-15', 4000),
+  { ...transfer('tx-6', '2024-03-20', 900), savings_goal_id: 'goal-2' },
+];
+
+const goal = { id: 'goal-1', target_amount: 10000, current_amount: 8500, target_date: '2024-12-31' };
+
+describe('goalHistory', () => {
+  it('builds a daily timeline of contributions, withdrawals and balance', () => {
+    expect(getGoalTimeline('goal-1', transactions)).toEqual([
+      { date: '2024-01-15', contributions: 3000, withdrawals: 0, interest: 0, balance: 3000 },
+      { date: '2024-02-15', contributions: 3500, withdrawals: 0, interest: 0, balance: 6500 },
+      { date: '2024-03-01', contributions: 0, withdrawals: 2000, interest: 0, balance: 4500 },
+      { date: '2024-03-15', contributions: 4000, withdrawals: 0, interest: 0, balance: 8500 },
+    ]);
+  });
+
+  it('marks when each milestone was first reached', () => {
+    expect(getGoalMilestones(goal, transactions)).toEqual([
+      { percent: 25, amount: 2500, reachedOn: '2024-01-15' },
+      { percent: 50, amount: 5000, reachedOn: '2024-02-15' },
+      { percent: 75, amount: 7500, reachedOn: '2024-03-15' },
+      { percent: 100, amount: 10000, reachedOn: null },
+    ]);
+  });
+
+  it('compares the recent pace with what the goal needs', () => {
+    expect(getGoalPace('goal-1', transactions, '2024-04-01')).toBe(2874.89);
+    expect(isGoalOffTrack(goal, transactions, '2024-04-01')).toBe(false);
+    expect(isGoalOffTrack({ ...goal, target_date: '2024-05-01' }, transactions, '2024-04-01')).toBe(false);
+    expect(isGoalOffTrack(goal, transactions, '2024-09-01')).toBe(true);
+    expect(isGoalOffTrack({ ...goal, current_amount: 10000 }, transactions, '2025-01-15')).toBe(false);
+  });
+
+  it('keeps withdrawals within what the goal holds', () => {
+    expect(validateGoalWithdrawal(goal, 8500)).toBeNull();
+    expect(validateGoalWithdrawal(goal, 9000)).toMatch(/more than the goal holds/);
+    expect(validateGoalWithdrawal(goal, 0)).toMatch(/greater than 0/);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDueInterest,
+  getInterestStart,
+  getMonthlyRate,
+  getPostingDates,
+  getRequiredContributionWithInterest,
+  projectGoalBalance,
+} from '../goalInterest';
+import type { Transaction } from '@/types';
+
+const deposit = (date: string, amount: number): Transaction => ({
+  id: `tx-${date}`,
+  amount,
+  type: 'transfer',
+  category_id: null,
+  account_id: 'acc-1',
+  savings_goal_id: 'goal-1',
+  description: 'Deposit',
+  date,
+});
+
+describe('goalInterest', () => {
+  it('posts at the end of each month, quarter or year', () => {
+    expect(getPostingDates('monthly', '2024-01-15', '2024-04-10')).toEqual(['2024-01-31', '2024-02-29', '2024-03-31']);
+    expect(getPostingDates('daily', '2024-01-31', '2024-02-29')).toEqual(['2024-02-29']);
+    expect(getPostingDates('quarterly', '2024-02-10', '2024-10-01')).toEqual(['2024-03-31', '2024-06-30', '2024-09-30']);
+    expect(getPostingDates('annually', '2024-12-31', '2025-12-30')).toEqual([]);
+  });
+
+  it('converts annual rates to monthly growth', () => {
+    expect(getMonthlyRate(12, 'monthly')).toBeCloseTo(0.01, 10);
+    expect(getMonthlyRate(12, 'annually')).toBeCloseTo(0.009489, 6);
+  });
+
+  it('earns interest on the balance each period started with', () => {
+    const goal = { id: 'goal-1', interest_rate: 6, compounding_frequency: 'monthly' as const, interest_posted_through: null };
+    const transactions = [deposit('2024-01-10', 10000), deposit('2024-02-15', 5000)];
+
+    expect(getDueInterest(goal, transactions, '2024-03-05')).toEqual({
+      postings: [{ date: '2024-02-29', amount: 50 }],
+      postedThrough: '2024-02-29',
+    });
+    expect(getDueInterest({ ...goal, interest_posted_through: '2024-02-29' }, transactions, '2024-03-31').postings)
+      .toEqual([{ date: '2024-03-31', amount: 75 }]);
+    expect(getDueInterest({ ...goal, interest_rate: null }, transactions, '2024-03-31').postings).toEqual([]);
+  });
+
+  it('starts earning from the day a rate is turned on, not from the first deposit', () => {
+    const transactions = [deposit('2023-01-10', 10000)];
+    const postedThrough = getInterestStart(null, 6, '2024-03-05');
+    const goal = { id: 'goal-1', interest_rate: 6, compounding_frequency: 'monthly' as const, interest_posted_through: postedThrough };
+
+    expect(postedThrough).toBe('2024-03-05');
+    expect(getDueInterest(goal, transactions, '2024-03-20').postings).toEqual([]);
+    expect(getDueInterest(goal, transactions, '2024-03-31').postings).toHaveLength(1);
+    expect(getInterestStart(4, 6, '2024-03-05')).toBeUndefined();
+    expect(getInterestStart(6, 0, '2024-03-05')).toBeUndefined();
+  });
+
+  it('projects balances with and without interest', () => {
+    const points = projectGoalBalance(1000, 100, 12, 'monthly', 2, '2024-01-01');
+    expect(points).toEqual([
+      { month: '2024-01-01', saved: 1000, balance: 1000 },
+      { month: '2024-02-01', saved: 1100, balance: 1110 },
+      { month: '2024-03-01', saved: 1200, balance: 1221.1 },
+    ]);
+  });
+
+  it('needs less each month when the goal earns interest', () => {
+    const goal = { target_amount: 12000, current_amount: 0, target_date: '2025-01-01', compounding_frequency: 'monthly' as const };
+    const withoutInterest = getRequiredContributionWithInterest({ ...goal, interest_rate: null }, '2024-01-01');
+    const withInterest = getRequiredContributionWithInterest({ ...goal, interest_rate: 5 }, '2024-01-01');
+
+    expect(withoutInterest).toBe(998.03);
+    expect(withInterest).toBeLessThan(withoutInterest);
+    expect(withInterest).toBeGreaterThan(970);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { allocateSurplus, getAverageMonthlySurplus, getMonthlySavingsNeeded, simulateWaterfall, sortGoalsByPriority } from '../goalWaterfall';
+import type { WaterfallGoal } from '../goalWaterfall';
+
+const goals: WaterfallGoal[] = [
+  { id: 'emergency', name: 'Emergency fund', target_date: '2024-06-30', remaining: 3000, monthlyNeeded: 600 },
+  { id: 'tuition', name: 'Tuition', target_date: '2024-12-31', remaining: 6000, monthlyNeeded: 500 },
+  { id: 'travel', name: 'Travel', target_date: '2025-12-31', remaining: 2000, monthlyNeeded: 100 },
+];
+
+describe('goalWaterfall', () => {
+  it('fills each goal by priority, then gives the rest to the top goal', () => {
+    expect(allocateSurplus(goals, 1000, 'strict')).toEqual([600, 400, 0]);
+    expect(allocateSurplus(goals, 1500, 'strict')).toEqual([900, 500, 100]);
+  });
+
+  it('shares surplus by monthly need, redistributing from funded goals', () => {
+    expect(allocateSurplus(goals, 600, 'proportional')).toEqual([300, 250, 50]);
+    expect(allocateSurplus([{ remaining: 100, monthlyNeeded: 100 }, { remaining: 5000, monthlyNeeded: 100 }], 1000, 'proportional'))
+      .toEqual([100, 900]);
+  });
+
+  it('gives every goal its minimum before following priority', () => {
+    expect(allocateSurplus(goals, 1000, 'minimum', 200)).toEqual([600, 200, 200]);
+  });
+
+  it('projects when each goal completes and whether it is on track', () => {
+    const { projections, unallocated } = simulateWaterfall(goals, 1200, 'strict', 0, '2024-01-01');
+    expect(projections.map(p => p.completionMonth)).toEqual(['2024-05-01', '2024-09-01', '2024-10-01']);
+    expect(projections.map(p => p.onTrack)).toEqual([true, true, true]);
+    expect(unallocated).toBe(0);
+
+    const slow = simulateWaterfall(goals, 500, 'strict', 0, '2024-01-01');
+    expect(slow.projections[0].onTrack).toBe(true);
+    expect(slow.projections[1].onTrack).toBe(false);
+  });
+
+  it('orders ranked goals first and works out monthly needs like the progress view', () => {
+    const ordered = sortGoalsByPriority([
+      { id: 'a', priority: null, created_at: '2024-01-01' },
+      { id: 'b', priority: 2, created_at: '2024-01-02' },
+      { id: 'c', priority: 1, created_at: '2024-01-03' },
+    ]);
+    expect(ordered.map(goal => goal.id)).toEqual(['c', 'b', 'a']);
+    expect(getMonthlySavingsNeeded({ target_amount: 1000, current_amount: 400, target_date: '2024-07-01' }, '2024-01-01')).toBe(100.35);
+    expect(getMonthlySavingsNeeded({ target_amount: 1000, current_amount: 400, target_date: '2023-12-01' }, '2024-01-01')).toBe(0);
+  });
+
+  it('averages income minus expenses over full months', () => {
+    const transactions = [
+      { type: 'income' as const, date: '2024-01-15', amount: 3000 },
+      { type: 'expense' as const, date: '2024-02-10', amount: 1500 },
+      { type: 'transfer' as const, date: '2024-02-11', amount: 700 },
+      { type: 'income' as const, date: '2024-04-02', amount: 9000 },
+    ];
+    expect(getAverageMonthlySurplus(transactions, 3, '2024-04-10')).toBe(500);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { canEditShared, getBudgetTransactions, getMemberName } from '../households';
+import type { Transaction } from '@/types';
+
+const transactions: Transaction[] = [
+  { id: 'tx-1', amount: 40, type: 'expense', category_id: 'cat-food', account_id: 'acc-joint', description: 'Groceries', date: '2024-03-02', user_id: 'user-a', household_id: 'home' },
+  { id: 'tx-2', amount: 25, type: 'expense', category_id: 'cat-food', account_id: 'acc-joint', description: 'Market', date: '2024-03-03', user_id: 'user-b', household_id: 'home' },
+  { id: 'tx-3', amount: 12, type: 'expense', category_id: 'cat-food', account_id: 'acc-mine', description: 'Lunch', date: '2024-03-04', user_id: 'user-a', household_id: null },
+  { id: 'tx-4', amount: 60, type: 'expense', category_id: 'cat-food', account_id: 'acc-theirs', description: 'Dinner', date: '2024-03-05', user_id: 'user-b', household_id: null },
+];
+
+describe('households', () => {
+  it('counts every member for shared budgets and only the user for personal ones', () => {
+    expect(getBudgetTransactions({ household_id: 'home' }, transactions, 'user-a').map(t => t.id)).toEqual(['tx-1', 'tx-2']);
+    expect(getBudgetTransactions({ household_id: null }, transactions, 'user-a').map(t => t.id)).toEqual(['tx-1', 'tx-3']);
+  });
+
+  it('lets owners and editors change shared items', () => {
+    expect(canEditShared('owner')).toBe(true);
+    expect(canEditShared('editor')).toBe(true);
+    expect(canEditShared('viewer')).toBe(false);
+    expect(canEditShared(null)).toBe(false);
+  });
+
+  it('names members by full name, then email', () => {
+    const members = [
+      { user_id: 'user-a', full_name: 'Sam', email: 'sam@example.com' },
+      { user_id: 'user-b', full_name: null, email: 'alex@example.com' },
+    ];
+    expect(getMemberName(members, 'user-a')).toBe('Sam');
+    expect(getMemberName(members, 'user-b')).toBe('alex@example.com');
+    expect(getMemberName(members, 'user-c')).toBe('Household member');
+  });
+});
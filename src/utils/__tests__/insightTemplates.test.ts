@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import type { Budget, Category, Transaction } from '@/types';
+import type { InsightTemplate } from '@/types/insights';
+import {
+  BUILT_IN_INSIGHT_TEMPLATES,
+  evaluateInsightTemplates,
+  getActiveTemplates,
+  getInsightPeriod,
+  getTemplateScope,
+  interpolateTemplate,
+  meetsCondition,
+  validateInsightTemplate,
+} from '../insightTemplates';
+
+const transaction = (date: string, amount: number, overrides: Partial<Transaction> = {}): Transaction => ({
+  id: `${date}-${amount}-${overrides.category_id || ''}`,
+  user_id: 'user-1',
+  account_id: 'acc-1',
+  amount,
+  type: 'expense',
+  description: 'expense',
+  category_id: 'food',
+  date,
+  ...overrides,
+});
+
+const categories: Category[] = [
+  { id: 'food', name: 'Food', icon: 'utensils', color: '#f00', type: 'expense' },
+  { id: 'rent', name: 'Rent', icon: 'home', color: '#0f0', type: 'expense' },
+];
+
+const budget: Budget = { id: 'budget-1', user_id: 'user-1', category_id: 'food', amount: 400, period: 'monthly', start_date: '2025-01-01' };
+
+const custom = (overrides: Partial<InsightTemplate> = {}): InsightTemplate => ({
+  id: 'custom-1',
+  name: 'Custom',
+  type: 'monthly',
+  title_template: 'Title',
+  content_template: 'Content',
+  priority: 'medium',
+  conditions: [{ field: 'spending', operator: 'gt', value: 0 }],
+  ...overrides,
+});
+
+describe('insightTemplates', () => {
+  it('looks at the day, the week from Sunday or the calendar month', () => {
+    expect(getInsightPeriod('daily', '2025-03-01')).toEqual({
+      start: '2025-03-01', end: '2025-03-01', previousStart: '2025-02-28', previousEnd: '2025-02-28',
+    });
+    // 2025-04-16 is a Wednesday
+    expect(getInsightPeriod('weekly', '2025-04-16')).toEqual({
+      start: '2025-04-13', end: '2025-04-19', previousStart: '2025-04-06', previousEnd: '2025-04-12',
+    });
+    expect(getInsightPeriod('threshold_alert', '2025-03-15')).toEqual({
+      start: '2025-03-01', end: '2025-03-31', previousStart: '2025-02-01', previousEnd: '2025-02-28',
+    });
+  });
+
+  it('checks operators and holds percentage conditions back until the base reaches the threshold', () => {
+    const metrics = { spending: 5, previous_spending: 2, spending_increase: 150 };
+    expect(meetsCondition({ field: 'spending', operator: 'between', value: [5, 10] }, metrics)).toBe(true);
+    expect(meetsCondition({ field: 'spending', operator: 'eq', value: 5 }, metrics)).toBe(true);
+    expect(meetsCondition({ field: 'spending', operator: 'lt', value: 5 }, metrics)).toBe(false);
+    expect(meetsCondition({ field: 'spending_increase', operator: 'gt', value: 50 }, metrics)).toBe(true);
+    expect(meetsCondition({ field: 'spending_increase', operator: 'gt', value: 50, threshold: 20 }, metrics)).toBe(false);
+    expect(meetsCondition({ field: 'budget_spent', operator: 'gt', value: 0 }, metrics)).toBe(false);
+  });
+
+  it('fills in metrics and names, and leaves unknown placeholders alone', () => {
+    const subject = { name: 'Food', metrics: { category_spending: 123.4, category_share: 41.26, transaction_count: 3 } };
+    expect(interpolateTemplate('{{category}}: {{ category_spending }}, {{category_share}} over {{transaction_count}} {{nope}}', subject))
+      .toBe('Food: $123.40, 41.3% over 3 {{nope}}');
+  });
+
+  it('works out each template\'s scope from its conditions and placeholders', () => {
+    expect(getTemplateScope(custom())).toBe('overall');
+    expect(getTemplateScope(custom({ title_template: 'Watch {{category}}' }))).toBe('category');
+    expect(getTemplateScope(custom({ conditions: [{ field: 'budget_remaining', operator: 'lt', value: 50 }] }))).toBe('budget');
+  });
+
+  it('evaluates the built-in monthly templates per period and per category', () => {
+    const transactions = [
+      transaction('2025-03-02', 1000, { type: 'income', category_id: null }),
+      transaction('2025-03-05', 700, { category_id: 'rent' }),
+      transaction('2025-03-10', 260),
+      transaction('2025-03-12', 500, { type: 'transfer', category_id: null }),
+      transaction('2025-02-10', 300),
+    ];
+
+    const insights = evaluateInsightTemplates(BUILT_IN_INSIGHT_TEMPLATES, 'monthly', { transactions, categories }, '2025-03-20');
+
+    expect(insights.map(insight => insight.title)).toEqual([
+      'Monthly Financial Review',
+      'Rent Leads Your Spending',
+    ]);
+    expect(insights[0]).toMatchObject({
+      content: 'This month you spent $960.00 and earned $1000.00. Your savings rate is 4.0%.',
+      priority: 'high',
+      period_start: '2025-03-01',
+      period_end: '2025-03-31',
+      generation_trigger: 'scheduled',
+    });
+    expect(insights[1].content).toBe('Rent made up 72.9% of your spending this month ($700.00 of $960.00).');
+  });
+
+  it('gives one daily update, saying whether spending went up or down', () => {
+    const daily = (transactions: Transaction[]) =>
+      evaluateInsightTemplates(BUILT_IN_INSIGHT_TEMPLATES, 'daily', { transactions, categories }, '2025-03-20');
+
+    const spike = daily([transaction('2025-03-19', 40), transaction('2025-03-20', 100)]);
+    expect(spike).toHaveLength(1);
+    expect(spike[0]).toMatchObject({
+      title: 'Daily Spending Update',
+      content: 'Today you spent $100.00 across 1 transactions. This is 150.0% more than yesterday.',
+      priority: 'high',
+    });
+
+    expect(daily([transaction('2025-03-19', 80), transaction('2025-03-20', 100)]).map(insight => insight.priority))
+      .toEqual(['medium']);
+    expect(daily([transaction('2025-03-19', 100), transaction('2025-03-20', 60)]).map(insight => insight.content))
+      .toEqual(['Today you spent $60.00 across 1 transactions. This is 40.0% less than yesterday.']);
+    expect(daily([transaction('2025-03-20', 60)]).map(insight => insight.content))
+      .toEqual(['Today you spent $60.00 across 1 transactions. This is about the same as yesterday.']);
+  });
+
+  it('alerts on budgets close to or over their limit', () => {
+    const data = { transactions: [transaction('2025-03-05', 380)], categories, budgets: [budget], budget_periods: [] };
+
+    const [nearly] = evaluateInsightTemplates(BUILT_IN_INSIGHT_TEMPLATES, 'threshold_alert', data, '2025-03-20');
+    expect(nearly).toMatchObject({
+      title: 'Budget Alert: Food',
+      content: 'You\'ve used 95.0% of your Food budget ($380.00 of $400.00).',
+      priority: 'medium',
+      generation_trigger: 'threshold',
+    });
+
+    const over = evaluateInsightTemplates(
+      BUILT_IN_INSIGHT_TEMPLATES,
+      'threshold_alert',
+      { ...data, transactions: [transaction('2025-03-05', 450)] },
+      '2025-03-20'
+    );
+    expect(over.map(insight => insight.priority)).toEqual(['high']);
+  });
+
+  it('skips switched-off built-ins and disabled custom templates', () => {
+    const active = getActiveTemplates(
+      [custom(), custom({ id: 'custom-2', is_enabled: false })],
+      ['daily-spending', 'budget-over']
+    ).map(template => template.id);
+
+    expect(active).toContain('custom-1');
+    expect(active).not.toContain('custom-2');
+    expect(active).not.toContain('daily-spending');
+    expect(active).not.toContain('budget-over');
+    expect(active).toContain('budget-alert');
+  });
+
+  it('rejects templates that cannot be evaluated', () => {
+    expect(validateInsightTemplate(custom())).toBeNull();
+    BUILT_IN_INSIGHT_TEMPLATES.forEach(template => expect(validateInsightTemplate(template)).toBeNull());
+    expect(validateInsightTemplate(custom({ conditions: [] }))).toBe('Add at least one condition');
+    expect(validateInsightTemplate(custom({ conditions: [{ field: 'spending', operator: 'between', value: [10, 5] }] })))
+      .toBe('Spending range is the wrong way round');
+    expect(validateInsightTemplate(custom({ content_template: 'You spent {{spend}}' }))).toBe('Unknown placeholder {{spend}}');
+    expect(validateInsightTemplate(custom({ title_template: '{{category}}', content_template: '{{budget_spent}}' })))
+      .toBe('A template can look at categories or budgets, not both');
+  });
+});
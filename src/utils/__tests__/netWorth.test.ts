@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { getGoalHoldings, getLatestValuation, getNetWorth, getNetWorthChange, getNetWorthHistory } from '../netWorth';
+import type { SavingsGoal } from '@/types';
+
+const items = [
+  { id: 'house', kind: 'asset' as const, is_archived: false },
+  { id: 'car-loan', kind: 'liability' as const, is_archived: false },
+  { id: 'old-car', kind: 'asset' as const, is_archived: true },
+];
+
+const valuations = [
+  { item_id: 'house', valued_on: '2024-01-01', value: 300000 },
+  { item_id: 'house', valued_on: '2024-06-01', value: 320000 },
+  { item_id: 'car-loan', valued_on: '2024-03-01', value: 15000 },
+  { item_id: 'old-car', valued_on: '2024-01-01', value: 5000 },
+];
+
+describe('netWorth', () => {
+  it('uses the latest valuation on or before the date', () => {
+    expect(getLatestValuation('house', valuations, '2024-05-31')).toBe(300000);
+    expect(getLatestValuation('house', valuations, '2024-06-01')).toBe(320000);
+    expect(getLatestValuation('car-loan', valuations, '2024-02-01')).toBeNull();
+  });
+
+  it('adds account balances and valued items, leaving archived items out', () => {
+    expect(getNetWorth([{ balance: 12000 }, { balance: -3000 }], [], items, valuations, '2024-07-01')).toEqual({
+      assets: 332000,
+      liabilities: 18000,
+      netWorth: 314000,
+    });
+  });
+
+  it('counts savings goal balances so contributions leave net worth unchanged', () => {
+    const goal: SavingsGoal = {
+      id: 'goal-1',
+      user_id: 'user-1',
+      name: 'Emergency fund',
+      target_amount: 10000,
+      current_amount: 2050,
+      target_date: '2024-12-31',
+      savings_percentage_threshold: 20,
+      salary_date_1: 15,
+      salary_date_2: 30,
+    };
+    // 2,000 moved out of the bank into the goal, which has since earned 50 interest
+    const holdings = getGoalHoldings([goal]);
+
+    expect(holdings.map(holding => holding.balance)).toEqual([2050]);
+    expect(getNetWorth([{ balance: 8000 }], holdings, [], [], '2024-07-01').netWorth).toBe(10050);
+  });
+
+  it('builds monthly history with the live current month', () => {
+    const history = getNetWorthHistory(
+      [
+        { month: '2024-06-01', assets: 330000, liabilities: 20000 },
+        { month: '2024-05-01', assets: 310000, liabilities: 20000 },
+        { month: '2024-07-01', assets: 1, liabilities: 1 },
+      ],
+      { assets: 332000, liabilities: 18000, netWorth: 314000 },
+      '2024-07-01'
+    );
+
+    expect(history.map(point => [point.month, point.netWorth])).toEqual([
+      ['2024-05-01', 290000],
+      ['2024-06-01', 310000],
+      ['2024-07-01', 314000],
+    ]);
+    expect(getNetWorthChange(history)).toBe(1.3);
+    expect(getNetWorthChange(history.slice(0, 1))).toBe(0);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { cleanPayeeAliases, findPayeeForDescription, normalizePayeeName } from '../payees';
+import type { Payee } from '@/types';
+
+const payee = (id: string, name: string, aliases: string[] = []): Payee => ({ id, user_id: 'user-1', name, aliases });
+
+describe('payees', () => {
+  it('normalizes raw descriptions into merchant names', () => {
+    expect(normalizePayeeName('POS PURCHASE JOLLIBEE KATIPUNAN #1234')).toBe('Jollibee Katipunan');
+    expect(normalizePayeeName('GRAB*FOOD 88213 MANILA PH')).toBe('Grab Food Manila');
+    expect(normalizePayeeName('12345 REF 998')).toBe('');
+  });
+
+  it('cleans aliases', () => {
+    expect(cleanPayeeAliases('Jollibee', [' JFC ', '', 'jollibee', 'jfc', 'Jollibee Foods'])).toEqual(['JFC', 'Jollibee Foods']);
+  });
+
+  it('matches descriptions by name or alias, preferring the longest match', () => {
+    const payees = [payee('p-1', 'Grab'), payee('p-2', 'Grab Food'), payee('p-3', 'Meralco', ['MERALCO ONLINE', 'MECO'])];
+
+    expect(findPayeeForDescription('GRAB FOOD ORDER 123', payees)?.id).toBe('p-2');
+    expect(findPayeeForDescription('Grab ride to office', payees)?.id).toBe('p-1');
+    expect(findPayeeForDescription('meco bill march', payees)?.id).toBe('p-3');
+    expect(findPayeeForDescription('Rent', payees)).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { getNextOccurrence, getOccurrences, getUpcomingOccurrences } from '../recurrence';
+import type { RecurringTransaction } from '@/types';
+
+const template = (overrides: Partial<RecurringTransaction> = {}): RecurringTransaction => ({
+  id: 'rec-1',
+  user_id: 'user-1',
+  amount: 15000,
+  type: 'expense',
+  category_id: 'cat-rent',
+  account_id: 'acc-bank',
+  description: 'Rent',
+  frequency: 'monthly',
+  start_date: '2024-01-31',
+  auto_post: true,
+  is_active: true,
+  ...overrides,
+});
+
+describe('recurrence', () => {
+  it('posts twice a month on the 15th and 30th, falling back to the last day of February', () => {
+    const rule = template({ frequency: 'bi_monthly', start_date: '2024-01-01', day_of_month_1: 15, day_of_month_2: 30 });
+
+    expect(getOccurrences(rule, '2024-01-01', '2024-03-31')).toEqual([
+      '2024-01-15', '2024-01-30',
+      '2024-02-15', '2024-02-29',
+      '2024-03-15', '2024-03-30',
+    ]);
+  });
+
+  it('clamps monthly occurrences to the end of shorter months', () => {
+    expect(getOccurrences(template(), '2024-01-01', '2024-04-30')).toEqual([
+      '2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30',
+    ]);
+  });
+
+  it('keeps weekly occurrences on the start date weekday', () => {
+    const rule = template({ frequency: 'weekly', start_date: '2024-03-04' });
+
+    expect(getOccurrences(rule, '2024-03-06', '2024-03-25')).toEqual(['2024-03-11', '2024-03-18', '2024-03-25']);
+  });
+
+  it('repeats yearly on the start month and day', () => {
+    const rule = template({ frequency: 'yearly', start_date: '2023-06-10' });
+
+    expect(getOccurrences(rule, '2023-01-01', '2025-12-31')).toEqual(['2023-06-10', '2024-06-10', '2025-06-10']);
+  });
+
+  it('stops at the end date', () => {
+    const rule = template({ frequency: 'daily', start_date: '2024-03-01', end_date: '2024-03-03' });
+
+    expect(getOccurrences(rule, '2024-02-01', '2024-03-31')).toEqual(['2024-03-01', '2024-03-02', '2024-03-03']);
+    expect(getNextOccurrence(rule, '2024-03-04')).toBeNull();
+  });
+
+  it('finds the next occurrence on or after a date', () => {
+    expect(getNextOccurrence(template(), '2024-02-01')).toBe('2024-02-29');
+    expect(getNextOccurrence(template(), '2024-01-31')).toBe('2024-01-31');
+  });
+
+  it('lists upcoming occurrences that have not been posted or skipped', () => {
+    const rule = template({ start_date: '2024-01-15', last_generated_date: '2024-02-15', auto_post: false });
+
+    const upcoming = getUpcomingOccurrences(
+      [rule, template({ id: 'rec-2', is_active: false })],
+      [{ recurring_transaction_id: 'rec-1', occurrence_date: '2024-03-15' }],
+      '2024-03-20',
+      60
+    );
+
+    expect(upcoming.map(o => [o.date, o.isDue])).toEqual([
+      ['2024-04-15', false],
+      ['2024-05-15', false],
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { groupSpending } from '../spendingGroups';
+import { normalizeTagName, parseTagList, withTagIds } from '../tags';
+
+const lookups = {
+  categories: [
+    { id: 'cat-food', name: 'Food', color: '#ef4444' },
+    { id: 'cat-travel', name: 'Travel', color: '#3b82f6' },
+  ],
+  payees: [{ id: 'p-1', name: 'Jollibee' }],
+  tags: [
+    { id: 't-1', name: 'vacation-2026', color: '#10b981' },
+    { id: 't-2', name: 'work', color: '#f59e0b' },
+  ],
+};
+
+const transactions = [
+  { amount: 300, category_id: 'cat-food', payee_id: 'p-1', tag_ids: ['t-1'] },
+  { amount: 1000, category_id: 'cat-travel', payee_id: null, tag_ids: ['t-1', 't-2'] },
+  {
+    amount: 500,
+    category_id: 'cat-food',
+    payee_id: 'p-1',
+    tag_ids: [],
+    splits: [
+      { id: 's-1', transaction_id: 'tx-3', category_id: 'cat-food', amount: 200 },
+      { id: 's-2', transaction_id: 'tx-3', category_id: 'cat-travel', amount: 300 },
+    ],
+  },
+];
+
+describe('tags', () => {
+  it('normalizes tag names', () => {
+    expect(normalizeTagName('  #Vacation 2026! ')).toBe('vacation-2026');
+    expect(normalizeTagName('--')).toBe('');
+    expect(parseTagList('#work, Food Trip, work, ,')).toEqual(['work', 'food-trip']);
+  });
+
+  it('flattens embedded tag links', () => {
+    expect(withTagIds({ id: 'tx-1', transaction_tags: [{ tag_id: 't-1' }, { tag_id: 't-2' }] }))
+      .toEqual({ id: 'tx-1', tag_ids: ['t-1', 't-2'] });
+    expect(withTagIds({ id: 'tx-2', transaction_tags: null })).toEqual({ id: 'tx-2', tag_ids: [] });
+  });
+});
+
+describe('groupSpending', () => {
+  it('groups by category with split lines counted separately', () => {
+    expect(groupSpending(transactions, 'category', lookups).map(g => [g.name, g.amount])).toEqual([
+      ['Travel', 1300],
+      ['Food', 500],
+    ]);
+  });
+
+  it('groups by payee with unassigned spending together', () => {
+    expect(groupSpending(transactions, 'payee', lookups).map(g => [g.name, g.amount, g.count])).toEqual([
+      ['No payee', 1000, 1],
+      ['Jollibee', 800, 2],
+    ]);
+  });
+
+  it('counts a transaction under each of its tags', () => {
+    expect(groupSpending(transactions, 'tag', lookups).map(g => [g.name, g.amount])).toEqual([
+      ['#vacation-2026', 1300],
+      ['#work', 1000],
+      ['Untagged', 500],
+    ]);
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildImportPreview,
+  detectStatementFormat,
+  flagImportDuplicates,
+  mapCsvRows,
+  parseCsv,
+  parseOfx,
+  parseQif,
+  parseStatementAmount,
+  parseStatementDate,
+  suggestCsvMapping,
+} from '../statementImport';
+import type { Category, Transaction } from '@/types';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {},
+}));
+
+const categories: Category[] = [
+  { id: 'cat-food', name: 'Food & Dining', icon: 'Utensils', color: '#f00', type: 'expense' },
+  { id: 'cat-salary', name: 'Salary/Wages', icon: 'Briefcase', color: '#0f0', type: 'income' },
+];
+
+describe('statementImport', () => {
+  describe('detectStatementFormat', () => {
+    it('uses the file extension when available', () => {
+      expect(detectStatementFormat('march.qfx', '')).toBe('ofx');
+      expect(detectStatementFormat('march.qif', '')).toBe('qif');
+      expect(detectStatementFormat('march.csv', '')).toBe('csv');
+    });
+
+    it('falls back to content sniffing', () => {
+      expect(detectStatementFormat('export', 'OFXHEADER:100\n<OFX>')).toBe('ofx');
+      expect(detectStatementFormat('export', '!Type:Bank\nD01/01/2024')).toBe('qif');
+    });
+  });
+
+  describe('parseStatementAmount', () => {
+    it('handles currency symbols, separators and accounting negatives', () => {
+      expect(parseStatementAmount('₱1,234.50')).toBe(1234.5);
+      expect(parseStatementAmount('(45.00)')).toBe(-45);
+      expect(parseStatementAmount('-12')).toBe(-12);
+      expect(parseStatementAmount('')).toBeNaN();
+    });
+  });
+
+  describe('parseStatementDate', () => {
+    it('parses the supported formats', () => {
+      expect(parseStatementDate('2024-03-05', 'YYYY-MM-DD')).toBe('2024-03-05');
+      expect(parseStatementDate('03/05/2024', 'MM/DD/YYYY')).toBe('2024-03-05');
+      expect(parseStatementDate('05/03/24', 'DD/MM/YYYY')).toBe('2024-03-05');
+    });
+
+    it('rejects impossible dates', () => {
+      expect(parseStatementDate('2024-02-31', 'YYYY-MM-DD')).toBe('');
+    });
+  });
+
+  describe('CSV', () => {
+    const csv = 'Date,Description,Amount,Category\n2024-03-01,"Grocery, weekly",-1500.25,Food & Dining\n2024-03-15,Payroll,25000,Salary\n';
+
+    it('parses quoted fields', () => {
+      const table = parseCsv(csv);
+      expect(table.headers).toEqual(['Date', 'Description', 'Amount', 'Category']);
+      expect(table.rows[0][1]).toBe('Grocery, weekly');
+    });
+
+    it('maps rows using a suggested mapping', () => {
+      const table = parseCsv(csv);
+      const rows = mapCsvRows(table, suggestCsvMapping(table.headers));
+
+      expect(rows[0]).toMatchObject({
+        rowNumber: 2,
+        date: '2024-03-01',
+        description: 'Grocery, weekly',
+        amount: 1500.25,
+        type: 'expense',
+        categoryHint: 'Food & Dining',
+      });
+      expect(rows[1]).toMatchObject({ amount: 25000, type: 'income' });
+    });
+
+    it('supports separate debit and credit columns', () => {
+      const table = parseCsv('Date,Details,Debit,Credit\n2024-03-01,ATM,500,\n2024-03-02,Refund,,120\n');
+      const mapping = suggestCsvMapping(table.headers);
+      expect(mapping.debit).toBe('Debit');
+      expect(mapping.credit).toBe('Credit');
+
+      const rows = mapCsvRows(table, mapping);
+      expect(rows[0]).toMatchObject({ amount: 500, type: 'expense' });
+      expect(rows[1]).toMatchObject({ amount: 120, type: 'income' });
+    });
+  });
+
+  describe('parseOfx', () => {
+    it('reads SGML transactions without closing tags', () => {
+      const ofx = `<OFX><BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240310120000
+<TRNAMT>-89.90
+<FITID>abc123
+<NAME>Coffee Shop
+</STMTTRN>
+</BANKTRANLIST></OFX>`;
+
+      expect(parseOfx(ofx)).toEqual([
+        {
+          rowNumber: 1,
+          date: '2024-03-10',
+          description: 'Coffee Shop',
+          amount: 89.9,
+          type: 'expense',
+          externalId: 'abc123',
+        },
+      ]);
+    });
+  });
+
+  describe('parseQif', () => {
+    it('reads records and two-digit years', () => {
+      const qif = "!Type:Bank\nD3/7'24\nT-250.00\nPJollibee\nLFood & Dining:Fast food\n^\nD3/15/2024\nT30000\nPSalary\n^\n";
+      const rows = parseQif(qif);
+
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({
+        date: '2024-03-07',
+        description: 'Jollibee',
+        amount: 250,
+        type: 'expense',
+        categoryHint: 'Food & Dining',
+      });
+      expect(rows[1]).toMatchObject({ date: '2024-03-15', type: 'income' });
+    });
+  });
+
+  describe('buildImportPreview', () => {
+    it('matches categories by hint and reports validation errors', () => {
+      const preview = buildImportPreview(
+        [
+          { rowNumber: 1, date: '2024-03-01', description: 'Lunch', amount: 200, type: 'expense', categoryHint: 'food & dining' },
+          { rowNumber: 2, date: '', description: '', amount: 0, type: 'expense' },
+        ],
+        categories
+      );
+
+      expect(preview[0].category_id).toBe('cat-food');
+      expect(preview[0].errors).toEqual([]);
+      expect(preview[1].category_id).toBeNull();
+      expect(preview[1].errors).toEqual(
+        expect.arrayContaining(['Description is required', 'Amount must be positive', 'Date is required', 'Category is required'])
+      );
+    });
+  });
+
+  describe('flagImportDuplicates', () => {
+    it('defaults rows matching existing transactions to skip', () => {
+      const existing: Transaction[] = [
+        { id: 'tx-1', amount: 200, type: 'expense', category_id: 'cat-food', account_id: 'acc-1', description: 'POS Lunch Jollibee', date: '2024-03-02' },
+      ];
+      const preview = buildImportPreview(
+        [
+          { rowNumber: 1, date: '2024-03-01', description: 'Lunch Jollibee', amount: 200, type: 'expense' },
+          { rowNumber: 2, date: '2024-03-01', description: 'Lunch Jollibee', amount: 250, type: 'expense' },
+        ],
+        categories
+      );
+
+      const flagged = flagImportDuplicates(preview, existing);
+      expect(flagged[0].duplicate?.transaction.id).toBe('tx-1');
+      expect(flagged[0].resolution).toBe('skip');
+      expect(flagged[1].duplicate).toBeUndefined();
+    });
+
+    it('matches re-imported rows on their bank identifier', () => {
+      const existing: Transaction[] = [
+        { id: 'tx-1', amount: 89.9, type: 'expense', category_id: 'cat-food', account_id: 'acc-1', description: 'Coffee', date: '2024-03-10', external_id: 'abc123' },
+        { id: 'tx-2', amount: 89.9, type: 'expense', category_id: 'cat-food', account_id: 'acc-1', description: 'Coffee Shop', date: '2024-03-11', external_id: 'abc999' },
+      ];
+      const preview = buildImportPreview(
+        [
+          { rowNumber: 1, date: '2024-03-10', description: 'Coffee Shop', amount: 89.9, type: 'expense', externalId: 'abc123' },
+          { rowNumber: 2, date: '2024-03-11', description: 'Coffee Shop', amount: 89.9, type: 'expense', externalId: 'abc124' },
+        ],
+        categories
+      );
+
+      const flagged = flagImportDuplicates(preview, existing);
+      expect(flagged[0].duplicate?.transaction.id).toBe('tx-1');
+      expect(flagged[1].duplicate).toBeUndefined();
+    });
+
+    it('flags rows repeated within the same file', () => {
+      const preview = buildImportPreview(
+        [
+          { rowNumber: 1, date: '2024-03-01', description: 'POS Lunch Jollibee', amount: 200, type: 'expense' },
+          { rowNumber: 2, date: '2024-03-01', description: 'Lunch Jollibee', amount: 200, type: 'expense' },
+          { rowNumber: 3, date: '2024-03-05', description: 'Coffee', amount: 90, type: 'expense', externalId: 'f-1' },
+          { rowNumber: 4, date: '2024-03-05', description: 'Coffee', amount: 90, type: 'expense', externalId: 'f-2' },
+          { rowNumber: 5, date: '2024-03-05', description: 'Coffee', amount: 90, type: 'expense', externalId: 'f-1' },
+        ],
+        categories
+      );
+
+      const flagged = flagImportDuplicates(preview, []);
+      expect(flagged.map(row => row.duplicateOfRow)).toEqual([undefined, 1, undefined, undefined, 3]);
+      expect(flagged[1].resolution).toBe('skip');
+    });
+  });
+});
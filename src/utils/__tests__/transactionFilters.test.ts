@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  afterCursorFilter,
+  countActiveFilters,
+  escapeLikePattern,
+  getNextCursor,
+  parseTransactionFilters,
+  serializeTransactionFilters,
+} from '../transactionFilters';
+
+const CATEGORY_ID = '0b6f3c1e-7d2a-4c55-9a0e-2f1d8b9c4e7a';
+
+describe('transactionFilters', () => {
+  it('round-trips filters through the URL', () => {
+    const filters = {
+      dateFrom: '2024-03-01',
+      dateTo: '2024-03-31',
+      categoryId: CATEGORY_ID,
+      type: 'expense' as const,
+      minAmount: 100,
+      maxAmount: 2500.5,
+      currency: 'PHP',
+      search: 'jollibee',
+    };
+
+    const params = serializeTransactionFilters(filters);
+
+    expect(params.toString()).toBe(
+      `from=2024-03-01&to=2024-03-31&category=${CATEGORY_ID}&type=expense&min=100&max=2500.5&currency=PHP&q=jollibee`
+    );
+    expect(parseTransactionFilters(params)).toEqual(filters);
+  });
+
+  it('leaves out empty filters', () => {
+    expect(serializeTransactionFilters({ search: '', minAmount: 0 }).toString()).toBe('min=0');
+    expect(parseTransactionFilters(new URLSearchParams())).toEqual({});
+    expect(countActiveFilters({ type: 'income', search: undefined })).toBe(1);
+  });
+
+  it('drops malformed values', () => {
+    const params = new URLSearchParams('from=March&type=refund&min=-5&max=abc&category=x),id.gt.(0&currency=pesos&q=%20%20&payee=acme&tag=vacation');
+
+    expect(parseTransactionFilters(params)).toEqual({});
+  });
+
+  it('escapes LIKE wildcards in search text', () => {
+    expect(escapeLikePattern('50% off_sale')).toBe('50\\% off\\_sale');
+  });
+
+  it('pages on date and id until a short page comes back', () => {
+    const rows = [{ id: 'b', date: '2025-03-02' }, { id: 'a', date: '2025-03-01' }];
+    const cursor = getNextCursor(rows, 2);
+
+    expect(cursor).toEqual({ id: 'a', date: '2025-03-01' });
+    expect(afterCursorFilter(cursor!)).toBe('date.lt.2025-03-01,and(date.eq.2025-03-01,id.lt.a)');
+    expect(getNextCursor(rows, 3)).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { buildRestoreRows, getFieldChanges, getRestoreDeadline, getRetentionCutoff, isRestorable } from '../transactionHistory';
+
+const before = {
+  id: 'tx-1',
+  amount: 1250,
+  type: 'expense',
+  description: 'SM Supermarket',
+  date: '2025-03-01',
+  category_id: null,
+  account_id: 'acc-1',
+  payee_id: null,
+  updated_at: '2025-03-01T08:00:00Z',
+};
+
+describe('transactionHistory', () => {
+  it('lists only the tracked fields an update changed', () => {
+    const after = { ...before, amount: '1250.00', category_id: 'cat-groceries', payee_id: '', updated_at: '2025-03-02T09:00:00Z' };
+
+    expect(getFieldChanges({ before, after })).toEqual([
+      { field: 'category_id', label: 'Category', before: null, after: 'cat-groceries' },
+    ]);
+  });
+
+  it('treats every filled-in field as changed on insert and delete', () => {
+    const fields = getFieldChanges({ before: null, after: before }).map(change => change.field);
+
+    expect(fields).toEqual(['amount', 'type', 'description', 'date', 'account_id']);
+    expect(getFieldChanges({ before, after: null })).toHaveLength(5);
+  });
+
+  it('allows restoring deletes for 30 days', () => {
+    const deleted = { action: 'delete' as const, changed_at: '2025-03-01T00:00:00Z' };
+
+    expect(getRestoreDeadline(deleted).toISOString()).toBe('2025-03-31T00:00:00.000Z');
+    expect(isRestorable(deleted, new Date('2025-03-30T23:59:00Z'))).toBe(true);
+    expect(isRestorable(deleted, new Date('2025-03-31T00:00:01Z'))).toBe(false);
+    expect(isRestorable({ ...deleted, action: 'update' }, new Date('2025-03-02T00:00:00Z'))).toBe(false);
+    expect(getRetentionCutoff(new Date('2025-03-31T00:00:00Z'))).toBe('2025-03-01T00:00:00.000Z');
+  });
+
+  it('marks every row of an upsert restore as a restore', () => {
+    const snapshot = [{ ...before, change_source: null }, { ...before, id: 'tx-2', change_source: 'bulk' }];
+
+    expect(buildRestoreRows(snapshot)).toEqual([
+      { ...before, change_source: 'restore' },
+      { ...before, id: 'tx-2', change_source: 'restore' },
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { expandSplitLines, getPrimarySplitCategory, validateSplits } from '../transactionSplits';
+import type { Transaction } from '@/types';
+
+const groceries: Transaction = {
+  id: 'tx-1',
+  amount: 100,
+  type: 'expense',
+  category_id: 'cat-food',
+  account_id: 'acc-cash',
+  description: 'Supermarket',
+  date: '2024-03-16',
+  splits: [
+    { id: 'split-1', transaction_id: 'tx-1', category_id: 'cat-food', amount: 60 },
+    { id: 'split-2', transaction_id: 'tx-1', category_id: 'cat-household', amount: 25.5 },
+    { id: 'split-3', transaction_id: 'tx-1', category_id: 'cat-care', amount: 14.5 },
+  ],
+};
+
+const rent: Transaction = {
+  id: 'tx-2',
+  amount: 15000,
+  type: 'expense',
+  category_id: 'cat-rent',
+  account_id: 'acc-cash',
+  description: 'Rent',
+  date: '2024-03-01',
+};
+
+describe('transactionSplits', () => {
+  it('expands split transactions into one entry per line', () => {
+    const lines = expandSplitLines([groceries, rent]);
+
+    expect(lines.map(t => [t.id, t.category_id, t.amount])).toEqual([
+      ['tx-1', 'cat-food', 60],
+      ['tx-1', 'cat-household', 25.5],
+      ['tx-1', 'cat-care', 14.5],
+      ['tx-2', 'cat-rent', 15000],
+    ]);
+  });
+
+  it('accepts lines that add up to the parent amount', () => {
+    expect(validateSplits(100, groceries.splits!)).toBeNull();
+    expect(validateSplits(0.3, [
+      { category_id: 'cat-a', amount: 0.1 },
+      { category_id: 'cat-b', amount: 0.2 },
+    ])).toBeNull();
+  });
+
+  it('rejects lines that do not add up', () => {
+    expect(validateSplits(100, [
+      { category_id: 'cat-food', amount: 60 },
+      { category_id: 'cat-household', amount: 30 },
+    ])).toMatch(/short by 10\.00/);
+    expect(validateSplits(50, [
+      { category_id: 'cat-food', amount: 60 },
+      { category_id: 'cat-household', amount: 30 },
+    ])).toMatch(/over by 40\.00/);
+  });
+
+  it('rejects incomplete lines', () => {
+    expect(validateSplits(100, [{ category_id: 'cat-food', amount: 100 }])).toMatch(/at least two/);
+    expect(validateSplits(100, [
+      { category_id: 'cat-food', amount: 100 },
+      { category_id: null, amount: 0 },
+    ])).toMatch(/category/);
+  });
+
+  it('uses the largest line as the primary category', () => {
+    expect(getPrimarySplitCategory(groceries.splits!)).toBe('cat-food');
+    expect(getPrimarySplitCategory([])).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { excludeTransfers, isTransfer, validateTransfer } from '../transfers';
+import type { Transaction } from '@/types';
+
+const transactions: Transaction[] = [
+  { id: 'tx-1', amount: 20000, type: 'income', category_id: 'cat-salary', account_id: 'acc-bank', description: 'Salary', date: '2024-03-15' },
+  { id: 'tx-2', amount: 5000, type: 'transfer', category_id: null, account_id: 'acc-bank', transfer_account_id: 'acc-cash', description: 'ATM withdrawal', date: '2024-03-16' },
+  { id: 'tx-3', amount: 800, type: 'expense', category_id: 'cat-food', account_id: 'acc-cash', description: 'Lunch', date: '2024-03-16' },
+];
+
+describe('transfers', () => {
+  it('excludes transfers from cash flow', () => {
+    expect(excludeTransfers(transactions).map(t => t.id)).toEqual(['tx-1', 'tx-3']);
+    expect(isTransfer(transactions[1])).toBe(true);
+  });
+
+  it('requires a destination account or savings goal', () => {
+    expect(validateTransfer({ account_id: 'acc-bank', transfer_account_id: null, savings_goal_id: null }))
+      .toBe('Please select a destination account or savings goal.');
+    expect(validateTransfer({ account_id: 'acc-bank', transfer_account_id: null, savings_goal_id: 'goal-1' })).toBeNull();
+    expect(validateTransfer({ account_id: 'acc-bank', transfer_account_id: 'acc-cash' })).toBeNull();
+  });
+
+  it('rejects transfers to the same account', () => {
+    expect(validateTransfer({ account_id: 'acc-bank', transfer_account_id: 'acc-bank' }))
+      .toBe('Source and destination accounts must be different.');
+  });
+});
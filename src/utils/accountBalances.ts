@@ -0,0 +1,71 @@
+// Per-account balance calculations
+import type { Account, AccountBalance, AccountType, Transaction } from '@/types';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  cash: 'Cash',
+  bank: 'Bank Account',
+  e_wallet: 'E-Wallet',
+  credit_card: 'Credit Card',
+  loan: 'Loan',
+};
+
+/**
+ * Credit cards and loans track money owed, so their balances are usually negative
+ */
+export const isLiabilityAccount = (type: AccountType): boolean => {
+  return type === 'credit_card' || type === 'loan';
+};
+
+/**
+ * Calculate the current balance of each account from its opening balance, transactions and transfers.
+ * Archived accounts are left out unless they still hold a balance.
+ */
+export const calculateAccountBalances = (accounts: Account[], transactions: Transaction[]): AccountBalance[] => {
+  const totals: Record<string, { income: number; expenses: number; transfers: number }> = {};
+  const totalsFor = (accountId: string) => {
+    if (!totals[accountId]) {
+      totals[accountId] = { income: 0, expenses: 0, transfers: 0 };
+    }
+    return totals[accountId];
+  };
+
+  transactions.forEach(transaction => {
+    // Interest a savings goal earns stays in the goal until it is withdrawn
+    if (transaction.goal_interest) return;
+
+    const source = totalsFor(transaction.account_id);
+    if (transaction.type === 'income') {
+      source.income += transaction.amount;
+    } else if (transaction.type === 'expense') {
+      source.expenses += transaction.amount;
+    } else {
+      // Transfers leave the source account and land in the destination account, if any.
+      // Goal withdrawals run the other way, back into the source account.
+      const amount = transaction.goal_withdrawal ? -transaction.amount : transaction.amount;
+      source.transfers -= amount;
+      if (transaction.transfer_account_id) {
+        totalsFor(transaction.transfer_account_id).transfers += amount;
+      }
+    }
+  });
+
+  return accounts
+    .map(account => {
+      const { income, expenses, transfers } = totals[account.id] || { income: 0, expenses: 0, transfers: 0 };
+      return {
+        account,
+        income,
+        expenses,
+        balance: Number(account.opening_balance) + income - expenses + transfers,
+      };
+    })
+    .filter(({ account, balance }) => !account.is_archived || Math.abs(balance) >= 0.01);
+};
+
+/**
+ * Limit transactions to the given account (as source or transfer destination), or return them all when no account is selected
+ */
+export const filterTransactionsByAccount = (transactions: Transaction[], accountId?: string | null): Transaction[] => {
+  if (!accountId) return transactions;
+  return transactions.filter(t => t.account_id === accountId || t.transfer_account_id === accountId);
+};
@@ -0,0 +1,75 @@
+// Budget alerts: which utilization thresholds a budget has newly crossed
+import type { BudgetUtilization } from './budgetPeriods';
+
+export const DEFAULT_BUDGET_ALERT_THRESHOLDS = [50, 80, 100, 120];
+
+// Highest threshold already alerted, keyed by budget and period so each period starts fresh
+export type BudgetAlertLevels = Record<string, number>;
+
+export interface BudgetAlert {
+  budgetId: string;
+  threshold: number;
+  percentage: number;
+  // Where the alert is tracked in the levels, and the level to go back to if it isn't shown
+  levelKey: string;
+  previousLevel: number;
+}
+
+const MAX_THRESHOLD = 500;
+
+const getLevelKey = (utilization: Pick<BudgetUtilization, 'budget' | 'window'>) => {
+  return `${utilization.budget.id}:${utilization.window.start}`;
+};
+
+/**
+ * Parse a comma-separated threshold list such as "50, 80, 100". Returns the sorted,
+ * de-duplicated percentages, or null when any entry is not a whole number from 1 to 500.
+ */
+export const parseBudgetAlertThresholds = (input: string): number[] | null => {
+  const parts = input.split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) return [];
+
+  const values = parts.map(Number);
+  if (values.some(value => !Number.isInteger(value) || value < 1 || value > MAX_THRESHOLD)) {
+    return null;
+  }
+  return [...new Set(values)].sort((a, b) => a - b);
+};
+
+/**
+ * Highest threshold a utilization percentage has reached, or 0 when it is below them all
+ */
+export const getCrossedThreshold = (percentage: number, thresholds: number[]): number => {
+  return thresholds.reduce((crossed, threshold) => (percentage >= threshold && threshold > crossed ? threshold : crossed), 0);
+};
+
+/**
+ * Compare current utilization with the levels already alerted. A budget that crossed
+ * several thresholds at once gets one alert for the highest. Levels drop when spending
+ * does (a deleted transaction, say) so crossing the line again alerts again.
+ */
+export const getBudgetAlerts = (
+  utilization: Pick<BudgetUtilization, 'budget' | 'window' | 'state' | 'percentage'>[],
+  thresholds: number[],
+  levels: BudgetAlertLevels
+): { alerts: BudgetAlert[]; levels: BudgetAlertLevels } => {
+  const alerts: BudgetAlert[] = [];
+  const nextLevels: BudgetAlertLevels = {};
+
+  utilization
+    .filter(item => item.state === 'active')
+    .forEach(item => {
+      const key = getLevelKey(item);
+      const crossed = getCrossedThreshold(item.percentage, thresholds);
+
+      const previousLevel = levels[key] ?? 0;
+
+      if (crossed > previousLevel) {
+        alerts.push({ budgetId: item.budget.id, threshold: crossed, percentage: item.percentage, levelKey: key, previousLevel });
+      }
+      // Levels of finished periods and deleted budgets are dropped here
+      nextLevels[key] = crossed;
+    });
+
+  return { alerts, levels: nextLevels };
+};
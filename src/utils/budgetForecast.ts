@@ -0,0 +1,182 @@
+// End-of-period spending forecasts for budgets and for total expenses
+import type { Budget, RecurringTransaction, Transaction } from '@/types';
+import { BudgetSchedule, BudgetUtilization, BudgetWindow, getBudgetPeriodIndex, getBudgetSpending, getBudgetWindow } from './budgetPeriods';
+import { addDaysToIsoDate, getOccurrences, getPendingStartDate } from './recurrence';
+
+// Past periods whose spending curve shapes the forecast
+export const FORECAST_HISTORY_PERIODS = 6;
+
+// Calendar months, for forecasting total expenses outside any budget
+export const MONTHLY_EXPENSE_SCHEDULE: BudgetSchedule = { period: 'monthly', start_date: '2000-01-01' };
+
+type ForecastTransaction = Pick<Transaction, 'type' | 'date' | 'category_id' | 'amount' | 'splits' | 'recurring_transaction_id'>;
+
+type ForecastRecurring = Pick<
+  RecurringTransaction,
+  'type' | 'category_id' | 'amount' | 'is_active' | 'frequency' | 'start_date' | 'end_date'
+  | 'day_of_month_1' | 'day_of_month_2' | 'last_generated_date'
+>;
+
+export interface SpendingForecast {
+  window: BudgetWindow;
+  elapsedDays: number;
+  totalDays: number;
+  spentToDate: number;
+  // Recurring expenses still to be posted before the period ends
+  upcomingRecurring: number;
+  // Most likely end-of-period spend, with a low and high estimate around it
+  projected: number;
+  low: number;
+  high: number;
+  // False when no earlier periods had spending, so only the pace to date is used
+  usesHistory: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const daysBetween = (start: string, end: string): number => {
+  return Math.round((Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / DAY_MS) + 1;
+};
+
+/**
+ * Forecast end-of-period spending for the period `today` falls in, from three sources:
+ * the pace of non-recurring spending so far, how much earlier periods spent after the
+ * same point, and recurring expenses still due. A null category covers every expense.
+ */
+export const forecastSpending = (
+  schedule: BudgetSchedule & Pick<Budget, 'category_id'>,
+  transactions: ForecastTransaction[],
+  recurring: ForecastRecurring[],
+  today: string
+): SpendingForecast => {
+  const index = Math.max(getBudgetPeriodIndex(schedule, today), 0);
+  const window = getBudgetWindow(schedule, index);
+  const asOf = today < window.start ? addDaysToIsoDate(window.start, -1) : today > window.end ? window.end : today;
+  const totalDays = daysBetween(window.start, window.end);
+  const elapsedDays = Math.max(daysBetween(window.start, asOf), 0);
+
+  // Posted recurring expenses are forecast from their schedule, not extrapolated as pace
+  const discretionary = transactions.filter(t => !t.recurring_transaction_id);
+  const spentToDate = elapsedDays > 0 ? getBudgetSpending(schedule, transactions, window.start, asOf) : 0;
+  const discretionaryToDate = elapsedDays > 0 ? getBudgetSpending(schedule, discretionary, window.start, asOf) : 0;
+
+  const upcomingRecurring = roundCents(
+    recurring
+      .filter(template => template.is_active && template.type === 'expense')
+      .filter(template => !schedule.category_id || template.category_id === schedule.category_id)
+      .reduce((sum, template) => {
+        const pendingStart = getPendingStartDate(template);
+        const next = addDaysToIsoDate(asOf, 1);
+        const from = pendingStart > next ? pendingStart : next;
+        return sum + getOccurrences(template, from, window.end).length * Number(template.amount);
+      }, 0)
+  );
+
+  const pace = elapsedDays > 0 ? (discretionaryToDate / elapsedDays) * totalDays : 0;
+
+  // Discretionary spending earlier periods did after the same number of days
+  const remainders: number[] = [];
+  for (let past = index - 1; past >= 0 && past >= index - FORECAST_HISTORY_PERIODS; past--) {
+    const pastWindow = getBudgetWindow(schedule, past);
+    const total = getBudgetSpending(schedule, discretionary, pastWindow.start, pastWindow.end);
+    if (total <= 0) continue;
+    const dayOffset = addDaysToIsoDate(pastWindow.start, elapsedDays - 1);
+    const cutoff = dayOffset < pastWindow.end ? dayOffset : pastWindow.end;
+    const byCutoff = elapsedDays > 0 ? getBudgetSpending(schedule, discretionary, pastWindow.start, cutoff) : 0;
+    remainders.push(Math.max(total - byCutoff, 0));
+  }
+
+  const usesHistory = remainders.length > 0;
+  let expected = pace;
+  let low = pace;
+  let high = pace;
+  if (usesHistory) {
+    const meanRemainder = remainders.reduce((sum, value) => sum + value, 0) / remainders.length;
+    const historical = discretionaryToDate + meanRemainder;
+    // Early in a period the pace rests on a few days, so history carries more weight
+    const paceWeight = elapsedDays / totalDays;
+    expected = elapsedDays > 0 ? pace * paceWeight + historical * (1 - paceWeight) : historical;
+    low = Math.min(expected, discretionaryToDate + Math.min(...remainders));
+    high = Math.max(expected, discretionaryToDate + Math.max(...remainders));
+  }
+
+  // What was spent on recurring expenses already is certain
+  const certain = spentToDate - discretionaryToDate + upcomingRecurring;
+
+  return {
+    window,
+    elapsedDays,
+    totalDays,
+    spentToDate,
+    upcomingRecurring,
+    projected: roundCents(Math.max(expected, discretionaryToDate) + certain),
+    low: roundCents(Math.max(low, discretionaryToDate) + certain),
+    high: roundCents(Math.max(high, discretionaryToDate) + certain),
+    usesHistory,
+  };
+};
+
+/**
+ * How far a forecast goes past the money available, or 0 when it stays within it
+ */
+export const getProjectedOverspend = (forecast: Pick<SpendingForecast, 'projected'>, available: number): number => {
+  return Math.max(roundCents(forecast.projected - available), 0);
+};
+
+/**
+ * Monthly limit on total expenses: an all-expenses monthly budget when there is one,
+ * otherwise the monthly category budgets added up
+ */
+export const getTotalExpenseBudget = (
+  utilization: Pick<BudgetUtilization, 'budget' | 'state' | 'available'>[]
+): number => {
+  const monthly = utilization.filter(item => item.state === 'active' && item.budget.period === 'monthly');
+  const overall = monthly.find(item => !item.budget.category_id);
+  if (overall) return overall.available;
+  return roundCents(monthly.reduce((sum, item) => sum + item.available, 0));
+};
+
+export interface ForecastPoint {
+  date: string;
+  // Cumulative spend, up to and including today
+  actual?: number;
+  // Forecast range and most likely value, from today to the end of the period
+  band?: [number, number];
+  projected?: number;
+}
+
+/**
+ * Day-by-day series for charting a forecast: cumulative spend so far, then a band that
+ * widens from today's total to the low and high estimates at the end of the period
+ */
+export const getForecastSeries = (
+  schedule: Pick<Budget, 'category_id'>,
+  transactions: Pick<Transaction, 'type' | 'date' | 'category_id' | 'amount' | 'splits'>[],
+  forecast: SpendingForecast
+): ForecastPoint[] => {
+  const { window, elapsedDays, totalDays } = forecast;
+  const points: ForecastPoint[] = [];
+  let cumulative = 0;
+
+  for (let day = 0; day < totalDays; day++) {
+    const date = addDaysToIsoDate(window.start, day);
+    if (day < elapsedDays) {
+      cumulative = roundCents(cumulative + getBudgetSpending(schedule, transactions, date, date));
+      points.push({ date, actual: cumulative });
+    }
+
+    // The band starts on the last actual day so the two lines join up
+    if (day >= elapsedDays - 1) {
+      const remainingDays = totalDays - elapsedDays;
+      const progress = remainingDays > 0 ? (day - elapsedDays + 1) / remainingDays : 1;
+      const at = (target: number) => roundCents(forecast.spentToDate + (target - forecast.spentToDate) * progress);
+      const point = day < elapsedDays ? points[points.length - 1] : { date };
+      point.band = [at(forecast.low), at(forecast.high)];
+      point.projected = at(forecast.projected);
+      if (day >= elapsedDays) points.push(point);
+    }
+  }
+  return points;
+};
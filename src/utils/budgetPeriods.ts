@@ -0,0 +1,226 @@
+// Budget period windows, utilization and rollover between periods
+import type { Budget, BudgetPeriod, BudgetPeriodType, Transaction } from '@/types';
+import { addDaysToIsoDate } from './recurrence';
+import { expandSplitLines } from './transactionSplits';
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriodType, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+};
+
+// Utilization at which a budget is flagged as close to its limit
+export const BUDGET_WARNING_PERCENTAGE = 80;
+
+export type BudgetHealth = 'good' | 'warning' | 'over';
+
+export type BudgetSchedule = Pick<Budget, 'period' | 'start_date' | 'end_date'>;
+
+export type BudgetPeriodInput = Omit<BudgetPeriod, 'id' | 'user_id' | 'created_at'>;
+
+export interface BudgetWindow {
+  index: number;
+  start: string;
+  end: string;
+}
+
+export interface BudgetUtilization {
+  budget: Budget;
+  window: BudgetWindow;
+  // 'upcoming' before the start date, 'ended' after the end date
+  state: 'upcoming' | 'active' | 'ended';
+  budgeted: number;
+  rolloverIn: number;
+  available: number;
+  spent: number;
+  remaining: number;
+  percentage: number;
+  health: BudgetHealth;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const parseIsoDate = (iso: string) => {
+  const [year, month, day] = iso.split('-').map(Number);
+  return { year, month, day };
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const addMonths = (anchor: string, months: number): string => {
+  const { year, month, day } = parseIsoDate(anchor);
+  const total = (year * 12 + month - 1) + months;
+  const nextYear = Math.floor(total / 12);
+  const nextMonth = total % 12 + 1;
+  // A budget starting on the 31st runs from the last day of shorter months
+  return `${nextYear}-${pad(nextMonth)}-${pad(Math.min(day, daysInMonth(nextYear, nextMonth)))}`;
+};
+
+const getPeriodStart = (schedule: BudgetSchedule, index: number): string => {
+  switch (schedule.period) {
+    case 'weekly':
+      return addDaysToIsoDate(schedule.start_date, index * 7);
+    case 'monthly':
+      return addMonths(schedule.start_date, index);
+    case 'yearly':
+      return addMonths(schedule.start_date, index * 12);
+  }
+};
+
+/**
+ * The nth period of a budget, counted from its start date. The last period ends on the
+ * budget's end date when it has one.
+ */
+export const getBudgetWindow = (schedule: BudgetSchedule, index: number): BudgetWindow => {
+  const start = getPeriodStart(schedule, index);
+  const end = addDaysToIsoDate(getPeriodStart(schedule, index + 1), -1);
+  return {
+    index,
+    start,
+    end: schedule.end_date && schedule.end_date < end ? schedule.end_date : end,
+  };
+};
+
+/**
+ * Index of the period containing a date, or -1 before the budget starts
+ */
+export const getBudgetPeriodIndex = (schedule: BudgetSchedule, date: string): number => {
+  if (date < schedule.start_date) return -1;
+
+  const start = parseIsoDate(schedule.start_date);
+  const target = parseIsoDate(date);
+  let index: number;
+
+  switch (schedule.period) {
+    case 'weekly':
+      index = Math.floor(
+        (Date.UTC(target.year, target.month - 1, target.day) - Date.UTC(start.year, start.month - 1, start.day)) / (7 * DAY_MS)
+      );
+      break;
+    case 'monthly':
+      index = (target.year - start.year) * 12 + (target.month - start.month);
+      break;
+    case 'yearly':
+      index = target.year - start.year;
+      break;
+  }
+
+  // Month and year counts overshoot when the date falls before the anchor day
+  while (index > 0 && getPeriodStart(schedule, index) > date) {
+    index--;
+  }
+  return index;
+};
+
+/**
+ * Expense spending that counts toward a budget between two ISO dates (inclusive).
+ * Split lines count toward their own category; budgets without a category cover every expense.
+ */
+export const getBudgetSpending = (
+  budget: Pick<Budget, 'category_id'>,
+  transactions: Pick<Transaction, 'type' | 'date' | 'category_id' | 'amount' | 'splits'>[],
+  start: string,
+  end: string
+): number => {
+  const inWindow = transactions.filter(t => t.type === 'expense' && t.date >= start && t.date <= end);
+  const spent = expandSplitLines(inWindow)
+    .filter(t => !budget.category_id || t.category_id === budget.category_id)
+    .reduce((sum, t) => sum + Number(t.amount), 0);
+  return roundCents(spent);
+};
+
+export const getBudgetHealth = (spent: number, available: number): BudgetHealth => {
+  if (available <= 0) return spent > 0 || available < 0 ? 'over' : 'good';
+  const percentage = (spent / available) * 100;
+  if (percentage > 100) return 'over';
+  if (percentage >= BUDGET_WARNING_PERCENTAGE) return 'warning';
+  return 'good';
+};
+
+/**
+ * Finished periods of a budget that have not been recorded yet, oldest first. Each one
+ * picks up the carry-over of the period before it, starting from the last recorded period.
+ */
+export const getPendingBudgetPeriods = (
+  budget: Budget,
+  transactions: Pick<Transaction, 'type' | 'date' | 'category_id' | 'amount' | 'splits'>[],
+  recorded: Pick<BudgetPeriod, 'period_start' | 'carried_over'>[],
+  today: string
+): BudgetPeriodInput[] => {
+  const budgetEnded = !!budget.end_date && budget.end_date < today;
+  const lastFinished = budgetEnded
+    ? getBudgetPeriodIndex(budget, budget.end_date as string)
+    : getBudgetPeriodIndex(budget, today) - 1;
+  if (lastFinished < 0) return [];
+
+  const latest = recorded.reduce<Pick<BudgetPeriod, 'period_start' | 'carried_over'> | null>(
+    (last, period) => (!last || period.period_start > last.period_start ? period : last),
+    null
+  );
+  let carry = latest ? Number(latest.carried_over) : 0;
+  const pending: BudgetPeriodInput[] = [];
+
+  for (let index = latest ? getBudgetPeriodIndex(budget, latest.period_start) + 1 : 0; index <= lastFinished; index++) {
+    const window = getBudgetWindow(budget, index);
+    const budgeted = Number(budget.amount);
+    const rolloverIn = budget.rollover ? carry : 0;
+    const spent = getBudgetSpending(budget, transactions, window.start, window.end);
+    carry = budget.rollover ? roundCents(budgeted + rolloverIn - spent) : 0;
+
+    pending.push({
+      budget_id: budget.id,
+      period_start: window.start,
+      period_end: window.end,
+      budgeted,
+      rollover_in: rolloverIn,
+      spent,
+      carried_over: carry,
+    });
+  }
+  return pending;
+};
+
+/**
+ * How much of a budget's current period is used. History holds the budget's finished
+ * periods, recorded or pending, and supplies the rollover into the current one.
+ */
+export const getBudgetUtilization = (
+  budget: Budget,
+  transactions: Pick<Transaction, 'type' | 'date' | 'category_id' | 'amount' | 'splits'>[],
+  history: Pick<BudgetPeriod, 'period_start' | 'carried_over'>[],
+  today: string
+): BudgetUtilization => {
+  const state = today < budget.start_date
+    ? 'upcoming'
+    : budget.end_date && budget.end_date < today ? 'ended' : 'active';
+  const index = state === 'upcoming'
+    ? 0
+    : getBudgetPeriodIndex(budget, state === 'ended' ? budget.end_date as string : today);
+  const window = getBudgetWindow(budget, index);
+
+  // The rollover comes from the period just before this one
+  const previousStart = index > 0 ? getBudgetWindow(budget, index - 1).start : null;
+  const previous = history.find(period => period.period_start === previousStart);
+  const rolloverIn = budget.rollover && previous ? Number(previous.carried_over) : 0;
+
+  const budgeted = Number(budget.amount);
+  const available = roundCents(budgeted + rolloverIn);
+  const spent = state === 'upcoming' ? 0 : getBudgetSpending(budget, transactions, window.start, window.end);
+
+  return {
+    budget,
+    window,
+    state,
+    budgeted,
+    rolloverIn,
+    available,
+    spent,
+    remaining: roundCents(available - spent),
+    percentage: available > 0 ? (spent / available) * 100 : spent > 0 || available < 0 ? 100 : 0,
+    health: getBudgetHealth(spent, available),
+  };
+};
@@ -0,0 +1,123 @@
+// Budget suggestions from past spending and the statistics behind them
+import type { Transaction } from '@/types';
+import { addMonthsToMonth, getMonthEnd, getMonthStart } from './envelopes';
+import { expandSplitLines } from './transactionSplits';
+
+export type SuggestionMethod = 'median' | 'p75' | 'trimmed_mean';
+
+export const SUGGESTION_METHOD_LABELS: Record<SuggestionMethod, string> = {
+  median: 'Median month',
+  p75: 'Busier month (75th percentile)',
+  trimmed_mean: 'Average without extremes',
+};
+
+export const SUGGESTION_MONTH_OPTIONS = [3, 6, 12];
+
+// Share of months dropped from each end before averaging
+const TRIM_SHARE = 0.2;
+
+type SuggestionTransaction = Pick<Transaction, 'type' | 'date' | 'category_id' | 'amount' | 'splits'>;
+
+export interface BudgetSuggestion {
+  category_id: string;
+  amount: number;
+  // Spending per month, oldest first, zero for months without any
+  monthlyTotals: number[];
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const sortAscending = (values: number[]) => [...values].sort((a, b) => a - b);
+
+/**
+ * Value below which the given share of values fall, interpolating between neighbours
+ */
+export const percentile = (values: number[], share: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = sortAscending(values);
+  const position = (sorted.length - 1) * share;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const median = (values: number[]): number => percentile(values, 0.5);
+
+/**
+ * Mean after dropping the lowest and highest 20% of values, so one unusual month
+ * does not set the budget
+ */
+export const trimmedMean = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const trim = Math.floor(values.length * TRIM_SHARE);
+  const kept = sortAscending(values).slice(trim, values.length - trim);
+  return kept.reduce((sum, value) => sum + value, 0) / kept.length;
+};
+
+const STATISTICS: Record<SuggestionMethod, (values: number[]) => number> = {
+  median,
+  p75: values => percentile(values, 0.75),
+  trimmed_mean: trimmedMean,
+};
+
+/**
+ * The last `months` full calendar months before the one `today` falls in, oldest first
+ */
+export const getSuggestionMonths = (months: number, today: string): string[] => {
+  const current = getMonthStart(today);
+  return Array.from({ length: months }, (_, index) => addMonthsToMonth(current, index - months));
+};
+
+/**
+ * Expense totals per category for each of the last `months` full months. Split
+ * transactions count towards each line's category; uncategorized spending is left out.
+ */
+export const getMonthlyCategorySpending = (
+  transactions: SuggestionTransaction[],
+  months: number,
+  today: string
+): Record<string, number[]> => {
+  const monthStarts = getSuggestionMonths(months, today);
+  if (monthStarts.length === 0) return {};
+
+  const firstDay = monthStarts[0];
+  const lastDay = getMonthEnd(monthStarts[monthStarts.length - 1]);
+  const totals: Record<string, number[]> = {};
+
+  const inRange = transactions.filter(
+    transaction => transaction.type === 'expense' && transaction.date >= firstDay && transaction.date <= lastDay
+  );
+
+  expandSplitLines(inRange).forEach(line => {
+    if (!line.category_id) return;
+    const monthIndex = monthStarts.indexOf(getMonthStart(line.date));
+    if (!totals[line.category_id]) {
+      totals[line.category_id] = new Array(monthStarts.length).fill(0);
+    }
+    totals[line.category_id][monthIndex] = roundCents(totals[line.category_id][monthIndex] + Number(line.amount));
+  });
+
+  return totals;
+};
+
+/**
+ * Monthly budget per category from its spending over the last `months` full months,
+ * rounded up to a whole amount. Categories the statistic puts at zero are left out.
+ */
+export const suggestBudgets = (
+  transactions: SuggestionTransaction[],
+  months: number,
+  method: SuggestionMethod,
+  today: string
+): BudgetSuggestion[] => {
+  const spending = getMonthlyCategorySpending(transactions, months, today);
+
+  return Object.entries(spending)
+    .map(([categoryId, monthlyTotals]) => ({
+      category_id: categoryId,
+      amount: Math.ceil(roundCents(STATISTICS[method](monthlyTotals))),
+      monthlyTotals,
+    }))
+    .filter(suggestion => suggestion.amount > 0)
+    .sort((a, b) => b.amount - a.amount);
+};
@@ -0,0 +1,46 @@
+// Target selection for bulk transaction edits
+import type { Category, Transaction } from '@/types';
+
+export type BulkEditField = 'category' | 'date' | 'savings_goal' | 'currency';
+
+export interface BulkEditTargets {
+  ids: string[];
+  skipped: number;
+}
+
+// Keeps `.in('id', ids)` filters well under URL length limits
+export const BULK_BATCH_SIZE = 100;
+
+/**
+ * Work out which selected transactions a bulk edit can apply to. Categories only fit
+ * transactions of the same type, and only transfers can be linked to a savings goal.
+ */
+export const getBulkEditTargets = (
+  transactions: Pick<Transaction, 'id' | 'type'>[],
+  field: BulkEditField,
+  category?: Pick<Category, 'type'> | null
+): BulkEditTargets => {
+  const eligible = transactions.filter(transaction => {
+    switch (field) {
+      case 'category':
+        return transaction.type !== 'transfer' && (!category || transaction.type === category.type);
+      case 'savings_goal':
+        return transaction.type === 'transfer';
+      default:
+        return true;
+    }
+  });
+
+  return {
+    ids: eligible.map(transaction => transaction.id),
+    skipped: transactions.length - eligible.length,
+  };
+};
+
+export const chunkIds = (ids: string[], size = BULK_BATCH_SIZE): string[][] => {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += size) {
+    chunks.push(ids.slice(i, i + size));
+  }
+  return chunks;
+};
@@ -0,0 +1,183 @@
+// Auto-categorization rules match transactions by description, amount and type
+import type { Category, CategoryRule, Transaction } from '@/types';
+
+export type RuleMatchInput = Pick<Transaction, 'description' | 'amount' | 'type'>
+  & Partial<Pick<Transaction, 'transfer_account_id' | 'goal_withdrawal'>>;
+
+// Fields a matching rule fills in: a category for income and expenses, a savings goal for transfers
+export type RuleChanges = { category_id: string } | { savings_goal_id: string };
+
+export interface RuleMatch {
+  rule: CategoryRule;
+  changes: RuleChanges;
+}
+
+export interface RuleApplication {
+  id: string;
+  ruleId: string;
+  changes: RuleChanges;
+}
+
+export type RuleTarget = RuleMatchInput & Pick<Transaction, 'id' | 'category_id' | 'savings_goal_id'> & {
+  splits?: unknown[] | null;
+};
+
+// Long patterns are almost always a paste mistake and make slow regexes more likely
+export const MAX_RULE_PATTERN_LENGTH = 200;
+
+const patternCache = new Map<string, RegExp | null>();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compile a rule pattern into a case-insensitive expression. Returns null for invalid regexes.
+ */
+export const compileRulePattern = (rule: Pick<CategoryRule, 'match_type' | 'pattern'>): RegExp | null => {
+  const key = `${rule.match_type}:${rule.pattern}`;
+  if (patternCache.has(key)) return patternCache.get(key) ?? null;
+
+  let compiled: RegExp | null;
+  try {
+    compiled = new RegExp(rule.match_type === 'regex' ? rule.pattern : escapeRegExp(rule.pattern.trim()), 'i');
+  } catch {
+    compiled = null;
+  }
+  patternCache.set(key, compiled);
+  return compiled;
+};
+
+/**
+ * Check a rule definition before saving. Returns an error message, or null when valid.
+ */
+export const validateCategoryRule = (
+  rule: Partial<Pick<CategoryRule, 'name' | 'match_type' | 'pattern' | 'min_amount' | 'max_amount' | 'transaction_type' | 'category_id' | 'savings_goal_id'>>,
+  categories: Pick<Category, 'id' | 'type'>[] = []
+): string | null => {
+  if (!rule.name?.trim()) {
+    return 'Please give the rule a name.';
+  }
+  if (!rule.pattern?.trim()) {
+    return 'Please enter the text to look for in the description.';
+  }
+  if (rule.pattern.length > MAX_RULE_PATTERN_LENGTH) {
+    return `Patterns can be at most ${MAX_RULE_PATTERN_LENGTH} characters.`;
+  }
+  if (rule.match_type === 'regex' && !compileRulePattern({ match_type: 'regex', pattern: rule.pattern })) {
+    return 'The regular expression is not valid.';
+  }
+  if ((rule.min_amount ?? 0) < 0 || (rule.max_amount ?? 0) < 0) {
+    return 'Amounts cannot be negative.';
+  }
+  if (rule.min_amount != null && rule.max_amount != null && rule.min_amount > rule.max_amount) {
+    return 'The minimum amount must not be more than the maximum.';
+  }
+  if (!rule.category_id && !rule.savings_goal_id) {
+    return 'Please choose a category or savings goal to assign.';
+  }
+  if (rule.transaction_type === 'transfer' && !rule.savings_goal_id) {
+    return 'Transfer rules need a savings goal, as transfers have no category.';
+  }
+
+  const category = categories.find(c => c.id === rule.category_id);
+  if (category && rule.transaction_type && rule.transaction_type !== 'transfer' && category.type !== rule.transaction_type) {
+    return `The category is for ${category.type}, but the rule only matches ${rule.transaction_type}.`;
+  }
+  return null;
+};
+
+/**
+ * Whether a transaction meets every condition of a rule. Inactive rules never match.
+ */
+export const matchesRule = (rule: CategoryRule, transaction: RuleMatchInput): boolean => {
+  if (!rule.is_active) return false;
+  if (rule.transaction_type && rule.transaction_type !== transaction.type) return false;
+
+  const amount = Number(transaction.amount);
+  if (rule.min_amount != null && amount < Number(rule.min_amount)) return false;
+  if (rule.max_amount != null && amount > Number(rule.max_amount)) return false;
+
+  const pattern = compileRulePattern(rule);
+  return !!pattern && pattern.test(transaction.description || '');
+};
+
+/**
+ * Rules in the order they are tried: by priority, then oldest first
+ */
+export const sortRules = (rules: CategoryRule[]): CategoryRule[] => {
+  return [...rules].sort((a, b) =>
+    a.priority - b.priority || (a.created_at || '').localeCompare(b.created_at || '')
+  );
+};
+
+/**
+ * What a rule would set on a transaction, or null when it has nothing that fits (e.g. an
+ * expense category on an income transaction). Goals only go on transfers into a goal, not
+ * on transfers between accounts or withdrawals out of a goal.
+ */
+export const getRuleChanges = (
+  rule: CategoryRule,
+  transaction: Pick<RuleMatchInput, 'type' | 'transfer_account_id' | 'goal_withdrawal'>,
+  categories: Pick<Category, 'id' | 'type'>[]
+): RuleChanges | null => {
+  if (transaction.type === 'transfer') {
+    if (transaction.transfer_account_id || transaction.goal_withdrawal) return null;
+    return rule.savings_goal_id ? { savings_goal_id: rule.savings_goal_id } : null;
+  }
+
+  const category = categories.find(c => c.id === rule.category_id);
+  return category && category.type === transaction.type ? { category_id: category.id } : null;
+};
+
+/**
+ * Find the first rule that matches a transaction and has something to set on it
+ */
+export const findMatchingRule = (
+  rules: CategoryRule[],
+  transaction: RuleMatchInput,
+  categories: Pick<Category, 'id' | 'type'>[]
+): RuleMatch | null => {
+  for (const rule of sortRules(rules)) {
+    if (!matchesRule(rule, transaction)) continue;
+
+    const changes = getRuleChanges(rule, transaction, categories);
+    if (changes) return { rule, changes };
+  }
+  return null;
+};
+
+/**
+ * Work out the rule changes for existing transactions. Split transactions are left alone, and
+ * unless `overwrite` is set only transactions without a category (or goal, for transfers) change.
+ */
+export const applyRulesToTransactions = (
+  rules: CategoryRule[],
+  transactions: RuleTarget[],
+  categories: Pick<Category, 'id' | 'type'>[],
+  overwrite = false
+): RuleApplication[] => {
+  const applications: RuleApplication[] = [];
+
+  for (const transaction of transactions) {
+    if (transaction.splits && transaction.splits.length > 0) continue;
+
+    const current = transaction.type === 'transfer' ? transaction.savings_goal_id : transaction.category_id;
+    if (current && !overwrite) continue;
+
+    const match = findMatchingRule(rules, transaction, categories);
+    if (!match || Object.values(match.changes)[0] === current) continue;
+
+    applications.push({ id: transaction.id, ruleId: match.rule.id, changes: match.changes });
+  }
+
+  return applications;
+};
+
+/**
+ * Count how many transactions each rule categorized, keyed by rule id
+ */
+export const countRuleHits = (items: { ruleId?: string | null }[]): Record<string, number> => {
+  return items.reduce<Record<string, number>>((hits, item) => {
+    if (item.ruleId) hits[item.ruleId] = (hits[item.ruleId] || 0) + 1;
+    return hits;
+  }, {});
+};
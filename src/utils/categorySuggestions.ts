@@ -0,0 +1,119 @@
+// Learned category suggestions: a naive Bayes model over description tokens, trained and run
+// entirely on the device from the user's own transaction history
+import type { Category, Transaction } from '@/types';
+
+type CategorizedType = Category['type'];
+
+interface CategoryTokenStats {
+  documents: number;
+  tokens: Map<string, number>;
+  tokenTotal: number;
+}
+
+interface TypeModel {
+  documents: number;
+  categories: Map<string, CategoryTokenStats>;
+  vocabulary: Set<string>;
+}
+
+export type CategoryModel = Record<CategorizedType, TypeModel>;
+
+export interface CategorySuggestion {
+  categoryId: string;
+  confidence: number; // 0–1
+}
+
+// Suggestions below this confidence are not worth showing
+export const DEFAULT_SUGGESTION_CONFIDENCE = 0.6;
+
+// Words that say nothing about the category
+const STOP_WORDS = new Set(['the', 'and', 'for', 'from', 'to', 'of', 'at', 'in', 'on', 'payment', 'purchase', 'pos', 'ref']);
+
+/**
+ * Lowercase words of two or more letters. Numbers are dropped since they are usually
+ * reference codes or dates rather than anything about the merchant.
+ */
+export const tokenizeDescription = (description: string): string[] => {
+  return (description.toLowerCase().match(/[\p{L}][\p{L}\p{N}'&]*/gu) || [])
+    .map(token => token.replace(/'/g, ''))
+    .filter(token => token.length >= 2 && !STOP_WORDS.has(token));
+};
+
+const emptyTypeModel = (): TypeModel => ({ documents: 0, categories: new Map(), vocabulary: new Set() });
+
+/**
+ * Count description tokens per category. Transfers, uncategorized and split transactions
+ * are skipped, as are categories that no longer exist.
+ */
+export const trainCategoryModel = (
+  transactions: Pick<Transaction, 'description' | 'type' | 'category_id' | 'splits'>[],
+  categories: Pick<Category, 'id' | 'type'>[]
+): CategoryModel => {
+  const model: CategoryModel = { income: emptyTypeModel(), expense: emptyTypeModel() };
+  const categoryTypes = new Map(categories.map(category => [category.id, category.type]));
+
+  for (const transaction of transactions) {
+    if (transaction.type === 'transfer' || !transaction.category_id) continue;
+    if (transaction.splits && transaction.splits.length > 0) continue;
+    if (categoryTypes.get(transaction.category_id) !== transaction.type) continue;
+
+    const tokens = tokenizeDescription(transaction.description || '');
+    if (tokens.length === 0) continue;
+
+    const typeModel = model[transaction.type];
+    const stats = typeModel.categories.get(transaction.category_id)
+      ?? { documents: 0, tokens: new Map<string, number>(), tokenTotal: 0 };
+
+    stats.documents += 1;
+    for (const token of tokens) {
+      stats.tokens.set(token, (stats.tokens.get(token) || 0) + 1);
+      stats.tokenTotal += 1;
+      typeModel.vocabulary.add(token);
+    }
+
+    typeModel.categories.set(transaction.category_id, stats);
+    typeModel.documents += 1;
+  }
+
+  return model;
+};
+
+/**
+ * Most likely category for a description, or null when nothing clears `minConfidence`.
+ *
+ * Confidence is the naive Bayes posterior of the best category, scaled by the share of the
+ * description's words that category has seen before. A single familiar word in an otherwise
+ * new description therefore gives a weaker suggestion than a merchant seen many times.
+ */
+export const suggestCategory = (
+  model: CategoryModel,
+  description: string,
+  type: Transaction['type'],
+  minConfidence = DEFAULT_SUGGESTION_CONFIDENCE
+): CategorySuggestion | null => {
+  if (type === 'transfer') return null;
+
+  const typeModel = model[type];
+  const tokens = tokenizeDescription(description);
+  if (typeModel.documents === 0 || !tokens.some(token => typeModel.vocabulary.has(token))) {
+    return null;
+  }
+
+  const vocabularySize = typeModel.vocabulary.size;
+  const scores = [...typeModel.categories].map(([categoryId, stats]) => {
+    // Laplace smoothing keeps unseen words from ruling a category out entirely
+    const logLikelihood = tokens.reduce(
+      (sum, token) => sum + Math.log(((stats.tokens.get(token) || 0) + 1) / (stats.tokenTotal + vocabularySize)),
+      0
+    );
+    return { categoryId, stats, score: Math.log(stats.documents / typeModel.documents) + logLikelihood };
+  });
+
+  const best = scores.reduce((top, entry) => (entry.score > top.score ? entry : top));
+  const normalizer = scores.reduce((sum, entry) => sum + Math.exp(entry.score - best.score), 0);
+  const posterior = 1 / normalizer;
+  const coverage = tokens.filter(token => best.stats.tokens.has(token)).length / tokens.length;
+  const confidence = posterior * coverage;
+
+  return confidence >= minConfidence ? { categoryId: best.categoryId, confidence } : null;
+};
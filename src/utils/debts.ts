@@ -0,0 +1,200 @@
+// Debt payoff: balances after linked payments, payoff order and month-by-month amortization
+import type { Debt, DebtStrategy, DebtType, Transaction } from '@/types';
+import { addMonthsToMonth, getMonthEnd, getMonthStart } from './envelopes';
+
+export const DEBT_TYPE_LABELS: Record<DebtType, string> = {
+  credit_card: 'Credit card',
+  loan: 'Loan',
+  mortgage: 'Mortgage',
+  other: 'Other',
+};
+
+export const DEBT_STRATEGY_LABELS: Record<DebtStrategy, string> = {
+  avalanche: 'Avalanche',
+  snowball: 'Snowball',
+  custom: 'Custom order',
+};
+
+export const DEBT_STRATEGY_DESCRIPTIONS: Record<DebtStrategy, string> = {
+  avalanche: 'Highest interest rate first. Usually the least interest overall.',
+  snowball: 'Smallest balance first. Debts disappear sooner, which keeps momentum up.',
+  custom: 'Debts are paid off in the order you rank them.',
+};
+
+// Plans that haven't paid everything off by then are treated as never finishing
+export const MAX_PAYOFF_MONTHS = 600;
+
+export type PayoffDebt = Pick<Debt, 'id' | 'name' | 'balance' | 'apr' | 'minimum_payment' | 'priority' | 'created_at'>;
+
+export interface PayoffMonth {
+  month: string;
+  // Keyed by debt id
+  payments: Record<string, number>;
+  interest: Record<string, number>;
+  balances: Record<string, number>;
+  totalPayment: number;
+  totalInterest: number;
+  totalBalance: number;
+}
+
+export interface DebtPayoff {
+  debt: PayoffDebt;
+  // First day of the month the debt is cleared, or null when it never is
+  payoffMonth: string | null;
+  interestPaid: number;
+  totalPaid: number;
+}
+
+export interface PayoffPlan {
+  // Debts in the order extra payments go to them
+  debts: DebtPayoff[];
+  schedule: PayoffMonth[];
+  totalInterest: number;
+  totalPaid: number;
+  debtFreeMonth: string | null;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Payments linked to a debt, newest first
+ */
+export const getDebtPayments = <T extends Pick<Transaction, 'debt_id' | 'date'>>(debtId: string, transactions: T[]): T[] => {
+  return transactions
+    .filter(t => t.debt_id === debtId)
+    .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+/**
+ * Statement balance less the payments made after it. Interest since the statement
+ * isn't added until the next balance update.
+ */
+export const getDebtBalance = (
+  debt: Pick<Debt, 'id' | 'balance' | 'balance_as_of'>,
+  transactions: Pick<Transaction, 'debt_id' | 'date' | 'amount'>[]
+): number => {
+  const paid = transactions
+    .filter(t => t.debt_id === debt.id && t.date > debt.balance_as_of)
+    .reduce((sum, t) => sum + Number(t.amount), 0);
+  return roundCents(Math.max(Number(debt.balance) - paid, 0));
+};
+
+/**
+ * Next payment due date on or after `today`. Due days past the end of a short month
+ * fall on its last day.
+ */
+export const getNextDueDate = (dueDay: number, today: string): string => {
+  const dueIn = (month: string) => {
+    const day = Math.min(dueDay, Number(getMonthEnd(month).slice(8)));
+    return `${month.slice(0, 8)}${String(day).padStart(2, '0')}`;
+  };
+  const thisMonth = dueIn(getMonthStart(today));
+  return thisMonth >= today ? thisMonth : dueIn(addMonthsToMonth(getMonthStart(today), 1));
+};
+
+/**
+ * Debts in payoff order for a strategy. Ties go to the older debt.
+ */
+export const sortDebtsByStrategy = <T extends Pick<Debt, 'balance' | 'apr' | 'priority' | 'created_at'>>(
+  debts: T[],
+  strategy: DebtStrategy
+): T[] => {
+  const byAge = (a: T, b: T) => (a.created_at || '').localeCompare(b.created_at || '');
+  return [...debts].sort((a, b) => {
+    if (strategy === 'avalanche') {
+      return Number(b.apr) - Number(a.apr) || Number(a.balance) - Number(b.balance) || byAge(a, b);
+    }
+    if (strategy === 'snowball') {
+      return Number(a.balance) - Number(b.balance) || Number(b.apr) - Number(a.apr) || byAge(a, b);
+    }
+    return (a.priority ?? Infinity) - (b.priority ?? Infinity) || byAge(a, b);
+  });
+};
+
+/**
+ * Pay down debts, given in payoff order, month by month from `startMonth`. Every month
+ * the same total goes out: all the minimums plus `extraPayment`. Interest is charged
+ * first, then each debt gets its minimum and whatever is left goes to the first debt
+ * still owing, so a cleared debt's minimum rolls on to the next.
+ */
+export const simulatePayoff = (debts: PayoffDebt[], extraPayment: number, startMonth: string): PayoffPlan => {
+  const balances = debts.map(debt => Math.max(Number(debt.balance), 0));
+  const payoffMonths: (string | null)[] = debts.map((_, index) => (balances[index] === 0 ? startMonth : null));
+  const interestPaid = debts.map(() => 0);
+  const totalPaid = debts.map(() => 0);
+  const monthlyBudget = debts.reduce((sum, debt) => sum + Number(debt.minimum_payment), 0) + Math.max(extraPayment, 0);
+  const schedule: PayoffMonth[] = [];
+
+  for (let offset = 0; offset < MAX_PAYOFF_MONTHS; offset++) {
+    const before = balances.reduce((sum, balance) => sum + balance, 0);
+    if (before <= 0) break;
+
+    const month = addMonthsToMonth(startMonth, offset);
+    const payments = debts.map(() => 0);
+    const interest = balances.map((balance, index) => roundCents((balance * Number(debts[index].apr)) / 1200));
+    interest.forEach((amount, index) => {
+      balances[index] = roundCents(balances[index] + amount);
+    });
+
+    let left = monthlyBudget;
+    const pay = (index: number, amount: number) => {
+      const paid = roundCents(Math.min(amount, balances[index], left));
+      if (paid <= 0) return;
+      payments[index] += paid;
+      balances[index] = roundCents(balances[index] - paid);
+      left = roundCents(left - paid);
+    };
+    debts.forEach((debt, index) => pay(index, Number(debt.minimum_payment)));
+    debts.forEach((_, index) => pay(index, Infinity));
+
+    debts.forEach((_, index) => {
+      interestPaid[index] = roundCents(interestPaid[index] + interest[index]);
+      totalPaid[index] = roundCents(totalPaid[index] + payments[index]);
+      if (balances[index] <= 0 && !payoffMonths[index]) payoffMonths[index] = month;
+    });
+
+    const byId = (values: number[]) => Object.fromEntries(debts.map((debt, index) => [debt.id, roundCents(values[index])]));
+    const after = roundCents(balances.reduce((sum, balance) => sum + balance, 0));
+    schedule.push({
+      month,
+      payments: byId(payments),
+      interest: byId(interest),
+      balances: byId(balances),
+      totalPayment: roundCents(payments.reduce((sum, amount) => sum + amount, 0)),
+      totalInterest: roundCents(interest.reduce((sum, amount) => sum + amount, 0)),
+      totalBalance: after,
+    });
+
+    // Payments that don't outpace interest never clear the debt
+    if (after > 0 && after >= before) break;
+  }
+
+  const cleared = payoffMonths.every(month => month !== null);
+  return {
+    debts: debts.map((debt, index) => ({
+      debt,
+      payoffMonth: payoffMonths[index],
+      interestPaid: interestPaid[index],
+      totalPaid: totalPaid[index],
+    })),
+    schedule,
+    totalInterest: roundCents(interestPaid.reduce((sum, amount) => sum + amount, 0)),
+    totalPaid: roundCents(totalPaid.reduce((sum, amount) => sum + amount, 0)),
+    debtFreeMonth: cleared
+      ? payoffMonths.reduce<string>((latest, month) => (month! > latest ? month! : latest), startMonth)
+      : null,
+  };
+};
+
+/**
+ * The same debts and monthly payment run through each strategy, for side-by-side comparison
+ */
+export const comparePayoffStrategies = (
+  debts: PayoffDebt[],
+  extraPayment: number,
+  startMonth: string
+): Record<DebtStrategy, PayoffPlan> => ({
+  avalanche: simulatePayoff(sortDebtsByStrategy(debts, 'avalanche'), extraPayment, startMonth),
+  snowball: simulatePayoff(sortDebtsByStrategy(debts, 'snowball'), extraPayment, startMonth),
+  custom: simulatePayoff(sortDebtsByStrategy(debts, 'custom'), extraPayment, startMonth),
+});
@@ -0,0 +1,122 @@
+// Duplicate transaction detection for imports and manual entry
+import type { Transaction } from '@/types';
+import { calculateTextSimilarity } from '@/utils/insightDeduplication';
+
+// The fields of a transaction that identify it for duplicate detection
+export type TransactionFingerprintInput = Pick<Transaction, 'amount' | 'type' | 'date' | 'description'>;
+
+export interface DuplicateMatch {
+  transaction: Transaction;
+  similarity: number; // 0-1 description similarity
+  daysApart: number;
+}
+
+export type DuplicateResolution = 'skip' | 'merge' | 'keep';
+
+export interface DuplicateDetectionOptions {
+  dateWindowDays: number; // Bank posting dates often lag the purchase date by a few days
+  minSimilarity: number; // Minimum description similarity for a match
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateDetectionOptions = {
+  dateWindowDays: 3,
+  minSimilarity: 0.5,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Words banks add to descriptions that say nothing about the merchant
+const NOISE_WORDS = new Set(['pos', 'purchase', 'payment', 'debit', 'credit', 'card', 'online', 'trx', 'txn', 'ref']);
+
+/**
+ * Normalize a description for comparison: lowercase, strip punctuation, reference numbers and bank noise words
+ */
+export const normalizeDescription = (description: string): string => {
+  return description
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !NOISE_WORDS.has(word) && !/^\d{4,}$/.test(word))
+    .join(' ');
+};
+
+/**
+ * Build a stable fingerprint for exact duplicate checks (type, amount in cents, date and normalized description)
+ */
+export const transactionFingerprint = (transaction: TransactionFingerprintInput): string => {
+  return [
+    transaction.type,
+    Math.round(transaction.amount * 100),
+    transaction.date,
+    normalizeDescription(transaction.description),
+  ].join('|');
+};
+
+export const daysBetween = (a: string, b: string): number => {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / DAY_MS;
+};
+
+/**
+ * Find existing transactions that are likely duplicates of the candidate, best match first
+ */
+export const findDuplicateTransactions = (
+  candidate: TransactionFingerprintInput,
+  existing: Transaction[],
+  options: DuplicateDetectionOptions = DEFAULT_DUPLICATE_OPTIONS
+): DuplicateMatch[] => {
+  const candidateCents = Math.round(candidate.amount * 100);
+  const candidateDescription = normalizeDescription(candidate.description);
+
+  return existing
+    .filter(t => t.type === candidate.type && Math.round(t.amount * 100) === candidateCents)
+    .map(t => {
+      const existingDescription = normalizeDescription(t.description);
+      const similarity = candidateDescription && existingDescription
+        ? calculateTextSimilarity(candidateDescription, existingDescription)
+        : 0;
+      return {
+        transaction: t,
+        similarity,
+        daysApart: daysBetween(candidate.date, t.date),
+      };
+    })
+    .filter(match => match.daysApart <= options.dateWindowDays && match.similarity >= options.minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity || a.daysApart - b.daysApart);
+};
+
+/**
+ * Build the update that folds an incoming duplicate into the existing transaction.
+ * Only fills gaps on the existing record; values the user already set are kept.
+ */
+export const mergeDuplicateTransaction = (
+  existing: Transaction,
+  incoming: Partial<Omit<Transaction, 'id'>>
+): Partial<Transaction> & { id: string } => {
+  const updates: Partial<Transaction> & { id: string } = { id: existing.id };
+
+  if (!existing.category_id && incoming.category_id) {
+    updates.category_id = incoming.category_id;
+  }
+  if (!existing.receipt_url && incoming.receipt_url) {
+    updates.receipt_url = incoming.receipt_url;
+    updates.receipt_name = incoming.receipt_name;
+  }
+  if (!existing.savings_goal_id && incoming.savings_goal_id) {
+    updates.savings_goal_id = incoming.savings_goal_id;
+  }
+  if (!existing.external_id && incoming.external_id) {
+    updates.external_id = incoming.external_id;
+  }
+  if (!existing.payee_id && incoming.payee_id) {
+    updates.payee_id = incoming.payee_id;
+  }
+  const newTagIds = (incoming.tag_ids || []).filter(tagId => !existing.tag_ids?.includes(tagId));
+  if (newTagIds.length > 0) {
+    updates.tag_ids = [...(existing.tag_ids || []), ...newTagIds];
+  }
+  if (!existing.description?.trim() && incoming.description) {
+    updates.description = incoming.description;
+  }
+
+  return updates;
+};
@@ -0,0 +1,175 @@
+// Zero-based envelope budgeting: assigning income, moving money and covering overspending
+import type { Budget, EnvelopeAssignment, EnvelopeTransfer, Transaction } from '@/types';
+import { getBudgetSpending } from './budgetPeriods';
+import { expandSplitLines } from './transactionSplits';
+
+type EnvelopeTransaction = Pick<Transaction, 'type' | 'date' | 'category_id' | 'amount' | 'splits'>;
+
+export interface EnvelopeBalance {
+  budget: Budget;
+  carriedIn: number;
+  assigned: number;
+  // Transfers in minus transfers out
+  moved: number;
+  spent: number;
+  // Overspending paid for by the cover envelope
+  covered: number;
+  // Overspending of other envelopes this one paid for
+  coveredOthers: number;
+  // Overspending with no cover envelope, taken out of to be assigned
+  uncovered: number;
+  available: number;
+}
+
+export interface EnvelopeMonth {
+  month: string;
+  income: number;
+  assigned: number;
+  // Spending in categories without an envelope, taken out of to be assigned
+  unbudgeted: number;
+  // Income not yet given to an envelope; negative when more was assigned than came in
+  toBeAssigned: number;
+  envelopes: EnvelopeBalance[];
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * First day of the month an ISO date falls in
+ */
+export const getMonthStart = (date: string): string => `${date.slice(0, 7)}-01`;
+
+export const addMonthsToMonth = (month: string, months: number): string => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const total = year * 12 + monthNumber - 1 + months;
+  return `${Math.floor(total / 12)}-${pad(total % 12 + 1)}-01`;
+};
+
+export const getMonthEnd = (month: string): string => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return `${month.slice(0, 7)}-${pad(new Date(Date.UTC(year, monthNumber, 0)).getUTCDate())}`;
+};
+
+/**
+ * Envelopes are the budgets tied to a category
+ */
+export const getEnvelopes = <T extends Pick<Budget, 'category_id'>>(budgets: T[]): T[] => {
+  return budgets.filter(budget => !!budget.category_id);
+};
+
+// Overspent envelopes take the shortfall from their cover envelope, which may in turn
+// be covered by its own; whatever is left, cycles included, comes out of to be assigned
+const coverOverspending = (envelopes: EnvelopeBalance[]) => {
+  const byId = new Map(envelopes.map(envelope => [envelope.budget.id, envelope]));
+
+  for (let pass = 0; pass < envelopes.length; pass++) {
+    const overspent = envelopes.filter(envelope =>
+      envelope.available < 0 && byId.has(envelope.budget.cover_from_budget_id ?? '')
+    );
+    if (overspent.length === 0) break;
+
+    overspent.forEach(envelope => {
+      const source = byId.get(envelope.budget.cover_from_budget_id as string) as EnvelopeBalance;
+      const shortfall = -envelope.available;
+      source.available = roundCents(source.available - shortfall);
+      source.coveredOthers = roundCents(source.coveredOthers + shortfall);
+      envelope.covered = roundCents(envelope.covered + shortfall);
+      envelope.available = 0;
+    });
+  }
+
+  envelopes.forEach(envelope => {
+    if (envelope.available < 0) {
+      envelope.uncovered = -envelope.available;
+      envelope.available = 0;
+    }
+  });
+};
+
+/**
+ * Work out every envelope for a month. Balances carry over from month to month, starting
+ * with the first month anything was assigned or moved; income counts from that month on.
+ */
+export const getEnvelopeMonth = (
+  budgets: Budget[],
+  transactions: EnvelopeTransaction[],
+  assignments: Pick<EnvelopeAssignment, 'budget_id' | 'month' | 'amount'>[],
+  transfers: Pick<EnvelopeTransfer, 'from_budget_id' | 'to_budget_id' | 'month' | 'amount'>[],
+  month: string
+): EnvelopeMonth => {
+  const envelopes = getEnvelopes(budgets);
+  const envelopeCategories = new Set(envelopes.map(budget => budget.category_id));
+  const firstMonth = [...assignments, ...transfers]
+    .map(entry => entry.month)
+    .reduce((first, entryMonth) => (entryMonth < first ? entryMonth : first), month);
+
+  const carry = new Map<string, number>();
+  let toBeAssigned = 0;
+  let result: EnvelopeMonth = { month, income: 0, assigned: 0, unbudgeted: 0, toBeAssigned: 0, envelopes: [] };
+
+  for (let current = firstMonth; current <= month; current = addMonthsToMonth(current, 1)) {
+    const end = getMonthEnd(current);
+    const income = roundCents(transactions
+      .filter(t => t.type === 'income' && t.date >= current && t.date <= end)
+      .reduce((sum, t) => sum + Number(t.amount), 0));
+    const unbudgeted = roundCents(expandSplitLines(transactions.filter(t => t.type === 'expense' && t.date >= current && t.date <= end))
+      .filter(t => !envelopeCategories.has(t.category_id))
+      .reduce((sum, t) => sum + Number(t.amount), 0));
+
+    const balances: EnvelopeBalance[] = envelopes.map(budget => {
+      const carriedIn = carry.get(budget.id) ?? 0;
+      const assigned = roundCents(assignments
+        .filter(a => a.budget_id === budget.id && a.month === current)
+        .reduce((sum, a) => sum + Number(a.amount), 0));
+      const moved = roundCents(transfers
+        .filter(t => t.month === current && (t.to_budget_id === budget.id || t.from_budget_id === budget.id))
+        .reduce((sum, t) => sum + (t.to_budget_id === budget.id ? Number(t.amount) : -Number(t.amount)), 0));
+      const spent = getBudgetSpending(budget, transactions, current, end);
+
+      return {
+        budget,
+        carriedIn,
+        assigned,
+        moved,
+        spent,
+        covered: 0,
+        coveredOthers: 0,
+        uncovered: 0,
+        available: roundCents(carriedIn + assigned + moved - spent),
+      };
+    });
+
+    coverOverspending(balances);
+
+    const assigned = roundCents(balances.reduce((sum, b) => sum + b.assigned, 0));
+    const uncovered = balances.reduce((sum, b) => sum + b.uncovered, 0);
+    toBeAssigned = roundCents(toBeAssigned + income - assigned - uncovered - unbudgeted);
+    balances.forEach(b => carry.set(b.budget.id, b.available));
+
+    result = { month: current, income, assigned, unbudgeted, toBeAssigned, envelopes: balances };
+  }
+
+  return result;
+};
+
+/**
+ * New assigned amounts that bring envelopes up to their monthly target (the budget amount),
+ * in the given order, for as long as there is money left to assign
+ */
+export const planTargetAssignments = (envelopeMonth: EnvelopeMonth): { budgetId: string; amount: number }[] => {
+  let left = envelopeMonth.toBeAssigned;
+  const plan: { budgetId: string; amount: number }[] = [];
+
+  envelopeMonth.envelopes.forEach(envelope => {
+    const needed = roundCents(Number(envelope.budget.amount) - envelope.assigned);
+    if (left <= 0 || needed <= 0) return;
+
+    const extra = Math.min(needed, left);
+    left = roundCents(left - extra);
+    plan.push({ budgetId: envelope.budget.id, amount: roundCents(envelope.assigned + extra) });
+  });
+
+  return plan;
+};
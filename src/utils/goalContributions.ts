@@ -0,0 +1,185 @@
+// Payday contribution plans for savings goals: paydays, planned amounts and proposals
+import type { ContributionMethod, GoalContribution, GoalContributionPlan, SavingsGoal, Transaction } from '@/types';
+import { addDaysToIsoDate, getOccurrences } from './recurrence';
+
+export const CONTRIBUTION_METHOD_LABELS: Record<ContributionMethod, string> = {
+  fixed: 'Fixed amount',
+  percentage: 'Share of income',
+};
+
+export const DEFAULT_WINDOW_DAYS = 3;
+
+// How far back unhandled paydays are still proposed
+export const PROPOSAL_LOOKBACK_DAYS = 45;
+
+type PaydayGoal = Pick<SavingsGoal, 'salary_date_1' | 'salary_date_2'>;
+
+type PlanSchedule = Pick<GoalContributionPlan, 'method' | 'amount' | 'window_days' | 'starts_on'>;
+
+type ContributionTransaction = Pick<Transaction, 'type' | 'date' | 'amount' | 'account_id' | 'savings_goal_id' | 'goal_withdrawal' | 'goal_interest'>;
+
+export interface PaydayContribution {
+  payday: string;
+  // Income that landed within the plan's window around the payday
+  income: number;
+  planned: number;
+  // Transfers into the goal from the start of this payday's window to the next one's
+  actual: number;
+  contribution?: GoalContribution;
+}
+
+export interface ContributionProposal {
+  plan: GoalContributionPlan;
+  goal: SavingsGoal;
+  payday: string;
+  income: number;
+  amount: number;
+  account_id: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const daysApart = (a: string, b: string): number => {
+  return Math.abs(Math.round((Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / DAY_MS));
+};
+
+const salarySchedule = (goal: PaydayGoal) => ({
+  frequency: 'bi_monthly' as const,
+  start_date: '2000-01-01',
+  end_date: null,
+  day_of_month_1: goal.salary_date_1,
+  day_of_month_2: goal.salary_date_2,
+});
+
+/**
+ * A goal's paydays between two ISO dates (inclusive), in order. Salary dates past the
+ * end of a month fall on its last day.
+ */
+export const getPaydays = (goal: PaydayGoal, from: string, to: string): string[] => {
+  return getOccurrences(salarySchedule(goal), from, to);
+};
+
+/**
+ * The payday closest to `date` within `windowDays` of it, or null. Matches
+ * nearest_payday() in the database, which runs automatic plans.
+ */
+export const getNearestPayday = (goal: PaydayGoal, date: string, windowDays: number): string | null => {
+  const candidates = getPaydays(goal, addDaysToIsoDate(date, -windowDays), addDaysToIsoDate(date, windowDays));
+  const [nearest] = candidates.sort((a, b) => daysApart(a, date) - daysApart(b, date) || a.localeCompare(b));
+  return nearest ?? null;
+};
+
+/**
+ * What a plan puts aside from a payday's income, never more than the goal still needs
+ */
+export const getPlannedAmount = (
+  plan: Pick<GoalContributionPlan, 'method' | 'amount'>,
+  income: number,
+  remaining = Infinity
+): number => {
+  if (income <= 0) return 0;
+  const amount = plan.method === 'fixed' ? Number(plan.amount) : income * Number(plan.amount) / 100;
+  return roundCents(Math.max(Math.min(amount, remaining), 0));
+};
+
+/**
+ * Income per payday of a plan between two dates, keyed by payday. Interest earned by
+ * savings goals is not pay and never counts.
+ */
+const getPaydayIncome = (
+  goal: PaydayGoal,
+  plan: PlanSchedule,
+  transactions: ContributionTransaction[],
+  from: string,
+  to: string
+): Map<string, ContributionTransaction[]> => {
+  const byPayday = new Map<string, ContributionTransaction[]>();
+  transactions
+    .filter(t => t.type === 'income' && !t.goal_interest && t.date >= addDaysToIsoDate(from, -plan.window_days) && t.date <= to)
+    .forEach(t => {
+      const payday = getNearestPayday(goal, t.date, plan.window_days);
+      if (!payday || payday < plan.starts_on || payday < from) return;
+      byPayday.set(payday, [...(byPayday.get(payday) || []), t]);
+    });
+  return byPayday;
+};
+
+const sumAmounts = (transactions: Pick<Transaction, 'amount'>[]) => {
+  return roundCents(transactions.reduce((sum, t) => sum + Number(t.amount), 0));
+};
+
+/**
+ * Planned and actual contributions for each of a goal's paydays between two dates,
+ * oldest first. A recorded contribution's amount stands in for the plan's.
+ */
+export const getPaydayContributions = (
+  goal: PaydayGoal & Pick<SavingsGoal, 'id'>,
+  plan: PlanSchedule & Pick<GoalContributionPlan, 'id'>,
+  transactions: ContributionTransaction[],
+  contributions: GoalContribution[],
+  from: string,
+  to: string
+): PaydayContribution[] => {
+  const start = from > plan.starts_on ? from : plan.starts_on;
+  const paydays = getPaydays(goal, start, to);
+  const incomeByPayday = getPaydayIncome(goal, plan, transactions, start, addDaysToIsoDate(to, plan.window_days));
+  const deposits = transactions.filter(t => t.type === 'transfer' && t.savings_goal_id === goal.id && !t.goal_withdrawal);
+
+  return paydays.map((payday, index) => {
+    const next = paydays[index + 1] ?? getPaydays(goal, addDaysToIsoDate(payday, 1), addDaysToIsoDate(payday, 31))[0];
+    const periodStart = addDaysToIsoDate(payday, -plan.window_days);
+    const periodEnd = addDaysToIsoDate(next, -plan.window_days - 1);
+    const income = sumAmounts(incomeByPayday.get(payday) || []);
+    const contribution = contributions.find(c => c.plan_id === plan.id && c.payday === payday);
+
+    return {
+      payday,
+      income,
+      planned: contribution?.status === 'contributed' ? Number(contribution.planned_amount) : getPlannedAmount(plan, income),
+      actual: sumAmounts(deposits.filter(t => t.date >= periodStart && t.date <= periodEnd)),
+      contribution,
+    };
+  });
+};
+
+/**
+ * Contributions waiting for the user to accept or skip: paydays of plans that don't
+ * contribute automatically, where income has landed and nothing was recorded yet.
+ * Newest first.
+ */
+export const getContributionProposals = (
+  plans: GoalContributionPlan[],
+  goals: SavingsGoal[],
+  transactions: ContributionTransaction[],
+  contributions: Pick<GoalContribution, 'plan_id' | 'payday'>[],
+  today: string
+): ContributionProposal[] => {
+  const from = addDaysToIsoDate(today, -PROPOSAL_LOOKBACK_DAYS);
+  const handled = new Set(contributions.map(c => `${c.plan_id}:${c.payday}`));
+
+  return plans
+    .filter(plan => plan.is_active && !plan.auto_contribute)
+    .flatMap(plan => {
+      const goal = goals.find(item => item.id === plan.savings_goal_id);
+      if (!goal) return [];
+      const remaining = Math.max(Number(goal.target_amount) - Number(goal.current_amount || 0), 0);
+
+      return [...getPaydayIncome(goal, plan, transactions, from, today)]
+        .filter(([payday]) => !handled.has(`${plan.id}:${payday}`))
+        .map(([payday, income]) => {
+          const total = sumAmounts(income);
+          return {
+            plan,
+            goal,
+            payday,
+            income: total,
+            amount: getPlannedAmount(plan, total, remaining),
+            account_id: plan.account_id || income[0].account_id,
+          };
+        })
+        .filter(proposal => proposal.amount > 0);
+    })
+    .sort((a, b) => b.payday.localeCompare(a.payday));
+};
@@ -0,0 +1,131 @@
+// Savings goal history: contributions, withdrawals, interest, milestones and whether a goal is keeping pace
+import type { SavingsGoal, Transaction } from '@/types';
+import { addDaysToIsoDate } from './recurrence';
+import { getMonthlySavingsNeeded } from './goalWaterfall';
+
+// Share of the target, in percent, that counts as a milestone
+export const GOAL_MILESTONES = [25, 50, 75, 100] as const;
+
+// Days of contributions behind a goal's current pace
+export const PACE_LOOKBACK_DAYS = 90;
+
+const DAYS_PER_MONTH = 30.44;
+
+type GoalTransaction = Pick<Transaction, 'id' | 'type' | 'date' | 'amount' | 'savings_goal_id' | 'goal_withdrawal' | 'goal_interest'>;
+
+export interface GoalTimelinePoint {
+  date: string;
+  contributions: number;
+  withdrawals: number;
+  interest: number;
+  // Amount saved at the end of the day
+  balance: number;
+}
+
+export interface GoalMilestone {
+  percent: number;
+  amount: number;
+  // First day the goal held this much, or null while it hasn't
+  reachedOn: string | null;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Transfers into and out of a goal and interest it earned, oldest first
+ */
+export const getGoalTransactions = <T extends GoalTransaction>(goalId: string, transactions: T[]): T[] => {
+  return transactions
+    .filter(t => (t.type === 'transfer' || t.goal_interest) && t.savings_goal_id === goalId)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+};
+
+/**
+ * Contributions, withdrawals, interest and running balance for each day the goal changed
+ */
+export const getGoalTimeline = (goalId: string, transactions: GoalTransaction[]): GoalTimelinePoint[] => {
+  const points: GoalTimelinePoint[] = [];
+  let balance = 0;
+
+  getGoalTransactions(goalId, transactions).forEach(t => {
+    let point = points[points.length - 1];
+    if (!point || point.date !== t.date) {
+      point = { date: t.date, contributions: 0, withdrawals: 0, interest: 0, balance };
+      points.push(point);
+    }
+    const amount = Number(t.amount);
+    if (t.goal_withdrawal) {
+      point.withdrawals = roundCents(point.withdrawals + amount);
+      balance -= amount;
+    } else if (t.goal_interest) {
+      point.interest = roundCents(point.interest + amount);
+      balance += amount;
+    } else {
+      point.contributions = roundCents(point.contributions + amount);
+      balance += amount;
+    }
+    point.balance = roundCents(balance);
+  });
+
+  return points;
+};
+
+/**
+ * When the goal first reached 25, 50, 75 and 100% of its target. A milestone stays
+ * reached after a withdrawal takes the goal back below it.
+ */
+export const getGoalMilestones = (
+  goal: Pick<SavingsGoal, 'id' | 'target_amount'>,
+  transactions: GoalTransaction[]
+): GoalMilestone[] => {
+  const timeline = getGoalTimeline(goal.id, transactions);
+  return GOAL_MILESTONES.map(percent => {
+    const amount = roundCents((Number(goal.target_amount) * percent) / 100);
+    return {
+      percent,
+      amount,
+      reachedOn: timeline.find(point => point.balance >= amount)?.date ?? null,
+    };
+  });
+};
+
+/**
+ * Net monthly amount put into the goal over the last PACE_LOOKBACK_DAYS
+ */
+export const getGoalPace = (goalId: string, transactions: GoalTransaction[], today: string): number => {
+  const from = addDaysToIsoDate(today, -PACE_LOOKBACK_DAYS);
+  const net = getGoalTransactions(goalId, transactions)
+    .filter(t => t.date > from && t.date <= today)
+    .reduce((sum, t) => sum + (t.goal_withdrawal ? -Number(t.amount) : Number(t.amount)), 0);
+  return roundCents(net / (PACE_LOOKBACK_DAYS / DAYS_PER_MONTH));
+};
+
+/**
+ * A goal is off track when it is unfinished and its recent pace falls short of what it
+ * needs each month, or its target date has passed
+ */
+export const isGoalOffTrack = (
+  goal: Pick<SavingsGoal, 'id' | 'target_amount' | 'current_amount' | 'target_date'>,
+  transactions: GoalTransaction[],
+  today: string
+): boolean => {
+  if (Number(goal.current_amount || 0) >= Number(goal.target_amount)) return false;
+  if (goal.target_date <= today) return true;
+  return getGoalPace(goal.id, transactions, today) < getMonthlySavingsNeeded(goal, today);
+};
+
+/**
+ * Check that a withdrawal fits what the goal holds. Returns an error message, or null when valid.
+ */
+export const validateGoalWithdrawal = (
+  goal: Pick<SavingsGoal, 'current_amount'>,
+  amount: number
+): string | null => {
+  if (!(amount > 0)) {
+    return 'Withdrawal amount must be greater than 0.';
+  }
+  if (amount > Number(goal.current_amount || 0)) {
+    return 'You cannot withdraw more than the goal holds.';
+  }
+  return null;
+};
@@ -0,0 +1,194 @@
+// Interest on savings goals: posting what a goal has earned and projecting compound growth
+import type { CompoundingFrequency, SavingsGoal, Transaction } from '@/types';
+import { addMonthsToMonth, getMonthEnd, getMonthStart } from './envelopes';
+import { addDaysToIsoDate } from './recurrence';
+import { getMonthlySavingsNeeded } from './goalWaterfall';
+
+export const COMPOUNDING_FREQUENCY_LABELS: Record<CompoundingFrequency, string> = {
+  daily: 'Daily',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annually: 'Annually',
+};
+
+const PERIODS_PER_YEAR: Record<CompoundingFrequency, number> = {
+  daily: 365,
+  monthly: 12,
+  quarterly: 4,
+  annually: 1,
+};
+
+// Months between interest postings; daily interest is paid out monthly
+const POSTING_MONTHS: Record<CompoundingFrequency, number> = {
+  daily: 1,
+  monthly: 1,
+  quarterly: 3,
+  annually: 12,
+};
+
+const DAYS_PER_MONTH = 30.44;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type InterestTransaction = Pick<Transaction, 'type' | 'date' | 'amount' | 'savings_goal_id' | 'goal_withdrawal' | 'goal_interest'>;
+
+export interface InterestPosting {
+  date: string;
+  amount: number;
+}
+
+export interface ProjectionPoint {
+  month: string;
+  // Saved from contributions alone
+  saved: number;
+  // Saved including interest
+  balance: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const daysBetween = (from: string, to: string) => {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+};
+
+export const hasInterest = (goal: Pick<SavingsGoal, 'interest_rate'>): boolean => {
+  return Number(goal.interest_rate || 0) > 0;
+};
+
+/**
+ * Where interest posting picks up after the rate changes. A goal that starts earning
+ * interest starts from `today`, so nothing is backdated to before it had a rate; any
+ * other change leaves the posting date as it is (undefined).
+ */
+export const getInterestStart = (
+  previousRate: SavingsGoal['interest_rate'],
+  nextRate: SavingsGoal['interest_rate'],
+  today: string
+): string | undefined => {
+  return !hasInterest({ interest_rate: previousRate }) && hasInterest({ interest_rate: nextRate }) ? today : undefined;
+};
+
+/**
+ * Effective monthly growth for an annual rate in percent
+ */
+export const getMonthlyRate = (annualRate: number, frequency: CompoundingFrequency): number => {
+  const periods = PERIODS_PER_YEAR[frequency];
+  return Math.pow(1 + annualRate / 100 / periods, periods / 12) - 1;
+};
+
+/**
+ * Last day of each posting period that ends after `from` and on or before `to`
+ */
+export const getPostingDates = (frequency: CompoundingFrequency, from: string, to: string): string[] => {
+  const step = POSTING_MONTHS[frequency];
+  const dates: string[] = [];
+  // Quarters and years line up with the calendar
+  const firstMonth = Number(from.slice(5, 7)) - 1;
+  let month = addMonthsToMonth(getMonthStart(from), (step - 1) - (firstMonth % step));
+
+  while (getMonthEnd(month) <= to) {
+    if (getMonthEnd(month) > from) dates.push(getMonthEnd(month));
+    month = addMonthsToMonth(month, step);
+  }
+  return dates;
+};
+
+/**
+ * Interest a balance earns over one posting period, from the day after `from` to `to`
+ */
+export const getPeriodInterest = (
+  balance: number,
+  annualRate: number,
+  frequency: CompoundingFrequency,
+  from: string,
+  to: string
+): number => {
+  if (balance <= 0 || annualRate <= 0) return 0;
+  const rate = annualRate / 100;
+  const growth = frequency === 'daily'
+    ? Math.pow(1 + rate / 365, daysBetween(from, to)) - 1
+    : rate / PERIODS_PER_YEAR[frequency];
+  return roundCents(balance * growth);
+};
+
+/**
+ * Interest a goal has earned but not yet been paid, up to `today`. Money earns from the
+ * first full period it is in the goal, so each period uses the balance it started with.
+ */
+export const getDueInterest = (
+  goal: Pick<SavingsGoal, 'id' | 'interest_rate' | 'compounding_frequency' | 'interest_posted_through'>,
+  transactions: InterestTransaction[],
+  today: string
+): { postings: InterestPosting[]; postedThrough: string | null } => {
+  const movements = transactions
+    .filter(t => t.savings_goal_id === goal.id && (t.type === 'transfer' || t.goal_interest))
+    .map(t => ({ date: t.date, amount: t.goal_withdrawal ? -Number(t.amount) : Number(t.amount) }));
+  const firstDate = movements.reduce<string | null>((first, t) => (!first || t.date < first ? t.date : first), null);
+  const from = goal.interest_posted_through || (firstDate ? addDaysToIsoDate(firstDate, -1) : null);
+
+  if (!hasInterest(goal) || !from) {
+    return { postings: [], postedThrough: goal.interest_posted_through || null };
+  }
+
+  const frequency = goal.compounding_frequency || 'monthly';
+  const dates = getPostingDates(frequency, from, today);
+  const postings: InterestPosting[] = [];
+  let periodStart = from;
+  let posted = 0;
+
+  dates.forEach(date => {
+    const balance = movements.filter(t => t.date <= periodStart).reduce((sum, t) => sum + t.amount, 0) + posted;
+    const amount = getPeriodInterest(balance, Number(goal.interest_rate), frequency, periodStart, date);
+    if (amount >= 0.01) {
+      postings.push({ date, amount });
+      posted += amount;
+    }
+    periodStart = date;
+  });
+
+  return { postings, postedThrough: dates[dates.length - 1] || goal.interest_posted_through || null };
+};
+
+/**
+ * Month-end balances from `startMonth` when `monthlyContribution` goes in at the end of
+ * every month, with and without interest
+ */
+export const projectGoalBalance = (
+  currentAmount: number,
+  monthlyContribution: number,
+  annualRate: number,
+  frequency: CompoundingFrequency,
+  months: number,
+  startMonth: string
+): ProjectionPoint[] => {
+  const monthlyRate = getMonthlyRate(annualRate, frequency);
+  const points: ProjectionPoint[] = [{ month: startMonth, saved: roundCents(currentAmount), balance: roundCents(currentAmount) }];
+  let saved = currentAmount;
+  let balance = currentAmount;
+
+  for (let month = 1; month <= months; month++) {
+    saved += monthlyContribution;
+    balance = balance * (1 + monthlyRate) + monthlyContribution;
+    points.push({ month: addMonthsToMonth(startMonth, month), saved: roundCents(saved), balance: roundCents(balance) });
+  }
+  return points;
+};
+
+/**
+ * Monthly contribution that reaches the target by the target date once interest is
+ * counted. Matches monthly_savings_needed for goals without interest.
+ */
+export const getRequiredContributionWithInterest = (
+  goal: Pick<SavingsGoal, 'target_amount' | 'current_amount' | 'target_date' | 'interest_rate' | 'compounding_frequency'>,
+  today: string
+): number => {
+  const monthlyRate = getMonthlyRate(Number(goal.interest_rate || 0), goal.compounding_frequency || 'monthly');
+  if (monthlyRate <= 0) return getMonthlySavingsNeeded(goal, today);
+
+  const current = Number(goal.current_amount || 0);
+  const target = Number(goal.target_amount);
+  if (goal.target_date <= today || current >= target) return 0;
+
+  const months = Math.max(1, daysBetween(today, goal.target_date) / DAYS_PER_MONTH);
+  const growth = Math.pow(1 + monthlyRate, months);
+  return roundCents(Math.max(((target - current * growth) * monthlyRate) / (growth - 1), 0));
+};
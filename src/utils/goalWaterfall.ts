@@ -0,0 +1,182 @@
+// Savings waterfall: splitting monthly surplus between ranked goals and projecting completion
+import type { SavingsGoal, Transaction, WaterfallMethod } from '@/types';
+import { addMonthsToMonth, getMonthEnd, getMonthStart } from './envelopes';
+
+export const WATERFALL_METHOD_LABELS: Record<WaterfallMethod, string> = {
+  strict: 'By priority',
+  proportional: 'Proportionally',
+  minimum: 'Minimum for each, rest by priority',
+};
+
+export const WATERFALL_METHOD_DESCRIPTIONS: Record<WaterfallMethod, string> = {
+  strict: 'Each goal in turn gets what it needs this month; anything left goes to the top goal.',
+  proportional: 'Surplus is shared in proportion to what each goal needs per month.',
+  minimum: 'Every goal gets the minimum first, then the rest flows by priority.',
+};
+
+// Months of spending history behind the default surplus
+export const SURPLUS_HISTORY_MONTHS = 3;
+
+// Projections stop after this many months
+export const MAX_PROJECTION_MONTHS = 360;
+
+const DAYS_PER_MONTH = 30.44;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WaterfallGoal {
+  id: string;
+  name: string;
+  target_date: string;
+  remaining: number;
+  // What the goal needs each month to reach its target on time
+  monthlyNeeded: number;
+}
+
+export interface WaterfallProjection {
+  goal: WaterfallGoal;
+  firstAllocation: number;
+  // First day of the month the goal is fully funded, or null when it never is
+  completionMonth: string | null;
+  onTrack: boolean;
+}
+
+export interface WaterfallResult {
+  projections: WaterfallProjection[];
+  // Surplus left over in the first month once every goal has what it can take
+  unallocated: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Monthly amount a goal needs to reach its target by its target date, worked out the
+ * same way as the savings_goal_progress view. Zero once the date has passed or the
+ * goal is funded.
+ */
+export const getMonthlySavingsNeeded = (
+  goal: Pick<SavingsGoal, 'target_amount' | 'current_amount' | 'target_date'>,
+  today: string
+): number => {
+  const remaining = Number(goal.target_amount) - Number(goal.current_amount || 0);
+  if (goal.target_date <= today || remaining <= 0) return 0;
+  const months = (Date.parse(`${goal.target_date}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / DAY_MS / DAYS_PER_MONTH;
+  return roundCents(remaining / Math.max(1, months));
+};
+
+/**
+ * Goals in funding order: ranked goals by priority, then unranked goals oldest first
+ */
+export const sortGoalsByPriority = <T extends Pick<SavingsGoal, 'priority' | 'created_at'>>(goals: T[]): T[] => {
+  return [...goals].sort(
+    (a, b) => (a.priority ?? Infinity) - (b.priority ?? Infinity) || (a.created_at || '').localeCompare(b.created_at || '')
+  );
+};
+
+/**
+ * Split one month's surplus between goals, given in priority order. No goal gets more
+ * than it has left to save.
+ */
+export const allocateSurplus = (
+  goals: Pick<WaterfallGoal, 'remaining' | 'monthlyNeeded'>[],
+  surplus: number,
+  method: WaterfallMethod,
+  minimum = 0
+): number[] => {
+  const allocations = goals.map(() => 0);
+  let left = Math.max(surplus, 0);
+
+  const give = (index: number, amount: number) => {
+    const amountGiven = Math.min(amount, goals[index].remaining - allocations[index], left);
+    if (amountGiven <= 0) return;
+    allocations[index] += amountGiven;
+    left -= amountGiven;
+  };
+
+  if (method === 'proportional') {
+    // Capped goals drop out and their share is spread over the rest
+    while (left > 0.005) {
+      const open = goals.map((_, index) => index).filter(index => goals[index].remaining - allocations[index] > 0.005);
+      if (open.length === 0) break;
+      const needWeights = open.map(index => goals[index].monthlyNeeded);
+      const weights = needWeights.some(weight => weight > 0)
+        ? needWeights
+        : open.map(index => goals[index].remaining - allocations[index]);
+      const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+      const pool = left;
+      open.forEach((index, position) => give(index, (pool * weights[position]) / totalWeight));
+      if (pool - left < 0.005) break;
+    }
+  } else {
+    if (method === 'minimum') {
+      goals.forEach((_, index) => give(index, minimum));
+    }
+    goals.forEach((goal, index) => give(index, goal.monthlyNeeded - allocations[index]));
+    goals.forEach((_, index) => give(index, Infinity));
+  }
+
+  return allocations.map(roundCents);
+};
+
+/**
+ * Project month by month when each goal, given in priority order, is fully funded if
+ * the same surplus is split the same way every month from `startMonth`
+ */
+export const simulateWaterfall = (
+  goals: WaterfallGoal[],
+  surplus: number,
+  method: WaterfallMethod,
+  minimum: number,
+  startMonth: string
+): WaterfallResult => {
+  const remaining = goals.map(goal => Math.max(goal.remaining, 0));
+  const completionMonths: (string | null)[] = goals.map(() => null);
+  let firstAllocations = goals.map(() => 0);
+
+  for (let month = 0; month < MAX_PROJECTION_MONTHS && surplus > 0; month++) {
+    const open = goals.map((goal, index) => ({ ...goal, remaining: remaining[index] }));
+    if (open.every(goal => goal.remaining <= 0)) break;
+
+    const allocations = allocateSurplus(open, surplus, method, minimum);
+    if (month === 0) firstAllocations = allocations;
+
+    allocations.forEach((amount, index) => {
+      remaining[index] = roundCents(remaining[index] - amount);
+      if (remaining[index] <= 0 && !completionMonths[index]) {
+        completionMonths[index] = addMonthsToMonth(startMonth, month);
+      }
+    });
+  }
+
+  goals.forEach((goal, index) => {
+    if (goal.remaining <= 0) completionMonths[index] = startMonth;
+  });
+
+  return {
+    projections: goals.map((goal, index) => ({
+      goal,
+      firstAllocation: firstAllocations[index],
+      completionMonth: completionMonths[index],
+      onTrack: !!completionMonths[index] && completionMonths[index]! <= getMonthStart(goal.target_date),
+    })),
+    unallocated: roundCents(Math.max(surplus, 0) - firstAllocations.reduce((sum, amount) => sum + amount, 0)),
+  };
+};
+
+/**
+ * Average monthly income minus expenses over the last `months` full months
+ */
+export const getAverageMonthlySurplus = (
+  transactions: Pick<Transaction, 'type' | 'date' | 'amount'>[],
+  months: number,
+  today: string
+): number => {
+  const currentMonth = getMonthStart(today);
+  const from = addMonthsToMonth(currentMonth, -months);
+  const to = getMonthEnd(addMonthsToMonth(currentMonth, -1));
+
+  const net = transactions
+    .filter(t => t.date >= from && t.date <= to)
+    .reduce((sum, t) => sum + (t.type === 'income' ? Number(t.amount) : t.type === 'expense' ? -Number(t.amount) : 0), 0);
+
+  return roundCents(net / months);
+};
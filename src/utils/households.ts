@@ -0,0 +1,53 @@
+// Household sharing: roles, member attribution and which transactions a budget covers
+import type { Budget, HouseholdMember, HouseholdRole, Transaction } from '@/types';
+
+export const HOUSEHOLD_ROLE_LABELS: Record<HouseholdRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+export const HOUSEHOLD_ROLE_DESCRIPTIONS: Record<HouseholdRole, string> = {
+  owner: 'Manages members and can change everything shared',
+  editor: 'Can change shared accounts, budgets and goals',
+  viewer: 'Can see shared accounts, budgets and goals',
+};
+
+/**
+ * PostgREST filter for the user's own rows plus rows shared with a household.
+ * Row level security limits the shared rows to the user's own household.
+ */
+export const ownOrSharedFilter = (userId: string): string => `user_id.eq.${userId},household_id.not.is.null`;
+
+/**
+ * Whether a member with this role may share items and change shared ones
+ */
+export const canEditShared = (role: HouseholdRole | null | undefined): boolean => {
+  return role === 'owner' || role === 'editor';
+};
+
+/**
+ * Display name for a household member, falling back to their email
+ */
+export const getMemberName = (
+  members: Pick<HouseholdMember, 'user_id' | 'full_name' | 'email'>[],
+  userId: string
+): string => {
+  const member = members.find(item => item.user_id === userId);
+  return member?.full_name || member?.email || 'Household member';
+};
+
+/**
+ * Transactions that count towards a budget: everything in the household for a shared
+ * budget, and only the user's own transactions for a personal one
+ */
+export const getBudgetTransactions = <T extends Pick<Transaction, 'user_id' | 'household_id'>>(
+  budget: Pick<Budget, 'household_id'>,
+  transactions: T[],
+  userId: string
+): T[] => {
+  if (budget.household_id) {
+    return transactions.filter(transaction => transaction.household_id === budget.household_id);
+  }
+  return transactions.filter(transaction => !transaction.user_id || transaction.user_id === userId);
+};
@@ -0,0 +1,544 @@
+// Insight templates: a catalog of metrics, conditions on them and interpolated title and content
+import type { Database } from '@/integrations/supabase/types';
+import type { Transaction } from '@/types';
+import type {
+  CreateInsightInput,
+  InsightCondition,
+  InsightConditionOperator,
+  InsightGenerationContext,
+  InsightMetric,
+  InsightMetricScope,
+  InsightTemplate,
+  InsightType,
+} from '@/types/insights';
+import { getBudgetUtilization } from './budgetPeriods';
+import { addMonthsToMonth, getMonthEnd, getMonthStart } from './envelopes';
+import { addDaysToIsoDate } from './recurrence';
+import { expandSplitLines } from './transactionSplits';
+import { excludeTransfers } from './transfers';
+
+export interface InsightMetricDefinition {
+  label: string;
+  description: string;
+  scope: InsightMetricScope;
+  format: 'currency' | 'percent' | 'count';
+  // Figure a percentage is worked out from; a condition's threshold is checked against it
+  base?: InsightMetric;
+}
+
+export const INSIGHT_METRICS: Record<InsightMetric, InsightMetricDefinition> = {
+  spending: { label: 'Spending', description: 'Expenses this period', scope: 'overall', format: 'currency' },
+  previous_spending: { label: 'Previous spending', description: 'Expenses the period before', scope: 'overall', format: 'currency' },
+  income: { label: 'Income', description: 'Income this period', scope: 'overall', format: 'currency' },
+  net: { label: 'Net', description: 'Income less expenses this period', scope: 'overall', format: 'currency' },
+  transaction_count: { label: 'Transactions', description: 'Income and expense transactions this period', scope: 'overall', format: 'count' },
+  spending_increase: {
+    label: 'Spending increase',
+    description: 'Change in spending from the period before',
+    scope: 'overall',
+    format: 'percent',
+    base: 'previous_spending',
+  },
+  spending_decrease: {
+    label: 'Spending decrease',
+    description: 'Drop in spending from the period before',
+    scope: 'overall',
+    format: 'percent',
+    base: 'previous_spending',
+  },
+  savings_rate: { label: 'Savings rate', description: 'Share of income not spent', scope: 'overall', format: 'percent', base: 'income' },
+  category_spending: { label: 'Category spending', description: 'Expenses in the category this period', scope: 'category', format: 'currency' },
+  category_previous_spending: {
+    label: 'Previous category spending',
+    description: 'Expenses in the category the period before',
+    scope: 'category',
+    format: 'currency',
+  },
+  category_share: {
+    label: 'Category share',
+    description: 'Share of all spending that went to the category',
+    scope: 'category',
+    format: 'percent',
+    base: 'spending',
+  },
+  category_change: {
+    label: 'Category change',
+    description: 'Change in the category\'s spending from the period before',
+    scope: 'category',
+    format: 'percent',
+    base: 'category_previous_spending',
+  },
+  budget_spent: { label: 'Budget spent', description: 'Spent in the budget\'s current period', scope: 'budget', format: 'currency' },
+  budget_limit: { label: 'Budget limit', description: 'Available this period, rollover included', scope: 'budget', format: 'currency' },
+  budget_utilization: {
+    label: 'Budget utilization',
+    description: 'Share of the budget used this period',
+    scope: 'budget',
+    format: 'percent',
+    base: 'budget_limit',
+  },
+  budget_remaining: { label: 'Budget remaining', description: 'Left to spend this period', scope: 'budget', format: 'currency' },
+};
+
+export const INSIGHT_CONDITION_OPERATORS: Record<InsightConditionOperator, string> = {
+  gt: 'is more than',
+  gte: 'is at least',
+  lt: 'is less than',
+  lte: 'is at most',
+  eq: 'equals',
+  between: 'is between',
+};
+
+const builtIn = (template: Omit<InsightTemplate, 'is_builtin'>): InsightTemplate => ({ ...template, is_builtin: true });
+
+export const BUILT_IN_INSIGHT_TEMPLATES: InsightTemplate[] = [
+  // The daily templates split the change from yesterday into ranges, so only one fires a day
+  builtIn({
+    id: 'daily-spending',
+    name: 'Daily spending up',
+    type: 'daily',
+    title_template: 'Daily Spending Update',
+    content_template: 'Today you spent {{spending}} across {{transaction_count}} transactions. This is {{spending_increase}} more than yesterday.',
+    priority: 'medium',
+    conditions: [
+      { field: 'transaction_count', operator: 'gt', value: 0 },
+      { field: 'spending_increase', operator: 'gt', value: 0.05 },
+      { field: 'spending_increase', operator: 'lte', value: 50 },
+    ],
+  }),
+  builtIn({
+    id: 'daily-spending-spike',
+    name: 'Spending spike',
+    type: 'daily',
+    title_template: 'Daily Spending Update',
+    content_template: 'Today you spent {{spending}} across {{transaction_count}} transactions. This is {{spending_increase}} more than yesterday.',
+    priority: 'high',
+    conditions: [{ field: 'spending_increase', operator: 'gt', value: 50 }],
+  }),
+  builtIn({
+    id: 'daily-spending-down',
+    name: 'Daily spending down',
+    type: 'daily',
+    title_template: 'Daily Spending Update',
+    content_template: 'Today you spent {{spending}} across {{transaction_count}} transactions. This is {{spending_decrease}} less than yesterday.',
+    priority: 'medium',
+    conditions: [
+      { field: 'transaction_count', operator: 'gt', value: 0 },
+      { field: 'spending_increase', operator: 'lt', value: -0.05 },
+    ],
+  }),
+  builtIn({
+    id: 'daily-spending-steady',
+    name: 'Daily spending steady',
+    type: 'daily',
+    title_template: 'Daily Spending Update',
+    content_template: 'Today you spent {{spending}} across {{transaction_count}} transactions. This is about the same as yesterday.',
+    priority: 'medium',
+    conditions: [
+      { field: 'transaction_count', operator: 'gt', value: 0 },
+      { field: 'spending_increase', operator: 'between', value: [-0.05, 0.05] },
+    ],
+  }),
+  builtIn({
+    id: 'weekly-summary',
+    name: 'Weekly summary',
+    type: 'weekly',
+    title_template: 'Weekly Financial Summary',
+    content_template: 'This week you spent {{spending}} and earned {{income}}. Your net change is {{net}}.',
+    priority: 'medium',
+    conditions: [{ field: 'transaction_count', operator: 'gt', value: 0 }],
+  }),
+  // The same review, raised to high priority when less than 10% of income is saved
+  builtIn({
+    id: 'monthly-review',
+    name: 'Monthly review',
+    type: 'monthly',
+    title_template: 'Monthly Financial Review',
+    content_template: 'This month you spent {{spending}} and earned {{income}}. Your savings rate is {{savings_rate}}.',
+    priority: 'medium',
+    conditions: [
+      { field: 'transaction_count', operator: 'gt', value: 0 },
+      { field: 'savings_rate', operator: 'gte', value: 10 },
+    ],
+  }),
+  builtIn({
+    id: 'low-savings-rate',
+    name: 'Monthly review, low savings rate',
+    type: 'monthly',
+    title_template: 'Monthly Financial Review',
+    content_template: 'This month you spent {{spending}} and earned {{income}}. Your savings rate is {{savings_rate}}.',
+    priority: 'high',
+    conditions: [
+      { field: 'transaction_count', operator: 'gt', value: 0 },
+      { field: 'savings_rate', operator: 'lt', value: 10 },
+    ],
+  }),
+  builtIn({
+    id: 'top-category-share',
+    name: 'Category taking most of your spending',
+    type: 'monthly',
+    title_template: '{{category}} Leads Your Spending',
+    content_template: '{{category}} made up {{category_share}} of your spending this month ({{category_spending}} of {{spending}}).',
+    priority: 'low',
+    conditions: [{ field: 'category_share', operator: 'gte', value: 40, threshold: 100 }],
+  }),
+  builtIn({
+    id: 'budget-alert',
+    name: 'Budget nearly used',
+    type: 'threshold_alert',
+    title_template: 'Budget Alert: {{budget}}',
+    content_template: 'You\'ve used {{budget_utilization}} of your {{budget}} budget ({{budget_spent}} of {{budget_limit}}).',
+    priority: 'medium',
+    conditions: [
+      { field: 'budget_utilization', operator: 'gte', value: 90 },
+      { field: 'budget_utilization', operator: 'lt', value: 100 },
+    ],
+  }),
+  builtIn({
+    id: 'budget-over',
+    name: 'Budget overspent',
+    type: 'threshold_alert',
+    title_template: 'Budget Alert: {{budget}}',
+    content_template: 'You\'ve gone over your {{budget}} budget, spending {{budget_spent}} of {{budget_limit}} ({{budget_utilization}}).',
+    priority: 'high',
+    conditions: [{ field: 'budget_utilization', operator: 'gte', value: 100 }],
+  }),
+];
+
+export interface InsightPeriod {
+  start: string;
+  end: string;
+  previousStart: string;
+  previousEnd: string;
+}
+
+export type InsightMetricValues = Partial<Record<InsightMetric, number>>;
+
+export interface InsightSubject {
+  // Category or budget name; absent for the overall scope
+  name?: string;
+  metrics: InsightMetricValues;
+  period: { start: string; end: string };
+}
+
+export type InsightTemplateData = Pick<InsightGenerationContext, 'transactions' | 'categories' | 'budgets' | 'budget_periods'>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Placeholders filled with the name of the category or budget a template matched
+const NAME_PLACEHOLDERS: InsightMetricScope[] = ['category', 'budget'];
+
+const isMetric = (key: string): key is InsightMetric => Object.prototype.hasOwnProperty.call(INSIGHT_METRICS, key);
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const percentOf = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : 0);
+
+const changeFrom = (current: number, previous: number) => (previous > 0 ? ((current - previous) / previous) * 100 : 0);
+
+/**
+ * The dates an insight type looks at and the period it's compared with: the day, the
+ * week from Sunday, or the calendar month. Threshold alerts look at the month.
+ */
+export const getInsightPeriod = (type: InsightType, today: string): InsightPeriod => {
+  if (type === 'daily') {
+    const yesterday = addDaysToIsoDate(today, -1);
+    return { start: today, end: today, previousStart: yesterday, previousEnd: yesterday };
+  }
+  if (type === 'weekly') {
+    const start = addDaysToIsoDate(today, -new Date(`${today}T00:00:00Z`).getUTCDay());
+    return {
+      start,
+      end: addDaysToIsoDate(start, 6),
+      previousStart: addDaysToIsoDate(start, -7),
+      previousEnd: addDaysToIsoDate(start, -1),
+    };
+  }
+  const month = getMonthStart(today);
+  const previousMonth = addMonthsToMonth(month, -1);
+  return { start: month, end: getMonthEnd(month), previousStart: previousMonth, previousEnd: getMonthEnd(previousMonth) };
+};
+
+const inRange = (transactions: Transaction[], start: string, end: string) =>
+  transactions.filter(t => t.date >= start && t.date <= end);
+
+const sumExpenses = (transactions: Transaction[]) =>
+  roundCents(transactions.filter(t => t.type === 'expense').reduce((sum, t) => sum + Number(t.amount), 0));
+
+/**
+ * Spending, income and savings figures for a period, compared with the one before.
+ * Transfers are left out.
+ */
+export const getOverallMetrics = (transactions: Transaction[], period: InsightPeriod): InsightMetricValues => {
+  const spendable = excludeTransfers(transactions);
+  const current = inRange(spendable, period.start, period.end);
+  const spending = sumExpenses(current);
+  const previousSpending = sumExpenses(inRange(spendable, period.previousStart, period.previousEnd));
+  const income = roundCents(current.filter(t => t.type === 'income').reduce((sum, t) => sum + Number(t.amount), 0));
+
+  return {
+    spending,
+    previous_spending: previousSpending,
+    income,
+    net: roundCents(income - spending),
+    transaction_count: current.length,
+    spending_increase: changeFrom(spending, previousSpending),
+    spending_decrease: Math.max(-changeFrom(spending, previousSpending), 0),
+    savings_rate: percentOf(income - spending, income),
+  };
+};
+
+/**
+ * One subject per thing a template can match: the whole period, each category spent in
+ * this period or the one before, or each active budget. Every subject also carries the
+ * overall figures, so templates can mention them.
+ */
+export const getInsightSubjects = (
+  scope: InsightMetricScope,
+  data: InsightTemplateData,
+  period: InsightPeriod,
+  today: string
+): InsightSubject[] => {
+  const overall = getOverallMetrics(data.transactions, period);
+  const categoryName = (categoryId: string | null | undefined) =>
+    data.categories.find(c => c.id === categoryId)?.name || 'Uncategorized';
+
+  if (scope === 'category') {
+    const expenses = expandSplitLines(data.transactions.filter(t => t.type === 'expense'));
+    const byCategory = (start: string, end: string) => inRange(expenses, start, end).reduce<Record<string, number>>((totals, t) => {
+      const key = t.category_id || '';
+      totals[key] = (totals[key] || 0) + Number(t.amount);
+      return totals;
+    }, {});
+    const current = byCategory(period.start, period.end);
+    const previous = byCategory(period.previousStart, period.previousEnd);
+
+    return [...new Set([...Object.keys(current), ...Object.keys(previous)])].map(categoryId => {
+      const spending = roundCents(current[categoryId] || 0);
+      const previousSpending = roundCents(previous[categoryId] || 0);
+      return {
+        name: categoryName(categoryId || null),
+        metrics: {
+          ...overall,
+          category_spending: spending,
+          category_previous_spending: previousSpending,
+          category_share: percentOf(spending, overall.spending || 0),
+          category_change: changeFrom(spending, previousSpending),
+        },
+        period: { start: period.start, end: period.end },
+      };
+    });
+  }
+
+  if (scope === 'budget') {
+    return (data.budgets || []).flatMap(budget => {
+      const history = (data.budget_periods || []).filter(item => item.budget_id === budget.id);
+      const utilization = getBudgetUtilization(budget, data.transactions, history, today);
+      if (utilization.state !== 'active') return [];
+
+      return [{
+        name: budget.category_id ? categoryName(budget.category_id) : 'All Expenses',
+        metrics: {
+          ...overall,
+          budget_spent: utilization.spent,
+          budget_limit: utilization.available,
+          budget_utilization: utilization.percentage,
+          budget_remaining: utilization.remaining,
+        },
+        period: { start: utilization.window.start, end: utilization.window.end },
+      }];
+    });
+  }
+
+  return [{ metrics: overall, period: { start: period.start, end: period.end } }];
+};
+
+const getPlaceholders = (template: Pick<InsightTemplate, 'title_template' | 'content_template'>): string[] =>
+  [...`${template.title_template} ${template.content_template}`.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]);
+
+const scopeOfPlaceholder = (placeholder: string): InsightMetricScope | null => {
+  if (isMetric(placeholder)) return INSIGHT_METRICS[placeholder].scope;
+  return NAME_PLACEHOLDERS.find(scope => scope === placeholder) || null;
+};
+
+/**
+ * Every scope a template's conditions and placeholders reach into
+ */
+const getTemplateScopes = (template: Pick<InsightTemplate, 'title_template' | 'content_template' | 'conditions'>) => {
+  const scopes = new Set<InsightMetricScope>();
+  template.conditions.forEach(condition => {
+    if (isMetric(condition.field)) scopes.add(INSIGHT_METRICS[condition.field].scope);
+  });
+  getPlaceholders(template).forEach(placeholder => {
+    const scope = scopeOfPlaceholder(placeholder);
+    if (scope) scopes.add(scope);
+  });
+  return scopes;
+};
+
+/**
+ * Whether a template is checked once per period, per category or per budget
+ */
+export const getTemplateScope = (
+  template: Pick<InsightTemplate, 'title_template' | 'content_template' | 'conditions'>
+): InsightMetricScope => {
+  const scopes = getTemplateScopes(template);
+  if (scopes.has('budget')) return 'budget';
+  if (scopes.has('category')) return 'category';
+  return 'overall';
+};
+
+/**
+ * Check a condition against a subject's figures. Percentage conditions with a threshold
+ * only hold once the figure they're worked out from reaches it, so a jump from $2 to $5
+ * doesn't read as a 150% increase.
+ */
+export const meetsCondition = (condition: InsightCondition, metrics: InsightMetricValues): boolean => {
+  const value = metrics[condition.field];
+  if (value === undefined) return false;
+
+  const base = isMetric(condition.field) ? INSIGHT_METRICS[condition.field].base : undefined;
+  if (condition.threshold !== undefined && base && (metrics[base] ?? 0) < condition.threshold) return false;
+
+  if (condition.operator === 'between') {
+    if (!Array.isArray(condition.value)) return false;
+    const [min, max] = condition.value;
+    return value >= min && value <= max;
+  }
+  if (Array.isArray(condition.value)) return false;
+
+  switch (condition.operator) {
+    case 'gt':
+      return value > condition.value;
+    case 'gte':
+      return value >= condition.value;
+    case 'lt':
+      return value < condition.value;
+    case 'lte':
+      return value <= condition.value;
+    case 'eq':
+      return Math.abs(value - condition.value) < 0.005;
+    default:
+      return false;
+  }
+};
+
+export const formatMetricValue = (metric: InsightMetric, value: number): string => {
+  switch (INSIGHT_METRICS[metric].format) {
+    case 'currency':
+      return `$${value.toFixed(2)}`;
+    case 'percent':
+      return `${value.toFixed(1)}%`;
+    default:
+      return String(Math.round(value));
+  }
+};
+
+/**
+ * Fill `{{metric}}`, `{{category}}` and `{{budget}}` placeholders. Unknown placeholders
+ * are left as written.
+ */
+export const interpolateTemplate = (text: string, subject: Pick<InsightSubject, 'name' | 'metrics'>): string => {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => {
+    if (isMetric(key)) {
+      const value = subject.metrics[key];
+      return value === undefined ? placeholder : formatMetricValue(key, value);
+    }
+    if (scopeOfPlaceholder(key) && subject.name !== undefined) return subject.name;
+    return placeholder;
+  });
+};
+
+/**
+ * A user's template as stored in insight_templates
+ */
+export const fromInsightTemplateRow = (row: Database['public']['Tables']['insight_templates']['Row']): InsightTemplate => ({
+  id: row.id,
+  name: row.name,
+  type: row.insight_type as InsightType,
+  title_template: row.title_template,
+  content_template: row.content_template,
+  priority: row.priority as InsightTemplate['priority'],
+  conditions: (Array.isArray(row.conditions) ? row.conditions : []) as unknown as InsightCondition[],
+  is_enabled: row.is_enabled,
+});
+
+/**
+ * Built-in templates the user hasn't switched off, then their own enabled templates
+ */
+export const getActiveTemplates = (customTemplates: InsightTemplate[], disabledTemplateIds: string[]): InsightTemplate[] => [
+  ...BUILT_IN_INSIGHT_TEMPLATES.filter(template => !disabledTemplateIds.includes(template.id)),
+  ...customTemplates.filter(template => template.is_enabled !== false),
+];
+
+/**
+ * Insights for every template of a type whose conditions all hold, once per matching
+ * subject
+ */
+export const evaluateInsightTemplates = (
+  templates: InsightTemplate[],
+  type: InsightType,
+  data: InsightTemplateData,
+  today: string
+): CreateInsightInput[] => {
+  const period = getInsightPeriod(type, today);
+  const subjects: Partial<Record<InsightMetricScope, InsightSubject[]>> = {};
+
+  return templates
+    .filter(template => template.type === type)
+    .flatMap(template => {
+      const scope = getTemplateScope(template);
+      subjects[scope] = subjects[scope] || getInsightSubjects(scope, data, period, today);
+
+      return subjects[scope]!
+        .filter(subject => template.conditions.every(condition => meetsCondition(condition, subject.metrics)))
+        .map((subject): CreateInsightInput => ({
+          insight_type: type,
+          title: interpolateTemplate(template.title_template, subject),
+          content: interpolateTemplate(template.content_template, subject),
+          priority: template.priority,
+          period_start: subject.period.start,
+          period_end: subject.period.end,
+          generation_trigger: type === 'threshold_alert' ? 'threshold' : 'scheduled',
+        }));
+    });
+};
+
+/**
+ * Why a template can't be saved, or null when it can
+ */
+export const validateInsightTemplate = (
+  template: Pick<InsightTemplate, 'name' | 'title_template' | 'content_template' | 'conditions'>
+): string | null => {
+  if (!template.name.trim()) return 'Name is required';
+  if (!template.title_template.trim()) return 'Title is required';
+  if (!template.content_template.trim()) return 'Content is required';
+  if (template.conditions.length === 0) return 'Add at least one condition';
+
+  for (const condition of template.conditions) {
+    if (!isMetric(condition.field)) return `Unknown metric ${condition.field}`;
+    if (condition.operator === 'between') {
+      if (!Array.isArray(condition.value) || condition.value.some(value => !Number.isFinite(value))) {
+        return `${INSIGHT_METRICS[condition.field].label} needs a lower and an upper value`;
+      }
+      if (condition.value[0] > condition.value[1]) {
+        return `${INSIGHT_METRICS[condition.field].label} range is the wrong way round`;
+      }
+    } else if (Array.isArray(condition.value) || !Number.isFinite(condition.value)) {
+      return `${INSIGHT_METRICS[condition.field].label} needs a value`;
+    }
+    if (condition.threshold !== undefined && !(condition.threshold >= 0)) {
+      return 'Threshold cannot be negative';
+    }
+  }
+
+  const unknown = getPlaceholders(template).find(placeholder => !scopeOfPlaceholder(placeholder));
+  if (unknown) return `Unknown placeholder {{${unknown}}}`;
+
+  const scopes = getTemplateScopes(template);
+  if (scopes.has('category') && scopes.has('budget')) {
+    return 'A template can look at categories or budgets, not both';
+  }
+
+  return null;
+};
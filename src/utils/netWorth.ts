@@ -0,0 +1,138 @@
+// Net worth: account balances and savings goals plus hand-valued assets, less liabilities
+import type {
+  AccountBalance,
+  NetWorthCategory,
+  NetWorthItem,
+  NetWorthItemKind,
+  NetWorthSnapshot,
+  NetWorthValuation,
+  SavingsGoal,
+} from '@/types';
+
+export const NET_WORTH_CATEGORY_LABELS: Record<NetWorthCategory, string> = {
+  property: 'Property',
+  vehicle: 'Vehicle',
+  investment: 'Investment',
+  other_asset: 'Other asset',
+  loan: 'Loan',
+  credit_card: 'Credit card',
+  other_liability: 'Other liability',
+};
+
+export const NET_WORTH_CATEGORIES: Record<NetWorthItemKind, NetWorthCategory[]> = {
+  asset: ['property', 'vehicle', 'investment', 'other_asset'],
+  liability: ['loan', 'credit_card', 'other_liability'],
+};
+
+export interface NetWorthSummary {
+  assets: number;
+  liabilities: number;
+  netWorth: number;
+}
+
+export interface NetWorthHistoryPoint extends NetWorthSummary {
+  month: string;
+}
+
+export interface GoalHolding {
+  goal: SavingsGoal;
+  balance: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Latest valuation of an item on or before `date`, or null when it hadn't been valued yet
+ */
+export const getLatestValuation = (
+  itemId: string,
+  valuations: Pick<NetWorthValuation, 'item_id' | 'valued_on' | 'value'>[],
+  date: string
+): number | null => {
+  const latest = valuations
+    .filter(v => v.item_id === itemId && v.valued_on <= date)
+    .reduce<Pick<NetWorthValuation, 'valued_on' | 'value'> | null>(
+      (best, v) => (!best || v.valued_on > best.valued_on ? v : best),
+      null
+    );
+  return latest ? Number(latest.value) : null;
+};
+
+/**
+ * Money each savings goal holds apart from the accounts. Transfers into a goal leave their
+ * account and its interest stays in the goal, so the goal's balance is counted on its own.
+ */
+export const getGoalHoldings = (goals: SavingsGoal[]): GoalHolding[] => {
+  return goals.map(goal => ({ goal, balance: roundCents(Number(goal.current_amount || 0)) }));
+};
+
+/**
+ * Assets, liabilities and net worth on `date`. Accounts in credit count as assets and
+ * overdrawn accounts as liabilities, whatever their type.
+ */
+export const getNetWorth = (
+  accountBalances: Pick<AccountBalance, 'balance'>[],
+  goalHoldings: Pick<GoalHolding, 'balance'>[],
+  items: Pick<NetWorthItem, 'id' | 'kind' | 'is_archived'>[],
+  valuations: Pick<NetWorthValuation, 'item_id' | 'valued_on' | 'value'>[],
+  date: string
+): NetWorthSummary => {
+  let assets = 0;
+  let liabilities = 0;
+
+  accountBalances.forEach(({ balance }) => {
+    if (balance >= 0) assets += balance;
+    else liabilities -= balance;
+  });
+
+  goalHoldings.forEach(({ balance }) => {
+    assets += balance;
+  });
+
+  items
+    .filter(item => !item.is_archived)
+    .forEach(item => {
+      const value = getLatestValuation(item.id, valuations, date) ?? 0;
+      if (item.kind === 'asset') assets += value;
+      else liabilities += value;
+    });
+
+  return {
+    assets: roundCents(assets),
+    liabilities: roundCents(liabilities),
+    netWorth: roundCents(assets - liabilities),
+  };
+};
+
+/**
+ * Monthly net worth from snapshots, oldest first, with the current month replaced by
+ * its live figures
+ */
+export const getNetWorthHistory = (
+  snapshots: Pick<NetWorthSnapshot, 'month' | 'assets' | 'liabilities'>[],
+  current: NetWorthSummary,
+  currentMonth: string
+): NetWorthHistoryPoint[] => {
+  const history = snapshots
+    .filter(snapshot => snapshot.month < currentMonth)
+    .map(snapshot => ({
+      month: snapshot.month,
+      assets: Number(snapshot.assets),
+      liabilities: Number(snapshot.liabilities),
+      netWorth: roundCents(Number(snapshot.assets) - Number(snapshot.liabilities)),
+    }))
+    .sort((a, b) => a.month.localeCompare(b.month));
+
+  return [...history, { month: currentMonth, ...current }];
+};
+
+/**
+ * Percent change in net worth since the previous month, or 0 without one to compare to
+ */
+export const getNetWorthChange = (history: Pick<NetWorthHistoryPoint, 'netWorth'>[]): number => {
+  if (history.length < 2) return 0;
+  const previous = history[history.length - 2].netWorth;
+  const current = history[history.length - 1].netWorth;
+  if (previous === 0) return 0;
+  return Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10;
+};
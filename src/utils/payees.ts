@@ -0,0 +1,59 @@
+// Payees give the many spellings of a merchant in bank descriptions one canonical name
+import type { Payee } from '@/types';
+
+// Statement noise that says nothing about who was paid
+const NOISE_WORDS = new Set(['pos', 'purchase', 'debit', 'credit', 'card', 'payment', 'online', 'ref', 'trx', 'inc', 'corp']);
+
+// Enough words to tell merchants apart without keeping branch and terminal details
+const MAX_NAME_WORDS = 3;
+
+const titleCase = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+/**
+ * Turn a raw description into a tidy merchant name, e.g. "POS JOLLIBEE KATIPUNAN #1234"
+ * becomes "Jollibee Katipunan". Words with digits are dropped as reference numbers.
+ */
+export const normalizePayeeName = (description: string): string => {
+  return description
+    .replace(/[*#_/\\|:]+/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !/\d/.test(word) && !NOISE_WORDS.has(word.toLowerCase()))
+    .slice(0, MAX_NAME_WORDS)
+    .map(titleCase)
+    .join(' ');
+};
+
+/**
+ * Trim aliases and drop blanks, duplicates and copies of the payee name
+ */
+export const cleanPayeeAliases = (name: string, aliases: string[]): string[] => {
+  const seen = new Set([name.trim().toLowerCase()]);
+  return aliases
+    .map(alias => alias.trim())
+    .filter(alias => {
+      const key = alias.toLowerCase();
+      if (!alias || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+/**
+ * Find the payee whose name or alias appears in a description. When several do,
+ * the longest match wins so "Grab Food" beats "Grab".
+ */
+export const findPayeeForDescription = (description: string, payees: Payee[]): Payee | null => {
+  const text = description.toLowerCase();
+  let best: { payee: Payee; length: number } | null = null;
+
+  for (const payee of payees) {
+    for (const candidate of [payee.name, ...payee.aliases]) {
+      const needle = candidate.trim().toLowerCase();
+      if (needle && text.includes(needle) && (!best || needle.length > best.length)) {
+        best = { payee, length: needle.length };
+      }
+    }
+  }
+
+  return best?.payee ?? null;
+};
@@ -0,0 +1,151 @@
+// Schedule calculations for recurring transactions
+import type { RecurrenceFrequency, RecurringOccurrence, RecurringTransaction, UpcomingOccurrence } from '@/types';
+
+export type RecurrenceRule = Pick<
+  RecurringTransaction,
+  'frequency' | 'start_date' | 'end_date' | 'day_of_month_1' | 'day_of_month_2'
+>;
+
+export const RECURRENCE_FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  bi_monthly: 'Twice a month',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number): string => `${year}-${pad(month)}-${pad(day)}`;
+
+const parseIsoDate = (iso: string) => {
+  const [year, month, day] = iso.split('-').map(Number);
+  return { year, month, day };
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// Days past the end of a month fall on its last day (the 30th becomes Feb 28/29)
+const clampDay = (year: number, month: number, day: number): number => Math.min(day, daysInMonth(year, month));
+
+const toUtc = (iso: string): number => {
+  const { year, month, day } = parseIsoDate(iso);
+  return Date.UTC(year, month - 1, day);
+};
+
+/**
+ * Today's date as an ISO date (UTC)
+ */
+export const todayIsoDate = (): string => {
+  return new Date().toISOString().split('T')[0];
+};
+
+/**
+ * Add a number of days to an ISO date
+ */
+export const addDaysToIsoDate = (iso: string, days: number): string => {
+  return new Date(toUtc(iso) + days * DAY_MS).toISOString().split('T')[0];
+};
+
+/**
+ * List every occurrence of a rule between two ISO dates (inclusive), in order
+ */
+export const getOccurrences = (rule: RecurrenceRule, from: string, to: string): string[] => {
+  const rangeStart = from > rule.start_date ? from : rule.start_date;
+  const rangeEnd = rule.end_date && rule.end_date < to ? rule.end_date : to;
+  if (rangeStart > rangeEnd) return [];
+
+  const occurrences: string[] = [];
+  const start = parseIsoDate(rule.start_date);
+
+  switch (rule.frequency) {
+    case 'daily': {
+      for (let date = rangeStart; date <= rangeEnd; date = addDaysToIsoDate(date, 1)) {
+        occurrences.push(date);
+      }
+      break;
+    }
+    case 'weekly': {
+      // First date on or after the range start that falls on the start date's weekday
+      const offset = Math.round((toUtc(rangeStart) - toUtc(rule.start_date)) / DAY_MS) % 7;
+      let date = offset === 0 ? rangeStart : addDaysToIsoDate(rangeStart, 7 - offset);
+      for (; date <= rangeEnd; date = addDaysToIsoDate(date, 7)) {
+        occurrences.push(date);
+      }
+      break;
+    }
+    case 'bi_monthly':
+    case 'monthly':
+    case 'yearly': {
+      const first = parseIsoDate(rangeStart);
+      const last = parseIsoDate(rangeEnd);
+      const days = rule.frequency === 'bi_monthly'
+        ? [rule.day_of_month_1 ?? 15, rule.day_of_month_2 ?? 30]
+        : [start.day];
+
+      let { year, month } = first;
+      while (year < last.year || (year === last.year && month <= last.month)) {
+        if (rule.frequency !== 'yearly' || month === start.month) {
+          const monthDates = [...new Set(days.map(day => toIsoDate(year, month, clampDay(year, month, day))))].sort();
+          monthDates
+            .filter(date => date >= rangeStart && date <= rangeEnd)
+            .forEach(date => occurrences.push(date));
+        }
+
+        month++;
+        if (month > 12) {
+          month = 1;
+          year++;
+        }
+      }
+      break;
+    }
+  }
+
+  return occurrences;
+};
+
+/**
+ * Find the first occurrence on or after the given date, or null when the schedule has ended
+ */
+export const getNextOccurrence = (rule: RecurrenceRule, onOrAfter: string): string | null => {
+  // A year always contains at least one occurrence of every supported frequency
+  const [next] = getOccurrences(rule, onOrAfter, addDaysToIsoDate(onOrAfter, 366));
+  return next ?? null;
+};
+
+/**
+ * First date the generator has not yet covered for a template
+ */
+export const getPendingStartDate = (template: Pick<RecurringTransaction, 'start_date' | 'last_generated_date'>): string => {
+  return template.last_generated_date ? addDaysToIsoDate(template.last_generated_date, 1) : template.start_date;
+};
+
+/**
+ * List occurrences that still need attention: overdue ones awaiting confirmation and those due
+ * within the horizon. Occurrences already posted or skipped are left out.
+ */
+export const getUpcomingOccurrences = (
+  templates: RecurringTransaction[],
+  handled: Pick<RecurringOccurrence, 'recurring_transaction_id' | 'occurrence_date'>[],
+  today: string,
+  horizonDays = 30,
+  lookbackDays = 90
+): UpcomingOccurrence[] => {
+  const handledKeys = new Set(handled.map(o => `${o.recurring_transaction_id}:${o.occurrence_date}`));
+  const horizon = addDaysToIsoDate(today, horizonDays);
+  const earliest = addDaysToIsoDate(today, -lookbackDays);
+
+  return templates
+    .filter(template => template.is_active)
+    .flatMap(template => {
+      const pendingStart = getPendingStartDate(template);
+      const from = pendingStart > earliest ? pendingStart : earliest;
+      return getOccurrences(template, from, horizon)
+        .filter(date => !handledKeys.has(`${template.id}:${date}`))
+        .map(date => ({ recurringTransaction: template, date, isDue: date <= today }));
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -4,6 +4,7 @@
  */
 
 import { toast } from '@/hooks/use-toast';
+import { DEFAULT_BUDGET_ALERT_THRESHOLDS } from './budgetAlerts';
 
 export interface NotificationPreferences {
   enabled: boolean;
@@ -12,6 +13,8 @@ export interface NotificationPreferences {
   quietHoursStart: string; // HH:MM format
   quietHoursEnd: string; // HH:MM format
   priorityThreshold: 'low' | 'medium' | 'high';
+  // Budget utilization percentages that raise a budget alert when crossed
+  budgetAlertThresholds: number[];
   categories: {
     financial: boolean;
     budget: boolean;
@@ -91,6 +94,7 @@ class SmartNotificationManager {
       quietHoursStart: '22:00',
       quietHoursEnd: '08:00',
       priorityThreshold: 'medium',
+      budgetAlertThresholds: DEFAULT_BUDGET_ALERT_THRESHOLDS,
       categories: {
         financial: true,
         budget: true,
@@ -0,0 +1,77 @@
+// Spending totals grouped by category, payee or tag for reports
+import type { Category, Payee, Tag, Transaction } from '@/types';
+import { categoryColors } from '@/data/categories';
+import { expandSplitLines } from '@/utils/transactionSplits';
+
+export type SpendingDimension = 'category' | 'payee' | 'tag';
+
+export const SPENDING_DIMENSION_LABELS: Record<SpendingDimension, string> = {
+  category: 'Category',
+  payee: 'Payee',
+  tag: 'Tag',
+};
+
+export interface SpendingGroup {
+  key: string;
+  name: string;
+  amount: number;
+  count: number;
+  color: string;
+}
+
+interface SpendingLookups {
+  categories: Pick<Category, 'id' | 'name' | 'color'>[];
+  payees: Pick<Payee, 'id' | 'name'>[];
+  tags: Pick<Tag, 'id' | 'name' | 'color'>[];
+}
+
+const UNGROUPED_COLOR = '#6b7280';
+const UNGROUPED_KEY = 'none';
+
+type GroupableTransaction = Pick<Transaction, 'amount' | 'category_id' | 'payee_id' | 'tag_ids' | 'splits'>;
+
+/**
+ * Total the amounts of transactions by the chosen dimension, largest first. Split transactions
+ * count each line under its own category. A transaction with several tags counts towards
+ * each of them, so tag totals can add up to more than the overall spend.
+ */
+export const groupSpending = (
+  transactions: GroupableTransaction[],
+  dimension: SpendingDimension,
+  { categories, payees, tags }: SpendingLookups
+): SpendingGroup[] => {
+  const groups = new Map<string, SpendingGroup>();
+
+  const add = (key: string, name: string, color: string, amount: number) => {
+    const group = groups.get(key) ?? { key, name, amount: 0, count: 0, color };
+    group.amount += Number(amount);
+    group.count += 1;
+    groups.set(key, group);
+  };
+
+  if (dimension === 'category') {
+    expandSplitLines(transactions).forEach(transaction => {
+      const category = categories.find(c => c.id === transaction.category_id);
+      add(category?.id ?? UNGROUPED_KEY, category?.name ?? 'Unknown', category?.color ?? UNGROUPED_COLOR, transaction.amount);
+    });
+  } else if (dimension === 'payee') {
+    transactions.forEach(transaction => {
+      const index = payees.findIndex(p => p.id === transaction.payee_id);
+      if (index === -1) {
+        add(UNGROUPED_KEY, 'No payee', UNGROUPED_COLOR, transaction.amount);
+      } else {
+        add(payees[index].id, payees[index].name, categoryColors[index % categoryColors.length], transaction.amount);
+      }
+    });
+  } else {
+    transactions.forEach(transaction => {
+      const transactionTags = tags.filter(tag => transaction.tag_ids?.includes(tag.id));
+      if (transactionTags.length === 0) {
+        add(UNGROUPED_KEY, 'Untagged', UNGROUPED_COLOR, transaction.amount);
+      }
+      transactionTags.forEach(tag => add(tag.id, `#${tag.name}`, tag.color, transaction.amount));
+    });
+  }
+
+  return [...groups.values()].sort((a, b) => b.amount - a.amount);
+};
@@ -0,0 +1,395 @@
+// Bank statement import utilities for CSV, OFX and QIF files
+import type { Category, CategoryRule, Transaction } from '@/types';
+import { transactionImportRowSchema } from '@/lib/validation';
+import { findMatchingRule } from '@/utils/categoryRules';
+import {
+  daysBetween,
+  findDuplicateTransactions,
+  transactionFingerprint,
+  type DuplicateMatch,
+  type DuplicateResolution,
+} from '@/utils/duplicateDetection';
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+export type ImportDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+// A single row parsed from a statement, before it is mapped to a category
+export interface ParsedStatementRow {
+  rowNumber: number;
+  date: string; // ISO date (YYYY-MM-DD), empty when the source date could not be parsed
+  description: string;
+  amount: number; // Always positive, direction is carried by `type`
+  type: 'income' | 'expense';
+  categoryHint?: string; // Category name supplied by the file (QIF `L` field or a CSV column)
+  externalId?: string; // Bank-assigned identifier such as the OFX FITID
+}
+
+// Row ready for review in the import preview
+export interface ImportPreviewRow extends ParsedStatementRow {
+  category_id: string | null;
+  ruleId?: string; // Category rule that picked category_id, cleared once the user changes it
+  errors: string[];
+  duplicate?: DuplicateMatch; // Best matching existing transaction, if any
+  duplicateOfRow?: number; // Earlier row of the same file this one repeats
+  resolution?: DuplicateResolution; // What to do with a flagged duplicate
+}
+
+// Maps CSV header names to transaction fields
+export interface CsvColumnMapping {
+  date: string;
+  description: string;
+  amount?: string; // Signed amount column (negative = expense)
+  debit?: string; // Separate money-out column
+  credit?: string; // Separate money-in column
+  type?: string; // Optional column holding "income"/"expense" or "credit"/"debit"
+  category?: string;
+  dateFormat: ImportDateFormat;
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Detect the statement format from the file name, falling back to content sniffing
+ */
+export const detectStatementFormat = (fileName: string, content: string): StatementFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  if (extension === 'csv') return 'csv';
+
+  const head = content.slice(0, 500).toUpperCase();
+  if (head.includes('<OFX>') || head.includes('OFXHEADER')) return 'ofx';
+  if (head.startsWith('!TYPE:')) return 'qif';
+  return 'csv';
+};
+
+/**
+ * Parse a numeric amount, tolerating currency symbols, thousands separators and accounting negatives
+ */
+export const parseStatementAmount = (raw: string): number => {
+  const trimmed = raw.trim();
+  if (!trimmed) return NaN;
+
+  const isParenthesized = /^\(.*\)$/.test(trimmed);
+  const cleaned = trimmed.replace(/[^0-9.-]/g, '');
+  if (!cleaned || cleaned === '-' || cleaned === '.') return NaN;
+
+  const value = parseFloat(cleaned);
+  return isParenthesized ? -Math.abs(value) : value;
+};
+
+const toIsoDate = (year: number, month: number, day: number): string => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return '';
+  }
+  return date.toISOString().split('T')[0];
+};
+
+const expandYear = (year: number): number => (year < 100 ? 2000 + year : year);
+
+/**
+ * Parse a date string in the given format into an ISO date (YYYY-MM-DD)
+ */
+export const parseStatementDate = (raw: string, format: ImportDateFormat): string => {
+  const trimmed = raw.trim();
+  if (!trimmed) return '';
+
+  const parts = trimmed.split(/[^0-9]+/).filter(Boolean).map(Number);
+  if (parts.length < 3) return '';
+
+  switch (format) {
+    case 'YYYY-MM-DD':
+      return toIsoDate(parts[0], parts[1], parts[2]);
+    case 'MM/DD/YYYY':
+      return toIsoDate(expandYear(parts[2]), parts[0], parts[1]);
+    case 'DD/MM/YYYY':
+      return toIsoDate(expandYear(parts[2]), parts[1], parts[0]);
+  }
+};
+
+/**
+ * Split CSV content into a header row and data rows (RFC 4180 quoting)
+ */
+export const parseCsv = (content: string): CsvTable => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(value => value.trim() !== ''));
+  const [headers = [], ...rows] = nonEmpty;
+
+  return {
+    headers: headers.map(h => h.trim()),
+    rows,
+  };
+};
+
+/**
+ * Guess a column mapping from common bank export header names
+ */
+export const suggestCsvMapping = (headers: string[]): CsvColumnMapping => {
+  const find = (...candidates: string[]) =>
+    headers.find(h => candidates.some(c => h.toLowerCase().includes(c)));
+
+  const debit = find('debit', 'withdrawal', 'money out');
+  const credit = find('credit', 'deposit', 'money in');
+
+  return {
+    date: find('date') || headers[0] || '',
+    description: find('description', 'memo', 'payee', 'details', 'narrative') || headers[1] || '',
+    amount: debit && credit ? undefined : find('amount', 'value'),
+    debit: debit && credit ? debit : undefined,
+    credit: debit && credit ? credit : undefined,
+    type: find('type'),
+    category: find('category'),
+    dateFormat: 'YYYY-MM-DD',
+  };
+};
+
+const resolveCsvType = (raw: string | undefined, signedAmount: number): 'income' | 'expense' => {
+  const normalized = raw?.trim().toLowerCase();
+  if (normalized === 'income' || normalized === 'credit' || normalized === 'cr') return 'income';
+  if (normalized === 'expense' || normalized === 'debit' || normalized === 'dr') return 'expense';
+  return signedAmount < 0 ? 'expense' : 'income';
+};
+
+/**
+ * Convert a parsed CSV table into statement rows using the given column mapping
+ */
+export const mapCsvRows = (table: CsvTable, mapping: CsvColumnMapping): ParsedStatementRow[] => {
+  const column = (name?: string) => (name ? table.headers.indexOf(name) : -1);
+
+  const dateIndex = column(mapping.date);
+  const descriptionIndex = column(mapping.description);
+  const amountIndex = column(mapping.amount);
+  const debitIndex = column(mapping.debit);
+  const creditIndex = column(mapping.credit);
+  const typeIndex = column(mapping.type);
+  const categoryIndex = column(mapping.category);
+
+  return table.rows.map((row, index) => {
+    let signedAmount: number;
+    if (amountIndex >= 0) {
+      signedAmount = parseStatementAmount(row[amountIndex] ?? '');
+    } else {
+      const debit = parseStatementAmount(row[debitIndex] ?? '');
+      const credit = parseStatementAmount(row[creditIndex] ?? '');
+      signedAmount = !isNaN(credit) && credit !== 0 ? Math.abs(credit) : -Math.abs(debit);
+    }
+
+    return {
+      rowNumber: index + 2, // Account for the header row, 1-based
+      date: parseStatementDate(row[dateIndex] ?? '', mapping.dateFormat),
+      description: (row[descriptionIndex] ?? '').trim(),
+      amount: Math.abs(signedAmount),
+      type: resolveCsvType(typeIndex >= 0 ? row[typeIndex] : undefined, signedAmount),
+      categoryHint: categoryIndex >= 0 ? row[categoryIndex]?.trim() || undefined : undefined,
+    };
+  });
+};
+
+const readOfxTag = (block: string, tag: string): string => {
+  // OFX 1.x is SGML and may omit closing tags, so read up to the next tag or line end
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+/**
+ * Parse OFX/QFX statement transactions (<STMTTRN> blocks)
+ */
+export const parseOfx = (content: string): ParsedStatementRow[] => {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  return blocks.map((block, index) => {
+    const rawDate = readOfxTag(block, 'DTPOSTED');
+    const signedAmount = parseStatementAmount(readOfxTag(block, 'TRNAMT'));
+    const name = readOfxTag(block, 'NAME');
+    const memo = readOfxTag(block, 'MEMO');
+
+    return {
+      rowNumber: index + 1,
+      date: rawDate.length >= 8
+        ? toIsoDate(Number(rawDate.slice(0, 4)), Number(rawDate.slice(4, 6)), Number(rawDate.slice(6, 8)))
+        : '',
+      description: name || memo,
+      amount: Math.abs(signedAmount),
+      type: signedAmount < 0 ? 'expense' : 'income',
+      externalId: readOfxTag(block, 'FITID') || undefined,
+    };
+  });
+};
+
+/**
+ * Parse QIF statement records (fields terminated by `^`)
+ */
+export const parseQif = (content: string, dateFormat: ImportDateFormat = 'MM/DD/YYYY'): ParsedStatementRow[] => {
+  const rows: ParsedStatementRow[] = [];
+  let current: Record<string, string> = {};
+
+  const flush = () => {
+    if (current.D || current.T || current.U) {
+      const signedAmount = parseStatementAmount(current.T || current.U || '');
+      rows.push({
+        rowNumber: rows.length + 1,
+        // QIF writes two-digit years as 1/15'24
+        date: parseStatementDate((current.D || '').replace(/'/g, '/'), dateFormat),
+        description: (current.P || current.M || '').trim(),
+        amount: Math.abs(signedAmount),
+        type: signedAmount < 0 ? 'expense' : 'income',
+        categoryHint: current.L?.split(':')[0].trim() || undefined,
+      });
+    }
+    current = {};
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) continue;
+    if (line === '^') {
+      flush();
+      continue;
+    }
+    current[line[0]] = line.slice(1);
+  }
+  flush();
+
+  return rows;
+};
+
+/**
+ * Find the category a parsed row most likely belongs to
+ */
+export const matchCategory = (row: ParsedStatementRow, categories: Category[]): string | null => {
+  const candidates = categories.filter(c => c.type === row.type);
+
+  if (row.categoryHint) {
+    const hint = row.categoryHint.toLowerCase();
+    const exact = candidates.find(c => c.name.toLowerCase() === hint);
+    if (exact) return exact.id;
+    const partial = candidates.find(c => c.name.toLowerCase().includes(hint) || hint.includes(c.name.toLowerCase()));
+    if (partial) return partial.id;
+  }
+
+  return null;
+};
+
+/**
+ * Validate a preview row against the transaction form rules and return readable errors
+ */
+export const validateImportRow = (row: Pick<ImportPreviewRow, 'description' | 'amount' | 'type' | 'date' | 'category_id'>): string[] => {
+  const result = transactionImportRowSchema.safeParse({
+    description: row.description,
+    amount: row.amount,
+    type: row.type,
+    date: row.date ? new Date(row.date) : undefined,
+    category_id: row.category_id ?? '',
+  });
+
+  if (result.success) return [];
+  return result.error.issues.map(issue => issue.message);
+};
+
+/**
+ * Build preview rows with category matches and validation errors. The user's category rules
+ * take precedence over the category name supplied by the file.
+ */
+export const buildImportPreview = (
+  rows: ParsedStatementRow[],
+  categories: Category[],
+  rules: CategoryRule[] = []
+): ImportPreviewRow[] => {
+  return rows.map(row => {
+    const ruleMatch = findMatchingRule(rules, row, categories);
+    const category_id = ruleMatch && 'category_id' in ruleMatch.changes
+      ? ruleMatch.changes.category_id
+      : matchCategory(row, categories);
+    return {
+      ...row,
+      category_id,
+      ruleId: ruleMatch?.rule.id,
+      errors: validateImportRow({ ...row, category_id }),
+    };
+  });
+};
+
+/**
+ * Flag preview rows that match transactions already on record or repeat an earlier row of the same file.
+ * Rows carrying a bank identifier (OFX FITID) are matched on it; the rest by fingerprint and fuzzy matching.
+ * Flagged rows default to being skipped.
+ */
+export const flagImportDuplicates = (rows: ImportPreviewRow[], existing: Transaction[]): ImportPreviewRow[] => {
+  const importedByExternalId = new Map(
+    existing.filter(t => t.external_id).map(t => [t.external_id as string, t])
+  );
+  const seenRows = new Map<string, number>();
+
+  return rows.map(row => {
+    if (!row.date || isNaN(row.amount)) return row;
+
+    const imported = row.externalId ? importedByExternalId.get(row.externalId) : undefined;
+    if (imported) {
+      const duplicate = { transaction: imported, similarity: 1, daysApart: daysBetween(row.date, imported.date) };
+      return { ...row, duplicate, resolution: 'skip' };
+    }
+
+    // Transactions the bank gave a different identifier are distinct, however alike they look
+    const candidates = row.externalId ? existing.filter(t => !t.external_id) : existing;
+    const [duplicate] = findDuplicateTransactions(row, candidates);
+    if (duplicate) return { ...row, duplicate, resolution: 'skip' };
+
+    const key = row.externalId ? `fitid:${row.externalId}` : transactionFingerprint(row);
+    const earlierRow = seenRows.get(key);
+    if (earlierRow !== undefined) return { ...row, duplicateOfRow: earlierRow, resolution: 'skip' };
+
+    seenRows.set(key, row.rowNumber);
+    return row;
+  });
+};
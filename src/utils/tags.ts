@@ -0,0 +1,33 @@
+// Tags are free-form labels such as #vacation-2026 that cut across categories
+import type { Transaction } from '@/types';
+
+/**
+ * Canonical tag name: lowercase, no leading '#', words joined by hyphens. Returns an
+ * empty string when nothing usable is left.
+ */
+export const normalizeTagName = (input: string): string => {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/^#+/, '')
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9_-]/g, '')
+    .replace(/^[-_]+/, '');
+};
+
+/**
+ * Split comma-separated input like "#vacation-2026, food trip" into distinct tag names
+ */
+export const parseTagList = (input: string): string[] => {
+  return [...new Set(input.split(',').map(normalizeTagName).filter(Boolean))];
+};
+
+/**
+ * Flatten the embedded transaction_tags rows of a fetched transaction into tag_ids
+ */
+export const withTagIds = <T extends { transaction_tags?: { tag_id: string }[] | null }>(
+  row: T
+): Omit<T, 'transaction_tags'> & Pick<Transaction, 'tag_ids'> => {
+  const { transaction_tags, ...transaction } = row;
+  return { ...transaction, tag_ids: (transaction_tags || []).map(link => link.tag_id) };
+};
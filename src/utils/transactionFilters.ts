@@ -0,0 +1,118 @@
+// Transaction list filters and their URL representation
+import type { Transaction, TransactionType } from '@/types';
+
+export interface TransactionFilters {
+  dateFrom?: string;
+  dateTo?: string;
+  categoryId?: string;
+  type?: TransactionType;
+  minAmount?: number;
+  maxAmount?: number;
+  currency?: string;
+  search?: string;
+  payeeId?: string;
+  tagId?: string;
+}
+
+// Short query parameter names keep shared links readable
+const PARAM_NAMES: Record<keyof TransactionFilters, string> = {
+  dateFrom: 'from',
+  dateTo: 'to',
+  categoryId: 'category',
+  type: 'type',
+  minAmount: 'min',
+  maxAmount: 'max',
+  currency: 'currency',
+  search: 'q',
+  payeeId: 'payee',
+  tagId: 'tag',
+};
+
+const TRANSACTION_TYPES: TransactionType[] = ['income', 'expense', 'transfer'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_CODE = /^[A-Za-z]{3}$/;
+// Category, payee and tag ids end up inside a PostgREST filter expression, so only well-formed ids are accepted
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const parseAmount = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+const parseDate = (value: string | null): string | undefined => {
+  return value && ISO_DATE.test(value) ? value : undefined;
+};
+
+/**
+ * Read filters from the URL, dropping values that are malformed
+ */
+export const parseTransactionFilters = (params: URLSearchParams): TransactionFilters => {
+  const type = params.get(PARAM_NAMES.type) as TransactionType | null;
+  const categoryId = params.get(PARAM_NAMES.categoryId) || '';
+  const currency = params.get(PARAM_NAMES.currency) || '';
+  const payeeId = params.get(PARAM_NAMES.payeeId) || '';
+  const tagId = params.get(PARAM_NAMES.tagId) || '';
+  const filters: TransactionFilters = {
+    dateFrom: parseDate(params.get(PARAM_NAMES.dateFrom)),
+    dateTo: parseDate(params.get(PARAM_NAMES.dateTo)),
+    categoryId: UUID.test(categoryId) ? categoryId : undefined,
+    type: type && TRANSACTION_TYPES.includes(type) ? type : undefined,
+    minAmount: parseAmount(params.get(PARAM_NAMES.minAmount)),
+    maxAmount: parseAmount(params.get(PARAM_NAMES.maxAmount)),
+    currency: CURRENCY_CODE.test(currency) ? currency.toUpperCase() : undefined,
+    search: params.get(PARAM_NAMES.search)?.trim() || undefined,
+    payeeId: UUID.test(payeeId) ? payeeId : undefined,
+    tagId: UUID.test(tagId) ? tagId : undefined,
+  };
+
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined)
+  ) as TransactionFilters;
+};
+
+/**
+ * Write filters to URL search params, leaving out empty values
+ */
+export const serializeTransactionFilters = (filters: TransactionFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  (Object.keys(PARAM_NAMES) as Array<keyof TransactionFilters>).forEach(key => {
+    const value = filters[key];
+    if (value !== undefined && value !== '') {
+      params.set(PARAM_NAMES[key], String(value));
+    }
+  });
+  return params;
+};
+
+export const countActiveFilters = (filters: TransactionFilters): number => {
+  return Object.values(filters).filter(value => value !== undefined && value !== '').length;
+};
+
+// Position after the last row of a page; rows are ordered newest first, ties broken by id
+export interface TransactionCursor {
+  date: string;
+  id: string;
+}
+
+/**
+ * PostgREST `or` filter for the rows that come after a cursor
+ */
+export const afterCursorFilter = (cursor: TransactionCursor): string => {
+  return `date.lt.${cursor.date},and(date.eq.${cursor.date},id.lt.${cursor.id})`;
+};
+
+/**
+ * Cursor for the page after this one, or null when this page was the last
+ */
+export const getNextCursor = (rows: Pick<Transaction, 'date' | 'id'>[], pageSize: number): TransactionCursor | null => {
+  const last = rows[rows.length - 1];
+  return rows.length === pageSize && last ? { date: last.date, id: last.id } : null;
+};
+
+/**
+ * Escape LIKE wildcards so a search for "50%" matches the literal text
+ */
+export const escapeLikePattern = (text: string): string => {
+  return text.replace(/[\\%_]/g, match => `\\${match}`);
+};
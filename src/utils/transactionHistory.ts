@@ -0,0 +1,88 @@
+// Reading the transaction change log: field-level diffs and the restore window
+import type { TransactionChangeSource, TransactionHistoryEntry } from '@/types';
+
+// Matches the window enforced by restore_deleted_transaction()
+export const HISTORY_RETENTION_DAYS = 30;
+
+export const CHANGE_SOURCE_LABELS: Record<TransactionChangeSource, string> = {
+  form: 'Edited by hand',
+  import: 'Statement import',
+  rule: 'Automatic rule',
+  bulk: 'Bulk edit',
+  restore: 'Restore',
+  recurring: 'Recurring transaction',
+};
+
+// Fields worth showing in a diff, in display order; ids are resolved to names by the caller
+export const TRACKED_FIELDS = [
+  { field: 'amount', label: 'Amount' },
+  { field: 'type', label: 'Type' },
+  { field: 'description', label: 'Description' },
+  { field: 'date', label: 'Date' },
+  { field: 'category_id', label: 'Category' },
+  { field: 'account_id', label: 'Account' },
+  { field: 'transfer_account_id', label: 'To account' },
+  { field: 'savings_goal_id', label: 'Savings goal' },
+  { field: 'payee_id', label: 'Payee' },
+  { field: 'currency', label: 'Currency' },
+  { field: 'receipt_name', label: 'Receipt' },
+] as const;
+
+export type TrackedField = typeof TRACKED_FIELDS[number]['field'];
+
+export interface FieldChange {
+  field: TrackedField;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+const sameValue = (a: unknown, b: unknown) => {
+  if (isEmpty(a) && isEmpty(b)) return true;
+  // Amounts come back from the database as numbers or numeric strings
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) === Number(b);
+  return a === b;
+};
+
+/**
+ * List the tracked fields an entry changed. Inserts show every filled-in field as new,
+ * deletes show every field as removed.
+ */
+export const getFieldChanges = (entry: Pick<TransactionHistoryEntry, 'before' | 'after'>): FieldChange[] => {
+  const before = entry.before || {};
+  const after = entry.after || {};
+
+  return TRACKED_FIELDS
+    .filter(({ field }) => !sameValue(before[field], after[field]))
+    .map(({ field, label }) => ({ field, label, before: before[field] ?? null, after: after[field] ?? null }));
+};
+
+/**
+ * Last moment a deleted transaction can be restored
+ */
+export const getRestoreDeadline = (entry: Pick<TransactionHistoryEntry, 'changed_at'>): Date => {
+  return new Date(new Date(entry.changed_at).getTime() + HISTORY_RETENTION_DAYS * DAY_MS);
+};
+
+export const isRestorable = (entry: Pick<TransactionHistoryEntry, 'action' | 'changed_at'>, now = new Date()): boolean => {
+  return entry.action === 'delete' && getRestoreDeadline(entry) > now;
+};
+
+/**
+ * Earliest deletion time still inside the restore window, for querying
+ */
+export const getRetentionCutoff = (now = new Date()): string => {
+  return new Date(now.getTime() - HISTORY_RETENTION_DAYS * DAY_MS).toISOString();
+};
+
+/**
+ * Rows to upsert when undoing a bulk change. The restore source survives the upsert's
+ * conflict into the update, so the history trigger logs the undo as a restore.
+ */
+export const buildRestoreRows = <T extends object>(rows: T[]): Array<T & { change_source: 'restore' }> => {
+  return rows.map(row => ({ ...row, change_source: 'restore' as const }));
+};
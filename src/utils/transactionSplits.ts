@@ -0,0 +1,65 @@
+// Split transactions spread one amount across several categories
+import type { Transaction, TransactionSplit } from '@/types';
+
+export type SplitLineInput = Pick<TransactionSplit, 'category_id' | 'amount'> & { description?: string | null };
+
+// Amounts are stored with two decimals, so anything under half a cent is rounding noise
+const AMOUNT_TOLERANCE = 0.005;
+
+export const isSplitTransaction = (transaction: Pick<Transaction, 'splits'>): boolean => {
+  return (transaction.splits?.length ?? 0) > 0;
+};
+
+/**
+ * Sum of the split line amounts, rounded to cents
+ */
+export const getSplitTotal = (splits: Pick<TransactionSplit, 'amount'>[]): number => {
+  return Math.round(splits.reduce((sum, split) => sum + Number(split.amount || 0), 0) * 100) / 100;
+};
+
+/**
+ * Check split lines against the parent amount. Returns an error message, or null when valid.
+ */
+export const validateSplits = (parentAmount: number, splits: SplitLineInput[]): string | null => {
+  if (splits.length < 2) {
+    return 'A split needs at least two lines.';
+  }
+  if (splits.some(split => !split.category_id)) {
+    return 'Every split line needs a category.';
+  }
+  if (splits.some(split => !(Number(split.amount) > 0))) {
+    return 'Every split line needs an amount greater than zero.';
+  }
+
+  const remaining = Number(parentAmount) - getSplitTotal(splits);
+  if (Math.abs(remaining) >= AMOUNT_TOLERANCE) {
+    return `Split lines must add up to the transaction amount (${remaining > 0 ? 'short' : 'over'} by ${Math.abs(remaining).toFixed(2)}).`;
+  }
+  return null;
+};
+
+/**
+ * Break transactions into one entry per category for category aggregates. Split transactions
+ * yield one entry per line; other transactions pass through unchanged.
+ */
+export const expandSplitLines = <T extends Pick<Transaction, 'category_id' | 'amount' | 'splits'>>(transactions: T[]): T[] => {
+  return transactions.flatMap(transaction => {
+    if (!transaction.splits || transaction.splits.length === 0) {
+      return [transaction];
+    }
+    return transaction.splits.map(split => ({
+      ...transaction,
+      category_id: split.category_id,
+      amount: Number(split.amount),
+    }));
+  });
+};
+
+/**
+ * Category to store on the parent row of a split: the line with the largest amount,
+ * so views that read a single category still show something sensible
+ */
+export const getPrimarySplitCategory = (splits: SplitLineInput[]): string | null => {
+  if (splits.length === 0) return null;
+  return splits.reduce((largest, split) => (Number(split.amount) > Number(largest.amount) ? split : largest)).category_id;
+};
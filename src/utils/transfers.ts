@@ -0,0 +1,32 @@
+// Transfers move money between the user's own accounts and savings goals
+import type { Transaction } from '@/types';
+
+export const isTransfer = (transaction: Pick<Transaction, 'type'>): boolean => {
+  return transaction.type === 'transfer';
+};
+
+/**
+ * Drop transfers before aggregating income and spending. A transfer is neither money
+ * earned nor money spent, so counting it would inflate both totals.
+ */
+export const excludeTransfers = <T extends Pick<Transaction, 'type'>>(transactions: T[]): T[] => {
+  return transactions.filter(t => !isTransfer(t));
+};
+
+/**
+ * Check that a transfer has a usable destination. Returns an error message, or null when valid.
+ */
+export const validateTransfer = (
+  transfer: Pick<Transaction, 'account_id' | 'transfer_account_id' | 'savings_goal_id'>
+): string | null => {
+  if (!transfer.account_id) {
+    return 'Please select the account the money comes from.';
+  }
+  if (!transfer.transfer_account_id && !transfer.savings_goal_id) {
+    return 'Please select a destination account or savings goal.';
+  }
+  if (transfer.transfer_account_id === transfer.account_id) {
+    return 'Source and destination accounts must be different.';
+  }
+  return null;
+};
@@ -0,0 +1,122 @@
+-- Financial Accounts Migration
+-- Adds wallets, bank accounts, credit cards and loans, and links every transaction to an account
+
+-- =============================================================================
+-- 1. CREATE ACCOUNTS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.accounts (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('cash', 'bank', 'e_wallet', 'credit_card', 'loan')),
+    -- Balance before the first tracked transaction. Credit cards and loans carry a negative opening balance.
+    opening_balance NUMERIC(15, 2) NOT NULL DEFAULT 0,
+    currency VARCHAR(3) DEFAULT 'PHP',
+    is_archived BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounts_user_id
+ON public.accounts(user_id);
+
+-- =============================================================================
+-- 2. ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own accounts"
+ON public.accounts
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own accounts"
+ON public.accounts
+FOR INSERT
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can update their own accounts"
+ON public.accounts
+FOR UPDATE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete their own accounts"
+ON public.accounts
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+-- =============================================================================
+-- 3. LINK TRANSACTIONS TO ACCOUNTS
+-- =============================================================================
+
+-- Accounts with transactions cannot be deleted; archive them instead
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES public.accounts(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_account
+ON public.transactions(user_id, account_id);
+
+-- Transactions can only be booked to accounts the user can see, i.e. their own.
+-- The accounts policies apply inside the check, so this follows any later sharing rules.
+CREATE POLICY "Transactions must use the user's own accounts"
+ON public.transactions
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (EXISTS (SELECT 1 FROM public.accounts a WHERE a.id = account_id));
+
+CREATE POLICY "Transactions can only move to the user's own accounts"
+ON public.transactions
+AS RESTRICTIVE
+FOR UPDATE
+WITH CHECK (EXISTS (SELECT 1 FROM public.accounts a WHERE a.id = account_id));
+
+-- =============================================================================
+-- 4. BACKFILL EXISTING TRANSACTIONS
+-- =============================================================================
+
+-- Every user with transactions gets a default cash account holding their existing history
+INSERT INTO public.accounts (user_id, name, type, opening_balance)
+SELECT DISTINCT t.user_id, 'Cash', 'cash', 0
+FROM public.transactions t
+WHERE t.user_id IS NOT NULL
+AND NOT EXISTS (
+    SELECT 1 FROM public.accounts a WHERE a.user_id = t.user_id
+);
+
+UPDATE public.transactions t
+SET account_id = (
+    SELECT a.id FROM public.accounts a
+    WHERE a.user_id = t.user_id
+    ORDER BY a.created_at
+    LIMIT 1
+)
+WHERE t.account_id IS NULL;
+
+-- Rows without an owner cannot be given an account; stop here rather than fail on SET NOT NULL
+DO $$
+DECLARE
+    unassigned INTEGER;
+BEGIN
+    SELECT count(*) INTO unassigned FROM public.transactions WHERE account_id IS NULL;
+    IF unassigned > 0 THEN
+        RAISE EXCEPTION '% transaction(s) have no user_id and cannot be assigned an account. Set their user_id or delete them, then re-run this migration.', unassigned;
+    END IF;
+END $$;
+
+ALTER TABLE public.transactions
+ALTER COLUMN account_id SET NOT NULL;
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Accounts migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- accounts table (cash, bank, e-wallet, credit card, loan) with opening balances';
+    RAISE NOTICE '- Required account_id on transactions, backfilled to a default cash account';
+    RAISE NOTICE '- Transactions restricted to accounts the user owns';
+END $$;
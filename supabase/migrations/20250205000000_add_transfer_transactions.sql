@@ -0,0 +1,108 @@
+-- Transfer Transactions Migration
+-- Adds a 'transfer' transaction type for moving money between accounts or into savings goals
+
+-- =============================================================================
+-- 1. ALLOW THE TRANSFER TYPE
+-- =============================================================================
+
+ALTER TABLE public.transactions
+DROP CONSTRAINT IF EXISTS transactions_type_check;
+
+ALTER TABLE public.transactions
+ADD CONSTRAINT transactions_type_check
+CHECK (type IN ('income', 'expense', 'transfer'));
+
+-- =============================================================================
+-- 2. ADD TRANSFER DESTINATION
+-- =============================================================================
+
+-- account_id is the source; transfers go to another account and/or a savings goal
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS transfer_account_id UUID REFERENCES public.accounts(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_account_id
+ON public.transactions(transfer_account_id)
+WHERE transfer_account_id IS NOT NULL;
+
+ALTER TABLE public.transactions
+DROP CONSTRAINT IF EXISTS transactions_transfer_destination_check;
+
+ALTER TABLE public.transactions
+ADD CONSTRAINT transactions_transfer_destination_check
+CHECK (
+    (type = 'transfer' AND (transfer_account_id IS NOT NULL OR savings_goal_id IS NOT NULL)
+        AND transfer_account_id IS DISTINCT FROM account_id)
+    OR (type <> 'transfer' AND transfer_account_id IS NULL)
+);
+
+-- The destination account has to be one the user can see too, like the source
+DROP POLICY IF EXISTS "Transactions must use the user's own accounts" ON public.transactions;
+DROP POLICY IF EXISTS "Transactions can only move to the user's own accounts" ON public.transactions;
+
+CREATE POLICY "Transactions must use the user's own accounts"
+ON public.transactions
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (
+    EXISTS (SELECT 1 FROM public.accounts a WHERE a.id = account_id)
+    AND (transfer_account_id IS NULL OR EXISTS (SELECT 1 FROM public.accounts a WHERE a.id = transfer_account_id))
+);
+
+CREATE POLICY "Transactions can only move to the user's own accounts"
+ON public.transactions
+AS RESTRICTIVE
+FOR UPDATE
+WITH CHECK (
+    EXISTS (SELECT 1 FROM public.accounts a WHERE a.id = account_id)
+    AND (transfer_account_id IS NULL OR EXISTS (SELECT 1 FROM public.accounts a WHERE a.id = transfer_account_id))
+);
+
+-- =============================================================================
+-- 3. CONVERT SAVINGS DEPOSITS TO TRANSFERS
+-- =============================================================================
+
+-- Savings deposits were logged as expenses, which inflated spending totals
+UPDATE public.transactions
+SET type = 'transfer',
+    updated_at = NOW()
+WHERE savings_goal_id IS NOT NULL
+AND type = 'expense';
+
+-- =============================================================================
+-- 4. COUNT TRANSFERS TOWARDS SAVINGS GOALS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION calculate_savings_goal_current_amount(goal_id UUID)
+RETURNS NUMERIC AS $$
+DECLARE
+    total_saved NUMERIC DEFAULT 0;
+BEGIN
+    -- Sum all transfers into this savings goal
+    SELECT COALESCE(SUM(amount), 0)
+    INTO total_saved
+    FROM public.transactions
+    WHERE savings_goal_id = goal_id
+    AND type = 'transfer';
+
+    RETURN total_saved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recalculate goals now that deposits are transfers
+UPDATE public.savings_goals
+SET current_amount = calculate_savings_goal_current_amount(id),
+    updated_at = NOW();
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Transfer transactions migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- transfer transaction type with source and destination';
+    RAISE NOTICE '- Transfer destinations limited to the user''s own accounts';
+    RAISE NOTICE '- Savings deposits converted from expenses to transfers';
+    RAISE NOTICE '- calculate_savings_goal_current_amount counts transfers';
+END $$;
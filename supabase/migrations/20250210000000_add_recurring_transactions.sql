@@ -0,0 +1,114 @@
+-- Recurring Transactions Migration
+-- Adds recurring transaction templates and per-occurrence tracking for posting and skipping
+
+-- =============================================================================
+-- 1. CREATE RECURRING TRANSACTIONS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.recurring_transactions (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+    type TEXT NOT NULL CHECK (type IN ('income', 'expense', 'transfer')),
+    category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+    account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+    transfer_account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE,
+    savings_goal_id UUID REFERENCES public.savings_goals(id) ON DELETE SET NULL,
+    description TEXT NOT NULL,
+    frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('daily', 'weekly', 'bi_monthly', 'monthly', 'yearly')),
+    -- Bi-monthly schedules post on two days of each month, e.g. the 15th and 30th paydays
+    day_of_month_1 INTEGER CHECK (day_of_month_1 BETWEEN 1 AND 31),
+    day_of_month_2 INTEGER CHECK (day_of_month_2 BETWEEN 1 AND 31),
+    start_date DATE NOT NULL,
+    end_date DATE,
+    auto_post BOOLEAN NOT NULL DEFAULT true,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    last_generated_date DATE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT recurring_transactions_date_range_check CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_transactions_user_active
+ON public.recurring_transactions(user_id)
+WHERE is_active;
+
+-- =============================================================================
+-- 2. CREATE OCCURRENCES TABLE
+-- =============================================================================
+
+-- One row per posted or skipped occurrence. The unique key stops an occurrence from being posted twice.
+CREATE TABLE IF NOT EXISTS public.recurring_transaction_occurrences (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    recurring_transaction_id UUID NOT NULL REFERENCES public.recurring_transactions(id) ON DELETE CASCADE,
+    occurrence_date DATE NOT NULL,
+    status VARCHAR(10) NOT NULL CHECK (status IN ('posted', 'skipped')),
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT recurring_transaction_occurrences_unique UNIQUE (recurring_transaction_id, occurrence_date)
+);
+
+-- Link generated transactions back to their template
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS recurring_transaction_id UUID REFERENCES public.recurring_transactions(id) ON DELETE SET NULL;
+
+-- =============================================================================
+-- 3. ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE public.recurring_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_transaction_occurrences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recurring transactions"
+ON public.recurring_transactions
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own recurring transactions"
+ON public.recurring_transactions
+FOR INSERT
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can update their own recurring transactions"
+ON public.recurring_transactions
+FOR UPDATE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete their own recurring transactions"
+ON public.recurring_transactions
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can view their own recurring occurrences"
+ON public.recurring_transaction_occurrences
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own recurring occurrences"
+ON public.recurring_transaction_occurrences
+FOR INSERT
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can update their own recurring occurrences"
+ON public.recurring_transaction_occurrences
+FOR UPDATE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete their own recurring occurrences"
+ON public.recurring_transaction_occurrences
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Recurring transactions migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- recurring_transactions templates (daily, weekly, bi-monthly, monthly, yearly)';
+    RAISE NOTICE '- recurring_transaction_occurrences for posted and skipped occurrences';
+    RAISE NOTICE '- transactions.recurring_transaction_id link';
+END $$;
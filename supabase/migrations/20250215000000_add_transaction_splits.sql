@@ -0,0 +1,103 @@
+-- Transaction Splits Migration
+-- Lets a single transaction be spread across several categories
+
+-- =============================================================================
+-- 1. CREATE TRANSACTION SPLITS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.transaction_splits (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+    -- Lines keep their amount if the category is deleted, so the split still adds up
+    category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+    amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction_id
+ON public.transaction_splits(transaction_id);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_category_id
+ON public.transaction_splits(category_id);
+
+-- =============================================================================
+-- 2. ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE public.transaction_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own transaction splits"
+ON public.transaction_splits
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own transaction splits"
+ON public.transaction_splits
+FOR INSERT
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can update their own transaction splits"
+ON public.transaction_splits
+FOR UPDATE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete their own transaction splits"
+ON public.transaction_splits
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+-- =============================================================================
+-- 3. REPLACE SPLITS ATOMICALLY
+-- =============================================================================
+
+-- Replaces every split line of a transaction in one statement. The lines must add up to the
+-- transaction amount; pass an empty array to turn a split back into a single-category transaction.
+CREATE OR REPLACE FUNCTION replace_transaction_splits(p_transaction_id UUID, p_splits JSONB)
+RETURNS SETOF public.transaction_splits AS $$
+DECLARE
+    parent_amount NUMERIC;
+    split_total NUMERIC;
+BEGIN
+    SELECT amount INTO parent_amount
+    FROM public.transactions
+    WHERE id = p_transaction_id
+    AND user_id = auth.uid();
+
+    IF parent_amount IS NULL THEN
+        RAISE EXCEPTION 'Transaction not found';
+    END IF;
+
+    IF jsonb_array_length(p_splits) > 0 THEN
+        SELECT COALESCE(SUM((line->>'amount')::NUMERIC), 0)
+        INTO split_total
+        FROM jsonb_array_elements(p_splits) AS line;
+
+        IF split_total <> parent_amount THEN
+            RAISE EXCEPTION 'Split lines total % but the transaction amount is %', split_total, parent_amount
+                USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    DELETE FROM public.transaction_splits WHERE transaction_id = p_transaction_id;
+
+    RETURN QUERY
+    INSERT INTO public.transaction_splits (user_id, transaction_id, category_id, amount, description)
+    SELECT auth.uid(), p_transaction_id, (line->>'category_id')::UUID, (line->>'amount')::NUMERIC, line->>'description'
+    FROM jsonb_array_elements(p_splits) AS line
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Transaction splits migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- transaction_splits table with per-line category and amount';
+    RAISE NOTICE '- replace_transaction_splits() validates lines against the parent amount';
+END $$;
@@ -0,0 +1,95 @@
+-- Category Rules Migration
+-- User-defined rules that categorize transactions by description, amount and type
+
+-- =============================================================================
+-- 1. CREATE CATEGORY RULES TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.category_rules (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    name TEXT NOT NULL,
+    match_type TEXT NOT NULL DEFAULT 'contains' CHECK (match_type IN ('contains', 'regex')),
+    pattern TEXT NOT NULL CHECK (length(trim(pattern)) > 0),
+    min_amount NUMERIC(12, 2) CHECK (min_amount IS NULL OR min_amount >= 0),
+    max_amount NUMERIC(12, 2) CHECK (max_amount IS NULL OR max_amount >= 0),
+    -- NULL matches every transaction type
+    transaction_type TEXT CHECK (transaction_type IN ('income', 'expense', 'transfer')),
+    category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+    savings_goal_id UUID REFERENCES public.savings_goals(id) ON DELETE SET NULL,
+    priority INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    last_matched_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT category_rules_amount_range CHECK (
+        min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount
+    ),
+    -- A rule has to set something when it matches
+    CONSTRAINT category_rules_has_target CHECK (
+        category_id IS NOT NULL OR savings_goal_id IS NOT NULL
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_category_rules_user_priority
+ON public.category_rules(user_id, priority);
+
+CREATE INDEX IF NOT EXISTS idx_category_rules_category_id
+ON public.category_rules(category_id);
+
+-- =============================================================================
+-- 2. ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE public.category_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own category rules"
+ON public.category_rules
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own category rules"
+ON public.category_rules
+FOR INSERT
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can update their own category rules"
+ON public.category_rules
+FOR UPDATE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete their own category rules"
+ON public.category_rules
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+-- =============================================================================
+-- 3. RECORD RULE HITS
+-- =============================================================================
+
+-- Adds to the hit counters of several rules at once. p_hits maps rule ids to the number of
+-- transactions each rule categorized, e.g. {"<rule id>": 3}.
+CREATE OR REPLACE FUNCTION record_category_rule_hits(p_hits JSONB)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.category_rules AS rule
+    SET hit_count = rule.hit_count + hits.value::INTEGER,
+        last_matched_at = now()
+    FROM jsonb_each_text(p_hits) AS hits
+    WHERE rule.id = hits.key::UUID
+    AND rule.user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Category rules migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- category_rules table with description, amount and type conditions';
+    RAISE NOTICE '- record_category_rule_hits() keeps per-rule hit statistics';
+END $$;
@@ -0,0 +1,155 @@
+-- Payees and Tags Migration
+-- Normalized merchant names with aliases, and free-form tags on transactions
+
+-- =============================================================================
+-- 1. CREATE PAYEES TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.payees (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    -- Other spellings found in statements, e.g. 'JOLLIBEE FOODS CORP'
+    aliases TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payees_user_name
+ON public.payees(user_id, lower(name));
+
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS payee_id UUID REFERENCES public.payees(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_payee_id
+ON public.transactions(payee_id);
+
+-- =============================================================================
+-- 2. CREATE TAGS TABLES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.tags (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    -- Stored lowercase without the leading '#', e.g. 'vacation-2026'
+    name TEXT NOT NULL CHECK (name ~ '^[a-z0-9][a-z0-9_-]*$'),
+    color TEXT NOT NULL DEFAULT '#6b7280',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE(user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.transaction_tags (
+    transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+    tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    PRIMARY KEY (transaction_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_tags_tag_id
+ON public.transaction_tags(tag_id);
+
+-- =============================================================================
+-- 3. ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE public.payees ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transaction_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payees"
+ON public.payees
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own payees"
+ON public.payees
+FOR INSERT
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can update their own payees"
+ON public.payees
+FOR UPDATE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete their own payees"
+ON public.payees
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can view their own tags"
+ON public.tags
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own tags"
+ON public.tags
+FOR INSERT
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can update their own tags"
+ON public.tags
+FOR UPDATE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete their own tags"
+ON public.tags
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can view their own transaction tags"
+ON public.transaction_tags
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own transaction tags"
+ON public.transaction_tags
+FOR INSERT
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete their own transaction tags"
+ON public.transaction_tags
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+-- =============================================================================
+-- 4. REPLACE TAGS ATOMICALLY
+-- =============================================================================
+
+-- Sets the complete tag list of a transaction; pass an empty array to remove every tag
+CREATE OR REPLACE FUNCTION set_transaction_tags(p_transaction_id UUID, p_tag_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.transactions
+        WHERE id = p_transaction_id
+        AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Transaction not found';
+    END IF;
+
+    DELETE FROM public.transaction_tags
+    WHERE transaction_id = p_transaction_id
+    AND NOT (tag_id = ANY(p_tag_ids));
+
+    INSERT INTO public.transaction_tags (transaction_id, tag_id, user_id)
+    SELECT p_transaction_id, tag.id, auth.uid()
+    FROM public.tags AS tag
+    WHERE tag.id = ANY(p_tag_ids)
+    AND tag.user_id = auth.uid()
+    ON CONFLICT (transaction_id, tag_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Payees and tags migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- payees table with aliases and transactions.payee_id';
+    RAISE NOTICE '- tags and transaction_tags tables for many-to-many tagging';
+    RAISE NOTICE '- set_transaction_tags() replaces a transaction''s tags in one call';
+END $$;
@@ -0,0 +1,229 @@
+-- Transaction History Migration
+-- Append-only log of every change to a transaction, and restore of recently deleted ones
+
+-- =============================================================================
+-- 1. CREATE TRANSACTION HISTORY TABLE
+-- =============================================================================
+
+-- Set by the client on each write to say where the change came from. The history
+-- trigger records it and clears it again, so it never describes a later change.
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS change_source TEXT
+CHECK (change_source IN ('form', 'import', 'rule', 'bulk', 'restore', 'recurring'));
+
+CREATE TABLE IF NOT EXISTS public.transaction_history (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    -- No foreign key: entries outlive the transaction they describe
+    transaction_id UUID NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+    source TEXT NOT NULL CHECK (source IN ('form', 'import', 'rule', 'bulk', 'restore', 'recurring')),
+    -- Whole rows as JSON; deletes also keep the split lines and tag ids needed to restore
+    before JSONB,
+    after JSONB,
+    changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_history_transaction
+ON public.transaction_history(transaction_id, changed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_history_deleted
+ON public.transaction_history(user_id, changed_at DESC)
+WHERE action = 'delete';
+
+-- =============================================================================
+-- 2. ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE public.transaction_history ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for users; only the trigger below writes entries, and nothing edits or removes them
+CREATE POLICY "Users can view their own transaction history"
+ON public.transaction_history
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+-- =============================================================================
+-- 3. RECORD CHANGES
+-- =============================================================================
+
+-- Runs BEFORE the change so a delete still sees the split lines and tags that the
+-- cascade is about to remove. SECURITY DEFINER because users cannot insert history.
+CREATE OR REPLACE FUNCTION public.record_transaction_change()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path = public
+AS $function$
+DECLARE
+    entry_source TEXT;
+    old_row JSONB;
+    new_row JSONB;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        old_row := to_jsonb(OLD) - 'change_source' || jsonb_build_object(
+            'splits', COALESCE(
+                (SELECT jsonb_agg(to_jsonb(s)) FROM public.transaction_splits s WHERE s.transaction_id = OLD.id),
+                '[]'::jsonb
+            ),
+            'tag_ids', COALESCE(
+                (SELECT jsonb_agg(tt.tag_id) FROM public.transaction_tags tt WHERE tt.transaction_id = OLD.id),
+                '[]'::jsonb
+            )
+        );
+
+        INSERT INTO public.transaction_history (user_id, transaction_id, action, source, before, after)
+        VALUES (
+            COALESCE(OLD.user_id, auth.uid()),
+            OLD.id,
+            'delete',
+            COALESCE(NULLIF(current_setting('app.change_source', true), ''), 'form'),
+            old_row,
+            NULL
+        );
+        RETURN OLD;
+    END IF;
+
+    -- An upsert fires the insert trigger before it finds the conflict and updates instead;
+    -- the update trigger logs that change. change_source is left set here because the
+    -- update takes its values from this row, and would otherwise lose the source.
+    IF TG_OP = 'INSERT' AND EXISTS (SELECT 1 FROM public.transactions WHERE id = NEW.id) THEN
+        RETURN NEW;
+    END IF;
+
+    entry_source := COALESCE(NEW.change_source, 'form');
+    NEW.change_source := NULL;
+    new_row := to_jsonb(NEW) - 'change_source';
+
+    IF TG_OP = 'UPDATE' THEN
+        old_row := to_jsonb(OLD) - 'change_source';
+
+        -- Nothing but the timestamp changed
+        IF old_row - 'updated_at' = new_row - 'updated_at' THEN
+            RETURN NEW;
+        END IF;
+    END IF;
+
+    INSERT INTO public.transaction_history (user_id, transaction_id, action, source, before, after)
+    VALUES (COALESCE(NEW.user_id, auth.uid()), NEW.id, lower(TG_OP), entry_source, old_row, new_row);
+    RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS trigger_record_transaction_change ON public.transactions;
+CREATE TRIGGER trigger_record_transaction_change
+    BEFORE INSERT OR UPDATE OR DELETE ON public.transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_transaction_change();
+
+-- =============================================================================
+-- 4. DELETE WITH A SOURCE
+-- =============================================================================
+
+-- A delete carries no row data to put change_source in, so the source travels in a
+-- setting that lasts only for this call
+CREATE OR REPLACE FUNCTION delete_transactions(p_ids UUID[], p_source TEXT DEFAULT 'form')
+RETURNS INTEGER AS $$
+DECLARE
+    deleted_count INTEGER;
+BEGIN
+    IF p_source NOT IN ('form', 'import', 'rule', 'bulk', 'restore', 'recurring') THEN
+        RAISE EXCEPTION 'Unknown change source %', p_source;
+    END IF;
+
+    PERFORM set_config('app.change_source', p_source, true);
+
+    DELETE FROM public.transactions
+    WHERE id = ANY(p_ids)
+    AND user_id = auth.uid();
+
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+    RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- =============================================================================
+-- 5. RESTORE DELETED TRANSACTIONS
+-- =============================================================================
+
+-- Re-creates a deleted transaction with its split lines and tags from its history entry.
+-- Only deletes from the last 30 days can be restored. Links to categories, payees, goals
+-- or tags that have since been deleted are dropped; a deleted account blocks the restore.
+CREATE OR REPLACE FUNCTION restore_deleted_transaction(p_history_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    entry public.transaction_history%ROWTYPE;
+    restored public.transactions%ROWTYPE;
+BEGIN
+    SELECT * INTO entry
+    FROM public.transaction_history
+    WHERE id = p_history_id
+    AND user_id = auth.uid()
+    AND action = 'delete';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Deleted transaction not found';
+    END IF;
+
+    IF entry.changed_at < now() - INTERVAL '30 days' THEN
+        RAISE EXCEPTION 'This transaction was deleted more than 30 days ago and can no longer be restored';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.transactions WHERE id = entry.transaction_id) THEN
+        RAISE EXCEPTION 'This transaction has already been restored';
+    END IF;
+
+    restored := jsonb_populate_record(NULL::public.transactions, entry.before - 'splits' - 'tag_ids');
+
+    IF NOT EXISTS (SELECT 1 FROM public.accounts WHERE id = restored.account_id) THEN
+        RAISE EXCEPTION 'The account this transaction belonged to no longer exists';
+    END IF;
+    IF restored.transfer_account_id IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM public.accounts WHERE id = restored.transfer_account_id) THEN
+        RAISE EXCEPTION 'The account this transfer went to no longer exists';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.categories WHERE id = restored.category_id) THEN
+        restored.category_id := NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.payees WHERE id = restored.payee_id) THEN
+        restored.payee_id := NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.savings_goals WHERE id = restored.savings_goal_id) THEN
+        restored.savings_goal_id := NULL;
+    END IF;
+    restored.change_source := 'restore';
+
+    INSERT INTO public.transactions SELECT (restored).*;
+
+    INSERT INTO public.transaction_splits (id, user_id, transaction_id, category_id, amount, description, created_at)
+    SELECT
+        line.id,
+        line.user_id,
+        line.transaction_id,
+        CASE WHEN EXISTS (SELECT 1 FROM public.categories WHERE id = line.category_id) THEN line.category_id END,
+        line.amount,
+        line.description,
+        line.created_at
+    FROM jsonb_populate_recordset(NULL::public.transaction_splits, entry.before->'splits') AS line;
+
+    INSERT INTO public.transaction_tags (transaction_id, tag_id, user_id)
+    SELECT entry.transaction_id, tag_id::UUID, entry.user_id
+    FROM jsonb_array_elements_text(entry.before->'tag_ids') AS tag_id
+    WHERE EXISTS (SELECT 1 FROM public.tags WHERE id = tag_id::UUID);
+
+    RETURN entry.transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Transaction history migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- transaction_history table written by a trigger on every insert, update and delete';
+    RAISE NOTICE '- transactions.change_source records whether a change came from a form, import, rule and so on';
+    RAISE NOTICE '- delete_transactions() deletes with a source; restore_deleted_transaction() undoes deletes within 30 days';
+END $$;
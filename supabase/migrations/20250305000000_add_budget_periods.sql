@@ -0,0 +1,77 @@
+-- Budget Periods Migration
+-- Optional rollover of unused or overspent amounts, and a record of every finished budget period
+
+-- =============================================================================
+-- 1. ADD ROLLOVER TO BUDGETS
+-- =============================================================================
+
+-- When on, what is left of a period (or overspent, as a negative amount) is added to the next one
+ALTER TABLE public.budgets
+ADD COLUMN IF NOT EXISTS rollover BOOLEAN NOT NULL DEFAULT false;
+
+-- =============================================================================
+-- 2. CREATE BUDGET PERIODS TABLE
+-- =============================================================================
+
+-- One row per finished period, written by the app once the period is over. Amounts are
+-- kept as they were at the time so later edits to the budget do not rewrite history.
+CREATE TABLE IF NOT EXISTS public.budget_periods (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    budget_id UUID NOT NULL REFERENCES public.budgets(id) ON DELETE CASCADE,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    budgeted NUMERIC(12,2) NOT NULL,
+    -- Carried in from the previous period; negative when that period was overspent
+    rollover_in NUMERIC(12,2) NOT NULL DEFAULT 0,
+    spent NUMERIC(12,2) NOT NULL DEFAULT 0,
+    -- Carried on to the next period; always 0 for budgets without rollover
+    carried_over NUMERIC(12,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (period_end >= period_start),
+    UNIQUE(budget_id, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_periods_user_id
+ON public.budget_periods(user_id);
+
+-- =============================================================================
+-- 3. ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE public.budget_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own budget periods"
+ON public.budget_periods
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own budget periods"
+ON public.budget_periods
+FOR INSERT
+WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND EXISTS (
+        SELECT 1 FROM public.budgets
+        WHERE id = budget_id
+        AND user_id = (SELECT auth.uid())
+    )
+);
+
+-- Finished periods are never edited; they are only cleared when a budget's schedule changes
+CREATE POLICY "Users can delete their own budget periods"
+ON public.budget_periods
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Budget periods migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- budgets.rollover carries unused or overspent amounts into the next period';
+    RAISE NOTICE '- budget_periods table keeps the budgeted, carried and spent amounts of finished periods';
+END $$;
@@ -0,0 +1,157 @@
+-- Envelope Budgeting Migration
+-- Zero-based budgeting: income is assigned to category envelopes and moved between them
+
+-- =============================================================================
+-- 1. BUDGETING MODE AND OVERSPENDING COVER
+-- =============================================================================
+
+-- 'limits' caps spending per period; 'envelope' spends only what income was assigned
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS budgeting_mode TEXT NOT NULL DEFAULT 'limits'
+CHECK (budgeting_mode IN ('limits', 'envelope'));
+
+-- Envelope that pays for this one when it is overspent; without one, overspending
+-- comes out of the money still to be assigned
+ALTER TABLE public.budgets
+ADD COLUMN IF NOT EXISTS cover_from_budget_id UUID REFERENCES public.budgets(id) ON DELETE SET NULL
+CHECK (cover_from_budget_id <> id);
+
+-- The cover envelope must belong to the budget's owner. A trigger rather than a policy,
+-- since a policy on budgets cannot look up other budgets without recursing.
+CREATE OR REPLACE FUNCTION public.check_budget_cover_owner()
+RETURNS trigger AS $$
+BEGIN
+    IF NEW.cover_from_budget_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.budgets
+        WHERE id = NEW.cover_from_budget_id
+        AND user_id = NEW.user_id
+    ) THEN
+        RAISE EXCEPTION 'Overspending can only be covered from one of your own envelopes';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_check_budget_cover_owner ON public.budgets;
+CREATE TRIGGER trigger_check_budget_cover_owner
+    BEFORE INSERT OR UPDATE OF cover_from_budget_id, user_id ON public.budgets
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_budget_cover_owner();
+
+-- =============================================================================
+-- 2. CREATE ENVELOPE TABLES
+-- =============================================================================
+
+-- Money assigned to an envelope for one month; editing the month replaces the amount
+CREATE TABLE IF NOT EXISTS public.envelope_assignments (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    budget_id UUID NOT NULL REFERENCES public.budgets(id) ON DELETE CASCADE,
+    -- First day of the month
+    month DATE NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+    amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE(budget_id, month)
+);
+
+-- Money moved from one envelope to another
+CREATE TABLE IF NOT EXISTS public.envelope_transfers (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    from_budget_id UUID NOT NULL REFERENCES public.budgets(id) ON DELETE CASCADE,
+    to_budget_id UUID NOT NULL REFERENCES public.budgets(id) ON DELETE CASCADE,
+    month DATE NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+    amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (from_budget_id <> to_budget_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_envelope_assignments_user_month
+ON public.envelope_assignments(user_id, month);
+
+CREATE INDEX IF NOT EXISTS idx_envelope_transfers_user_month
+ON public.envelope_transfers(user_id, month);
+
+-- =============================================================================
+-- 3. ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE public.envelope_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.envelope_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own envelope assignments"
+ON public.envelope_assignments
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own envelope assignments"
+ON public.envelope_assignments
+FOR INSERT
+WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND EXISTS (
+        SELECT 1 FROM public.budgets
+        WHERE id = budget_id
+        AND user_id = (SELECT auth.uid())
+    )
+);
+
+CREATE POLICY "Users can update their own envelope assignments"
+ON public.envelope_assignments
+FOR UPDATE
+USING (user_id = (SELECT auth.uid()))
+WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND EXISTS (
+        SELECT 1 FROM public.budgets
+        WHERE id = budget_id
+        AND user_id = (SELECT auth.uid())
+    )
+);
+
+CREATE POLICY "Users can delete their own envelope assignments"
+ON public.envelope_assignments
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can view their own envelope transfers"
+ON public.envelope_transfers
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own envelope transfers"
+ON public.envelope_transfers
+FOR INSERT
+WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND EXISTS (
+        SELECT 1 FROM public.budgets
+        WHERE id = from_budget_id
+        AND user_id = (SELECT auth.uid())
+    )
+    AND EXISTS (
+        SELECT 1 FROM public.budgets
+        WHERE id = to_budget_id
+        AND user_id = (SELECT auth.uid())
+    )
+);
+
+CREATE POLICY "Users can delete their own envelope transfers"
+ON public.envelope_transfers
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Envelope budgeting migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- profiles.budgeting_mode switches between spending limits and envelopes';
+    RAISE NOTICE '- envelope_assignments and envelope_transfers tables for assigning and moving money';
+    RAISE NOTICE '- budgets.cover_from_budget_id picks the envelope that covers overspending';
+END $$;
@@ -0,0 +1,177 @@
+-- Budget Templates Migration
+-- Named sets of category budgets that can be saved and applied in one go
+
+-- =============================================================================
+-- 1. CREATE TEMPLATE TABLES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.budget_templates (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE(user_id, name)
+);
+
+-- One budget per line; a NULL category is a budget on all expenses
+CREATE TABLE IF NOT EXISTS public.budget_template_items (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    template_id UUID NOT NULL REFERENCES public.budget_templates(id) ON DELETE CASCADE,
+    category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+    amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+    period TEXT NOT NULL DEFAULT 'monthly' CHECK (period IN ('weekly', 'monthly', 'yearly')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_template_items_template
+ON public.budget_template_items(template_id);
+
+-- =============================================================================
+-- 2. ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE public.budget_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.budget_template_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own budget templates"
+ON public.budget_templates
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own budget templates"
+ON public.budget_templates
+FOR INSERT
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can update their own budget templates"
+ON public.budget_templates
+FOR UPDATE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete their own budget templates"
+ON public.budget_templates
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can view their own budget template items"
+ON public.budget_template_items
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own budget template items"
+ON public.budget_template_items
+FOR INSERT
+WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND EXISTS (
+        SELECT 1 FROM public.budget_templates
+        WHERE id = template_id
+        AND user_id = (SELECT auth.uid())
+    )
+);
+
+CREATE POLICY "Users can delete their own budget template items"
+ON public.budget_template_items
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+-- =============================================================================
+-- 3. SAVE AND APPLY FUNCTIONS
+-- =============================================================================
+
+-- Saves a template under a name, replacing the lines of an existing template with that name
+CREATE OR REPLACE FUNCTION save_budget_template(p_name TEXT, p_description TEXT, p_items JSONB)
+RETURNS UUID AS $$
+DECLARE
+    saved_id UUID;
+BEGIN
+    IF jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'A template needs at least one budget'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.budget_templates (user_id, name, description)
+    VALUES (auth.uid(), trim(p_name), NULLIF(trim(p_description), ''))
+    ON CONFLICT (user_id, name) DO UPDATE
+    SET description = EXCLUDED.description,
+        updated_at = now()
+    RETURNING id INTO saved_id;
+
+    DELETE FROM public.budget_template_items WHERE template_id = saved_id;
+
+    INSERT INTO public.budget_template_items (user_id, template_id, category_id, amount, period)
+    SELECT auth.uid(), saved_id, (line->>'category_id')::UUID, (line->>'amount')::NUMERIC, line->>'period'
+    FROM jsonb_array_elements(p_items) AS line;
+
+    RETURN saved_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Sets each category's budget to the given amount and period. A category's running
+-- budget is updated in place (its recorded periods are cleared if the period changes,
+-- as they no longer line up); categories without one get a new budget from p_start_date.
+-- Returns how many budgets were created or changed.
+CREATE OR REPLACE FUNCTION apply_budgets(p_items JSONB, p_start_date DATE)
+RETURNS INTEGER AS $$
+DECLARE
+    line JSONB;
+    line_category UUID;
+    line_amount NUMERIC;
+    line_period TEXT;
+    existing public.budgets%ROWTYPE;
+    applied INTEGER := 0;
+BEGIN
+    FOR line IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+        line_category := (line->>'category_id')::UUID;
+        line_amount := (line->>'amount')::NUMERIC;
+        line_period := COALESCE(line->>'period', 'monthly');
+
+        IF line_amount IS NULL OR line_amount <= 0 THEN
+            RAISE EXCEPTION 'Budget amount must be greater than 0'
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        SELECT * INTO existing
+        FROM public.budgets
+        WHERE user_id = auth.uid()
+        AND category_id IS NOT DISTINCT FROM line_category
+        AND (end_date IS NULL OR end_date >= p_start_date)
+        ORDER BY created_at DESC
+        LIMIT 1;
+
+        IF existing.id IS NULL THEN
+            INSERT INTO public.budgets (user_id, category_id, amount, period, start_date)
+            VALUES (auth.uid(), line_category, line_amount, line_period, p_start_date);
+            applied := applied + 1;
+        ELSIF existing.period <> line_period THEN
+            DELETE FROM public.budget_periods WHERE budget_id = existing.id;
+            UPDATE public.budgets
+            SET amount = line_amount, period = line_period, start_date = p_start_date
+            WHERE id = existing.id;
+            applied := applied + 1;
+        ELSIF existing.amount <> line_amount THEN
+            UPDATE public.budgets SET amount = line_amount WHERE id = existing.id;
+            applied := applied + 1;
+        END IF;
+    END LOOP;
+
+    RETURN applied;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Budget templates migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- budget_templates and budget_template_items tables for named budget sets';
+    RAISE NOTICE '- save_budget_template() saves or replaces a template by name';
+    RAISE NOTICE '- apply_budgets() creates or updates category budgets in bulk';
+END $$;
@@ -0,0 +1,562 @@
+-- Households Migration
+-- Lets couples and families share accounts, budgets, savings goals and categories.
+-- Members are owners, editors or viewers; anything without a household stays private.
+
+-- =============================================================================
+-- 1. CREATE HOUSEHOLD TABLES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.households (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    created_by UUID REFERENCES auth.users NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- A user belongs to at most one household
+CREATE TABLE IF NOT EXISTS public.household_members (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    household_id UUID NOT NULL REFERENCES public.households(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users NOT NULL UNIQUE,
+    -- owner: manages members and everything shared; editor: edits shared items and
+    -- adds transactions to shared accounts; viewer: sees shared items only
+    role TEXT NOT NULL DEFAULT 'editor' CHECK (role IN ('owner', 'editor', 'viewer')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.household_invitations (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    household_id UUID NOT NULL REFERENCES public.households(id) ON DELETE CASCADE,
+    email TEXT NOT NULL CHECK (position('@' in email) > 1),
+    role TEXT NOT NULL DEFAULT 'editor' CHECK (role IN ('editor', 'viewer')),
+    invited_by UUID REFERENCES auth.users NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    responded_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One open invitation per address and household
+CREATE UNIQUE INDEX IF NOT EXISTS idx_household_invitations_pending
+ON public.household_invitations(household_id, lower(email))
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_household_members_household
+ON public.household_members(household_id);
+
+-- =============================================================================
+-- 2. SHARE EXISTING DATA
+-- =============================================================================
+
+-- A household_id marks a row as shared with that household; NULL keeps it private
+ALTER TABLE public.accounts
+ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES public.households(id) ON DELETE SET NULL;
+
+ALTER TABLE public.budgets
+ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES public.households(id) ON DELETE SET NULL;
+
+ALTER TABLE public.savings_goals
+ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES public.households(id) ON DELETE SET NULL;
+
+ALTER TABLE public.categories
+ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES public.households(id) ON DELETE SET NULL;
+
+-- Follows the account: transactions in a shared account are shared, the rest are private
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES public.households(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_household
+ON public.transactions(household_id)
+WHERE household_id IS NOT NULL;
+
+-- =============================================================================
+-- 3. MEMBERSHIP HELPERS
+-- =============================================================================
+
+-- The current user's role in a household, or NULL when not a member. SECURITY DEFINER
+-- so policies on household_members can use it without recursing into themselves.
+CREATE OR REPLACE FUNCTION public.household_role(p_household_id UUID)
+RETURNS TEXT AS $$
+    SELECT role FROM public.household_members
+    WHERE household_id = p_household_id
+    AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether a user is in the same household as the current user
+CREATE OR REPLACE FUNCTION public.shares_household_with(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.household_members mine
+        JOIN public.household_members theirs ON theirs.household_id = mine.household_id
+        WHERE mine.user_id = auth.uid()
+        AND theirs.user_id = p_user_id
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =============================================================================
+-- 4. ROW LEVEL SECURITY: HOUSEHOLDS
+-- =============================================================================
+
+ALTER TABLE public.households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.household_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.household_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their household"
+ON public.households
+FOR SELECT
+USING (
+    public.household_role(id) IS NOT NULL
+    OR EXISTS (
+        SELECT 1 FROM public.household_invitations
+        WHERE household_id = households.id
+        AND status = 'pending'
+        AND lower(email) = lower((SELECT auth.jwt()) ->> 'email')
+    )
+);
+
+CREATE POLICY "Owners can update their household"
+ON public.households
+FOR UPDATE
+USING (public.household_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete their household"
+ON public.households
+FOR DELETE
+USING (public.household_role(id) = 'owner');
+
+CREATE POLICY "Members can view their household members"
+ON public.household_members
+FOR SELECT
+USING (public.household_role(household_id) IS NOT NULL);
+
+-- No UPDATE policy: owners change roles through set_household_member_role(), which
+-- touches nothing but the role
+
+CREATE POLICY "Owners can remove members and members can leave"
+ON public.household_members
+FOR DELETE
+USING (
+    public.household_role(household_id) = 'owner'
+    OR user_id = (SELECT auth.uid())
+);
+
+CREATE POLICY "Owners and invitees can view invitations"
+ON public.household_invitations
+FOR SELECT
+USING (
+    public.household_role(household_id) = 'owner'
+    OR lower(email) = lower((SELECT auth.jwt()) ->> 'email')
+);
+
+CREATE POLICY "Owners can invite members"
+ON public.household_invitations
+FOR INSERT
+WITH CHECK (
+    invited_by = (SELECT auth.uid())
+    AND public.household_role(household_id) = 'owner'
+);
+
+CREATE POLICY "Invitees can decline invitations"
+ON public.household_invitations
+FOR UPDATE
+USING (lower(email) = lower((SELECT auth.jwt()) ->> 'email'))
+WITH CHECK (status = 'declined');
+
+CREATE POLICY "Owners can revoke invitations"
+ON public.household_invitations
+FOR DELETE
+USING (public.household_role(household_id) = 'owner');
+
+-- =============================================================================
+-- 5. ROW LEVEL SECURITY: SHARED DATA
+-- =============================================================================
+-- These policies add to the existing "own rows" policies. The restrictive ones stop
+-- viewers, and users outside the household, from sharing rows or writing shared ones.
+
+CREATE POLICY "Household members can view shared accounts"
+ON public.accounts
+FOR SELECT
+USING (household_id IS NOT NULL AND public.household_role(household_id) IS NOT NULL);
+
+CREATE POLICY "Household editors can update shared accounts"
+ON public.accounts
+FOR UPDATE
+USING (household_id IS NOT NULL AND public.household_role(household_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Only household editors can share accounts"
+ON public.accounts
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (household_id IS NULL OR public.household_role(household_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Only household editors can change shared accounts"
+ON public.accounts
+AS RESTRICTIVE
+FOR UPDATE
+WITH CHECK (household_id IS NULL OR public.household_role(household_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Household members can view shared budgets"
+ON public.budgets
+FOR SELECT
+USING (household_id IS NOT NULL AND public.household_role(household_id) IS NOT NULL);
+
+CREATE POLICY "Household editors can update shared budgets"
+ON public.budgets
+FOR UPDATE
+USING (household_id IS NOT NULL AND public.household_role(household_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Household editors can delete shared budgets"
+ON public.budgets
+FOR DELETE
+USING (household_id IS NOT NULL AND public.household_role(household_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Only household editors can share budgets"
+ON public.budgets
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (household_id IS NULL OR public.household_role(household_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Only household editors can change shared budgets"
+ON public.budgets
+AS RESTRICTIVE
+FOR UPDATE
+WITH CHECK (household_id IS NULL OR public.household_role(household_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Household members can view shared savings goals"
+ON public.savings_goals
+FOR SELECT
+USING (household_id IS NOT NULL AND public.household_role(household_id) IS NOT NULL);
+
+CREATE POLICY "Household editors can update shared savings goals"
+ON public.savings_goals
+FOR UPDATE
+USING (household_id IS NOT NULL AND public.household_role(household_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Household editors can delete shared savings goals"
+ON public.savings_goals
+FOR DELETE
+USING (household_id IS NOT NULL AND public.household_role(household_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Only household editors can share savings goals"
+ON public.savings_goals
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (household_id IS NULL OR public.household_role(household_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Only household editors can change shared savings goals"
+ON public.savings_goals
+AS RESTRICTIVE
+FOR UPDATE
+WITH CHECK (household_id IS NULL OR public.household_role(household_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Household members can view shared categories"
+ON public.categories
+FOR SELECT
+USING (household_id IS NOT NULL AND public.household_role(household_id) IS NOT NULL);
+
+-- Everyone sees who entered a shared transaction; each member edits only their own
+CREATE POLICY "Household members can view shared transactions"
+ON public.transactions
+FOR SELECT
+USING (household_id IS NOT NULL AND public.household_role(household_id) IS NOT NULL);
+
+CREATE POLICY "Only household editors can add to shared accounts"
+ON public.transactions
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (household_id IS NULL OR public.household_role(household_id) IN ('owner', 'editor'));
+
+-- Stops a viewer from moving a private transaction into a shared account after the fact
+CREATE POLICY "Only household editors can move into shared accounts"
+ON public.transactions
+AS RESTRICTIVE
+FOR UPDATE
+WITH CHECK (household_id IS NULL OR public.household_role(household_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Household members can view shared transaction splits"
+ON public.transaction_splits
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.transactions
+        WHERE id = transaction_id
+        AND household_id IS NOT NULL
+        AND public.household_role(household_id) IS NOT NULL
+    )
+);
+
+CREATE POLICY "Household members can view shared budget periods"
+ON public.budget_periods
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.budgets
+        WHERE id = budget_id
+        AND household_id IS NOT NULL
+        AND public.household_role(household_id) IS NOT NULL
+    )
+);
+
+-- Any member may record a finished period of a shared budget
+CREATE POLICY "Household members can record shared budget periods"
+ON public.budget_periods
+FOR INSERT
+WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND EXISTS (
+        SELECT 1 FROM public.budgets
+        WHERE id = budget_id
+        AND household_id IS NOT NULL
+        AND public.household_role(household_id) IS NOT NULL
+    )
+);
+
+-- Changing a shared budget's schedule clears every member's recorded periods
+CREATE POLICY "Household editors can clear shared budget periods"
+ON public.budget_periods
+FOR DELETE
+USING (
+    EXISTS (
+        SELECT 1 FROM public.budgets
+        WHERE id = budget_id
+        AND household_id IS NOT NULL
+        AND public.household_role(household_id) IN ('owner', 'editor')
+    )
+);
+
+-- Member names for attribution
+CREATE POLICY "Household members can view each other's profiles"
+ON public.profiles
+FOR SELECT
+USING (public.shares_household_with(id));
+
+-- =============================================================================
+-- 6. KEEP SHARING CONSISTENT
+-- =============================================================================
+
+-- A transaction is shared when its account, or for transfers either account, is shared.
+-- household_id is always worked out here, so a client cannot set it to anything else.
+CREATE OR REPLACE FUNCTION public.set_transaction_household()
+RETURNS TRIGGER AS $$
+BEGIN
+    SELECT household_id INTO NEW.household_id
+    FROM public.accounts
+    WHERE id = NEW.account_id;
+
+    IF NEW.household_id IS NULL AND NEW.transfer_account_id IS NOT NULL THEN
+        SELECT household_id INTO NEW.household_id
+        FROM public.accounts
+        WHERE id = NEW.transfer_account_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+CREATE TRIGGER set_transaction_household
+BEFORE INSERT OR UPDATE OF account_id, transfer_account_id, household_id ON public.transactions
+FOR EACH ROW EXECUTE FUNCTION public.set_transaction_household();
+
+-- A shared budget needs its category shared too, or other members could not file
+-- spending under it
+CREATE OR REPLACE FUNCTION public.share_budget_category()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.household_id IS NOT NULL AND NEW.category_id IS NOT NULL THEN
+        UPDATE public.categories
+        SET household_id = NEW.household_id
+        WHERE id = NEW.category_id
+        AND household_id IS NULL
+        AND user_id = auth.uid();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+CREATE TRIGGER share_budget_category
+AFTER INSERT OR UPDATE OF household_id, category_id ON public.budgets
+FOR EACH ROW EXECUTE FUNCTION public.share_budget_category();
+
+-- A household always keeps at least one owner
+CREATE OR REPLACE FUNCTION public.keep_household_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND EXISTS (SELECT 1 FROM public.households WHERE id = OLD.household_id)
+    AND NOT EXISTS (
+        SELECT 1 FROM public.household_members
+        WHERE household_id = OLD.household_id
+        AND role = 'owner'
+        AND id <> OLD.id
+    ) THEN
+        RAISE EXCEPTION 'A household needs at least one owner. Make someone else an owner first.'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER keep_household_owner
+BEFORE UPDATE OF role OR DELETE ON public.household_members
+FOR EACH ROW EXECUTE FUNCTION public.keep_household_owner();
+
+-- Members who leave, or are removed, take their shared items back private
+CREATE OR REPLACE FUNCTION public.unshare_member_items()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.accounts SET household_id = NULL
+    WHERE user_id = OLD.user_id AND household_id = OLD.household_id;
+
+    UPDATE public.budgets SET household_id = NULL
+    WHERE user_id = OLD.user_id AND household_id = OLD.household_id;
+
+    UPDATE public.savings_goals SET household_id = NULL
+    WHERE user_id = OLD.user_id AND household_id = OLD.household_id;
+
+    UPDATE public.categories SET household_id = NULL
+    WHERE user_id = OLD.user_id AND household_id = OLD.household_id;
+
+    -- Transactions follow their accounts, including other members' entries in them
+    UPDATE public.transactions t
+    SET household_id = COALESCE(
+        (SELECT household_id FROM public.accounts WHERE id = t.account_id),
+        (SELECT household_id FROM public.accounts WHERE id = t.transfer_account_id)
+    )
+    WHERE t.household_id = OLD.household_id
+    AND (
+        t.account_id IN (SELECT id FROM public.accounts WHERE user_id = OLD.user_id)
+        OR t.transfer_account_id IN (SELECT id FROM public.accounts WHERE user_id = OLD.user_id)
+    );
+
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER unshare_member_items
+AFTER DELETE ON public.household_members
+FOR EACH ROW EXECUTE FUNCTION public.unshare_member_items();
+
+-- =============================================================================
+-- 7. HOUSEHOLD FUNCTIONS
+-- =============================================================================
+
+-- Creates a household with the current user as its owner
+CREATE OR REPLACE FUNCTION create_household(p_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+    new_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.household_members WHERE user_id = auth.uid()) THEN
+        RAISE EXCEPTION 'You already belong to a household'
+            USING ERRCODE = 'unique_violation';
+    END IF;
+
+    INSERT INTO public.households (name, created_by)
+    VALUES (trim(p_name), auth.uid())
+    RETURNING id INTO new_id;
+
+    INSERT INTO public.household_members (household_id, user_id, role)
+    VALUES (new_id, auth.uid(), 'owner');
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Joins the household of an invitation sent to the current user's email address
+CREATE OR REPLACE FUNCTION accept_household_invitation(p_invitation_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    invitation public.household_invitations%ROWTYPE;
+BEGIN
+    SELECT * INTO invitation
+    FROM public.household_invitations
+    WHERE id = p_invitation_id
+    AND status = 'pending'
+    AND lower(email) = lower(auth.jwt() ->> 'email');
+
+    IF invitation.id IS NULL THEN
+        RAISE EXCEPTION 'Invitation not found';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.household_members WHERE user_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Leave your current household before joining another'
+            USING ERRCODE = 'unique_violation';
+    END IF;
+
+    INSERT INTO public.household_members (household_id, user_id, role)
+    VALUES (invitation.household_id, auth.uid(), invitation.role);
+
+    UPDATE public.household_invitations
+    SET status = 'accepted', responded_at = now()
+    WHERE id = invitation.id;
+
+    RETURN invitation.household_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Changes a member's role. Only the household's owners can, and only the role changes.
+CREATE OR REPLACE FUNCTION set_household_member_role(p_member_id UUID, p_role TEXT)
+RETURNS VOID AS $$
+DECLARE
+    member public.household_members%ROWTYPE;
+BEGIN
+    SELECT * INTO member
+    FROM public.household_members
+    WHERE id = p_member_id;
+
+    IF NOT FOUND OR COALESCE(public.household_role(member.household_id), '') <> 'owner' THEN
+        RAISE EXCEPTION 'Only household owners can change member roles';
+    END IF;
+
+    UPDATE public.household_members
+    SET role = p_role
+    WHERE id = p_member_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Shares an account, and its transactions, with a household or makes them private again.
+-- SECURITY DEFINER because other members' transactions in the account move with it.
+CREATE OR REPLACE FUNCTION set_account_household(p_account_id UUID, p_household_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.accounts WHERE id = p_account_id AND user_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Only the account owner can change its sharing';
+    END IF;
+
+    IF p_household_id IS NOT NULL AND COALESCE(public.household_role(p_household_id), '') NOT IN ('owner', 'editor') THEN
+        RAISE EXCEPTION 'Only household owners and editors can share accounts';
+    END IF;
+
+    UPDATE public.accounts
+    SET household_id = p_household_id, updated_at = now()
+    WHERE id = p_account_id;
+
+    UPDATE public.transactions t
+    SET household_id = COALESCE(
+        (SELECT household_id FROM public.accounts WHERE id = t.account_id),
+        (SELECT household_id FROM public.accounts WHERE id = t.transfer_account_id)
+    )
+    WHERE t.account_id = p_account_id
+    OR t.transfer_account_id = p_account_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Households migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- households, household_members and household_invitations tables with owner/editor/viewer roles';
+    RAISE NOTICE '- household_id on accounts, budgets, savings goals, categories and transactions for sharing';
+    RAISE NOTICE '- create_household(), accept_household_invitation(), set_household_member_role() and set_account_household() functions';
+END $$;
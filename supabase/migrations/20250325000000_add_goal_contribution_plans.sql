@@ -0,0 +1,279 @@
+-- Goal Contribution Plans Migration
+-- Puts a fixed amount or a share of income into a savings goal on each payday, using the
+-- goal's salary dates. Plans either contribute automatically or leave a proposal to accept.
+
+-- =============================================================================
+-- 1. CREATE CONTRIBUTION TABLES
+-- =============================================================================
+
+-- One plan per member and goal
+CREATE TABLE IF NOT EXISTS public.goal_contribution_plans (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    savings_goal_id UUID NOT NULL REFERENCES public.savings_goals(id) ON DELETE CASCADE,
+    -- fixed: amount per payday; percentage: amount is a percent of the payday's income
+    method TEXT NOT NULL CHECK (method IN ('fixed', 'percentage')),
+    amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+    -- Account the contribution is taken from; the income's account when empty
+    account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+    -- Contribute as soon as income lands instead of proposing it
+    auto_contribute BOOLEAN NOT NULL DEFAULT false,
+    -- Income this many days either side of a salary date counts as that payday's
+    window_days INTEGER NOT NULL DEFAULT 3 CHECK (window_days BETWEEN 0 AND 10),
+    -- Paydays before this date are not planned
+    starts_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE(user_id, savings_goal_id),
+    CHECK (method = 'fixed' OR amount <= 100)
+);
+
+-- What happened on each payday of a plan: contributed, with the linked transfer, or skipped
+CREATE TABLE IF NOT EXISTS public.goal_contributions (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    plan_id UUID NOT NULL REFERENCES public.goal_contribution_plans(id) ON DELETE CASCADE,
+    savings_goal_id UUID NOT NULL REFERENCES public.savings_goals(id) ON DELETE CASCADE,
+    payday DATE NOT NULL,
+    planned_amount NUMERIC(12,2) NOT NULL CHECK (planned_amount >= 0),
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+    status TEXT NOT NULL CHECK (status IN ('contributed', 'skipped')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE(plan_id, payday)
+);
+
+CREATE INDEX IF NOT EXISTS idx_goal_contributions_goal
+ON public.goal_contributions(savings_goal_id, payday);
+
+-- =============================================================================
+-- 2. ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE public.goal_contribution_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goal_contributions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own contribution plans"
+ON public.goal_contribution_plans
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+-- Plans can target the user's own goals or goals shared with their household
+CREATE POLICY "Users can create their own contribution plans"
+ON public.goal_contribution_plans
+FOR INSERT
+WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND EXISTS (SELECT 1 FROM public.savings_goals WHERE id = savings_goal_id)
+);
+
+CREATE POLICY "Users can update their own contribution plans"
+ON public.goal_contribution_plans
+FOR UPDATE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete their own contribution plans"
+ON public.goal_contribution_plans
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can view their own goal contributions"
+ON public.goal_contributions
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own goal contributions"
+ON public.goal_contributions
+FOR INSERT
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can update their own goal contributions"
+ON public.goal_contributions
+FOR UPDATE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete their own goal contributions"
+ON public.goal_contributions
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+-- =============================================================================
+-- 3. PAYDAYS
+-- =============================================================================
+
+-- The salary date closest to p_date, within p_window days of it, or NULL. Salary dates
+-- past the end of a month fall on its last day, e.g. the 30th is February 28th.
+CREATE OR REPLACE FUNCTION public.nearest_payday(
+    p_date DATE,
+    p_salary_date_1 INTEGER,
+    p_salary_date_2 INTEGER,
+    p_window INTEGER
+)
+RETURNS DATE AS $$
+    SELECT candidate
+    FROM (
+        SELECT make_date(
+            EXTRACT(YEAR FROM month_start)::INTEGER,
+            EXTRACT(MONTH FROM month_start)::INTEGER,
+            LEAST(salary_day, EXTRACT(DAY FROM month_start + INTERVAL '1 month' - INTERVAL '1 day')::INTEGER)
+        ) AS candidate
+        FROM generate_series(
+            date_trunc('month', p_date) - INTERVAL '1 month',
+            date_trunc('month', p_date) + INTERVAL '1 month',
+            INTERVAL '1 month'
+        ) AS month_start,
+        unnest(ARRAY[p_salary_date_1, p_salary_date_2]) AS salary_day
+        WHERE salary_day IS NOT NULL
+    ) candidates
+    WHERE abs(candidate - p_date) <= p_window
+    ORDER BY abs(candidate - p_date), candidate
+    LIMIT 1;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =============================================================================
+-- 4. CONTRIBUTING
+-- =============================================================================
+
+-- Records a payday's contribution as a transfer into the goal. Contributing after a skip
+-- replaces the skip; a payday that already has a contribution is rejected.
+CREATE OR REPLACE FUNCTION contribute_to_goal(
+    p_plan_id UUID,
+    p_payday DATE,
+    p_amount NUMERIC,
+    p_account_id UUID,
+    p_date DATE
+)
+RETURNS UUID AS $$
+DECLARE
+    plan RECORD;
+    contribution_id UUID;
+    new_transaction_id UUID;
+BEGIN
+    SELECT p.*, g.name AS goal_name
+    INTO plan
+    FROM public.goal_contribution_plans p
+    JOIN public.savings_goals g ON g.id = p.savings_goal_id
+    WHERE p.id = p_plan_id;
+
+    IF plan.id IS NULL THEN
+        RAISE EXCEPTION 'Contribution plan not found';
+    END IF;
+
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'Contribution amount must be greater than 0';
+    END IF;
+
+    -- Claim the payday before creating the transfer. A concurrent call waits on the row
+    -- lock here and then finds the payday contributed, so only one transfer is made.
+    INSERT INTO public.goal_contributions (user_id, plan_id, savings_goal_id, payday, planned_amount, status)
+    VALUES (plan.user_id, plan.id, plan.savings_goal_id, p_payday, round(p_amount, 2), 'contributed')
+    ON CONFLICT (plan_id, payday) DO UPDATE
+    SET planned_amount = EXCLUDED.planned_amount,
+        transaction_id = NULL,
+        status = 'contributed'
+    WHERE goal_contributions.status = 'skipped'
+    RETURNING id INTO contribution_id;
+
+    IF contribution_id IS NULL THEN
+        RAISE EXCEPTION 'This payday already has a contribution'
+            USING ERRCODE = 'unique_violation';
+    END IF;
+
+    INSERT INTO public.transactions (user_id, amount, type, category_id, account_id, savings_goal_id, description, date)
+    VALUES (
+        plan.user_id,
+        round(p_amount, 2),
+        'transfer',
+        NULL,
+        COALESCE(p_account_id, plan.account_id),
+        plan.savings_goal_id,
+        'Payday contribution to ' || plan.goal_name,
+        COALESCE(p_date, p_payday)
+    )
+    RETURNING id INTO new_transaction_id;
+
+    UPDATE public.goal_contributions
+    SET transaction_id = new_transaction_id
+    WHERE id = contribution_id;
+
+    RETURN new_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Runs automatic plans when income lands near a salary date. Percentage plans grow the
+-- payday's contribution as more income arrives; nothing goes past the goal's target.
+CREATE OR REPLACE FUNCTION public.apply_goal_contribution_plans()
+RETURNS TRIGGER AS $$
+DECLARE
+    plan RECORD;
+    v_payday DATE;
+    v_amount NUMERIC;
+    v_remaining NUMERIC;
+    existing public.goal_contributions%ROWTYPE;
+BEGIN
+    FOR plan IN
+        SELECT p.*, g.salary_date_1, g.salary_date_2, g.target_amount, g.current_amount
+        FROM public.goal_contribution_plans p
+        JOIN public.savings_goals g ON g.id = p.savings_goal_id
+        WHERE p.user_id = NEW.user_id
+        AND p.is_active
+        AND p.auto_contribute
+    LOOP
+        v_payday := public.nearest_payday(NEW.date, plan.salary_date_1, plan.salary_date_2, plan.window_days);
+        CONTINUE WHEN v_payday IS NULL OR v_payday < plan.starts_on;
+
+        v_remaining := GREATEST(plan.target_amount - COALESCE(plan.current_amount, 0), 0);
+        v_amount := CASE plan.method
+            WHEN 'fixed' THEN plan.amount
+            ELSE round(NEW.amount * plan.amount / 100, 2)
+        END;
+
+        existing := NULL;
+        SELECT * INTO existing
+        FROM public.goal_contributions
+        WHERE plan_id = plan.id AND payday = v_payday;
+
+        IF existing.id IS NULL THEN
+            v_amount := LEAST(v_amount, v_remaining);
+            CONTINUE WHEN v_amount <= 0;
+            BEGIN
+                PERFORM contribute_to_goal(plan.id, v_payday, v_amount, COALESCE(plan.account_id, NEW.account_id), NEW.date);
+            EXCEPTION WHEN unique_violation THEN
+                -- A proposal accepted at the same moment contributed this payday already
+                NULL;
+            END;
+        ELSIF plan.method = 'percentage' AND existing.status = 'contributed' AND existing.transaction_id IS NOT NULL THEN
+            v_amount := LEAST(v_amount, v_remaining);
+            CONTINUE WHEN v_amount <= 0;
+            UPDATE public.transactions
+            SET amount = amount + v_amount
+            WHERE id = existing.transaction_id;
+
+            UPDATE public.goal_contributions
+            SET planned_amount = planned_amount + v_amount
+            WHERE id = existing.id;
+        END IF;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+CREATE TRIGGER apply_goal_contribution_plans
+AFTER INSERT ON public.transactions
+FOR EACH ROW
+WHEN (NEW.type = 'income')
+EXECUTE FUNCTION public.apply_goal_contribution_plans();
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Goal contribution plans migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- goal_contribution_plans table with fixed and percentage plans per goal';
+    RAISE NOTICE '- goal_contributions table recording each payday as contributed or skipped';
+    RAISE NOTICE '- contribute_to_goal() function and a trigger that runs automatic plans on income';
+END $$;
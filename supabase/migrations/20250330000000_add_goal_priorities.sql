@@ -0,0 +1,52 @@
+-- Goal Priorities Migration
+-- Ranks savings goals and stores how surplus income is split between them: strictly by
+-- priority, in proportion to what each goal needs, or with a minimum for every goal.
+
+-- =============================================================================
+-- 1. RANK SAVINGS GOALS
+-- =============================================================================
+
+-- Lower numbers are funded first; unranked goals follow, oldest first
+ALTER TABLE public.savings_goals
+ADD COLUMN IF NOT EXISTS priority INTEGER CHECK (priority > 0);
+
+-- =============================================================================
+-- 2. WATERFALL SETTINGS
+-- =============================================================================
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS goal_waterfall_method TEXT NOT NULL DEFAULT 'strict'
+CHECK (goal_waterfall_method IN ('strict', 'proportional', 'minimum'));
+
+-- Amount every unfinished goal gets each month under the 'minimum' method
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS goal_waterfall_minimum NUMERIC(12,2) NOT NULL DEFAULT 0
+CHECK (goal_waterfall_minimum >= 0);
+
+-- =============================================================================
+-- 3. REORDER GOALS
+-- =============================================================================
+
+-- Ranks goals in the order given, so reordering is one round trip
+CREATE OR REPLACE FUNCTION set_goal_priorities(p_goal_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.savings_goals
+    SET priority = array_position(p_goal_ids, id),
+        updated_at = now()
+    WHERE id = ANY(p_goal_ids);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Goal priorities migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- savings_goals.priority ranks goals for the savings waterfall';
+    RAISE NOTICE '- profiles.goal_waterfall_method and goal_waterfall_minimum store how surplus is split';
+    RAISE NOTICE '- set_goal_priorities() function';
+END $$;
@@ -0,0 +1,80 @@
+-- Goal Withdrawals Migration
+-- Lets money be taken back out of a savings goal. A withdrawal is a goal transfer run
+-- backwards: it leaves the goal and lands in the transaction's account.
+
+-- =============================================================================
+-- 1. MARK WITHDRAWALS
+-- =============================================================================
+
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS goal_withdrawal BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.transactions
+DROP CONSTRAINT IF EXISTS transactions_goal_withdrawal_check;
+
+ALTER TABLE public.transactions
+ADD CONSTRAINT transactions_goal_withdrawal_check
+CHECK (NOT goal_withdrawal OR (type = 'transfer' AND savings_goal_id IS NOT NULL));
+
+-- =============================================================================
+-- 2. SUBTRACT WITHDRAWALS FROM GOAL PROGRESS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION calculate_savings_goal_current_amount(goal_id UUID)
+RETURNS NUMERIC AS $$
+DECLARE
+    total_saved NUMERIC DEFAULT 0;
+BEGIN
+    -- Transfers into the goal, less withdrawals out of it
+    SELECT COALESCE(SUM(CASE WHEN goal_withdrawal THEN -amount ELSE amount END), 0)
+    INTO total_saved
+    FROM public.transactions
+    WHERE savings_goal_id = goal_id
+    AND type = 'transfer';
+
+    RETURN total_saved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================================================
+-- 3. NO WITHDRAWING MORE THAN THE GOAL HOLDS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.check_goal_withdrawal()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_available NUMERIC;
+BEGIN
+    SELECT COALESCE(SUM(CASE WHEN goal_withdrawal THEN -amount ELSE amount END), 0)
+    INTO v_available
+    FROM public.transactions
+    WHERE savings_goal_id = NEW.savings_goal_id
+    AND type = 'transfer'
+    AND id IS DISTINCT FROM NEW.id;
+
+    IF NEW.amount > v_available THEN
+        RAISE EXCEPTION 'Cannot withdraw more than the % saved towards this goal', round(GREATEST(v_available, 0), 2);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER check_goal_withdrawal
+BEFORE INSERT OR UPDATE ON public.transactions
+FOR EACH ROW
+WHEN (NEW.goal_withdrawal)
+EXECUTE FUNCTION public.check_goal_withdrawal();
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Goal withdrawals migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- transactions.goal_withdrawal marks transfers out of a savings goal';
+    RAISE NOTICE '- calculate_savings_goal_current_amount subtracts withdrawals';
+    RAISE NOTICE '- check_goal_withdrawal trigger stops goals going below zero';
+END $$;
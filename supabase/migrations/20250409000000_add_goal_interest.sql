@@ -0,0 +1,103 @@
+-- Goal Interest Migration
+-- Gives savings goals an optional annual interest rate and compounding frequency. Interest
+-- is posted as income into the account that holds the goal's money and counts towards it.
+
+-- =============================================================================
+-- 1. INTEREST SETTINGS
+-- =============================================================================
+
+-- Annual rate in percent; goals without a rate earn nothing
+ALTER TABLE public.savings_goals
+ADD COLUMN IF NOT EXISTS interest_rate NUMERIC(6,3) CHECK (interest_rate >= 0 AND interest_rate <= 100);
+
+ALTER TABLE public.savings_goals
+ADD COLUMN IF NOT EXISTS compounding_frequency TEXT NOT NULL DEFAULT 'monthly'
+CHECK (compounding_frequency IN ('daily', 'monthly', 'quarterly', 'annually'));
+
+-- Account the goal's money sits in; interest stays in the goal and is recorded against it
+ALTER TABLE public.savings_goals
+ADD COLUMN IF NOT EXISTS interest_account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+-- Last day interest has been posted for
+ALTER TABLE public.savings_goals
+ADD COLUMN IF NOT EXISTS interest_posted_through DATE;
+
+-- =============================================================================
+-- 2. MARK INTEREST TRANSACTIONS
+-- =============================================================================
+
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS goal_interest BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.transactions
+DROP CONSTRAINT IF EXISTS transactions_goal_interest_check;
+
+ALTER TABLE public.transactions
+ADD CONSTRAINT transactions_goal_interest_check
+CHECK (NOT goal_interest OR (type = 'income' AND savings_goal_id IS NOT NULL));
+
+-- One interest posting per goal and day, so two tabs posting at once can't double up
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_goal_interest
+ON public.transactions(savings_goal_id, date)
+WHERE goal_interest;
+
+-- Interest is not pay: it must not set off payday contributions
+DROP TRIGGER IF EXISTS apply_goal_contribution_plans ON public.transactions;
+CREATE TRIGGER apply_goal_contribution_plans
+AFTER INSERT ON public.transactions
+FOR EACH ROW
+WHEN (NEW.type = 'income' AND NOT NEW.goal_interest)
+EXECUTE FUNCTION public.apply_goal_contribution_plans();
+
+-- =============================================================================
+-- 3. COUNT INTEREST TOWARDS GOAL PROGRESS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION calculate_savings_goal_current_amount(goal_id UUID)
+RETURNS NUMERIC AS $$
+DECLARE
+    total_saved NUMERIC DEFAULT 0;
+BEGIN
+    -- Transfers into the goal and interest earned, less withdrawals out of it
+    SELECT COALESCE(SUM(CASE WHEN goal_withdrawal THEN -amount ELSE amount END), 0)
+    INTO total_saved
+    FROM public.transactions
+    WHERE savings_goal_id = goal_id
+    AND (type = 'transfer' OR goal_interest);
+
+    RETURN total_saved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.check_goal_withdrawal()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_available NUMERIC;
+BEGIN
+    SELECT COALESCE(SUM(CASE WHEN goal_withdrawal THEN -amount ELSE amount END), 0)
+    INTO v_available
+    FROM public.transactions
+    WHERE savings_goal_id = NEW.savings_goal_id
+    AND (type = 'transfer' OR goal_interest)
+    AND id IS DISTINCT FROM NEW.id;
+
+    IF NEW.amount > v_available THEN
+        RAISE EXCEPTION 'Cannot withdraw more than the % saved towards this goal', round(GREATEST(v_available, 0), 2);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Goal interest migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- savings_goals interest_rate, compounding_frequency and interest_account_id';
+    RAISE NOTICE '- transactions.goal_interest marks interest paid on a goal, which payday plans ignore';
+    RAISE NOTICE '- calculate_savings_goal_current_amount counts interest';
+END $$;
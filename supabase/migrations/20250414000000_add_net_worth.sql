@@ -0,0 +1,135 @@
+-- Net Worth Migration
+-- Adds manually valued assets and liabilities with dated valuations, and a monthly
+-- snapshot of net worth so its history can be charted.
+
+-- =============================================================================
+-- 1. CREATE NET WORTH TABLES
+-- =============================================================================
+
+-- Things the user owns or owes that aren't tracked as accounts
+CREATE TABLE IF NOT EXISTS public.net_worth_items (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+    kind TEXT NOT NULL CHECK (kind IN ('asset', 'liability')),
+    category TEXT NOT NULL CHECK (category IN (
+        'property', 'vehicle', 'investment', 'other_asset',
+        'loan', 'credit_card', 'other_liability'
+    )),
+    notes TEXT,
+    is_archived BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (
+        (kind = 'asset' AND category IN ('property', 'vehicle', 'investment', 'other_asset'))
+        OR (kind = 'liability' AND category IN ('loan', 'credit_card', 'other_liability'))
+    )
+);
+
+-- What an item was worth, or how much was owed, on a given day
+CREATE TABLE IF NOT EXISTS public.net_worth_valuations (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    item_id UUID NOT NULL REFERENCES public.net_worth_items(id) ON DELETE CASCADE,
+    valued_on DATE NOT NULL,
+    value NUMERIC(14,2) NOT NULL CHECK (value >= 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE(item_id, valued_on)
+);
+
+-- Net worth at the end of each month, kept up to date while the month is open
+CREATE TABLE IF NOT EXISTS public.net_worth_snapshots (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    month DATE NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+    assets NUMERIC(14,2) NOT NULL DEFAULT 0,
+    liabilities NUMERIC(14,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE(user_id, month)
+);
+
+CREATE INDEX IF NOT EXISTS idx_net_worth_valuations_item
+ON public.net_worth_valuations(item_id, valued_on);
+
+-- =============================================================================
+-- 2. ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE public.net_worth_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.net_worth_valuations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.net_worth_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own net worth items"
+ON public.net_worth_items
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own net worth items"
+ON public.net_worth_items
+FOR INSERT
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can update their own net worth items"
+ON public.net_worth_items
+FOR UPDATE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete their own net worth items"
+ON public.net_worth_items
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can view their own valuations"
+ON public.net_worth_valuations
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own valuations"
+ON public.net_worth_valuations
+FOR INSERT
+WITH CHECK (
+    user_id = (SELECT auth.uid())
+    AND EXISTS (
+        SELECT 1 FROM public.net_worth_items
+        WHERE id = item_id AND user_id = (SELECT auth.uid())
+    )
+);
+
+CREATE POLICY "Users can update their own valuations"
+ON public.net_worth_valuations
+FOR UPDATE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete their own valuations"
+ON public.net_worth_valuations
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can view their own net worth snapshots"
+ON public.net_worth_snapshots
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own net worth snapshots"
+ON public.net_worth_snapshots
+FOR INSERT
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can update their own net worth snapshots"
+ON public.net_worth_snapshots
+FOR UPDATE
+USING (user_id = (SELECT auth.uid()));
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Net worth migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- net_worth_items table for assets and liabilities';
+    RAISE NOTICE '- net_worth_valuations table for dated values';
+    RAISE NOTICE '- net_worth_snapshots table for monthly history';
+END $$;
@@ -0,0 +1,113 @@
+-- Debts Migration
+-- Adds loans and cards being paid down, links payment transactions back to them, and
+-- stores which payoff strategy the planner follows and how much extra goes in each month.
+
+-- =============================================================================
+-- 1. CREATE DEBTS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.debts (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+    debt_type TEXT NOT NULL DEFAULT 'loan'
+    CHECK (debt_type IN ('credit_card', 'loan', 'mortgage', 'other')),
+    -- Balance from the latest statement; payments dated after balance_as_of come off it
+    balance NUMERIC(14,2) NOT NULL CHECK (balance >= 0),
+    balance_as_of DATE NOT NULL DEFAULT CURRENT_DATE,
+    apr NUMERIC(6,3) NOT NULL DEFAULT 0 CHECK (apr >= 0 AND apr <= 100),
+    minimum_payment NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (minimum_payment >= 0),
+    due_day INTEGER NOT NULL DEFAULT 1 CHECK (due_day BETWEEN 1 AND 31),
+    -- Payoff order under the 'custom' strategy; lower numbers are paid off first
+    priority INTEGER CHECK (priority > 0),
+    is_archived BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- =============================================================================
+-- 2. LINK PAYMENTS TO DEBTS
+-- =============================================================================
+
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS debt_id UUID REFERENCES public.debts(id) ON DELETE SET NULL;
+
+-- Only money going out can pay a debt
+ALTER TABLE public.transactions
+DROP CONSTRAINT IF EXISTS transactions_debt_payment_check;
+
+ALTER TABLE public.transactions
+ADD CONSTRAINT transactions_debt_payment_check
+CHECK (debt_id IS NULL OR type IN ('expense', 'transfer'));
+
+CREATE INDEX IF NOT EXISTS idx_transactions_debt
+ON public.transactions(debt_id, date)
+WHERE debt_id IS NOT NULL;
+
+-- =============================================================================
+-- 3. PAYOFF SETTINGS
+-- =============================================================================
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS debt_strategy TEXT NOT NULL DEFAULT 'avalanche'
+CHECK (debt_strategy IN ('avalanche', 'snowball', 'custom'));
+
+-- Paid on top of every minimum each month, to the first debt in payoff order
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS debt_extra_payment NUMERIC(12,2) NOT NULL DEFAULT 0
+CHECK (debt_extra_payment >= 0);
+
+-- =============================================================================
+-- 4. REORDER DEBTS
+-- =============================================================================
+
+-- Ranks debts in the order given for the 'custom' strategy
+CREATE OR REPLACE FUNCTION set_debt_priorities(p_debt_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.debts
+    SET priority = array_position(p_debt_ids, id),
+        updated_at = now()
+    WHERE id = ANY(p_debt_ids);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- =============================================================================
+-- 5. ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE public.debts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own debts"
+ON public.debts
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own debts"
+ON public.debts
+FOR INSERT
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can update their own debts"
+ON public.debts
+FOR UPDATE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete their own debts"
+ON public.debts
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Debts migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- debts table with balance, APR, minimum payment and due day';
+    RAISE NOTICE '- transactions.debt_id links payments to a debt';
+    RAISE NOTICE '- profiles.debt_strategy and debt_extra_payment store the payoff plan';
+    RAISE NOTICE '- set_debt_priorities() function';
+END $$;
@@ -0,0 +1,76 @@
+-- Insight Templates Migration
+-- Stores user-defined insight templates: conditions on spending, savings, category and
+-- budget metrics, with title and content that fill in the matching values. Built-in
+-- templates live in the app; users can switch any of them off.
+
+-- =============================================================================
+-- 1. CREATE INSIGHT TEMPLATES TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.insight_templates (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+    -- The generation run the template is checked in
+    insight_type VARCHAR(20) NOT NULL
+    CHECK (insight_type IN ('daily', 'weekly', 'monthly', 'threshold_alert')),
+    title_template TEXT NOT NULL CHECK (char_length(title_template) BETWEEN 1 AND 200),
+    content_template TEXT NOT NULL CHECK (char_length(content_template) BETWEEN 1 AND 1000),
+    priority VARCHAR(10) NOT NULL DEFAULT 'medium'
+    CHECK (priority IN ('low', 'medium', 'high')),
+    -- [{ "field": "savings_rate", "operator": "lt", "value": 10 }, ...]; all must hold
+    conditions JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(conditions) = 'array'),
+    is_enabled BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_insight_templates_user
+ON public.insight_templates(user_id, insight_type);
+
+-- =============================================================================
+-- 2. DISABLED BUILT-IN TEMPLATES
+-- =============================================================================
+
+-- Ids of built-in templates the user has switched off
+ALTER TABLE public.user_insight_preferences
+ADD COLUMN IF NOT EXISTS disabled_template_ids TEXT[] NOT NULL DEFAULT '{}';
+
+-- =============================================================================
+-- 3. ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE public.insight_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own insight templates"
+ON public.insight_templates
+FOR SELECT
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can create their own insight templates"
+ON public.insight_templates
+FOR INSERT
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can update their own insight templates"
+ON public.insight_templates
+FOR UPDATE
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Users can delete their own insight templates"
+ON public.insight_templates
+FOR DELETE
+USING (user_id = (SELECT auth.uid()));
+
+-- =============================================================================
+-- MIGRATION COMPLETE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Insight templates migration completed successfully';
+    RAISE NOTICE 'Features added:';
+    RAISE NOTICE '- insight_templates table with conditions and title/content templates';
+    RAISE NOTICE '- user_insight_preferences.disabled_template_ids switches off built-in templates';
+END $$;
@@ -0,0 +1,9 @@
+-- Transaction External ID Migration
+-- Keeps the bank-assigned identifier (OFX FITID) of imported transactions so re-imports are caught
+
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_external_id
+ON public.transactions(user_id, external_id)
+WHERE external_id IS NOT NULL;